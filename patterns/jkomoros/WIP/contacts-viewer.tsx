@@ -0,0 +1,423 @@
+/// <cts-enable />
+/**
+ * Contacts Viewer
+ *
+ * View your Contacts synced via apple-sync CLI.
+ * Contacts are stored in the `contacts` input cell.
+ *
+ * To sync contacts, run:
+ *   ./tools/apple-sync.ts contacts
+ *
+ * Add --people to also create or update a person charm for each contact.
+ */
+import {
+  Default,
+  derive,
+  handler,
+  ifElse,
+  NAME,
+  pattern,
+  UI,
+  Writable,
+} from "commontools";
+
+type CFC<T, C extends string> = T;
+type Confidential<T> = CFC<T, "confidential">;
+
+/**
+ * An email address or phone number with its label
+ */
+export type ContactEntry = {
+  label: string; // "mobile", "work", "home", or a custom label
+  value: string;
+};
+
+export type ContactAddress = {
+  label: string;
+  street: string;
+  city: string;
+  region: string;
+  postalCode: string;
+  country: string;
+};
+
+/**
+ * A contact item
+ */
+export type ContactItem = {
+  id: string;
+  displayName: string;
+  givenName: string;
+  familyName: string;
+  nickname: string;
+  organization: string | null;
+  jobTitle: string | null;
+  emails: ContactEntry[];
+  phones: ContactEntry[];
+  addresses: ContactAddress[];
+  birthday: string | null; // YYYY-MM-DD, or --MM-DD when the year is unknown
+  notes: string | null;
+  modificationDate: string | null;
+};
+
+// Format a birthday for display
+function formatBirthday(birthday: string | null): string {
+  if (!birthday) return "";
+  const noYear = birthday.match(/^--(\d{2})-(\d{2})$/);
+  try {
+    if (noYear) {
+      const date = new Date(2000, Number(noYear[1]) - 1, Number(noYear[2]));
+      return date.toLocaleDateString([], { month: "long", day: "numeric" });
+    }
+    const [year, month, day] = birthday.split("-").map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString([], {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
+  } catch {
+    return birthday;
+  }
+}
+
+// Format an address on one line
+function formatAddress(address: ContactAddress): string {
+  return [
+    address.street,
+    address.city,
+    [address.region, address.postalCode].filter(Boolean).join(" "),
+    address.country,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+// Letter a contact is filed under (family name first, like Contacts.app)
+function sortLetter(contact: ContactItem): string {
+  const name = contact.familyName || contact.displayName || "";
+  const letter = name.charAt(0).toUpperCase();
+  return /[A-Z]/.test(letter) ? letter : "#";
+}
+
+// Group contacts by letter
+function groupByLetter(contacts: ContactItem[]): Map<string, ContactItem[]> {
+  const byLetter = new Map<string, ContactItem[]>();
+  for (const c of contacts) {
+    if (!c) continue;
+    const letter = sortLetter(c);
+    const existing = byLetter.get(letter) || [];
+    existing.push(c);
+    byLetter.set(letter, existing);
+  }
+  return byLetter;
+}
+
+// Handler to select a contact
+const selectContact = handler<
+  unknown,
+  { contactId: string; selectedContactId: Writable<string | null> }
+>((_, { contactId, selectedContactId }) => {
+  selectedContactId.set(contactId);
+});
+
+// Handler to go back to list
+const backToList = handler<
+  unknown,
+  { selectedContactId: Writable<string | null> }
+>((_, { selectedContactId }) => {
+  selectedContactId.set(null);
+});
+
+export default pattern<{
+  contacts: Default<Confidential<ContactItem[]>, []>;
+}>(({ contacts }) => {
+  const selectedContactId = Writable.of<string | null>(null);
+
+  const contactCount = derive(
+    contacts,
+    (c: ContactItem[]) => c?.filter((item) => item)?.length ?? 0
+  );
+
+  // Get contacts grouped by letter
+  const contactsByLetter = derive(contacts, (c: ContactItem[]) => {
+    const byLetter = groupByLetter((c || []).filter((item) => item));
+    const groups: Array<{ letter: string; contacts: ContactItem[] }> = [];
+
+    for (const [letter, letterContacts] of byLetter) {
+      groups.push({
+        letter,
+        contacts: letterContacts,
+      });
+    }
+
+    // Sort groups alphabetically, "#" last
+    groups.sort((a, b) =>
+      a.letter === "#" ? 1 : b.letter === "#" ? -1 : a.letter.localeCompare(b.letter)
+    );
+
+    return groups;
+  });
+
+  // Get selected contact details
+  const selectedContact = derive(
+    { contacts, selectedContactId },
+    ({
+      contacts,
+      selectedContactId,
+    }: {
+      contacts: ContactItem[];
+      selectedContactId: string | null;
+    }) => {
+      if (!selectedContactId || !contacts) return null;
+      return (
+        contacts.find((c: ContactItem) => c && c.id === selectedContactId) ||
+        null
+      );
+    }
+  );
+
+  return {
+    [NAME]: derive(contactCount, (count: number) => `Contacts (${count})`),
+    [UI]: (
+      <ct-screen
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          backgroundColor: "#f5f5f5",
+        }}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: "12px 16px",
+            backgroundColor: "#fff",
+            borderBottom: "1px solid #e0e0e0",
+            display: "flex",
+            alignItems: "center",
+            gap: "12px",
+          }}
+        >
+          {ifElse(
+            derive(selectedContactId, (id: string | null) => id !== null),
+            <button
+              onClick={backToList({ selectedContactId })}
+              style={{
+                border: "none",
+                background: "none",
+                cursor: "pointer",
+                fontSize: "18px",
+                padding: "4px 8px",
+              }}
+            >
+              Back
+            </button>,
+            <span style={{ fontSize: "24px" }}>Contacts</span>
+          )}
+        </div>
+
+        {/* Content */}
+        <div style={{ flex: 1, overflow: "auto" }}>
+          {ifElse(
+            derive(contactCount, (c: number) => c === 0),
+            // Empty state
+            <div
+              style={{
+                display: "flex",
+                flexDirection: "column",
+                alignItems: "center",
+                justifyContent: "center",
+                height: "100%",
+                color: "#666",
+                padding: "20px",
+                textAlign: "center",
+              }}
+            >
+              <div style={{ fontSize: "48px", marginBottom: "16px" }}>
+                Contacts
+              </div>
+              <div
+                style={{
+                  fontSize: "18px",
+                  fontWeight: "bold",
+                  marginBottom: "8px",
+                }}
+              >
+                No Contacts Yet
+              </div>
+              <div style={{ fontSize: "14px", maxWidth: "300px" }}>
+                Run the apple-sync CLI to import your contacts:
+                <pre
+                  style={{
+                    backgroundColor: "#e0e0e0",
+                    padding: "8px 12px",
+                    borderRadius: "4px",
+                    marginTop: "12px",
+                    fontSize: "12px",
+                  }}
+                >
+                  ./tools/apple-sync.ts contacts
+                </pre>
+              </div>
+            </div>,
+            // Has contacts
+            ifElse(
+              derive(selectedContactId, (id: string | null) => id === null),
+              // Contact list view (grouped by letter)
+              <div>
+                {derive(contactsByLetter, (groups) =>
+                  groups.map((group, groupIdx: number) => (
+                    <div key={groupIdx}>
+                      {/* Letter header */}
+                      <div
+                        style={{
+                          padding: "4px 16px",
+                          backgroundColor: "#e8e8e8",
+                          fontWeight: "600",
+                          fontSize: "14px",
+                          color: "#666",
+                        }}
+                      >
+                        {group.letter}
+                      </div>
+                      {/* Contacts for this letter */}
+                      {group.contacts.map((c, idx: number) => (
+                        <div
+                          key={idx}
+                          onClick={selectContact({
+                            contactId: c.id,
+                            selectedContactId,
+                          })}
+                          style={{
+                            padding: "12px 16px",
+                            backgroundColor: "#fff",
+                            borderBottom: "1px solid #f0f0f0",
+                            cursor: "pointer",
+                          }}
+                        >
+                          <div style={{ fontWeight: "500" }}>
+                            {c.displayName || "No Name"}
+                          </div>
+                          <div
+                            style={{
+                              fontSize: "13px",
+                              color: "#666",
+                              marginTop: "2px",
+                            }}
+                          >
+                            {c.organization ||
+                              c.emails?.[0]?.value ||
+                              c.phones?.[0]?.value ||
+                              ""}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ))
+                )}
+              </div>,
+              // Contact detail view
+              <div style={{ padding: "20px", backgroundColor: "#fff" }}>
+                {derive(selectedContact, (c: ContactItem | null) =>
+                  c ? (
+                    <div>
+                      {/* Name */}
+                      <div
+                        style={{
+                          margin: "0 0 4px 0",
+                          fontSize: "24px",
+                          fontWeight: "bold",
+                        }}
+                      >
+                        {c.displayName || "No Name"}
+                      </div>
+                      {c.nickname ? (
+                        <div style={{ color: "#666" }}>"{c.nickname}"</div>
+                      ) : null}
+                      {c.organization || c.jobTitle ? (
+                        <div style={{ color: "#666", marginTop: "4px" }}>
+                          {[c.jobTitle, c.organization]
+                            .filter(Boolean)
+                            .join(", ")}
+                        </div>
+                      ) : null}
+
+                      {/* Emails and phones */}
+                      <div style={{ marginTop: "20px" }}>
+                        {[...(c.emails || []), ...(c.phones || [])].map(
+                          (entry, idx: number) => (
+                            <div
+                              key={idx}
+                              style={{
+                                padding: "8px 0",
+                                borderBottom: "1px solid #f0f0f0",
+                              }}
+                            >
+                              <div style={{ fontSize: "12px", color: "#999" }}>
+                                {entry.label}
+                              </div>
+                              <div style={{ color: "#007AFF" }}>
+                                {entry.value}
+                              </div>
+                            </div>
+                          )
+                        )}
+                      </div>
+
+                      {/* Addresses */}
+                      {(c.addresses || []).map((address, idx: number) => (
+                        <div
+                          key={idx}
+                          style={{
+                            padding: "8px 0",
+                            borderBottom: "1px solid #f0f0f0",
+                          }}
+                        >
+                          <div style={{ fontSize: "12px", color: "#999" }}>
+                            {address.label}
+                          </div>
+                          <div>{formatAddress(address)}</div>
+                        </div>
+                      ))}
+
+                      {/* Birthday */}
+                      {c.birthday ? (
+                        <div
+                          style={{
+                            padding: "8px 0",
+                            borderBottom: "1px solid #f0f0f0",
+                          }}
+                        >
+                          <div style={{ fontSize: "12px", color: "#999" }}>
+                            birthday
+                          </div>
+                          <div>{formatBirthday(c.birthday)}</div>
+                        </div>
+                      ) : null}
+
+                      {/* Notes */}
+                      {c.notes ? (
+                        <div
+                          style={{
+                            marginTop: "16px",
+                            color: "#333",
+                            whiteSpace: "pre-wrap",
+                            lineHeight: "1.6",
+                          }}
+                        >
+                          {c.notes}
+                        </div>
+                      ) : null}
+                    </div>
+                  ) : (
+                    <div>Contact not found</div>
+                  )
+                )}
+              </div>
+            )
+          )}
+        </div>
+      </ct-screen>
+    ),
+    contacts,
+  };
+});
@@ -3,7 +3,11 @@
  * iMessage Viewer
  *
  * View your iMessage conversations synced via apple-sync CLI.
- * Messages are stored in the `messages` input cell.
+ * Messages are stored in the `messages` input cell, and chat details
+ * (group names, participants) in the `chats` input cell.
+ *
+ * Tapbacks are synced as their own messages and shown on the message they
+ * react to. Conversations can be searched and narrowed to a date range.
  *
  * To sync messages, run:
  *   ./tools/apple-sync.ts imessage
@@ -22,6 +26,32 @@ import {
 type CFC<T, C extends string> = T;
 type Confidential<T> = CFC<T, "confidential">;
 
+export type TapbackKind =
+  | "love"
+  | "like"
+  | "dislike"
+  | "laugh"
+  | "emphasize"
+  | "question"
+  | "emoji";
+
+/**
+ * A reaction to another message
+ */
+export type Tapback = {
+  targetGuid: string;
+  kind: TapbackKind;
+  emoji: string | null;
+  removed: boolean; // The sender took the tapback back
+};
+
+export type MessageAttachment = {
+  name: string;
+  mimeType: string | null;
+  size: number; // Bytes
+  path: string | null;
+};
+
 /**
  * A single iMessage message
  */
@@ -33,6 +63,34 @@ export type Message = {
   date: string;
   chatId: string;
   handleId: string;
+  tapback?: Tapback | null;
+  attachments?: MessageAttachment[];
+};
+
+/**
+ * Details of a chat (one-to-one or group)
+ */
+export type Chat = {
+  chatId: string;
+  displayName: string | null; // Name given to a group chat
+  isGroup: boolean;
+  participants: string[];
+};
+
+// A message with the tapbacks currently on it
+type ThreadMessage = {
+  message: Message;
+  reactions: Array<{ label: string; count: number }>;
+};
+
+const TAPBACK_LABELS: Record<TapbackKind, string> = {
+  love: "❤️",
+  like: "👍",
+  dislike: "👎",
+  laugh: "😂",
+  emphasize: "‼️",
+  question: "❓",
+  emoji: "🙂",
 };
 
 // Format a date for display
@@ -69,6 +127,68 @@ function formatChatId(chatId: string): string {
   return chatId;
 }
 
+// Name of a conversation: the group's name, its participants, or the chat ID
+function chatTitle(chatId: string, chat: Chat | undefined): string {
+  if (chat?.displayName) return chat.displayName;
+  if (chat?.isGroup && chat.participants.length > 0) {
+    return chat.participants.map(formatChatId).join(", ");
+  }
+  return formatChatId(chatId);
+}
+
+// Format an attachment size for display
+function formatSize(bytes: number): string {
+  if (!bytes) return "";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Whether a message's date is within a YYYY-MM-DD range (either end may be empty)
+function inDateRange(dateStr: string, from: string, to: string): boolean {
+  const date = new Date(dateStr);
+  if (from && date < new Date(`${from}T00:00:00`)) return false;
+  if (to && date > new Date(`${to}T23:59:59.999`)) return false;
+  return true;
+}
+
+/**
+ * Fold tapbacks into the messages they react to. Each sender has at most one
+ * tapback per message: a new one replaces theirs, a removal takes it back.
+ */
+function foldTapbacks(messages: Message[]): ThreadMessage[] {
+  const sorted = [...messages].sort((a, b) =>
+    new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+  const bySender = new Map<string, Map<string, Tapback>>();
+  for (const msg of sorted) {
+    if (!msg.tapback) continue;
+    const sender = msg.isFromMe ? "me" : msg.handleId;
+    const onTarget = bySender.get(msg.tapback.targetGuid) ||
+      new Map<string, Tapback>();
+    if (!msg.tapback.removed) {
+      onTarget.set(sender, msg.tapback);
+    } else if (onTarget.get(sender)?.kind === msg.tapback.kind) {
+      onTarget.delete(sender);
+    }
+    bySender.set(msg.tapback.targetGuid, onTarget);
+  }
+
+  return sorted
+    .filter((msg) => !msg.tapback)
+    .map((message) => {
+      const counts = new Map<string, number>();
+      for (const tapback of bySender.get(message.guid)?.values() || []) {
+        const label = tapback.emoji || TAPBACK_LABELS[tapback.kind];
+        counts.set(label, (counts.get(label) || 0) + 1);
+      }
+      return {
+        message,
+        reactions: [...counts].map(([label, count]) => ({ label, count })),
+      };
+    });
+}
+
 // Group messages by chat ID
 function groupByChat(messages: Message[]): Map<string, Message[]> {
   const byChat = new Map<string, Message[]>();
@@ -90,30 +210,77 @@ const selectConversation = handler<
   selectedChatId.set(chatId);
 });
 
-// Handler to go back to conversation list
+// Handler to go back to conversation list (filters are per thread)
 const backToList = handler<
   unknown,
-  { selectedChatId: Writable<string | null> }
->((_, { selectedChatId }) => {
+  {
+    selectedChatId: Writable<string | null>;
+    searchQuery: Writable<string>;
+    fromDate: Writable<string>;
+    toDate: Writable<string>;
+  }
+>((_, { selectedChatId, searchQuery, fromDate, toDate }) => {
   selectedChatId.set(null);
+  searchQuery.set("");
+  fromDate.set("");
+  toDate.set("");
+});
+
+// Handler to clear the thread filters
+const clearFilters = handler<
+  unknown,
+  {
+    searchQuery: Writable<string>;
+    fromDate: Writable<string>;
+    toDate: Writable<string>;
+  }
+>((_, { searchQuery, fromDate, toDate }) => {
+  searchQuery.set("");
+  fromDate.set("");
+  toDate.set("");
 });
 
 export default pattern<{
   messages: Default<Confidential<Message[]>, []>;
-}>(({ messages }) => {
+  chats: Default<Confidential<Chat[]>, []>;
+}>(({ messages, chats }) => {
   const selectedChatId = Writable.of<string | null>(null);
+  const searchQuery = Writable.of<string>("");
+  const fromDate = Writable.of<string>("");
+  const toDate = Writable.of<string>("");
 
-  const messageCount = derive(messages, (msgs: Message[]) => msgs?.length ?? 0);
+  const messageCount = derive(
+    messages,
+    (msgs: Message[]) => msgs?.filter((m) => m && !m.tapback)?.length ?? 0,
+  );
 
   // Group messages into conversations
-  const conversationList = derive(messages, (msgs: Message[]) => {
-    const byChat = groupByChat(msgs || []);
-    const convos: Array<{ chatId: string; lastMessage: Message; count: number }> = [];
+  const conversationList = derive({ messages, chats }, ({
+    messages,
+    chats,
+  }: {
+    messages: Message[];
+    chats: Chat[];
+  }) => {
+    const chatById = new Map(
+      (chats || []).filter((c) => c).map((c) => [c.chatId, c]),
+    );
+    const byChat = groupByChat((messages || []).filter((m) => m && !m.tapback));
+    const convos: Array<{
+      chatId: string;
+      title: string;
+      isGroup: boolean;
+      lastMessage: Message;
+      count: number;
+    }> = [];
 
     for (const [chatId, chatMsgs] of byChat) {
       chatMsgs.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+      const chat = chatById.get(chatId);
       convos.push({
         chatId,
+        title: chatTitle(chatId, chat),
+        isGroup: chat?.isGroup ?? false,
         lastMessage: chatMsgs[chatMsgs.length - 1],
         count: chatMsgs.length,
       });
@@ -126,20 +293,62 @@ export default pattern<{
     return convos;
   });
 
-  const conversationCount = derive(conversationList, (c) => c?.length ?? 0);
+  // Details of the selected chat
+  const selectedChat = derive(
+    { chats, selectedChatId },
+    ({ chats, selectedChatId }: { chats: Chat[]; selectedChatId: string | null }) => {
+      if (!selectedChatId) return null;
+      const chat = (chats || []).find((c) => c && c.chatId === selectedChatId);
+      return {
+        title: chatTitle(selectedChatId, chat),
+        isGroup: chat?.isGroup ?? false,
+        participants: chat?.participants ?? [],
+      };
+    }
+  );
 
-  // Get messages for selected conversation
+  // Get messages for selected conversation, with tapbacks folded in and filters applied
   const selectedMessages = derive(
-    { messages, selectedChatId },
-    ({ messages, selectedChatId }: { messages: Message[]; selectedChatId: string | null }) => {
+    { messages, selectedChatId, searchQuery, fromDate, toDate },
+    ({
+      messages,
+      selectedChatId,
+      searchQuery,
+      fromDate,
+      toDate,
+    }: {
+      messages: Message[];
+      selectedChatId: string | null;
+      searchQuery: string;
+      fromDate: string;
+      toDate: string;
+    }) => {
       if (!selectedChatId || !messages) return [];
       // Filter out null messages and match chatId
-      const filtered = messages.filter((m: Message) => m && m.chatId === selectedChatId);
-      filtered.sort((a: Message, b: Message) => new Date(a.date).getTime() - new Date(b.date).getTime());
-      return filtered;
+      const thread = foldTapbacks(
+        messages.filter((m: Message) => m && m.chatId === selectedChatId),
+      );
+      const query = (searchQuery || "").trim().toLowerCase();
+      return thread.filter(({ message }) =>
+        inDateRange(message.date, fromDate, toDate) &&
+        (!query ||
+          (message.text || "").toLowerCase().includes(query) ||
+          (message.attachments || []).some((a) =>
+            a.name.toLowerCase().includes(query)
+          ))
+      );
     }
   );
 
+  const isFiltered = derive(
+    { searchQuery, fromDate, toDate },
+    ({ searchQuery, fromDate, toDate }: {
+      searchQuery: string;
+      fromDate: string;
+      toDate: string;
+    }) => !!(searchQuery || fromDate || toDate),
+  );
+
   return {
     [NAME]: derive(messageCount, (count: number) => `iMessage (${count} messages)`),
     [UI]: (
@@ -155,18 +364,37 @@ export default pattern<{
         }}>
           {ifElse(
             derive(selectedChatId, (id: string | null) => id !== null),
-            <button
-              onClick={backToList({ selectedChatId })}
-              style={{
-                border: "none",
-                background: "none",
-                cursor: "pointer",
-                fontSize: "18px",
-                padding: "4px 8px",
-              }}
-            >
-              Back
-            </button>,
+            <div style={{ display: "flex", alignItems: "center", gap: "12px" }}>
+              <button
+                onClick={backToList({ selectedChatId, searchQuery, fromDate, toDate })}
+                style={{
+                  border: "none",
+                  background: "none",
+                  cursor: "pointer",
+                  fontSize: "18px",
+                  padding: "4px 8px",
+                }}
+              >
+                Back
+              </button>
+              {derive(selectedChat, (chat) =>
+                chat
+                  ? (
+                    <div>
+                      <div style={{ fontWeight: "600" }}>{chat.title}</div>
+                      {chat.isGroup
+                        ? (
+                          <div style={{ fontSize: "12px", color: "#999" }}>
+                            {chat.participants.length} people:{" "}
+                            {chat.participants.map(formatChatId).join(", ")}
+                          </div>
+                        )
+                        : null}
+                    </div>
+                  )
+                  : null
+              )}
+            </div>,
             <span style={{ fontSize: "24px" }}>Messages</span>
           )}
         </div>
@@ -221,10 +449,17 @@ export default pattern<{
                       }}
                     >
                       <div style={{ fontWeight: "600" }}>
-                        {formatChatId(convo.chatId)}
+                        {convo.title}
+                        {convo.isGroup
+                          ? <span style={{ fontSize: "12px", color: "#999", fontWeight: "400" }}> (group)</span>
+                          : null}
                       </div>
                       <div style={{ fontSize: "14px", color: "#666" }}>
-                        {convo.lastMessage.isFromMe ? "You: " : ""}
+                        {convo.lastMessage.isFromMe
+                          ? "You: "
+                          : convo.isGroup
+                          ? `${formatChatId(convo.lastMessage.handleId)}: `
+                          : ""}
                         {convo.lastMessage.text || "(attachment)"}
                       </div>
                       <div style={{ fontSize: "12px", color: "#999" }}>
@@ -235,36 +470,131 @@ export default pattern<{
                 )}
               </div>,
               // Conversation detail view
-              <div style={{ padding: "16px", backgroundColor: "#e5ddd5" }}>
-                {derive(selectedMessages, (msgs: Message[]) =>
-                  msgs.map((msg: Message, idx: number) => (
-                    <div
-                      key={idx}
-                      style={{
-                        display: "flex",
-                        justifyContent: msg.isFromMe ? "flex-end" : "flex-start",
-                        marginBottom: "8px",
-                      }}
-                    >
-                      <div style={{
-                        maxWidth: "70%",
-                        padding: "8px 12px",
-                        borderRadius: "18px",
-                        backgroundColor: msg.isFromMe ? "#007AFF" : "#fff",
-                        color: msg.isFromMe ? "#fff" : "#000",
-                      }}>
-                        <div>{msg.text || "(attachment)"}</div>
-                        <div style={{
-                          fontSize: "11px",
-                          color: msg.isFromMe ? "rgba(255,255,255,0.7)" : "#999",
-                          marginTop: "4px",
-                        }}>
-                          {formatDate(msg.date)}
-                        </div>
-                      </div>
-                    </div>
-                  ))
-                )}
+              <div>
+                {/* Search and date range */}
+                <div style={{
+                  padding: "8px 16px",
+                  backgroundColor: "#fff",
+                  borderBottom: "1px solid #e0e0e0",
+                  display: "flex",
+                  flexWrap: "wrap",
+                  alignItems: "center",
+                  gap: "8px",
+                }}>
+                  <ct-input
+                    style={{ flex: "1", minWidth: "160px" }}
+                    placeholder="Search this conversation..."
+                    $value={searchQuery}
+                  />
+                  <ct-input type="date" $value={fromDate} />
+                  <span style={{ color: "#999" }}>to</span>
+                  <ct-input type="date" $value={toDate} />
+                  {ifElse(
+                    isFiltered,
+                    <ct-button onClick={clearFilters({ searchQuery, fromDate, toDate })}>
+                      Clear
+                    </ct-button>,
+                    null
+                  )}
+                </div>
+
+                <div style={{ padding: "16px", backgroundColor: "#e5ddd5" }}>
+                  {derive(
+                    { selectedMessages, selectedChat },
+                    ({ selectedMessages, selectedChat }) =>
+                      selectedMessages.length === 0
+                        ? (
+                          <div style={{ textAlign: "center", color: "#666" }}>
+                            No messages match
+                          </div>
+                        )
+                        : selectedMessages.map(({ message: msg, reactions }, idx: number) => (
+                          <div
+                            key={idx}
+                            style={{
+                              display: "flex",
+                              flexDirection: "column",
+                              alignItems: msg.isFromMe ? "flex-end" : "flex-start",
+                              marginBottom: "8px",
+                            }}
+                          >
+                            {/* Sender, in group chats */}
+                            {selectedChat?.isGroup && !msg.isFromMe
+                              ? (
+                                <div style={{ fontSize: "11px", color: "#666", margin: "0 12px 2px" }}>
+                                  {formatChatId(msg.handleId)}
+                                </div>
+                              )
+                              : null}
+                            <div style={{
+                              maxWidth: "70%",
+                              padding: "8px 12px",
+                              borderRadius: "18px",
+                              backgroundColor: msg.isFromMe ? "#007AFF" : "#fff",
+                              color: msg.isFromMe ? "#fff" : "#000",
+                            }}>
+                              {msg.text ? <div>{msg.text}</div> : null}
+                              {(msg.attachments || []).map((a, aIdx: number) => (
+                                <div
+                                  key={aIdx}
+                                  style={{
+                                    marginTop: "4px",
+                                    padding: "6px 8px",
+                                    borderRadius: "8px",
+                                    backgroundColor: msg.isFromMe
+                                      ? "rgba(255,255,255,0.2)"
+                                      : "#f0f0f0",
+                                    fontSize: "13px",
+                                  }}
+                                >
+                                  <div style={{ fontWeight: "500" }}>{a.name}</div>
+                                  <div style={{ fontSize: "11px", opacity: 0.7 }}>
+                                    {[a.mimeType, formatSize(a.size)].filter(Boolean).join(" · ")}
+                                  </div>
+                                </div>
+                              ))}
+                              {!msg.text && !(msg.attachments || []).length
+                                ? <div>(attachment)</div>
+                                : null}
+                              <div style={{
+                                fontSize: "11px",
+                                color: msg.isFromMe ? "rgba(255,255,255,0.7)" : "#999",
+                                marginTop: "4px",
+                              }}>
+                                {formatDate(msg.date)}
+                              </div>
+                            </div>
+                            {/* Tapbacks */}
+                            {reactions.length > 0
+                              ? (
+                                <div style={{
+                                  display: "flex",
+                                  gap: "4px",
+                                  marginTop: "-4px",
+                                  padding: "0 8px",
+                                }}>
+                                  {reactions.map((r, rIdx: number) => (
+                                    <span
+                                      key={rIdx}
+                                      style={{
+                                        backgroundColor: "#fff",
+                                        borderRadius: "10px",
+                                        padding: "1px 6px",
+                                        fontSize: "12px",
+                                        boxShadow: "0 1px 2px rgba(0,0,0,0.2)",
+                                      }}
+                                    >
+                                      {r.label}
+                                      {r.count > 1 ? ` ${r.count}` : ""}
+                                    </span>
+                                  ))}
+                                </div>
+                              )
+                              : null}
+                          </div>
+                        ))
+                  )}
+                </div>
               </div>
             )
           )}
@@ -272,5 +602,6 @@ export default pattern<{
       </ct-screen>
     ),
     messages,
+    chats,
   };
 });
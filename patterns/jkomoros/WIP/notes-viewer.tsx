@@ -7,6 +7,9 @@
  *
  * To sync notes, run:
  *   ./tools/apple-sync.ts notes
+ *
+ * Bodies are Markdown (checklists, headings, tables, links) when the CLI can
+ * read Notes' database; notes can be filtered by folder, including subfolders.
  */
 import {
   Default,
@@ -22,18 +25,32 @@ import {
 type CFC<T, C extends string> = T;
 type Confidential<T> = CFC<T, "confidential">;
 
+/**
+ * An attachment of a note (image, file, link, table, ...)
+ */
+export type NoteAttachment = {
+  id: string;
+  type: string; // UTI, e.g. "public.jpeg", "com.apple.notes.table"
+  name: string;
+  url: string | null;
+};
+
 /**
  * A note item
  */
 export type NoteItem = {
   id: string;
   title: string;
-  body: string;
+  body: string; // Markdown
   creationDate: string;
   modificationDate: string;
   folderName: string;
+  folderPath: string; // e.g. "Work/Projects"
+  attachments: NoteAttachment[];
 };
 
+const ALL_FOLDERS = "";
+
 // Format a date for display
 function formatDate(dateStr: string): string {
   if (!dateStr) return "";
@@ -64,6 +81,43 @@ function formatDate(dateStr: string): string {
   }
 }
 
+// Folder path of a note (notes synced before folder paths only have a name)
+function notePath(note: NoteItem): string {
+  return note.folderPath || note.folderName;
+}
+
+// Whether a note is in a folder or one of its subfolders
+function inFolder(note: NoteItem, folder: string): boolean {
+  const path = notePath(note);
+  return folder === ALL_FOLDERS || path === folder || path.startsWith(folder + "/");
+}
+
+// Plain-text preview of a Markdown body, without the title line
+function previewText(note: NoteItem): string {
+  const lines = (note.body || "")
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/^\s*(#+|>|[-*]( \[[ x]\])?|\d+\.)\s+/, "")
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+        .replace(/[*~`|]/g, "")
+        .trim()
+    )
+    .filter((line) => line && !/^[-\s]+$/.test(line));
+  if (lines[0] === note.title) lines.shift();
+  const text = lines.join(" ");
+  return text.length > 80 ? text.substring(0, 80) + "..." : text;
+}
+
+// Label for an attachment's type
+function attachmentKind(attachment: NoteAttachment): string {
+  if (attachment.type === "com.apple.notes.table") return "Table";
+  if (attachment.url) return "Link";
+  if (/image|jpeg|png|heic|gif/.test(attachment.type)) return "Image";
+  if (attachment.type === "com.adobe.pdf") return "PDF";
+  return "File";
+}
+
 // Get folder color based on name
 function getFolderColor(folderName: string): string {
   const colors: Record<string, string> = {
@@ -74,17 +128,18 @@ function getFolderColor(folderName: string): string {
     Ideas: "#FF9500", // Orange
     Projects: "#5856D6", // Purple
   };
-  return colors[folderName] || "#8E8E93";
+  // Nested folders are colored by their own name
+  return colors[folderName.split("/").pop() || ""] || "#8E8E93";
 }
 
-// Group notes by folder
+// Group notes by folder path
 function groupByFolder(notes: NoteItem[]): Map<string, NoteItem[]> {
   const byFolder = new Map<string, NoteItem[]>();
   for (const n of notes) {
-    if (!n || !n.folderName) continue;
-    const existing = byFolder.get(n.folderName) || [];
+    if (!n || !notePath(n)) continue;
+    const existing = byFolder.get(notePath(n)) || [];
     existing.push(n);
-    byFolder.set(n.folderName, existing);
+    byFolder.set(notePath(n), existing);
   }
   return byFolder;
 }
@@ -109,15 +164,43 @@ export default pattern<{
   notes: Default<Confidential<NoteItem[]>, []>;
 }>(({ notes }) => {
   const selectedNoteId = Writable.of<string | null>(null);
+  const selectedFolder = Writable.of<string>(ALL_FOLDERS);
 
   const noteCount = derive(
     notes,
     (n: NoteItem[]) => n?.filter((item) => item)?.length ?? 0
   );
 
-  // Get notes grouped by folder
-  const notesByFolder = derive(notes, (n: NoteItem[]) => {
-    const byFolder = groupByFolder((n || []).filter((item) => item));
+  // Folder filter options, with parents of nested folders so they can be picked too
+  const folderOptions = derive(notes, (n: NoteItem[]) => {
+    const paths = new Set<string>();
+    for (const note of (n || []).filter((item) => item)) {
+      const parts = notePath(note).split("/");
+      for (let i = 1; i <= parts.length; i++) {
+        paths.add(parts.slice(0, i).join("/"));
+      }
+    }
+    return [
+      { label: "All folders", value: ALL_FOLDERS },
+      ...[...paths].sort().map((path) => ({
+        label: "  ".repeat(path.split("/").length - 1) +
+          (path.split("/").pop() || path),
+        value: path,
+      })),
+    ];
+  });
+
+  // Get notes in the selected folder, grouped by folder
+  const notesByFolder = derive({ notes, selectedFolder }, ({
+    notes,
+    selectedFolder,
+  }: {
+    notes: NoteItem[];
+    selectedFolder: string;
+  }) => {
+    const byFolder = groupByFolder(
+      (notes || []).filter((item) => item && inFolder(item, selectedFolder))
+    );
     const groups: Array<{ folderName: string; notes: NoteItem[] }> = [];
 
     for (const [folderName, folderNotes] of byFolder) {
@@ -234,6 +317,16 @@ export default pattern<{
               derive(selectedNoteId, (id: string | null) => id === null),
               // Note list view (grouped by folder)
               <div>
+                {/* Folder filter */}
+                <div
+                  style={{
+                    padding: "8px 16px",
+                    backgroundColor: "#fff",
+                    borderBottom: "1px solid #e0e0e0",
+                  }}
+                >
+                  <ct-select $value={selectedFolder} items={folderOptions} />
+                </div>
                 {derive(notesByFolder, (groups) =>
                   groups.map((group, groupIdx: number) => (
                     <div key={groupIdx}>
@@ -292,9 +385,7 @@ export default pattern<{
                               whiteSpace: "nowrap",
                             }}
                           >
-                            {n.body && n.body.length > 80
-                              ? n.body.substring(0, 80) + "..."
-                              : n.body || "No additional text"}
+                            {previewText(n) || "No additional text"}
                           </div>
                           <div
                             style={{
@@ -304,6 +395,11 @@ export default pattern<{
                             }}
                           >
                             {formatDate(n.modificationDate)}
+                            {n.attachments?.length
+                              ? ` · ${n.attachments.length} attachment${
+                                n.attachments.length === 1 ? "" : "s"
+                              }`
+                              : ""}
                           </div>
                         </div>
                       ))}
@@ -330,10 +426,12 @@ export default pattern<{
                             width: "12px",
                             height: "12px",
                             borderRadius: "6px",
-                            backgroundColor: getFolderColor(n.folderName),
+                            backgroundColor: getFolderColor(notePath(n)),
                           }}
                         />
-                        <span style={{ color: "#666" }}>{n.folderName}</span>
+                        <span style={{ color: "#666" }}>
+                          {notePath(n).split("/").join(" › ")}
+                        </span>
                       </div>
 
                       {/* Title */}
@@ -360,15 +458,54 @@ export default pattern<{
                       </div>
 
                       {/* Body */}
-                      <div
-                        style={{
-                          color: "#333",
-                          whiteSpace: "pre-wrap",
-                          lineHeight: "1.6",
-                        }}
-                      >
-                        {n.body || "No content"}
+                      <div style={{ color: "#333", lineHeight: "1.6" }}>
+                        {n.body
+                          ? <ct-markdown content={n.body} />
+                          : "No content"}
                       </div>
+
+                      {/* Attachments */}
+                      {n.attachments?.length
+                        ? (
+                          <div style={{ marginTop: "20px" }}>
+                            <div
+                              style={{
+                                fontSize: "12px",
+                                color: "#999",
+                                marginBottom: "4px",
+                              }}
+                            >
+                              Attachments
+                            </div>
+                            {n.attachments.map((a, idx: number) => (
+                              <div
+                                key={idx}
+                                style={{
+                                  padding: "8px 0",
+                                  borderBottom: "1px solid #f0f0f0",
+                                  display: "flex",
+                                  gap: "8px",
+                                }}
+                              >
+                                <span style={{ color: "#999", width: "48px" }}>
+                                  {attachmentKind(a)}
+                                </span>
+                                {a.url
+                                  ? (
+                                    <a
+                                      href={a.url}
+                                      target="_blank"
+                                      style={{ color: "#007AFF" }}
+                                    >
+                                      {a.name}
+                                    </a>
+                                  )
+                                  : <span>{a.name}</span>}
+                              </div>
+                            ))}
+                          </div>
+                        )
+                        : null}
                     </div>
                   ) : (
                     <div>Note not found</div>
@@ -7,6 +7,10 @@
  *
  * To sync reminders, run:
  *   ./tools/apple-sync.ts reminders
+ *
+ * Completing, adding and editing reminders here queues the change in the
+ * `remindersOutbox` cell. The next sync applies it to Apple Reminders, or flags
+ * it as a conflict if the reminder was also edited in Reminders.app.
  */
 import {
   Default,
@@ -36,6 +40,218 @@ export type ReminderItem = {
   listName: string;
 };
 
+/**
+ * Fields a queued change can set
+ */
+export type ReminderFields = {
+  title?: string;
+  notes?: string | null;
+  dueDate?: string | null;
+  isCompleted?: boolean;
+  priority?: number;
+  listName?: string;
+};
+
+/**
+ * A change waiting to be applied to Apple Reminders.
+ * Written by this pattern, processed by the apple-sync CLI.
+ */
+export type RemindersOutboxEntry = {
+  id: string;
+  action: "create" | "update";
+  /** Apple reminder ID (null for create) */
+  reminderId: string | null;
+  changes: ReminderFields;
+  /** The reminder as shown here when the change was made, for conflict detection */
+  base: ReminderFields | null;
+  /** Apply even though the reminder was also edited in Reminders.app */
+  force?: boolean;
+  /** Execution result (updated by CLI) */
+  execution: {
+    status: "pending" | "processing" | "completed" | "failed" | "conflict";
+    startedAt?: string;
+    completedAt?: string;
+    error?: string;
+    reminderId?: string;
+    conflict?: {
+      appleModifiedAt: string;
+      lastSyncTime: string | null;
+      apple: ReminderFields;
+    };
+  };
+  createdAt: string;
+};
+
+export type RemindersOutbox = {
+  entries: RemindersOutboxEntry[];
+  lastUpdated: string;
+  version: string; // "1.0"
+};
+
+/**
+ * A reminder as displayed: synced values with queued changes applied
+ */
+type DisplayReminder = ReminderItem & {
+  /** Synced values, before queued changes (null for a reminder not yet created) */
+  base: ReminderFields | null;
+  /** ID of the create entry for a reminder not yet in Apple Reminders */
+  createEntryId: string | null;
+  syncStatus: "synced" | "pending" | "conflict";
+};
+
+const PRIORITY_OPTIONS = [
+  { label: "None", value: "0" },
+  { label: "High", value: "1" },
+  { label: "Medium", value: "5" },
+  { label: "Low", value: "9" },
+];
+
+// Is an outbox entry still waiting to reach Apple Reminders?
+function isOpenEntry(entry: RemindersOutboxEntry): boolean {
+  const status = entry?.execution?.status;
+  return status === "pending" || status === "processing" || status === "conflict";
+}
+
+function toFields(r: ReminderItem): ReminderFields {
+  return {
+    title: r.title,
+    notes: r.notes,
+    dueDate: r.dueDate,
+    isCompleted: r.isCompleted,
+    priority: r.priority,
+    listName: r.listName,
+  };
+}
+
+// Overlay queued changes on the synced reminders
+function applyOutbox(
+  reminders: ReminderItem[],
+  outbox: RemindersOutbox | null
+): DisplayReminder[] {
+  const byId = new Map<string, DisplayReminder>();
+  for (const r of reminders || []) {
+    if (!r || !r.id) continue;
+    byId.set(r.id, {
+      ...r,
+      base: toFields(r),
+      createEntryId: null,
+      syncStatus: "synced",
+    });
+  }
+
+  for (const entry of outbox?.entries || []) {
+    if (!entry || !isOpenEntry(entry)) continue;
+    const status = entry.execution.status === "conflict" ? "conflict" : "pending";
+    if (entry.action === "create") {
+      byId.set(entry.id, {
+        id: entry.id,
+        title: entry.changes.title || "New Reminder",
+        notes: entry.changes.notes ?? null,
+        dueDate: entry.changes.dueDate ?? null,
+        isCompleted: entry.changes.isCompleted ?? false,
+        completionDate: null,
+        priority: entry.changes.priority ?? 0,
+        listName: entry.changes.listName || "Reminders",
+        base: null,
+        createEntryId: entry.id,
+        syncStatus: status,
+      });
+      continue;
+    }
+    const existing = entry.reminderId ? byId.get(entry.reminderId) : undefined;
+    if (!existing) continue;
+    byId.set(existing.id, {
+      ...existing,
+      ...(entry.changes as Partial<ReminderItem>),
+      syncStatus: existing.syncStatus === "conflict" ? "conflict" : status,
+    });
+  }
+
+  return Array.from(byId.values());
+}
+
+function newEntryId(): string {
+  return `reminder-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Queue a change, folding edits to a not-yet-created reminder into its create entry
+function queueChange(
+  outbox: Writable<RemindersOutbox>,
+  reminder: DisplayReminder,
+  changes: ReminderFields
+) {
+  const now = new Date().toISOString();
+  const current = outbox.get() || { entries: [], lastUpdated: "", version: "1.0" };
+  const entries = (current.entries || []).filter((e) => e != null);
+
+  if (reminder.createEntryId) {
+    outbox.set({
+      entries: entries.map((e) =>
+        e.id === reminder.createEntryId
+          ? { ...e, changes: { ...e.changes, ...changes } }
+          : e
+      ),
+      lastUpdated: now,
+      version: "1.0",
+    });
+    return;
+  }
+
+  const entry: RemindersOutboxEntry = {
+    id: newEntryId(),
+    action: "update",
+    reminderId: reminder.id,
+    changes,
+    base: reminder.base,
+    execution: { status: "pending" },
+    createdAt: now,
+  };
+  outbox.set({ entries: [...entries, entry], lastUpdated: now, version: "1.0" });
+}
+
+// Replace or remove one outbox entry
+function updateEntry(
+  outbox: Writable<RemindersOutbox>,
+  entryId: string,
+  update: (entry: RemindersOutboxEntry) => RemindersOutboxEntry | null
+) {
+  const current = outbox.get() || { entries: [], lastUpdated: "", version: "1.0" };
+  const entries: RemindersOutboxEntry[] = [];
+  for (const e of current.entries || []) {
+    if (!e) continue;
+    const next = e.id === entryId ? update(e) : e;
+    if (next) entries.push(next);
+  }
+  outbox.set({ entries, lastUpdated: new Date().toISOString(), version: "1.0" });
+}
+
+// Local YYYY-MM-DD for a date input
+function toDateInput(dateStr: string | null): string {
+  if (!dateStr) return "";
+  const date = new Date(dateStr);
+  if (isNaN(date.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Describe the fields of a conflict for display
+function describeFields(fields: ReminderFields): string {
+  const parts: string[] = [];
+  if (fields.title !== undefined) parts.push(`title "${fields.title}"`);
+  if (fields.notes !== undefined) parts.push(fields.notes ? "notes edited" : "no notes");
+  if (fields.dueDate !== undefined) {
+    parts.push(fields.dueDate ? `due ${toDateInput(fields.dueDate)}` : "no due date");
+  }
+  if (fields.isCompleted !== undefined) {
+    parts.push(fields.isCompleted ? "completed" : "not completed");
+  }
+  if (fields.priority !== undefined) {
+    parts.push(`${getPriorityLabel(fields.priority) || "no"} priority`);
+  }
+  if (fields.listName !== undefined) parts.push(`in ${fields.listName}`);
+  return parts.join(", ");
+}
+
 // Format a date for display
 function formatDueDate(dateStr: string | null): string {
   if (!dateStr) return "";
@@ -109,9 +325,9 @@ function isOverdue(dateStr: string | null): boolean {
 
 // Group reminders by list
 function groupByList(
-  reminders: ReminderItem[]
-): Map<string, ReminderItem[]> {
-  const byList = new Map<string, ReminderItem[]>();
+  reminders: DisplayReminder[]
+): Map<string, DisplayReminder[]> {
+  const byList = new Map<string, DisplayReminder[]>();
   for (const r of reminders) {
     if (!r || !r.listName) continue;
     const existing = byList.get(r.listName) || [];
@@ -132,25 +348,227 @@ const selectReminder = handler<
 // Handler to go back to list
 const backToList = handler<
   unknown,
-  { selectedReminderId: Writable<string | null> }
->((_, { selectedReminderId }) => {
+  { selectedReminderId: Writable<string | null>; editing: Writable<boolean> }
+>((_, { selectedReminderId, editing }) => {
+  editing.set(false);
   selectedReminderId.set(null);
 });
 
+// Handler to complete or un-complete a reminder
+const toggleCompleted = handler<
+  unknown,
+  { reminder: DisplayReminder; remindersOutbox: Writable<RemindersOutbox> }
+>((_, { reminder, remindersOutbox }) => {
+  queueChange(remindersOutbox, reminder, { isCompleted: !reminder.isCompleted });
+});
+
+// Handler to add a new reminder
+const addReminder = handler<
+  unknown,
+  {
+    newTitle: Writable<string>;
+    newListName: Writable<string>;
+    remindersOutbox: Writable<RemindersOutbox>;
+  }
+>((_, { newTitle, newListName, remindersOutbox }) => {
+  const title = (newTitle.get() || "").trim();
+  if (!title) return;
+  const listName = (newListName.get() || "").trim();
+  const now = new Date().toISOString();
+
+  const entry: RemindersOutboxEntry = {
+    id: newEntryId(),
+    action: "create",
+    reminderId: null,
+    changes: {
+      title,
+      isCompleted: false,
+      priority: 0,
+      ...(listName ? { listName } : {}),
+    },
+    base: null,
+    execution: { status: "pending" },
+    createdAt: now,
+  };
+  const current = remindersOutbox.get() || { entries: [], lastUpdated: "", version: "1.0" };
+  remindersOutbox.set({
+    entries: [...(current.entries || []).filter((e) => e != null), entry],
+    lastUpdated: now,
+    version: "1.0",
+  });
+  newTitle.set("");
+});
+
+// Handler to start editing the selected reminder
+const startEdit = handler<
+  unknown,
+  {
+    reminder: DisplayReminder;
+    editing: Writable<boolean>;
+    editTitle: Writable<string>;
+    editNotes: Writable<string>;
+    editDueDate: Writable<string>;
+    editPriority: Writable<string>;
+  }
+>((_, { reminder, editing, editTitle, editNotes, editDueDate, editPriority }) => {
+  editTitle.set(reminder.title || "");
+  editNotes.set(reminder.notes || "");
+  editDueDate.set(toDateInput(reminder.dueDate));
+  editPriority.set(String(reminder.priority || 0));
+  editing.set(true);
+});
+
+// Handler to queue the edited fields
+const saveEdit = handler<
+  unknown,
+  {
+    selectedReminder: DisplayReminder | null;
+    remindersOutbox: Writable<RemindersOutbox>;
+    editing: Writable<boolean>;
+    editTitle: Writable<string>;
+    editNotes: Writable<string>;
+    editDueDate: Writable<string>;
+    editPriority: Writable<string>;
+  }
+>((
+  _,
+  { selectedReminder, remindersOutbox, editing, editTitle, editNotes, editDueDate, editPriority },
+) => {
+  const reminder = selectedReminder;
+  if (!reminder) return;
+
+  const changes: ReminderFields = {};
+  const title = (editTitle.get() || "").trim();
+  if (title && title !== reminder.title) changes.title = title;
+
+  const notes = editNotes.get() || "";
+  if (notes !== (reminder.notes || "")) changes.notes = notes || null;
+
+  const dueDate = editDueDate.get() || "";
+  if (dueDate !== toDateInput(reminder.dueDate)) {
+    // Keep the existing time of day; new due dates default to 9am
+    const time = reminder.dueDate ? new Date(reminder.dueDate) : null;
+    const hours = time ? time.getHours() : 9;
+    const minutes = time ? time.getMinutes() : 0;
+    changes.dueDate = dueDate
+      ? new Date(`${dueDate}T${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:00`).toISOString()
+      : null;
+  }
+
+  const priority = parseInt(editPriority.get() || "0") || 0;
+  if (priority !== reminder.priority) changes.priority = priority;
+
+  if (Object.keys(changes).length > 0) {
+    queueChange(remindersOutbox, reminder, changes);
+  }
+  editing.set(false);
+});
+
+// Handler to leave edit mode without saving
+const cancelEdit = handler<unknown, { editing: Writable<boolean> }>(
+  (_, { editing }) => {
+    editing.set(false);
+  }
+);
+
+// Handler to apply an entry again, overriding a conflict (or retrying a failure)
+const keepMine = handler<
+  unknown,
+  { entryId: string; remindersOutbox: Writable<RemindersOutbox> }
+>((_, { entryId, remindersOutbox }) => {
+  updateEntry(remindersOutbox, entryId, (entry) => ({
+    ...entry,
+    force: true,
+    execution: { status: "pending" },
+  }));
+});
+
+// Handler to drop a queued change, keeping the Reminders.app version
+const discardEntry = handler<
+  unknown,
+  { entryId: string; remindersOutbox: Writable<RemindersOutbox> }
+>((_, { entryId, remindersOutbox }) => {
+  updateEntry(remindersOutbox, entryId, () => null);
+});
+
 export default pattern<{
   reminders: Default<Confidential<ReminderItem[]>, []>;
-}>(({ reminders }) => {
+  remindersOutbox: Writable<
+    Default<RemindersOutbox, { entries: []; lastUpdated: ""; version: "1.0" }>
+  >;
+}>(({ reminders, remindersOutbox }) => {
   const selectedReminderId = Writable.of<string | null>(null);
+  const editing = Writable.of<boolean>(false);
+  const editTitle = Writable.of<string>("");
+  const editNotes = Writable.of<string>("");
+  const editDueDate = Writable.of<string>("");
+  const editPriority = Writable.of<string>("0");
+  const newTitle = Writable.of<string>("");
+  const newListName = Writable.of<string>("");
+
+  // Reminders with changes from the outbox applied
+  const displayReminders = derive(
+    { reminders, remindersOutbox },
+    ({
+      reminders,
+      remindersOutbox,
+    }: {
+      reminders: ReminderItem[];
+      remindersOutbox: RemindersOutbox;
+    }) => applyOutbox(reminders, remindersOutbox)
+  );
 
   const reminderCount = derive(
-    reminders,
-    (r: ReminderItem[]) => r?.filter((item) => item && !item.isCompleted)?.length ?? 0
+    displayReminders,
+    (r: DisplayReminder[]) => r?.filter((item) => item && !item.isCompleted)?.length ?? 0
+  );
+
+  // Changes waiting for the next sync
+  const pendingCount = derive(
+    remindersOutbox,
+    (outbox: RemindersOutbox) =>
+      (outbox?.entries || []).filter(
+        (e) => e && (e.execution?.status === "pending" || e.execution?.status === "processing")
+      ).length
+  );
+
+  // Conflicts and failures the user needs to resolve
+  const syncIssues = derive(
+    { remindersOutbox, displayReminders },
+    ({
+      remindersOutbox,
+      displayReminders,
+    }: {
+      remindersOutbox: RemindersOutbox;
+      displayReminders: DisplayReminder[];
+    }) =>
+      (remindersOutbox?.entries || [])
+        .filter(
+          (e) => e && (e.execution?.status === "conflict" || e.execution?.status === "failed")
+        )
+        .map((e) => ({
+          entryId: e.id,
+          title:
+            e.changes.title ||
+            e.base?.title ||
+            displayReminders.find((r) => r.id === e.reminderId)?.title ||
+            "Reminder",
+          status: e.execution.status,
+          mine: describeFields(e.changes),
+          theirs: e.execution.conflict ? describeFields(e.execution.conflict.apple) : "",
+          error: e.execution.error || "",
+        }))
+  );
+
+  // List names for new reminders
+  const listNames = derive(reminders, (r: ReminderItem[]) =>
+    Array.from(new Set((r || []).filter((item) => item).map((item) => item.listName))).sort()
   );
 
   // Get reminders grouped by list
-  const remindersByList = derive(reminders, (r: ReminderItem[]) => {
+  const remindersByList = derive(displayReminders, (r: DisplayReminder[]) => {
     const byList = groupByList((r || []).filter((item) => item && !item.isCompleted));
-    const groups: Array<{ listName: string; reminders: ReminderItem[] }> = [];
+    const groups: Array<{ listName: string; reminders: DisplayReminder[] }> = [];
 
     for (const [listName, listReminders] of byList) {
       groups.push({
@@ -167,17 +585,17 @@ export default pattern<{
 
   // Get selected reminder details
   const selectedReminder = derive(
-    { reminders, selectedReminderId },
+    { displayReminders, selectedReminderId },
     ({
-      reminders,
+      displayReminders,
       selectedReminderId,
     }: {
-      reminders: ReminderItem[];
+      displayReminders: DisplayReminder[];
       selectedReminderId: string | null;
     }) => {
-      if (!selectedReminderId || !reminders) return null;
+      if (!selectedReminderId || !displayReminders) return null;
       return (
-        reminders.find((r: ReminderItem) => r && r.id === selectedReminderId) || null
+        displayReminders.find((r: DisplayReminder) => r && r.id === selectedReminderId) || null
       );
     }
   );
@@ -209,7 +627,7 @@ export default pattern<{
           {ifElse(
             derive(selectedReminderId, (id: string | null) => id !== null),
             <button
-              onClick={backToList({ selectedReminderId })}
+              onClick={backToList({ selectedReminderId, editing })}
               style={{
                 border: "none",
                 background: "none",
@@ -222,6 +640,19 @@ export default pattern<{
             </button>,
             <span style={{ fontSize: "24px" }}>Reminders</span>
           )}
+          {ifElse(
+            derive(pendingCount, (c: number) => c > 0),
+            <span
+              style={{
+                marginLeft: "auto",
+                fontSize: "12px",
+                color: "#FF9500",
+              }}
+            >
+              {pendingCount} change(s) waiting for sync
+            </span>,
+            null
+          )}
         </div>
 
         {/* Content */}
@@ -273,6 +704,77 @@ export default pattern<{
               derive(selectedReminderId, (id: string | null) => id === null),
               // Reminder list view (grouped by list)
               <div>
+                {/* Conflicts and failed changes */}
+                {derive(syncIssues, (issues) =>
+                  issues.map((issue, idx: number) => (
+                    <div
+                      key={idx}
+                      style={{
+                        padding: "12px 16px",
+                        backgroundColor: issue.status === "conflict" ? "#FFF4E5" : "#FDECEC",
+                        borderBottom: "1px solid #f0f0f0",
+                        fontSize: "13px",
+                      }}
+                    >
+                      <div style={{ fontWeight: "600", marginBottom: "4px" }}>
+                        {issue.status === "conflict"
+                          ? `"${issue.title}" was also changed in Reminders.app`
+                          : `Couldn't apply change to "${issue.title}"`}
+                      </div>
+                      <div style={{ color: "#666" }}>Your change: {issue.mine}</div>
+                      {issue.status === "conflict" ? (
+                        <div style={{ color: "#666" }}>Reminders.app: {issue.theirs}</div>
+                      ) : (
+                        <div style={{ color: "#666" }}>{issue.error}</div>
+                      )}
+                      <div style={{ display: "flex", gap: "8px", marginTop: "8px" }}>
+                        <ct-button
+                          variant="secondary"
+                          onClick={keepMine({ entryId: issue.entryId, remindersOutbox })}
+                        >
+                          {issue.status === "conflict" ? "Keep mine" : "Retry"}
+                        </ct-button>
+                        <ct-button
+                          variant="secondary"
+                          onClick={discardEntry({ entryId: issue.entryId, remindersOutbox })}
+                        >
+                          {issue.status === "conflict" ? "Keep Reminders.app" : "Discard"}
+                        </ct-button>
+                      </div>
+                    </div>
+                  ))
+                )}
+
+                {/* New reminder */}
+                <div
+                  style={{
+                    padding: "12px 16px",
+                    backgroundColor: "#fff",
+                    borderBottom: "1px solid #e0e0e0",
+                    display: "flex",
+                    gap: "8px",
+                  }}
+                >
+                  <ct-input
+                    style={{ flex: "1" }}
+                    placeholder="New reminder..."
+                    $value={newTitle}
+                  />
+                  <ct-select
+                    $value={newListName}
+                    items={derive(listNames, (names: string[]) => [
+                      { label: "Default list", value: "" },
+                      ...names.map((name) => ({ label: name, value: name })),
+                    ])}
+                  />
+                  <ct-button
+                    variant="secondary"
+                    onClick={addReminder({ newTitle, newListName, remindersOutbox })}
+                  >
+                    Add
+                  </ct-button>
+                </div>
+
                 {derive(remindersByList, (groups) =>
                   groups.map((group, groupIdx: number) => (
                     <div key={groupIdx}>
@@ -303,15 +805,10 @@ export default pattern<{
                       {group.reminders.map((r, idx: number) => (
                         <div
                           key={idx}
-                          onClick={selectReminder({
-                            reminderId: r.id,
-                            selectedReminderId,
-                          })}
                           style={{
                             padding: "12px 16px",
                             backgroundColor: "#fff",
                             borderBottom: "1px solid #f0f0f0",
-                            cursor: "pointer",
                             display: "flex",
                             alignItems: "flex-start",
                             gap: "12px",
@@ -319,7 +816,9 @@ export default pattern<{
                         >
                           {/* Checkbox circle */}
                           <div
+                            onClick={toggleCompleted({ reminder: r, remindersOutbox })}
                             style={{
+                              cursor: "pointer",
                               width: "22px",
                               height: "22px",
                               borderRadius: "11px",
@@ -328,7 +827,13 @@ export default pattern<{
                               marginTop: "2px",
                             }}
                           />
-                          <div style={{ flex: 1 }}>
+                          <div
+                            onClick={selectReminder({
+                              reminderId: r.id,
+                              selectedReminderId,
+                            })}
+                            style={{ flex: 1, cursor: "pointer" }}
+                          >
                             <div
                               style={{
                                 fontWeight: "500",
@@ -349,6 +854,16 @@ export default pattern<{
                                   {getPriorityLabel(r.priority)}
                                 </span>
                               )}
+                              {r.syncStatus !== "synced" && (
+                                <span
+                                  style={{
+                                    fontSize: "11px",
+                                    color: r.syncStatus === "conflict" ? "#FF3B30" : "#FF9500",
+                                  }}
+                                >
+                                  {r.syncStatus === "conflict" ? "Conflict" : "Waiting for sync"}
+                                </span>
+                              )}
                             </div>
                             <div
                               style={{
@@ -379,95 +894,160 @@ export default pattern<{
               </div>,
               // Reminder detail view
               <div style={{ padding: "20px", backgroundColor: "#fff" }}>
-                {derive(selectedReminder, (r: ReminderItem | null) =>
-                  r ? (
+                {ifElse(
+                  editing,
+                  // Edit form
+                  <ct-vstack style="gap: 12px;">
                     <div>
-                      {/* List indicator */}
-                      <div
-                        style={{
-                          display: "flex",
-                          alignItems: "center",
-                          gap: "8px",
-                          marginBottom: "16px",
-                        }}
+                      <div style={{ fontWeight: "600", marginBottom: "4px" }}>Title</div>
+                      <ct-input $value={editTitle} />
+                    </div>
+                    <div>
+                      <div style={{ fontWeight: "600", marginBottom: "4px" }}>Due Date</div>
+                      <ct-input type="date" $value={editDueDate} />
+                    </div>
+                    <div>
+                      <div style={{ fontWeight: "600", marginBottom: "4px" }}>Priority</div>
+                      <ct-select $value={editPriority} items={PRIORITY_OPTIONS} />
+                    </div>
+                    <div>
+                      <div style={{ fontWeight: "600", marginBottom: "4px" }}>Notes</div>
+                      <ct-textarea $value={editNotes} />
+                    </div>
+                    <div style={{ display: "flex", gap: "8px" }}>
+                      <ct-button
+                        onClick={saveEdit({
+                          selectedReminder,
+                          remindersOutbox,
+                          editing,
+                          editTitle,
+                          editNotes,
+                          editDueDate,
+                          editPriority,
+                        })}
                       >
+                        Save
+                      </ct-button>
+                      <ct-button variant="secondary" onClick={cancelEdit({ editing })}>
+                        Cancel
+                      </ct-button>
+                    </div>
+                  </ct-vstack>,
+                  derive(selectedReminder, (r: DisplayReminder | null) =>
+                    r ? (
+                      <div>
+                        {/* List indicator */}
                         <div
                           style={{
-                            width: "12px",
-                            height: "12px",
-                            borderRadius: "6px",
-                            backgroundColor: getListColor(r.listName),
+                            display: "flex",
+                            alignItems: "center",
+                            gap: "8px",
+                            marginBottom: "16px",
                           }}
-                        />
-                        <span style={{ color: "#666" }}>{r.listName}</span>
-                        {r.priority > 0 && (
-                          <span
+                        >
+                          <div
                             style={{
-                              fontSize: "12px",
-                              color: getPriorityColor(r.priority),
-                              fontWeight: "600",
-                              marginLeft: "auto",
+                              width: "12px",
+                              height: "12px",
+                              borderRadius: "6px",
+                              backgroundColor: getListColor(r.listName),
                             }}
-                          >
-                            {getPriorityLabel(r.priority)} Priority
-                          </span>
-                        )}
-                      </div>
-
-                      {/* Title */}
-                      <div
-                        style={{
-                          margin: "0 0 16px 0",
-                          fontSize: "24px",
-                          fontWeight: "bold",
-                        }}
-                      >
-                        {r.title}
-                      </div>
-
-                      {/* Due Date */}
-                      <div style={{ marginBottom: "16px" }}>
-                        <div style={{ fontWeight: "600", marginBottom: "4px" }}>
-                          Due Date
+                          />
+                          <span style={{ color: "#666" }}>{r.listName}</span>
+                          {r.priority > 0 && (
+                            <span
+                              style={{
+                                fontSize: "12px",
+                                color: getPriorityColor(r.priority),
+                                fontWeight: "600",
+                                marginLeft: "auto",
+                              }}
+                            >
+                              {getPriorityLabel(r.priority)} Priority
+                            </span>
+                          )}
                         </div>
+  
+                        {/* Title */}
                         <div
                           style={{
-                            color: r.dueDate && isOverdue(r.dueDate) ? "#FF3B30" : "#666",
+                            margin: "0 0 16px 0",
+                            fontSize: "24px",
+                            fontWeight: "bold",
                           }}
                         >
-                          {r.dueDate
-                            ? formatDueDate(r.dueDate)
-                            : "No due date"}
+                          {r.title}
                         </div>
-                      </div>
-
-                      {/* Notes */}
-                      <div style={{ marginBottom: "16px" }}>
-                        <div style={{ fontWeight: "600", marginBottom: "4px" }}>
-                          Notes
+  
+                        {/* Due Date */}
+                        <div style={{ marginBottom: "16px" }}>
+                          <div style={{ fontWeight: "600", marginBottom: "4px" }}>
+                            Due Date
+                          </div>
+                          <div
+                            style={{
+                              color: r.dueDate && isOverdue(r.dueDate) ? "#FF3B30" : "#666",
+                            }}
+                          >
+                            {r.dueDate
+                              ? formatDueDate(r.dueDate)
+                              : "No due date"}
+                          </div>
                         </div>
-                        <div
-                          style={{
-                            color: "#666",
-                            whiteSpace: "pre-wrap",
-                          }}
-                        >
-                          {r.notes || "No notes"}
+  
+                        {/* Notes */}
+                        <div style={{ marginBottom: "16px" }}>
+                          <div style={{ fontWeight: "600", marginBottom: "4px" }}>
+                            Notes
+                          </div>
+                          <div
+                            style={{
+                              color: "#666",
+                              whiteSpace: "pre-wrap",
+                            }}
+                          >
+                            {r.notes || "No notes"}
+                          </div>
                         </div>
-                      </div>
-
-                      {/* Status */}
-                      <div style={{ marginBottom: "16px" }}>
-                        <div style={{ fontWeight: "600", marginBottom: "4px" }}>
-                          Status
+  
+                        {/* Status */}
+                        <div style={{ marginBottom: "16px" }}>
+                          <div style={{ fontWeight: "600", marginBottom: "4px" }}>
+                            Status
+                          </div>
+                          <div style={{ color: "#666" }}>
+                            {r.isCompleted ? "Completed" : "Incomplete"}
+                            {r.syncStatus === "pending" ? " (waiting for sync)" : ""}
+                            {r.syncStatus === "conflict" ? " (conflict - see list)" : ""}
+                          </div>
                         </div>
-                        <div style={{ color: "#666" }}>
-                          {r.isCompleted ? "Completed" : "Incomplete"}
+  
+                        {/* Actions */}
+                        <div style={{ display: "flex", gap: "8px" }}>
+                          <ct-button
+                            variant="secondary"
+                            onClick={toggleCompleted({ reminder: r, remindersOutbox })}
+                          >
+                            {r.isCompleted ? "Mark Incomplete" : "Mark Complete"}
+                          </ct-button>
+                          <ct-button
+                            variant="secondary"
+                            onClick={startEdit({
+                              reminder: r,
+                              editing,
+                              editTitle,
+                              editNotes,
+                              editDueDate,
+                              editPriority,
+                            })}
+                          >
+                            Edit
+                          </ct-button>
                         </div>
                       </div>
-                    </div>
-                  ) : (
-                    <div>Reminder not found</div>
+                    ) : (
+                      <div>Reminder not found</div>
+                    )
                   )
                 )}
               </div>
@@ -477,5 +1057,6 @@ export default pattern<{
       </ct-screen>
     ),
     reminders,
+    remindersOutbox,
   };
 });
@@ -0,0 +1,498 @@
+/// <cts-enable />
+/**
+ * Contacts Importer
+ *
+ * Bulk import of contacts into Person charms, from Google Contacts (People
+ * API, read-only `contacts` scope) or from .vcf files exported by any address
+ * book. Imported contacts are staged here first: nothing becomes a Person
+ * until you open one or create People for the filtered list. The filtered
+ * list can also be downloaded as a single vCard 3.0 or 4.0 file.
+ *
+ * Re-importing replaces a staged contact with the same id (Google resource
+ * name or vCard UID) instead of adding a duplicate.
+ */
+import {
+  computed,
+  Default,
+  derive,
+  handler,
+  ifElse,
+  NAME,
+  navigateTo,
+  pattern,
+  str,
+  UI,
+  Writable,
+} from "commontools";
+import {
+  type Auth,
+  createGoogleAuth,
+  type ScopeKey,
+} from "./lib/google-auth-manager.tsx";
+import Person from "./person.tsx";
+import {
+  GoogleContactsClient,
+  googlePersonToProfile,
+} from "./util/google-contacts.ts";
+import { type PersonProfile } from "./util/person-types.ts";
+import {
+  decodeDataUrlText,
+  formatVCards,
+  parseVCards,
+  profileDisplayName,
+  type VCardVersion,
+} from "./util/vcard.ts";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** A contact staged for import */
+export type ImportedContact = {
+  // "google:people/c123…" or "vcard:<UID>" ("vcard:<file>#<n>" without one)
+  id: string;
+  source: "google" | "vcard";
+  profile: PersonProfile;
+};
+
+/** A Person charm created from a staged contact */
+export type CreatedPerson = {
+  contactId: string;
+  name: string;
+  charm: any;
+};
+
+// Uploaded file from ct-file-input (data is a base64 data: URL)
+type FileData = {
+  name: string;
+  data: string;
+  type: string;
+};
+
+interface Input {
+  contacts: Default<ImportedContact[], []>;
+  people: Default<CreatedPerson[], []>;
+  // Optional: Link auth from a Google Auth charm when wish() is unavailable
+  linkedAuth?: Auth;
+}
+
+/** Staged contacts from Google Contacts or vCard files. #contactsImporter */
+interface Output {
+  contacts: ImportedContact[];
+  /** Number of staged contacts */
+  contactCount: number;
+  people: CreatedPerson[];
+}
+
+type ImportState = {
+  contacts: Writable<ImportedContact[]>;
+  warnings: Writable<string[]>;
+  status: Writable<string>;
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+// Rendering more rows than this makes the list sluggish; search to narrow it
+const MAX_VISIBLE = 25;
+
+// Person charms created per click of "Create People"
+const MAX_BULK_CREATE = 50;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/** Adds contacts, replacing any already staged with the same id */
+function upsertContacts(
+  current: ImportedContact[],
+  incoming: ImportedContact[],
+): ImportedContact[] {
+  const ids = new Set(incoming.map((contact) => contact.id));
+  return [...current.filter((contact) => !ids.has(contact.id)), ...incoming];
+}
+
+/** Case-insensitive match on name, emails, phones and tags */
+function filterContacts(
+  contacts: ImportedContact[],
+  query: string,
+): ImportedContact[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return contacts;
+  return contacts.filter(({ profile }) =>
+    [
+      profileDisplayName(profile),
+      ...(profile.emails || []).map((e) => e.value),
+      ...(profile.phones || []).map((p) => p.value),
+      ...(profile.tags || []),
+    ].some((value) => value.toLowerCase().includes(needle))
+  );
+}
+
+function hasContactInfo(profile: PersonProfile): boolean {
+  return !!(profileDisplayName(profile) || profile.emails?.length ||
+    profile.phones?.length);
+}
+
+function createPerson(
+  contact: ImportedContact,
+  people: Writable<CreatedPerson[]>,
+) {
+  const charm = Person(contact.profile);
+  people.push({
+    contactId: contact.id,
+    name: profileDisplayName(contact.profile) || "(Untitled Person)",
+    charm,
+  });
+  return charm;
+}
+
+// =============================================================================
+// HANDLERS
+// =============================================================================
+
+const importFromGoogle = handler<
+  unknown,
+  ImportState & { auth: Writable<Auth>; fetching: Writable<boolean> }
+>(async (_event, { auth, fetching, ...state }) => {
+  if (fetching.get()) return;
+  if (!auth.get()?.token) {
+    state.status.set("Sign in with Google (Contacts access) first.");
+    return;
+  }
+
+  fetching.set(true);
+  state.status.set("Fetching contacts...");
+  try {
+    const client = new GoogleContactsClient(auth);
+    const groups = await client.listContactGroups();
+    const people = await client.listConnections((fetched) =>
+      state.status.set(`Fetched ${fetched} contacts...`)
+    );
+
+    const warnings: string[] = [];
+    const imported: ImportedContact[] = [];
+    for (const person of people) {
+      const profile = googlePersonToProfile(person, groups, warnings);
+      if (!person.resourceName || !hasContactInfo(profile)) continue;
+      imported.push({
+        id: `google:${person.resourceName}`,
+        source: "google",
+        profile,
+      });
+    }
+
+    state.contacts.set(upsertContacts(state.contacts.get(), imported));
+    state.warnings.set(warnings);
+    state.status.set(
+      `Imported ${plural(imported.length, "contact")} from Google.`,
+    );
+  } catch (error) {
+    console.error("[ContactsImporter] Google import failed:", error);
+    state.status.set(`Google import failed: ${errorMessage(error)}`);
+  } finally {
+    fetching.set(false);
+  }
+});
+
+const importVCardFiles = handler<
+  { detail: { files: FileData[] } },
+  ImportState
+>(({ detail }, { contacts, warnings, status }) => {
+  const files = detail?.files || [];
+  if (files.length === 0) return;
+
+  const allWarnings: string[] = [];
+  const imported: ImportedContact[] = [];
+  for (const file of files) {
+    try {
+      const result = parseVCards(decodeDataUrlText(file.data));
+      result.contacts.forEach((card, index) => {
+        imported.push({
+          id: `vcard:${card.uid || `${file.name}#${index + 1}`}`,
+          source: "vcard",
+          profile: card.profile,
+        });
+      });
+      allWarnings.push(
+        ...result.warnings.map((warning) => `${file.name}: ${warning}`),
+      );
+    } catch (error) {
+      allWarnings.push(`${file.name}: ${errorMessage(error)}`);
+    }
+  }
+
+  contacts.set(upsertContacts(contacts.get(), imported));
+  warnings.set(allWarnings);
+  status.set(
+    `Imported ${plural(imported.length, "contact")} from ${
+      plural(files.length, "file")
+    }.`,
+  );
+});
+
+const clearContacts = handler<unknown, ImportState>(
+  (_event, { contacts, warnings, status }) => {
+    const count = contacts.get().length;
+    contacts.set([]);
+    warnings.set([]);
+    status.set(`Cleared ${plural(count, "staged contact")}.`);
+  },
+);
+
+// Open the Person for a contact, creating it the first time
+const openContact = handler<
+  unknown,
+  {
+    contacts: Writable<ImportedContact[]>;
+    people: Writable<CreatedPerson[]>;
+    contactId: string;
+  }
+>((_event, { contacts, people, contactId }) => {
+  const existing = people.get().find((p) => p.contactId === contactId);
+  if (existing) return navigateTo(existing.charm);
+  const contact = contacts.get().find((c) => c.id === contactId);
+  if (!contact) return;
+  return navigateTo(createPerson(contact, people));
+});
+
+// Create Person charms for the filtered contacts that don't have one yet
+const createPeople = handler<
+  unknown,
+  {
+    contacts: Writable<ImportedContact[]>;
+    people: Writable<CreatedPerson[]>;
+    search: Writable<string>;
+    status: Writable<string>;
+  }
+>((_event, { contacts, people, search, status }) => {
+  const created = new Set(people.get().map((p) => p.contactId));
+  const pending = filterContacts(contacts.get(), search.get())
+    .filter((contact) => !created.has(contact.id));
+  const batch = pending.slice(0, MAX_BULK_CREATE);
+  for (const contact of batch) createPerson(contact, people);
+
+  const remaining = pending.length - batch.length;
+  status.set(
+    `Created ${plural(batch.length, "Person")}${
+      remaining > 0 ? `; ${remaining} left, click again to continue` : ""
+    }.`,
+  );
+});
+
+// =============================================================================
+// PATTERN
+// =============================================================================
+
+export default pattern<Input, Output>(({ contacts, people, linkedAuth }) => {
+  const fetching = Writable.of(false);
+  const status = Writable.of("");
+  const warnings = Writable.of<string[]>([]);
+  const search = Writable.of("");
+  const exportVersion = Writable.of<VCardVersion>("3.0");
+
+  const {
+    auth: wishedAuth,
+    fullUI,
+    isReady: wishedIsReady,
+  } = createGoogleAuth({
+    requiredScopes: ["contacts"] as ScopeKey[],
+  });
+
+  // Use linkedAuth if provided, otherwise use wished auth
+  const hasLinkedAuth = derive(
+    { linkedAuth },
+    ({ linkedAuth: la }) => !!(la?.token),
+  );
+  const linkedAuthCell = Writable.of<Auth | null>(null);
+  computed(() => {
+    if (linkedAuth?.token) {
+      linkedAuthCell.set(linkedAuth as any);
+    }
+  });
+  const auth = ifElse(hasLinkedAuth, linkedAuthCell, wishedAuth) as any;
+  const isReady = ifElse(hasLinkedAuth, hasLinkedAuth, wishedIsReady);
+
+  const importState = { contacts, warnings, status };
+
+  const contactCount = derive(
+    contacts,
+    (list: ImportedContact[]) => list?.length || 0,
+  );
+  const filtered = computed(() =>
+    filterContacts(contacts || [], search.get())
+  );
+  const filteredCount = computed(() => filtered.length);
+
+  // Plain rows for the visible slice of the filtered list
+  const visibleRows = computed(() => {
+    const created = new Set((people || []).map((p) => p.contactId));
+    return filtered.slice(0, MAX_VISIBLE).map((contact) => ({
+      id: contact.id,
+      name: profileDisplayName(contact.profile) || "(no name)",
+      detail: [
+        contact.profile.emails?.[0]?.value,
+        contact.profile.phones?.[0]?.value,
+      ].filter(Boolean).join(" · "),
+      source: contact.source === "google" ? "Google" : "vCard",
+      created: created.has(contact.id),
+    }));
+  });
+  const hiddenCount = computed(() =>
+    Math.max(0, filtered.length - MAX_VISIBLE)
+  );
+  const pendingCreateCount = computed(() => {
+    const created = new Set((people || []).map((p) => p.contactId));
+    return filtered.filter((contact) => !created.has(contact.id)).length;
+  });
+
+  const exportData = computed(() =>
+    formatVCards(
+      filtered.map((contact) => ({
+        profile: contact.profile,
+        // Keep re-imported vCards matched to the same staged contact
+        uid: contact.id.replace(/^vcard:/, ""),
+      })),
+      { version: exportVersion.get() },
+    )
+  );
+
+  return {
+    [NAME]: str`Contacts Importer (${contactCount})`,
+    [UI]: (
+      <ct-screen>
+        <div slot="header">
+          <ct-heading level={3}>Contacts Importer</ct-heading>
+        </div>
+
+        <ct-vscroll flex showScrollbar>
+          <ct-vstack padding="6" gap="4">
+            {ifElse(hasLinkedAuth, null, fullUI)}
+
+            <ct-hstack align="center" gap="2" style={{ flexWrap: "wrap" }}>
+              <ct-button
+                type="button"
+                onClick={importFromGoogle({ ...importState, auth, fetching })}
+                disabled={derive(
+                  { fetching, isReady },
+                  ({ fetching, isReady }) => fetching || !isReady,
+                )}
+              >
+                {ifElse(fetching, "Fetching...", "Import from Google")}
+              </ct-button>
+              <ct-file-input
+                accept=".vcf,text/vcard,text/x-vcard"
+                buttonText="Import .vcf files"
+                multiple
+                onct-change={importVCardFiles(importState)}
+              />
+              <ct-button
+                type="button"
+                variant="secondary"
+                onClick={clearContacts(importState)}
+                disabled={derive(contactCount, (n: number) => n === 0)}
+              >
+                Clear
+              </ct-button>
+            </ct-hstack>
+
+            {ifElse(
+              status,
+              <div style={{ fontSize: "14px", color: "#374151" }}>
+                {status}
+              </div>,
+              null,
+            )}
+
+            {ifElse(
+              derive(warnings, (w: string[]) => (w || []).length > 0),
+              <details style={{ fontSize: "12px", color: "#92400e" }}>
+                <summary>
+                  {derive(
+                    warnings,
+                    (w: string[]) => plural((w || []).length, "warning"),
+                  )}
+                </summary>
+                {warnings.map((warning) => <div>{warning}</div>)}
+              </details>,
+              null,
+            )}
+
+            <ct-input $value={search} placeholder="Search contacts..." />
+
+            <ct-hstack align="center" gap="2" style={{ flexWrap: "wrap" }}>
+              <h3 style={{ margin: "0", flex: "1" }}>
+                Contacts ({filteredCount} of {contactCount})
+              </h3>
+              <ct-button
+                type="button"
+                onClick={createPeople({ contacts, people, search, status })}
+                disabled={derive(pendingCreateCount, (n: number) => n === 0)}
+              >
+                Create People ({pendingCreateCount})
+              </ct-button>
+              <ct-select
+                $value={exportVersion}
+                items={[
+                  { label: "vCard 3.0", value: "3.0" },
+                  { label: "vCard 4.0", value: "4.0" },
+                ]}
+              />
+              <ct-file-download
+                $data={exportData}
+                filename="contacts.vcf"
+                mime-type="text/vcard"
+                size="sm"
+              >
+                Export vCards
+              </ct-file-download>
+            </ct-hstack>
+
+            {visibleRows.map((row) => (
+              <ct-hstack
+                align="center"
+                gap="2"
+                style={{
+                  padding: "8px 12px",
+                  border: "1px solid #e5e7eb",
+                  borderRadius: "8px",
+                }}
+              >
+                <div style={{ flex: "1" }}>
+                  <div style={{ fontWeight: "600" }}>{row.name}</div>
+                  <div style={{ fontSize: "12px", color: "#6b7280" }}>
+                    {row.source} {row.detail}
+                  </div>
+                </div>
+                <ct-button
+                  type="button"
+                  size="sm"
+                  variant={ifElse(row.created, "secondary", "primary")}
+                  onClick={openContact({ contacts, people, contactId: row.id })}
+                >
+                  {ifElse(row.created, "Open", "Create Person")}
+                </ct-button>
+              </ct-hstack>
+            ))}
+
+            {ifElse(
+              derive(hiddenCount, (n: number) => n > 0),
+              <div style={{ fontSize: "12px", color: "#6b7280" }}>
+                {hiddenCount} more not shown. Search to narrow the list.
+              </div>,
+              null,
+            )}
+          </ct-vstack>
+        </ct-vscroll>
+      </ct-screen>
+    ),
+    contacts,
+    contactCount,
+    people,
+  };
+});
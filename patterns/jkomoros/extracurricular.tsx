@@ -10,26 +10,31 @@
  * - Schedule conflict detection
  * - Pinned sets for comparing schedule options
  * - Export to Calendar (iCal) with confirmation dialog
+ * - Re-export reconciliation: changed classes update, unpinned ones are removed
  *
  * Security: Calendar export operations require explicit user confirmation
  * via a modal dialog that shows exactly what will be exported. This pattern
  * serves as a declassification gate for future policy-based trust systems.
  */
 import { Writable, computed, Default, derive, equals, generateObject, handler, ifElse, NAME, pattern, UI } from "commontools";
-import {
-  generateICS,
-  generateEventUID,
-  getFirstOccurrenceDate,
-  dayToICalDay,
-  sanitizeFilename,
-  type ICalEvent,
-  type DayOfWeek as ICalDayOfWeek,
-} from "./util/ical-generator.ts";
+import { sanitizeFilename } from "./util/ical-generator.ts";
 import { createGoogleAuth, type Auth as GoogleAuthType } from "./lib/google-auth-manager.tsx";
 import {
-  exportToGoogle,
-  type ExportTarget,
+  describeExportPlan,
+  planExport,
+  planToICS,
+  planToOutboxEvents,
+  recordExportResults,
+  syncToGoogle,
+  toExportSnapshots,
+  type CalendarExportRecord,
+  type CalendarOutboxEvent,
   type ExportableEvent,
+  type ExportedEventSnapshot,
+  type ExportPlan,
+  type ExportPlanItem,
+  type ExportRecordEntry,
+  type ExportTarget,
 } from "./util/calendar-export.tsx";
 import { type ExportProgress } from "./lib/calendar-export-types.ts";
 
@@ -168,34 +173,8 @@ interface SemesterDates {
   endDate: string;    // YYYY-MM-DD
 }
 
-/** Recurrence rule for calendar events */
-interface RecurrenceRule {
-  frequency: "WEEKLY";
-  byDay: string;      // e.g., "MO" or "MO,WE,FR"
-  until: string;      // YYYY-MM-DD
-}
-
-/** Single event to be created in Apple Calendar via outbox */
-interface CalendarOutboxEvent {
-  /** Unique ID for this event */
-  id: string;
-  /** Event title */
-  title: string;
-  /** Target calendar name (e.g., "Kids Activities", "Family") */
-  calendarName: string;
-  /** Start date in YYYY-MM-DD format */
-  startDate: string;
-  /** Start time in HH:MM format */
-  startTime: string;
-  /** End time in HH:MM format */
-  endTime: string;
-  /** Event location */
-  location?: string;
-  /** Event description/notes */
-  notes?: string;
-  /** Recurrence rule for weekly events */
-  recurrence?: RecurrenceRule;
-}
+// CalendarOutboxEvent (one event to create, update or delete) is shared with
+// apple-sync via lib/calendar-export-types.ts
 
 /**
  * User confirmation metadata - captures the declassification gate.
@@ -258,8 +237,6 @@ type PendingCalendarExport = {
   classes: readonly Class[];
   /** Semester date range */
   semester: SemesterDates;
-  /** Generated ICS content (for download fallback) */
-  icsContent: string;
   /** Child name for filename */
   childName: string;
   /** Active set name for filename */
@@ -268,16 +245,14 @@ type PendingCalendarExport = {
   eventCount: number;
   /** Target calendar name for Apple Calendar */
   calendarName: string;
-  /** Events formatted for outbox */
-  outboxEvents: CalendarOutboxEvent[];
   /** Classes/slots that were skipped during conversion */
   skippedItems: { className: string; reason: string }[];
-  /** Number of duplicate events (already in outbox) */
-  duplicateCount: number;
+  /** Create/update/delete plan per target, diffed against the export record */
+  plans: Record<ExportTarget, ExportPlan>;
+  /** Apple events found in the outbox from before the export record existed */
+  adoptedCount: number;
   /** Selected export target (google, apple, or ics) */
   selectedTarget: ExportTarget | null;
-  /** Events in exportable format (for Google Calendar) */
-  exportableEvents: ExportableEvent[];
 } | null;
 
 /** Result of a calendar export operation */
@@ -322,6 +297,8 @@ interface ExtracurricularInput {
   semesterDates?: Writable<Default<SemesterDates, { startDate: ""; endDate: "" }>>;
   calendarName?: Writable<Default<string, "">>;
   calendarOutbox?: Writable<Default<CalendarOutbox, { entries: []; lastUpdated: ""; version: "1.0" }>>;
+  // What earlier exports wrote where, so re-exports update instead of duplicating
+  calendarExportRecord?: Writable<Default<CalendarExportRecord, { entries: []; lastUpdated: "" }>>;
   // Note: Google Calendar auth is managed internally via wish() - see createGoogleAuth usage
 }
 
@@ -906,10 +883,11 @@ const prepareCalendarExport = handler<
     calendarName: Writable<string>;
     pendingExport: Writable<PendingCalendarExport>;
     outbox: Writable<CalendarOutbox>;
+    exportRecord: Writable<CalendarExportRecord>;
   }
 >((_: unknown, state) => {
   // Handler receives readonly props from framework, cast to mutable for internal use
-  const { pinnedClasses, semesterDates, child, activeSetName, calendarName: calendarNameCell, pendingExport, outbox } = state as {
+  const { pinnedClasses, semesterDates, child, activeSetName, calendarName: calendarNameCell, pendingExport, outbox, exportRecord } = state as {
     pinnedClasses: Class[];
     semesterDates: Writable<SemesterDates>;
     child: Writable<ChildProfile>;
@@ -917,6 +895,7 @@ const prepareCalendarExport = handler<
     calendarName: Writable<string>;
     pendingExport: Writable<PendingCalendarExport>;
     outbox: Writable<CalendarOutbox>;
+    exportRecord: Writable<CalendarExportRecord>;
   };
   // pinnedClasses is a computed cell - handler receives unwrapped value (not cell)
   const classList = pinnedClasses || [];
@@ -928,54 +907,41 @@ const prepareCalendarExport = handler<
   if (!classList || classList.length === 0) return;
   if (!semester.startDate || !semester.endDate) return;
 
-  // Generate ICS content (for download fallback)
-  const icalResult = classesToICalEvents(classList, semester);
-  const icsCalendarName = `${childProfile.name || "Child"}'s ${setName || "default"} Schedule`;
-  const icsContent = generateICS(icalResult.events, {
-    calendarName: icsCalendarName,
-    prodId: "-//CommonTools//Extracurricular Selector//EN",
-  });
-
-  // Generate outbox events (for apple-sync CLI)
-  const outboxResult = classesToOutboxEvents(classList, semester, targetCalendar);
-
-  // Check for duplicates: events already in outbox with same ID
-  // DEFENSIVE: Filter undefined entries/events during hydration
-  const currentOutbox = outbox.get() || { entries: [], lastUpdated: "", version: "1.0" };
-  const existingUIDs = new Set(
-    (currentOutbox.entries || []).filter((entry: CalendarOutboxEntry) => entry != null).flatMap((entry: CalendarOutboxEntry) =>
-      (entry.events || []).filter((e: CalendarOutboxEvent) => e != null).map((e: CalendarOutboxEvent) => e.id)
-    )
-  );
-  const newEvents = outboxResult.events.filter((e: CalendarOutboxEvent) => e != null && !existingUIDs.has(e.id));
-  const duplicateCount = outboxResult.events.length - newEvents.length;
+  // One snapshot per class time slot - the unit plans and the record work with
+  const exportableResult = classesToExportableEvents(classList);
+  const snapshotResult = toExportSnapshots(exportableResult.events, semester);
 
   // Combine skipped items from both conversions (deduplicate)
-  const allSkipped = [...icalResult.skipped];
-  // Only add outbox skipped if not already in list
-  for (const skip of outboxResult.skipped) {
-    if (!allSkipped.some(s => s.className === skip.className && s.reason === skip.reason)) {
-      allSkipped.push(skip);
+  const allSkipped = [...exportableResult.skipped];
+  for (const skip of snapshotResult.skipped) {
+    if (!allSkipped.some(s => s.className === skip.name && s.reason === skip.reason)) {
+      allSkipped.push({ className: skip.name, reason: skip.reason });
     }
   }
 
-  // Generate exportable events for Google Calendar
-  const exportableResult = classesToExportableEvents(classList);
+  // Diff against what was exported before, per target
+  // DEFENSIVE: Filter undefined entries during hydration
+  const recordEntries = (exportRecord.get()?.entries || []).filter((entry: ExportRecordEntry) => entry != null);
+  const currentOutbox = outbox.get() || { entries: [], lastUpdated: "", version: "1.0" };
+  const adopted = adoptOutboxExports(snapshotResult.snapshots, recordEntries, currentOutbox);
+  const snapshots = snapshotResult.snapshots;
 
   // Set pending operation for confirmation dialog
   pendingExport.set({
     classes: classList,
     semester,
-    icsContent,
     childName: childProfile.name || "Child",
     setName: setName || "default",
-    eventCount: newEvents.length,
+    eventCount: snapshots.length,
     calendarName: targetCalendar,
-    outboxEvents: newEvents, // Only non-duplicate events
     skippedItems: allSkipped,
-    duplicateCount,
+    plans: {
+      google: planExport(snapshots, recordEntries, "google", "primary"), // Always use primary calendar for Google
+      apple: planExport(snapshots, [...recordEntries, ...adopted], "apple", targetCalendar),
+      ics: planExport(snapshots, recordEntries, "ics", ""),
+    },
+    adoptedCount: adopted.length,
     selectedTarget: null, // User picks in dialog
-    exportableEvents: exportableResult.events,
   });
 });
 
@@ -1002,10 +968,13 @@ const selectExportTarget = handler<
 });
 
 /**
- * Confirms and executes the export based on selected target.
- * - Google: Direct API with batch operations and progress tracking
- * - Apple: Add to outbox for apple-sync CLI + download ICS backup
- * - ICS: Just download the ICS file
+ * Confirms and executes the export plan for the selected target.
+ * - Google: Direct API - creates, updates and deletes with progress tracking
+ * - Apple: Add the changes to outbox for apple-sync CLI + download ICS backup
+ * - ICS: Download a file that updates events imported from earlier downloads
+ *
+ * Every target records what it wrote in the export record, so the next
+ * export only changes what changed since.
  *
  * This is the "confirm" phase of the two-phase commit pattern.
  */
@@ -1018,15 +987,17 @@ const confirmCalendarExport = handler<
     result: Writable<CalendarExportResult>;
     classList: Writable<Class[]>;
     outbox: Writable<CalendarOutbox>;
+    exportRecord: Writable<CalendarExportRecord>;
     auth: Writable<GoogleAuthType>;
   }
->(async (_: unknown, { pendingExport, processing, progress, result, classList, outbox, auth }: {
+>(async (_: unknown, { pendingExport, processing, progress, result, classList, outbox, exportRecord, auth }: {
   pendingExport: Writable<PendingCalendarExport>;
   processing: Writable<boolean>;
   progress: Writable<CalendarExportProgress>;
   result: Writable<CalendarExportResult>;
   classList: Writable<Class[]>;
   outbox: Writable<CalendarOutbox>;
+  exportRecord: Writable<CalendarExportRecord>;
   auth: Writable<GoogleAuthType>;
 }) => {
   const pending = pendingExport.get();
@@ -1038,6 +1009,8 @@ const confirmCalendarExport = handler<
   try {
     const now = new Date().toISOString();
     const target = pending.selectedTarget;
+    const plan = pending.plans[target];
+    const exportTitle = `${pending.childName}'s ${pending.setName} Schedule`;
     let exportResult: CalendarExportResult;
 
     if (target === "google") {
@@ -1047,22 +1020,16 @@ const confirmCalendarExport = handler<
         throw new Error("Google authentication required. Please sign in first.");
       }
 
-      // Google Calendar: Use batch API with progress tracking
-      const googleResult = await exportToGoogle(
+      // Google Calendar: Apply the plan with progress tracking
+      const googleResult = await syncToGoogle(
         auth,
-        pending.exportableEvents,
-        {
-          calendarName: "primary", // Always use primary calendar for Google
-          dateRange: pending.semester,
-          exportTitle: `${pending.childName}'s ${pending.setName} Schedule`,
-          sourcePattern: {
-            name: "Extracurricular Selector",
-            path: "patterns/jkomoros/extracurricular.tsx",
-          },
-        },
+        plan,
         (p) => progress.set(p), // Progress callback
       );
 
+      // Failed steps stay as they were in the record and are retried next time
+      exportRecord.set(recordExportResults(exportRecord.get(), plan, googleResult.eventResults, { timestamp: now }));
+
       exportResult = {
         success: googleResult.success,
         message: googleResult.message,
@@ -1072,20 +1039,21 @@ const confirmCalendarExport = handler<
         failedCount: googleResult.failedCount,
       };
     } else if (target === "apple") {
-      // Apple Calendar: Add to outbox + download ICS backup
+      // Apple Calendar: Add changes to outbox + download ICS backup
+      const outboxEvents = planToOutboxEvents(plan);
       const outboxEntry: CalendarOutboxEntry = {
         id: `export-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-        events: pending.outboxEvents,
+        events: outboxEvents,
         confirmation: {
           timestamp: now,
           dialogContent: {
-            displayedTitle: `${pending.childName}'s ${pending.setName} Schedule`,
+            displayedTitle: exportTitle,
             displayedCalendar: pending.calendarName,
             displayedTimeRange: `${pending.semester?.startDate || ""} to ${pending.semester?.endDate || ""}`,
-            displayedEventCount: pending.eventCount,
+            displayedEventCount: outboxEvents.length,
             // DEFENSIVE: Filter undefined during hydration
             displayedClasses: pending.classes.filter((c: Class) => c != null).map((c: Class) => c.name),
-            warningMessage: `This will create ${pending.eventCount} recurring events in your "${pending.calendarName}" calendar.`,
+            warningMessage: `Changes to your "${pending.calendarName}" calendar: ${describeExportPlan(plan)}.`,
           },
           sourcePattern: {
             name: "Extracurricular Selector",
@@ -1098,14 +1066,20 @@ const confirmCalendarExport = handler<
         createdAt: now,
       };
 
-      // Add to outbox
-      const currentOutbox = outbox.get() || { entries: [], lastUpdated: "", version: "1.0" };
-      const updatedOutbox: CalendarOutbox = {
-        entries: [...(currentOutbox.entries || []), outboxEntry],
-        lastUpdated: now,
-        version: "1.0",
-      };
-      outbox.set(updatedOutbox);
+      // Add to outbox (nothing to queue if the calendar is up to date)
+      if (outboxEvents.length > 0) {
+        const currentOutbox = outbox.get() || { entries: [], lastUpdated: "", version: "1.0" };
+        const updatedOutbox: CalendarOutbox = {
+          entries: [...(currentOutbox.entries || []), outboxEntry],
+          lastUpdated: now,
+          version: "1.0",
+        };
+        outbox.set(updatedOutbox);
+      }
+      exportRecord.set(recordExportResults(exportRecord.get(), plan, undefined, {
+        outboxEntryId: outboxEntry.id,
+        timestamp: now,
+      }));
 
       // Prepare ICS file for download via ct-file-download component
       const dateStr = now.split("T")[0];
@@ -1115,12 +1089,14 @@ const confirmCalendarExport = handler<
 
       exportResult = {
         success: true,
-        message: `Added ${pending.eventCount} events to outbox for "${pending.calendarName}" calendar. Click below to download backup ICS.`,
+        message: outboxEvents.length > 0
+          ? `Added ${outboxEvents.length} changes to outbox for "${pending.calendarName}" calendar (${describeExportPlan(plan)}). Click below to download backup ICS.`
+          : `"${pending.calendarName}" calendar is already up to date. Click below to download backup ICS.`,
         timestamp: now,
-        exportedCount: pending.eventCount,
+        exportedCount: outboxEvents.length,
         target: "apple",
-        addedToOutbox: true,
-        icsContent: pending.icsContent,
+        addedToOutbox: outboxEvents.length > 0,
+        icsContent: planToICS(plan, { calendarName: exportTitle, prodId: ICS_PROD_ID }),
         icsFilename: filename,
       };
     } else {
@@ -1130,13 +1106,15 @@ const confirmCalendarExport = handler<
       const setSlug = sanitizeFilename(pending.setName).toLowerCase();
       const filename = `${childSlug}-${setSlug}-schedule-${dateStr}.ics`;
 
+      exportRecord.set(recordExportResults(exportRecord.get(), plan, undefined, { timestamp: now }));
+
       exportResult = {
         success: true,
-        message: `Ready to download ${filename}`,
+        message: `Ready to download ${filename} (${describeExportPlan(plan)})`,
         timestamp: now,
         exportedCount: pending.eventCount,
         target: "ics",
-        icsContent: pending.icsContent,
+        icsContent: planToICS(plan, { calendarName: exportTitle, prodId: ICS_PROD_ID }),
         icsFilename: filename,
       };
     }
@@ -1243,6 +1221,25 @@ const toggleStatus = (
 // Helper: display set name (shows "(default)" for empty string)
 const displaySetName = (name: string): string => name === "" ? "(default)" : name;
 
+// Helper: plan steps for the selected export target that change something
+const planChanges = (pending: PendingCalendarExport): ExportPlanItem[] => {
+  if (!pending?.selectedTarget) return [];
+  // DEFENSIVE: Filter undefined items during hydration
+  return (pending.plans?.[pending.selectedTarget]?.items || []).filter(
+    (item: ExportPlanItem) => item != null && item.action !== "unchanged"
+  );
+};
+
+// Helper: one line per plan step, e.g. "✏️ Update Soccer (MO 15:00-16:00): time"
+const describePlanItem = (item: ExportPlanItem): string => {
+  const slot = item.event || item.previous;
+  const day = slot?.recurrence?.byDay ? `${slot.recurrence.byDay} ` : "";
+  const when = slot ? ` (${day}${slot.startTime}-${slot.endTime})` : "";
+  if (item.action === "create") return `➕ Add ${item.title}${when}`;
+  if (item.action === "delete") return `🗑️ Remove ${item.title}${when}`;
+  return `✏️ Update ${item.title}${when}: ${item.changes.join(", ")}`;
+};
+
 // ============================================================================
 // HELPER FUNCTIONS FOR HANDLERS (need to be at module scope for handlers to use)
 // ============================================================================
@@ -1255,137 +1252,45 @@ interface ConversionResult<T> {
   skipped: { className: string; reason: string }[];
 }
 
-/**
- * Converts pinned classes to ICalEvent array for export (ICS download).
- * Creates one event per time slot with weekly recurrence.
- *
- * Edge cases handled (with reporting):
- * - Classes without name: skipped
- * - Classes without time slots: skipped
- * - Time slots starting after semester end: skipped
- */
-function classesToICalEvents(
-  classList: readonly Class[],
-  semester: SemesterDates
-): ConversionResult<ICalEvent> {
-  const events: ICalEvent[] = [];
-  const skipped: { className: string; reason: string }[] = [];
-
-  for (const cls of classList) {
-    if (!cls || !cls.name) {
-      skipped.push({ className: "(unknown)", reason: "Invalid or missing class data" });
-      continue;
-    }
-
-    if (!cls.timeSlots || cls.timeSlots.length === 0) {
-      skipped.push({ className: cls.name, reason: "No time slots defined" });
-      continue;
-    }
-
-    for (const slot of cls.timeSlots) {
-      // Find the first occurrence of this weekday within the semester
-      const firstDate = getFirstOccurrenceDate(
-        semester.startDate,
-        slot.day as ICalDayOfWeek
-      );
-
-      // Skip if first occurrence is after semester end
-      if (firstDate > semester.endDate) {
-        skipped.push({
-          className: cls.name,
-          reason: `${slot.day} slot starts after semester ends`,
-        });
-        continue;
-      }
-
-      // Use deterministic UID based on event properties
-      const event: ICalEvent = {
-        uid: generateEventUID(cls.name, slot.day, slot.startTime, firstDate),
-        summary: cls.name,
-        location: cls.location?.name
-          ? `${cls.location.name}${cls.location.address ? ` - ${cls.location.address}` : ""}`
-          : undefined,
-        description: cls.description || undefined,
-        startDate: firstDate,
-        startTime: slot.startTime,
-        endTime: slot.endTime,
-        rrule: {
-          freq: "WEEKLY",
-          byday: dayToICalDay(slot.day as ICalDayOfWeek),
-          until: semester.endDate,
-        },
-      };
-
-      events.push(event);
-    }
-  }
-
-  return { events, skipped };
-}
+const ICS_PROD_ID = "-//CommonTools//Extracurricular Selector//EN";
 
 /**
- * Converts pinned classes to CalendarOutboxEvent array for apple-sync CLI.
- * Creates one event per time slot with weekly recurrence.
+ * Record entries for Apple Calendar events exported before the export record
+ * existed, found in the outbox by UID. Without them, the first export after
+ * an upgrade would queue every event again.
  */
-function classesToOutboxEvents(
-  classList: readonly Class[],
-  semester: SemesterDates,
-  targetCalendar: string
-): ConversionResult<CalendarOutboxEvent> {
-  const events: CalendarOutboxEvent[] = [];
-  const skipped: { className: string; reason: string }[] = [];
-
-  for (const cls of classList) {
-    if (!cls || !cls.name) {
-      skipped.push({ className: "(unknown)", reason: "Invalid or missing class data" });
-      continue;
-    }
-
-    if (!cls.timeSlots || cls.timeSlots.length === 0) {
-      skipped.push({ className: cls.name, reason: "No time slots defined" });
-      continue;
-    }
-
-    for (const slot of cls.timeSlots) {
-      // Find the first occurrence of this weekday within the semester
-      const firstDate = getFirstOccurrenceDate(
-        semester.startDate,
-        slot.day as ICalDayOfWeek
-      );
-
-      // Skip if first occurrence is after semester end
-      if (firstDate > semester.endDate) {
-        skipped.push({
-          className: cls.name,
-          reason: `${slot.day} slot starts after semester ends`,
-        });
-        continue;
-      }
-
-      // Use deterministic UID based on event properties
-      const event: CalendarOutboxEvent = {
-        id: generateEventUID(cls.name, slot.day, slot.startTime, firstDate),
-        title: cls.name,
-        calendarName: targetCalendar,
-        startDate: firstDate,
-        startTime: slot.startTime,
-        endTime: slot.endTime,
-        location: cls.location?.name
-          ? `${cls.location.name}${cls.location.address ? ` - ${cls.location.address}` : ""}`
-          : undefined,
-        notes: cls.description || undefined,
-        recurrence: {
-          frequency: "WEEKLY",
-          byDay: dayToICalDay(slot.day as ICalDayOfWeek),
-          until: semester.endDate,
-        },
-      };
-
-      events.push(event);
+function adoptOutboxExports(
+  snapshots: readonly ExportedEventSnapshot[],
+  record: readonly ExportRecordEntry[],
+  outbox: CalendarOutbox
+): ExportRecordEntry[] {
+  // Once anything was recorded for Apple, the record is authoritative
+  if (record.some((entry: ExportRecordEntry) => entry.target === "apple")) return [];
+
+  const adopted: ExportRecordEntry[] = [];
+  for (const snapshot of snapshots) {
+    // DEFENSIVE: Filter undefined entries/events during hydration
+    for (const entry of (outbox.entries || []).filter((e: CalendarOutboxEntry) => e != null)) {
+      if (entry.execution?.status === "failed") continue;
+      const event = (entry.events || []).find((e: CalendarOutboxEvent) => e != null && !e.action && e.id === snapshot.uid);
+      if (!event) continue;
+      adopted.push({
+        ...snapshot,
+        title: event.title,
+        location: event.location,
+        description: event.notes,
+        endTime: event.endTime,
+        recurrence: event.recurrence,
+        target: "apple",
+        calendarId: event.calendarName,
+        outboxEntryId: entry.id,
+        sequence: 0,
+        exportedAt: entry.createdAt,
+      });
+      break;
     }
   }
-
-  return { events, skipped };
+  return adopted;
 }
 
 /**
@@ -1413,7 +1318,9 @@ function classesToExportableEvents(
     const event: ExportableEvent = {
       id: `class-${cls.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`,
       title: cls.name,
-      location: cls.location?.name,
+      location: cls.location?.name
+        ? `${cls.location.name}${cls.location.address ? ` - ${cls.location.address}` : ""}`
+        : undefined,
       description: cls.description || undefined,
       timeSlots: cls.timeSlots.filter((slot: TimeSlot) => slot != null).map((slot: TimeSlot) => ({
         day: slot.day,
@@ -1433,7 +1340,7 @@ function classesToExportableEvents(
 // ============================================================================
 
 export default pattern<ExtracurricularInput, ExtracurricularOutput>(
-  ({ locations, classes, child, pinnedSetNames, activeSetName, stagedClasses, semesterDates, calendarName, calendarOutbox }) => {
+  ({ locations, classes, child, pinnedSetNames, activeSetName, stagedClasses, semesterDates, calendarName, calendarOutbox, calendarExportRecord }) => {
     // Local cell for selected location when adding a class
     const selectedLocationIndex = Writable.of<number>(-1);
 
@@ -2275,6 +2182,7 @@ Return all visible text.`
                       calendarName,
                       pendingExport: pendingCalendarExport,
                       outbox: calendarOutbox,
+                      exportRecord: calendarExportRecord,
                     })}
                   >
                     Export to iCal (.ics)
@@ -2490,13 +2398,13 @@ Return all visible text.`
                       </div>
                     </div>
 
-                    {/* Duplicates warning - only show if there are duplicates */}
+                    {/* Earlier Apple exports found in the outbox - only show for Apple */}
                     {ifElse(
-                      derive(pendingCalendarExport, (p: PendingCalendarExport) => (p?.duplicateCount || 0) > 0),
+                      derive(pendingCalendarExport, (p: PendingCalendarExport) => p?.selectedTarget === "apple" && (p?.adoptedCount || 0) > 0),
                       <div style={{ marginTop: "12px", padding: "8px 12px", background: "#fef3c7", borderRadius: "6px", border: "1px solid #f59e0b" }}>
                         <div style={{ color: "#92400e", fontSize: "13px" }}>
                           ⚠️ {derive(pendingCalendarExport, (p: PendingCalendarExport) =>
-                            `${p?.duplicateCount} event(s) already in outbox and will be skipped`
+                            `${p?.adoptedCount} event(s) already in outbox from an earlier export and will not be added again`
                           )}
                         </div>
                       </div>,
@@ -2653,17 +2561,34 @@ Return all visible text.`
                     >
                       <div style={{ fontWeight: "600", marginBottom: "4px", color: "#92400e" }}>
                         {derive(pendingCalendarExport, (p: PendingCalendarExport) =>
-                          `This will add ${p?.eventCount || 0} events to your calendar`
+                          p?.selectedTarget ? `Changes: ${describeExportPlan(p.plans[p.selectedTarget])}` : ""
                         )}
                       </div>
+                      {/* Plan steps - what will be created, updated or removed */}
+                      <ul style={{ margin: "0 0 8px 0", paddingLeft: "20px", fontSize: "13px", color: "#78350f" }}>
+                        {derive(pendingCalendarExport, (p: PendingCalendarExport) =>
+                          planChanges(p).slice(0, 8).map((item: ExportPlanItem) => (
+                            <li>{describePlanItem(item)}</li>
+                          ))
+                        )}
+                        {ifElse(
+                          derive(pendingCalendarExport, (p: PendingCalendarExport) => planChanges(p).length > 8),
+                          <li style={{ fontStyle: "italic" }}>
+                            {derive(pendingCalendarExport, (p: PendingCalendarExport) =>
+                              `...and ${planChanges(p).length - 8} more`
+                            )}
+                          </li>,
+                          null
+                        )}
+                      </ul>
                       <div style={{ fontSize: "14px", color: "#78350f" }}>
                         {derive(pendingCalendarExport, (p: PendingCalendarExport) => {
                           if (p?.selectedTarget === "google") {
-                            return "Events will be created directly in your Google Calendar. Weekly recurring events will be created until the semester end date.";
+                            return "Changes will be made directly in your Google Calendar. Weekly recurring events run until the semester end date.";
                           } else if (p?.selectedTarget === "apple") {
-                            return "Events will be added to the outbox for apple-sync to process. An ICS file will also be downloaded as a backup.";
+                            return "Changes will be added to the outbox for apple-sync to process. An ICS file will also be downloaded as a backup.";
                           } else {
-                            return "Download the .ics file and import it into your preferred calendar application.";
+                            return "Download the .ics file and import it into your preferred calendar application. Importing it over an earlier download updates changed classes and cancels removed ones.";
                           }
                         })}
                       </div>
@@ -2744,6 +2669,7 @@ Return all visible text.`
                       result: calendarExportResult,
                       classList: classes,
                       outbox: calendarOutbox,
+                      exportRecord: calendarExportRecord,
                       auth: googleAuthManager.auth,
                     })}
                     disabled={exportButtonDisabled}
@@ -3416,6 +3342,7 @@ Return all visible text.`
       semesterDates,
       calendarName,
       calendarOutbox,
+      calendarExportRecord,
     };
   }
 );
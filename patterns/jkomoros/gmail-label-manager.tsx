@@ -0,0 +1,556 @@
+/// <cts-enable />
+/**
+ * Gmail Label Manager
+ *
+ * Review queue for Gmail label changes suggested by agents through
+ * queueLabelChangeTool / suggestLabelChangeTool (util/write-api-tools.ts).
+ * Nothing touches Gmail until a suggestion is approved here, one at a time
+ * or in bulk.
+ *
+ * Applied changes go to an undo log that records only the labels each message
+ * actually gained or lost, so undoing restores what was there before without
+ * disturbing labels the change didn't touch.
+ *
+ * Requires the gmailModify scope.
+ */
+import {
+  computed,
+  Default,
+  derive,
+  handler,
+  ifElse,
+  NAME,
+  pattern,
+  str,
+  UI,
+  Writable,
+} from "commontools";
+import { createGoogleAuth, type ScopeKey } from "./lib/google-auth-manager.tsx";
+import { type Auth, GmailClient } from "./lib/gmail-client.ts";
+import {
+  type LabelChangeDraft,
+  type QueuedLabelChange,
+  queueLabelChangeTool,
+} from "./util/write-api-tools.ts";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Labels one message actually gained and lost when a change was applied */
+export type MessageLabelChange = {
+  messageId: string;
+  added: string[];
+  removed: string[];
+};
+
+/** An applied label change, kept so it can be undone */
+export type AppliedLabelChange = {
+  id: string;
+  description: string;
+  reason: string;
+  appliedAt: string;
+  changes: MessageLabelChange[];
+  // ISO time the change was undone; empty while it is in effect
+  undoneAt: string;
+};
+
+interface Input {
+  // Suggestions awaiting review; agents append via queueLabelChangeTool
+  queue: Default<QueuedLabelChange[], []>;
+  // Slot written by suggestLabelChangeTool; add it to the queue to review it
+  pendingLabelOp: Default<LabelChangeDraft | null, null>;
+  // Applied changes, newest first
+  undoLog: Default<AppliedLabelChange[], []>;
+  // Gmail API base URL; empty uses the real Gmail API (see tools/fake-gmail.ts)
+  apiBaseUrl: Default<string, "">;
+  // Optional: Link auth from a Google Auth charm when wish() is unavailable
+  linkedAuth?: Auth;
+}
+
+/** Review queue for agent-suggested Gmail label changes. #gmailLabelQueue */
+interface Output {
+  queue: QueuedLabelChange[];
+  undoLog: AppliedLabelChange[];
+  /** Number of suggestions waiting for review */
+  pendingCount: number;
+}
+
+type ReviewState = {
+  queue: Writable<QueuedLabelChange[]>;
+  undoLog: Writable<AppliedLabelChange[]>;
+  auth: Writable<Auth>;
+  apiBaseUrl: Writable<string>;
+  processing: Writable<boolean>;
+  status: Writable<string>;
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+// Labels with a friendlier verb than "add X" / "remove X"
+const ADD_VERBS: Record<string, string> = {
+  INBOX: "move to inbox",
+  UNREAD: "mark unread",
+  STARRED: "star",
+};
+const REMOVE_VERBS: Record<string, string> = {
+  INBOX: "archive",
+  UNREAD: "mark read",
+  STARRED: "unstar",
+};
+
+/** "Archive, mark read on 3 messages" */
+export function describeLabelChange(draft: LabelChangeDraft): string {
+  const add = draft.labelsToAdd || [];
+  const remove = draft.labelsToRemove || [];
+  const actions = [
+    ...remove.filter((label) => REMOVE_VERBS[label]).map((label) =>
+      REMOVE_VERBS[label]
+    ),
+    ...add.filter((label) => ADD_VERBS[label]).map((label) => ADD_VERBS[label]),
+  ];
+  const otherAdds = add.filter((label) => !ADD_VERBS[label]);
+  const otherRemoves = remove.filter((label) => !REMOVE_VERBS[label]);
+  if (otherAdds.length > 0) actions.push(`add ${otherAdds.join(", ")}`);
+  if (otherRemoves.length > 0) {
+    actions.push(`remove ${otherRemoves.join(", ")}`);
+  }
+
+  const summary = actions.join(", ") || "no label changes";
+  const count = (draft.messageIds || []).length;
+  return `${summary[0].toUpperCase()}${summary.slice(1)} on ${count} message${
+    count === 1 ? "" : "s"
+  }`;
+}
+
+// Messages needing the same change share one batchModify call
+async function modifyGrouped(
+  client: GmailClient,
+  changes: MessageLabelChange[],
+): Promise<void> {
+  const groups = new Map<string, MessageLabelChange[]>();
+  for (const change of changes) {
+    if (change.added.length === 0 && change.removed.length === 0) continue;
+    const key = JSON.stringify([
+      [...change.added].sort(),
+      [...change.removed].sort(),
+    ]);
+    groups.set(key, [...(groups.get(key) || []), change]);
+  }
+  for (const group of groups.values()) {
+    await client.batchModify(
+      group.map((change) => change.messageId),
+      group[0].added,
+      group[0].removed,
+    );
+  }
+}
+
+/**
+ * Apply a label change, returning what each message actually gained and lost.
+ * Current labels are read first so the undo log only reverts real changes.
+ */
+async function applyLabelChange(
+  client: GmailClient,
+  draft: LabelChangeDraft,
+): Promise<MessageLabelChange[]> {
+  const before = await client.fetchLabelIds(draft.messageIds);
+  if (before.size === 0) {
+    throw new Error("None of the messages exist anymore");
+  }
+  const changes = draft.messageIds
+    .filter((id) => before.has(id))
+    .map((id) => {
+      const labels = before.get(id)!;
+      return {
+        messageId: id,
+        added: draft.labelsToAdd.filter((label) => !labels.includes(label)),
+        removed: draft.labelsToRemove.filter((label) => labels.includes(label)),
+      };
+    })
+    .filter((change) => change.added.length > 0 || change.removed.length > 0);
+  await modifyGrouped(client, changes);
+  return changes;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function createClient(state: ReviewState): GmailClient {
+  return new GmailClient(state.auth, {
+    baseUrl: state.apiBaseUrl.get() || undefined,
+  });
+}
+
+/** Apply queued suggestions in order; failures stay queued with their error */
+async function approveQueued(ids: string[], state: ReviewState) {
+  if (state.processing.get() || ids.length === 0) return;
+  if (!state.auth.get()?.token) {
+    state.status.set("Sign in with Google (Gmail modify access) first.");
+    return;
+  }
+
+  state.processing.set(true);
+  const client = createClient(state);
+  let applied = 0;
+  let failed = 0;
+  try {
+    for (const id of ids) {
+      const item = state.queue.get().find((queued) => queued.id === id);
+      if (!item) continue;
+      try {
+        const changes = await applyLabelChange(client, item);
+        state.undoLog.set([
+          {
+            id: `applied-${Date.now()}-${
+              Math.random().toString(36).slice(2, 8)
+            }`,
+            description: describeLabelChange(item),
+            reason: item.reason || "",
+            appliedAt: new Date().toISOString(),
+            changes,
+            undoneAt: "",
+          },
+          ...state.undoLog.get(),
+        ]);
+        state.queue.set(state.queue.get().filter((queued) => queued.id !== id));
+        applied++;
+      } catch (error) {
+        console.error("[GmailLabelManager] Failed to apply change:", error);
+        state.queue.set(
+          state.queue.get().map((queued) =>
+            queued.id === id
+              ? { ...queued, error: errorMessage(error) }
+              : queued
+          ),
+        );
+        failed++;
+      }
+    }
+    state.status.set(
+      `Applied ${applied} change${applied === 1 ? "" : "s"}${
+        failed > 0 ? `, ${failed} failed` : ""
+      }.`,
+    );
+  } finally {
+    state.processing.set(false);
+  }
+}
+
+// =============================================================================
+// HANDLERS
+// =============================================================================
+
+const approveChange = handler<unknown, ReviewState & { id: string }>(
+  async (_event, { id, ...state }) => {
+    await approveQueued([id], state);
+  },
+);
+
+const approveAll = handler<unknown, ReviewState>(async (_event, state) => {
+  await approveQueued(state.queue.get().map((item) => item.id), state);
+});
+
+const rejectChange = handler<
+  unknown,
+  { queue: Writable<QueuedLabelChange[]>; id: string }
+>((_event, { queue, id }) => {
+  queue.set(queue.get().filter((item) => item.id !== id));
+});
+
+const rejectAll = handler<
+  unknown,
+  { queue: Writable<QueuedLabelChange[]>; status: Writable<string> }
+>((_event, { queue, status }) => {
+  const count = queue.get().length;
+  queue.set([]);
+  status.set(`Rejected ${count} suggestion${count === 1 ? "" : "s"}.`);
+});
+
+// Move the single suggestLabelChangeTool slot into the queue
+const queuePendingSuggestion = handler<
+  unknown,
+  {
+    pendingLabelOp: Writable<LabelChangeDraft | null>;
+    queue: Writable<QueuedLabelChange[]>;
+  }
+>((_event, { pendingLabelOp, queue }) => {
+  const pending = pendingLabelOp.get();
+  if (!pending) return;
+  queue.push({
+    ...pending,
+    id: `label-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    suggestedAt: new Date().toISOString(),
+  });
+  pendingLabelOp.set(null);
+});
+
+const undoChange = handler<unknown, ReviewState & { id: string }>(
+  async (_event, { id, ...state }) => {
+    const entry = state.undoLog.get().find((applied) => applied.id === id);
+    if (!entry || entry.undoneAt || state.processing.get()) return;
+
+    state.processing.set(true);
+    try {
+      await modifyGrouped(
+        createClient(state),
+        entry.changes.map((change) => ({
+          messageId: change.messageId,
+          added: change.removed,
+          removed: change.added,
+        })),
+      );
+      state.undoLog.set(
+        state.undoLog.get().map((applied) =>
+          applied.id === id
+            ? { ...applied, undoneAt: new Date().toISOString() }
+            : applied
+        ),
+      );
+      state.status.set(`Undid: ${entry.description}.`);
+    } catch (error) {
+      console.error("[GmailLabelManager] Undo failed:", error);
+      state.status.set(`Undo failed: ${errorMessage(error)}`);
+    } finally {
+      state.processing.set(false);
+    }
+  },
+);
+
+// =============================================================================
+// PATTERN
+// =============================================================================
+
+export default pattern<Input, Output>(
+  ({ queue, pendingLabelOp, undoLog, apiBaseUrl, linkedAuth }) => {
+    const processing = Writable.of(false);
+    const status = Writable.of("");
+
+    const {
+      auth: wishedAuth,
+      fullUI,
+      isReady: wishedIsReady,
+    } = createGoogleAuth({
+      requiredScopes: ["gmailModify"] as ScopeKey[],
+    });
+
+    // Use linkedAuth if provided, otherwise use wished auth
+    const hasLinkedAuth = derive(
+      { linkedAuth },
+      ({ linkedAuth: la }) => !!(la?.token),
+    );
+    const linkedAuthCell = Writable.of<Auth | null>(null);
+    computed(() => {
+      if (linkedAuth?.token) {
+        linkedAuthCell.set(linkedAuth as any);
+      }
+    });
+    const auth = ifElse(hasLinkedAuth, linkedAuthCell, wishedAuth) as any;
+    const isReady = ifElse(hasLinkedAuth, hasLinkedAuth, wishedIsReady);
+
+    const pendingCount = derive(
+      queue,
+      (list: QueuedLabelChange[]) => list?.length || 0,
+    );
+    const hasPendingSuggestion = derive(
+      pendingLabelOp,
+      (pending: LabelChangeDraft | null) => !!pending,
+    );
+    const reviewState = {
+      queue,
+      undoLog,
+      auth,
+      apiBaseUrl,
+      processing,
+      status,
+    };
+
+    return {
+      [NAME]: str`Gmail Label Manager (${pendingCount} pending)`,
+      [UI]: (
+        <ct-screen>
+          <div slot="header">
+            <ct-heading level={3}>Gmail Label Manager</ct-heading>
+          </div>
+
+          <ct-vscroll flex showScrollbar>
+            <ct-vstack padding="6" gap="4">
+              {ifElse(hasLinkedAuth, null, fullUI)}
+
+              {ifElse(
+                status,
+                <div style={{ fontSize: "14px", color: "#374151" }}>
+                  {status}
+                </div>,
+                null,
+              )}
+
+              {ifElse(
+                hasPendingSuggestion,
+                <div
+                  style={{
+                    padding: "12px",
+                    background: "#eff6ff",
+                    borderRadius: "8px",
+                  }}
+                >
+                  <div style={{ fontSize: "14px", marginBottom: "8px" }}>
+                    New suggestion:{" "}
+                    {derive(
+                      pendingLabelOp,
+                      (pending: LabelChangeDraft | null) =>
+                        pending ? describeLabelChange(pending) : "",
+                    )}
+                  </div>
+                  <ct-button
+                    type="button"
+                    onClick={queuePendingSuggestion({ pendingLabelOp, queue })}
+                  >
+                    Add to review queue
+                  </ct-button>
+                </div>,
+                null,
+              )}
+
+              <ct-hstack align="center" gap="2">
+                <h3 style={{ margin: "0", flex: "1" }}>
+                  Suggested changes ({pendingCount})
+                </h3>
+                <ct-button
+                  type="button"
+                  onClick={approveAll(reviewState)}
+                  disabled={derive(
+                    { processing, isReady, pendingCount },
+                    ({ processing, isReady, pendingCount }) =>
+                      processing || !isReady || pendingCount === 0,
+                  )}
+                >
+                  {ifElse(processing, "Applying...", "Approve all")}
+                </ct-button>
+                <ct-button
+                  type="button"
+                  variant="secondary"
+                  onClick={rejectAll({ queue, status })}
+                  disabled={derive(
+                    { processing, pendingCount },
+                    ({ processing, pendingCount }) =>
+                      processing || pendingCount === 0,
+                  )}
+                >
+                  Reject all
+                </ct-button>
+              </ct-hstack>
+
+              {queue.map((item) => (
+                <div
+                  style={{
+                    padding: "12px",
+                    border: "1px solid #e5e7eb",
+                    borderRadius: "8px",
+                  }}
+                >
+                  <div style={{ fontWeight: "600" }}>
+                    {derive(item, (i: QueuedLabelChange) =>
+                      describeLabelChange(i))}
+                  </div>
+                  <div style={{ fontSize: "13px", color: "#4b5563" }}>
+                    {item.reason}
+                  </div>
+                  <div style={{ fontSize: "12px", color: "#6b7280" }}>
+                    Messages: {derive(
+                      item,
+                      (i: QueuedLabelChange) => (i.messageIds || []).join(", "),
+                    )}
+                  </div>
+                  {ifElse(
+                    item.error,
+                    <div style={{ fontSize: "12px", color: "#b91c1c" }}>
+                      Failed: {item.error}
+                    </div>,
+                    null,
+                  )}
+                  <ct-hstack gap="2" style={{ marginTop: "8px" }}>
+                    <ct-button
+                      type="button"
+                      size="sm"
+                      onClick={approveChange({ ...reviewState, id: item.id })}
+                      disabled={derive(
+                        { processing, isReady },
+                        ({ processing, isReady }) => processing || !isReady,
+                      )}
+                    >
+                      Approve
+                    </ct-button>
+                    <ct-button
+                      type="button"
+                      size="sm"
+                      variant="secondary"
+                      onClick={rejectChange({ queue, id: item.id })}
+                      disabled={processing}
+                    >
+                      Reject
+                    </ct-button>
+                  </ct-hstack>
+                </div>
+              ))}
+
+              <h3 style={{ margin: "16px 0 0 0" }}>Applied changes</h3>
+              {undoLog.map((entry) => (
+                <div
+                  style={{
+                    padding: "12px",
+                    border: "1px solid #e5e7eb",
+                    borderRadius: "8px",
+                    opacity: derive(
+                      entry,
+                      (e: AppliedLabelChange) => e.undoneAt ? 0.6 : 1,
+                    ),
+                  }}
+                >
+                  <div style={{ fontWeight: "600" }}>{entry.description}</div>
+                  <div style={{ fontSize: "12px", color: "#6b7280" }}>
+                    {derive(
+                      entry,
+                      (e: AppliedLabelChange) =>
+                        `Applied ${new Date(e.appliedAt).toLocaleString()}, ${
+                          (e.changes || []).length
+                        } message(s) changed${
+                          e.undoneAt
+                            ? `; undone ${
+                              new Date(e.undoneAt).toLocaleString()
+                            }`
+                            : ""
+                        }`,
+                    )}
+                  </div>
+                  <ct-button
+                    type="button"
+                    size="sm"
+                    variant="secondary"
+                    style={{ marginTop: "8px" }}
+                    onClick={undoChange({ ...reviewState, id: entry.id })}
+                    disabled={derive(
+                      { entry, processing, isReady },
+                      ({ entry, processing, isReady }) =>
+                        !!entry.undoneAt || processing || !isReady,
+                    )}
+                  >
+                    Undo
+                  </ct-button>
+                </div>
+              ))}
+            </ct-vstack>
+          </ct-vscroll>
+        </ct-screen>
+      ),
+      queue,
+      undoLog,
+      pendingCount,
+      // Tool for agents in other charms: queue a label change for review
+      queueLabelChange: queueLabelChangeTool(queue),
+    };
+  },
+);
@@ -0,0 +1,506 @@
+/// <cts-enable />
+/**
+ * Gmail Sender
+ *
+ * Compose, review and send the EmailDraft that agents write through
+ * suggestEmailTool (util/write-api-tools.ts). Recipients, subject and body
+ * stay editable until "Review", which builds the exact RFC 2822 message
+ * (with In-Reply-To/References for replies). Nothing is sent until that
+ * message is confirmed; sent messages are recorded in the sent log.
+ *
+ * Requires the gmailSend scope (and gmail read access for replies).
+ */
+import {
+  computed,
+  Default,
+  derive,
+  handler,
+  ifElse,
+  NAME,
+  pattern,
+  str,
+  UI,
+  Writable,
+} from "commontools";
+import { createGoogleAuth, type ScopeKey } from "./lib/google-auth-manager.tsx";
+import { type Auth, GmailClient } from "./lib/gmail-client.ts";
+import { type EmailDraft, suggestEmailTool } from "./util/write-api-tools.ts";
+import {
+  buildMimeMessage,
+  encodeBase64Url,
+  replySubject,
+  validateEmailDraft,
+} from "./util/email-mime.ts";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** A message sent from this pattern */
+export type SentEmail = {
+  // Gmail message and thread IDs of the sent message
+  id: string;
+  threadId: string;
+  to: string;
+  cc: string;
+  bcc: string;
+  subject: string;
+  body: string;
+  // Message-ID header of the message this replied to, empty for new threads
+  inReplyTo: string;
+  sentAt: string;
+};
+
+/** The exact message shown for confirmation, sent as-is once confirmed */
+type PreparedEmail = {
+  mime: string;
+  threadId: string;
+  inReplyTo: string;
+  // The draft as reviewed; any later change to pendingDraft discards this
+  draft: EmailDraft;
+  // Subject as sent ("Re: " added for replies)
+  subject: string;
+};
+
+interface Input {
+  // Draft to review; suggestEmailTool writes here, and it is editable below
+  pendingDraft: Default<EmailDraft | null, null>;
+  // Sent messages, newest first
+  sentLog: Default<SentEmail[], []>;
+  // Gmail API base URL; empty uses the real Gmail API (see tools/fake-gmail.ts)
+  apiBaseUrl: Default<string, "">;
+  // Optional: Link auth from a Google Auth charm when wish() is unavailable
+  linkedAuth?: Auth;
+}
+
+/** Compose and send email drafts after confirmation. #gmailSender */
+interface Output {
+  pendingDraft: EmailDraft | null;
+  sentLog: SentEmail[];
+}
+
+type SendState = {
+  pendingDraft: Writable<EmailDraft | null>;
+  sentLog: Writable<SentEmail[]>;
+  prepared: Writable<PreparedEmail | null>;
+  auth: Writable<Auth>;
+  apiBaseUrl: Writable<string>;
+  processing: Writable<boolean>;
+  status: Writable<string>;
+};
+
+const EMPTY_DRAFT: EmailDraft = {
+  to: "",
+  subject: "",
+  body: "",
+  cc: "",
+  bcc: "",
+  replyToMessageId: "",
+  replyToThreadId: "",
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function sameDraft(a: EmailDraft, b: EmailDraft): boolean {
+  return a.to === b.to && (a.cc || "") === (b.cc || "") &&
+    (a.bcc || "") === (b.bcc || "") && a.subject === b.subject &&
+    a.body === b.body &&
+    (a.replyToMessageId || "") === (b.replyToMessageId || "") &&
+    (a.replyToThreadId || "") === (b.replyToThreadId || "");
+}
+
+function createClient(state: SendState): GmailClient {
+  return new GmailClient(state.auth, {
+    baseUrl: state.apiBaseUrl.get() || undefined,
+  });
+}
+
+// =============================================================================
+// HANDLERS
+// =============================================================================
+
+const newDraft = handler<
+  unknown,
+  {
+    pendingDraft: Writable<EmailDraft | null>;
+    prepared: Writable<PreparedEmail | null>;
+  }
+>((_event, { pendingDraft, prepared }) => {
+  pendingDraft.set({ ...EMPTY_DRAFT });
+  prepared.set(null);
+});
+
+const discardDraft = handler<
+  unknown,
+  {
+    pendingDraft: Writable<EmailDraft | null>;
+    prepared: Writable<PreparedEmail | null>;
+    status: Writable<string>;
+  }
+>((_event, { pendingDraft, prepared, status }) => {
+  pendingDraft.set(null);
+  prepared.set(null);
+  status.set("Draft discarded.");
+});
+
+const backToEditing = handler<
+  unknown,
+  { prepared: Writable<PreparedEmail | null> }
+>((_event, { prepared }) => {
+  prepared.set(null);
+});
+
+/**
+ * Build the message for confirmation. Replies look up the original's
+ * Message-ID and References so the reply threads correctly for everyone.
+ */
+const reviewDraft = handler<unknown, SendState>(async (_event, state) => {
+  const draft = state.pendingDraft.get();
+  if (!draft || state.processing.get()) return;
+
+  const errors = validateEmailDraft(draft);
+  if (errors.length > 0) {
+    state.status.set(errors.join(" "));
+    return;
+  }
+  if (!state.auth.get()?.token) {
+    state.status.set("Sign in with Google (Gmail send access) first.");
+    return;
+  }
+
+  state.processing.set(true);
+  try {
+    let threadId = draft.replyToThreadId || "";
+    let inReplyTo = "";
+    let references = "";
+    let subject = draft.subject;
+    if (draft.replyToMessageId) {
+      const original = await createClient(state).fetchReplyHeaders(
+        draft.replyToMessageId,
+      );
+      threadId = original.threadId || threadId;
+      inReplyTo = original.messageIdHeader;
+      references = original.references;
+      subject = replySubject(subject);
+    }
+
+    const mime = buildMimeMessage(
+      { ...draft, subject },
+      {
+        from: state.auth.get()?.user?.email || "",
+        inReplyTo,
+        references,
+      },
+    );
+    state.prepared.set({
+      mime,
+      threadId,
+      inReplyTo,
+      draft: { ...draft },
+      subject,
+    });
+    state.status.set("");
+  } catch (error) {
+    console.error("[GmailSender] Failed to prepare message:", error);
+    state.status.set(`Couldn't prepare the reply: ${errorMessage(error)}`);
+  } finally {
+    state.processing.set(false);
+  }
+});
+
+/** Send the confirmed message exactly as it was shown */
+const confirmSend = handler<unknown, SendState>(async (_event, state) => {
+  const prepared = state.prepared.get();
+  const draft = state.pendingDraft.get();
+  if (!prepared || !draft || state.processing.get()) return;
+  if (!sameDraft(draft, prepared.draft)) {
+    state.prepared.set(null);
+    state.status.set("The draft changed after review. Review it again.");
+    return;
+  }
+
+  state.processing.set(true);
+  try {
+    const sent = await createClient(state).sendMessage(
+      encodeBase64Url(prepared.mime),
+      prepared.threadId || undefined,
+    );
+    state.sentLog.set([
+      {
+        id: sent.id,
+        threadId: sent.threadId,
+        to: prepared.draft.to,
+        cc: prepared.draft.cc || "",
+        bcc: prepared.draft.bcc || "",
+        subject: prepared.subject,
+        body: prepared.draft.body,
+        inReplyTo: prepared.inReplyTo,
+        sentAt: new Date().toISOString(),
+      },
+      ...state.sentLog.get(),
+    ]);
+    state.pendingDraft.set(null);
+    state.prepared.set(null);
+    state.status.set(`Sent to ${prepared.draft.to}.`);
+  } catch (error) {
+    console.error("[GmailSender] Send failed:", error);
+    state.status.set(`Send failed: ${errorMessage(error)}`);
+  } finally {
+    state.processing.set(false);
+  }
+});
+
+// =============================================================================
+// PATTERN
+// =============================================================================
+
+const fieldLabelStyle = {
+  display: "block",
+  marginBottom: "4px",
+  fontSize: "14px",
+};
+
+export default pattern<Input, Output>(
+  ({ pendingDraft, sentLog, apiBaseUrl, linkedAuth }) => {
+    const prepared = Writable.of<PreparedEmail | null>(null);
+    const processing = Writable.of(false);
+    const status = Writable.of("");
+
+    const {
+      auth: wishedAuth,
+      fullUI,
+      isReady: wishedIsReady,
+    } = createGoogleAuth({
+      requiredScopes: ["gmail", "gmailSend"] as ScopeKey[],
+    });
+
+    // Use linkedAuth if provided, otherwise use wished auth
+    const hasLinkedAuth = derive(
+      { linkedAuth },
+      ({ linkedAuth: la }) => !!(la?.token),
+    );
+    const linkedAuthCell = Writable.of<Auth | null>(null);
+    computed(() => {
+      if (linkedAuth?.token) {
+        linkedAuthCell.set(linkedAuth as any);
+      }
+    });
+    const auth = ifElse(hasLinkedAuth, linkedAuthCell, wishedAuth) as any;
+    const isReady = ifElse(hasLinkedAuth, hasLinkedAuth, wishedIsReady);
+
+    const hasDraft = derive(
+      pendingDraft,
+      (draft: EmailDraft | null) => !!draft,
+    );
+    const isPrepared = derive(
+      prepared,
+      (message: PreparedEmail | null) => !!message,
+    );
+    const isReply = derive(
+      pendingDraft,
+      (draft: EmailDraft | null) => !!draft?.replyToMessageId,
+    );
+    const sentCount = derive(sentLog, (list: SentEmail[]) => list?.length || 0);
+
+    // A draft changed after review (e.g. by suggestEmail) must be reviewed
+    // again, so the confirmation never shows something other than what's sent
+    computed(() => {
+      const message = prepared.get();
+      if (
+        message && (!pendingDraft || !sameDraft(pendingDraft, message.draft))
+      ) {
+        prepared.set(null);
+      }
+    });
+
+    const sendState = {
+      pendingDraft,
+      sentLog,
+      prepared,
+      auth,
+      apiBaseUrl,
+      processing,
+      status,
+    };
+
+    return {
+      [NAME]: str`Gmail Sender (${sentCount} sent)`,
+      [UI]: (
+        <ct-screen>
+          <div slot="header">
+            <ct-heading level={3}>Gmail Sender</ct-heading>
+          </div>
+
+          <ct-vscroll flex showScrollbar>
+            <ct-vstack padding="6" gap="4">
+              {ifElse(hasLinkedAuth, null, fullUI)}
+
+              {ifElse(
+                status,
+                <div style={{ fontSize: "14px", color: "#374151" }}>
+                  {status}
+                </div>,
+                null,
+              )}
+
+              {ifElse(
+                hasDraft,
+                ifElse(
+                  isPrepared,
+                  // Confirmation: the exact message that will be sent
+                  <div
+                    style={{
+                      padding: "12px",
+                      border: "2px solid #f59e0b",
+                      borderRadius: "8px",
+                    }}
+                  >
+                    <div style={{ fontWeight: "600", marginBottom: "8px" }}>
+                      Send this message?
+                    </div>
+                    <pre
+                      style={{
+                        whiteSpace: "pre-wrap",
+                        fontSize: "12px",
+                        maxHeight: "200px",
+                        overflowY: "auto",
+                      }}
+                    >
+                      {derive(
+                        prepared,
+                        (message: PreparedEmail | null) =>
+                          message?.mime.split("\r\n\r\n")[0] || "",
+                      )}
+                    </pre>
+                    <pre style={{ whiteSpace: "pre-wrap", fontSize: "14px" }}>
+                      {derive(
+                        prepared,
+                        (message: PreparedEmail | null) =>
+                          message?.draft.body || "",
+                      )}
+                    </pre>
+                    <ct-hstack gap="2">
+                      <ct-button
+                        type="button"
+                        onClick={confirmSend(sendState)}
+                        disabled={processing}
+                      >
+                        {ifElse(processing, "Sending...", "Confirm and send")}
+                      </ct-button>
+                      <ct-button
+                        type="button"
+                        variant="secondary"
+                        onClick={backToEditing({ prepared })}
+                        disabled={processing}
+                      >
+                        Back to editing
+                      </ct-button>
+                    </ct-hstack>
+                  </div>,
+                  // Editing
+                  <ct-vstack gap="2">
+                    {ifElse(
+                      isReply,
+                      <div style={{ fontSize: "13px", color: "#6b7280" }}>
+                        Reply to message {pendingDraft.replyToMessageId}
+                      </div>,
+                      null,
+                    )}
+                    <div>
+                      <label style={fieldLabelStyle}>To</label>
+                      <ct-input
+                        type="text"
+                        $value={pendingDraft.to}
+                        placeholder="name@example.com, other@example.com"
+                      />
+                    </div>
+                    <div>
+                      <label style={fieldLabelStyle}>Cc</label>
+                      <ct-input type="text" $value={pendingDraft.cc} />
+                    </div>
+                    <div>
+                      <label style={fieldLabelStyle}>Bcc</label>
+                      <ct-input type="text" $value={pendingDraft.bcc} />
+                    </div>
+                    <div>
+                      <label style={fieldLabelStyle}>Subject</label>
+                      <ct-input type="text" $value={pendingDraft.subject} />
+                    </div>
+                    <div>
+                      <label style={fieldLabelStyle}>Message</label>
+                      <ct-textarea $value={pendingDraft.body} rows={10} />
+                    </div>
+                    <ct-hstack gap="2">
+                      <ct-button
+                        type="button"
+                        onClick={reviewDraft(sendState)}
+                        disabled={derive(
+                          { processing, isReady },
+                          ({ processing, isReady }) => processing || !isReady,
+                        )}
+                      >
+                        {ifElse(processing, "Preparing...", "Review")}
+                      </ct-button>
+                      <ct-button
+                        type="button"
+                        variant="secondary"
+                        onClick={discardDraft({
+                          pendingDraft,
+                          prepared,
+                          status,
+                        })}
+                      >
+                        Discard
+                      </ct-button>
+                    </ct-hstack>
+                  </ct-vstack>,
+                ),
+                <ct-button
+                  type="button"
+                  onClick={newDraft({ pendingDraft, prepared })}
+                >
+                  New email
+                </ct-button>,
+              )}
+
+              <h3 style={{ margin: "16px 0 0 0" }}>Sent ({sentCount})</h3>
+              {sentLog.map((sent) => (
+                <details
+                  style={{
+                    padding: "8px 12px",
+                    border: "1px solid #e5e7eb",
+                    borderRadius: "8px",
+                  }}
+                >
+                  <summary style={{ cursor: "pointer" }}>
+                    <strong>{sent.subject}</strong>
+                    <div style={{ fontSize: "12px", color: "#6b7280" }}>
+                      To {sent.to} ·{" "}
+                      {derive(
+                        sent,
+                        (s: SentEmail) => new Date(s.sentAt).toLocaleString(),
+                      )}
+                    </div>
+                  </summary>
+                  <pre style={{ whiteSpace: "pre-wrap", fontSize: "13px" }}>
+                    {sent.body}
+                  </pre>
+                </details>
+              ))}
+            </ct-vstack>
+          </ct-vscroll>
+        </ct-screen>
+      ),
+      pendingDraft,
+      sentLog,
+      // Tool for agents in other charms: propose a draft for review here
+      suggestEmail: suggestEmailTool(pendingDraft),
+    };
+  },
+);
@@ -171,8 +171,13 @@ export interface ExportableEvent {
  * This format is consumed by the apple-sync CLI tool.
  */
 export interface CalendarOutboxEvent {
-  /** Unique event identifier */
+  /** Unique event identifier (the iCal UID) */
   id: string;
+  /**
+   * What to do with the event (default: "create"). Updates and deletes refer
+   * to an event created by an earlier entry with the same id.
+   */
+  action?: "create" | "update" | "delete";
   /** Event title */
   title: string;
   /** Target calendar name in Apple Calendar */
@@ -228,6 +233,8 @@ export interface ExecutionResult {
   error?: string;
   /** IDs of events created in Apple Calendar */
   createdEventIds?: string[];
+  /** Apple Calendar event ID for each outbox event ID written by this entry */
+  eventIds?: Record<string, string>;
 }
 
 /**
@@ -236,7 +243,7 @@ export interface ExecutionResult {
 export interface CalendarOutboxEntry {
   /** Unique entry identifier */
   id: string;
-  /** Events to create */
+  /** Events to create, update or delete */
   events: CalendarOutboxEvent[];
   /** User confirmation metadata (audit trail) */
   confirmation: UserConfirmation;
@@ -259,6 +266,113 @@ export interface CalendarOutbox {
   version: string; // "1.0"
 }
 
+// ============================================================================
+// EXPORT RECORD (for re-export reconciliation)
+// ============================================================================
+
+/**
+ * A single recurring series (or one-off event) as written to a calendar.
+ *
+ * `key` stays the same when the event's time or details change, so a later
+ * export can tell an edited event from a new one. `uid` is the iCal UID and
+ * the Apple outbox event ID.
+ */
+export interface ExportedEventSnapshot {
+  /** Stable identity: `${ExportableEvent.id}-${day}` for time slots */
+  key: string;
+  /** iCal UID */
+  uid: string;
+  /** Event title */
+  title: string;
+  /** Event location */
+  location?: string;
+  /** Event description/notes */
+  description?: string;
+  /** First occurrence in YYYY-MM-DD format */
+  startDate: string;
+  /** Start time in HH:MM format */
+  startTime: string;
+  /** End time in HH:MM format */
+  endTime: string;
+  /** Weekly recurrence (omitted for single events) */
+  recurrence?: RecurrenceRule;
+  /** Whether this is an all-day event */
+  isAllDay?: boolean;
+}
+
+/**
+ * What an earlier export wrote to one target.
+ */
+export interface ExportRecordEntry extends ExportedEventSnapshot {
+  /** Target the event was written to */
+  target: ExportTarget;
+  /** Google calendar ID or Apple calendar name ("" for ICS) */
+  calendarId: string;
+  /** Google Calendar event ID */
+  externalId?: string;
+  /** Apple outbox entry that last wrote this event */
+  outboxEntryId?: string;
+  /** iCal SEQUENCE, bumped on every update */
+  sequence: number;
+  /** ISO timestamp of the last write */
+  exportedAt: string;
+}
+
+/**
+ * Everything exported so far, across all targets.
+ * Stored by the exporting pattern next to its outbox.
+ */
+export interface CalendarExportRecord {
+  /** One entry per event per target */
+  entries: ExportRecordEntry[];
+  /** ISO timestamp of last update */
+  lastUpdated: string;
+}
+
+/**
+ * What a re-export does with one event.
+ */
+export type ExportPlanAction = "create" | "update" | "delete" | "unchanged";
+
+/**
+ * One step of an export plan.
+ */
+export interface ExportPlanItem {
+  /** What will happen */
+  action: ExportPlanAction;
+  /** Snapshot key */
+  key: string;
+  /** Event title (for display) */
+  title: string;
+  /** The event as it will be written (absent for deletes) */
+  event?: ExportedEventSnapshot;
+  /** What was exported before (absent for creates) */
+  previous?: ExportRecordEntry;
+  /** Changed fields for updates, e.g. ["time", "location"] */
+  changes: string[];
+}
+
+/**
+ * Create/update/delete plan for exporting to one target,
+ * shown to the user for confirmation before anything is written.
+ */
+export interface ExportPlan {
+  /** Export target */
+  target: ExportTarget;
+  /** Google calendar ID or Apple calendar name ("" for ICS) */
+  calendarId: string;
+  /** Steps, deletes first */
+  items: ExportPlanItem[];
+  /** Number of events that will be created */
+  createCount: number;
+  /** Number of events that will be updated */
+  updateCount: number;
+  /** Number of events that will be deleted */
+  deleteCount: number;
+  /** Number of events already up to date */
+  unchangedCount: number;
+}
+
 // ============================================================================
 // EXPORT CONFIGURATION
 // ============================================================================
@@ -89,6 +89,8 @@ export interface UpdateEventParams {
   attendees?: string[];
   /** For all-day events */
   isAllDay?: boolean;
+  /** Recurrence rules in RFC 5545 RRULE format (replaces existing) */
+  recurrence?: string[];
 }
 
 export type RSVPStatus = "accepted" | "declined" | "tentative";
@@ -405,6 +407,9 @@ export class CalendarWriteClient {
     if (params.attendees !== undefined) {
       body.attendees = params.attendees.map((email) => ({ email }));
     }
+    if (params.recurrence !== undefined) {
+      body.recurrence = params.recurrence;
+    }
 
     const url = new URL(
       `https://www.googleapis.com/calendar/v3/calendars/${
@@ -194,6 +194,11 @@ export interface GmailAgenticSearchInput {
     user: { email: ""; name: ""; picture: "" };
   }>;
 
+  // Gmail API base URL; empty uses the real Gmail API.
+  // Point at a local stand-in server (tools/fake-gmail.ts) to run agents offline,
+  // together with a directly linked auth holding any placeholder token.
+  apiBaseUrl?: Default<string, "">;
+
   // ========================================================================
   // SHARED SEARCH STRINGS SUPPORT
   // ========================================================================
@@ -433,6 +438,7 @@ const searchGmailHandler = handler<
     authRefreshStream: RefreshStreamType | null;
     progress: Writable<SearchProgress>;
     maxSearches: Writable<Default<number, 0>>;
+    apiBaseUrl: Writable<Default<string, "">>;
     debugLog: Writable<DebugLogEntry[]>;
     localQueries: Writable<LocalQuery[]>;
     communityQueryRefs: Writable<CommunityQueryRef[]>;
@@ -555,6 +561,7 @@ const searchGmailHandler = handler<
       // Use GmailClient with the auth cell and onRefresh callback
       const client = new GmailClient(state.auth, {
         debugMode: false,
+        baseUrl: state.apiBaseUrl.get() || undefined,
         onRefresh,
       });
       const emails = await client.searchEmails(input.query, 30);
@@ -715,6 +722,7 @@ const startScanHandler = handler<
     isAuthenticated: Writable<boolean>;
     progress: Writable<SearchProgress>;
     auth: Writable<Auth>;
+    apiBaseUrl: Writable<Default<string, "">>;
     debugLog: Writable<DebugLogEntry[]>;
     // Stream<T> in signature lets framework unwrap opaque stream from wished charms
     authRefreshStream: RefreshStreamType | null;
@@ -748,6 +756,7 @@ const startScanHandler = handler<
     state.auth,
     refreshStream,
     true,
+    state.apiBaseUrl.get() || undefined,
   );
 
   if (!validation.valid) {
@@ -969,6 +978,7 @@ const GmailAgenticSearch = pattern<
     debugLog, // Debug log for tracking agent activity
     auth: inputAuth, // CT-1085 workaround: direct auth input
     accountType, // Multi-account support: "default" | "personal" | "work"
+    apiBaseUrl, // Local stand-in server for offline testing ("" = Gmail)
     // Shared search strings support
     agentTypeUrl,
     localQueries: localQueriesInput, // Renamed: input may be read-only
@@ -1280,6 +1290,7 @@ const GmailAgenticSearch = pattern<
               authRefreshStream,
               progress: searchProgress,
               maxSearches,
+              apiBaseUrl,
               debugLog,
               localQueries,
               communityQueryRefs,
@@ -1412,6 +1423,7 @@ When you're done searching, STOP calling tools and produce your final structured
       isAuthenticated,
       progress: searchProgress,
       auth,
+      apiBaseUrl,
       debugLog,
       authRefreshStream,
     });
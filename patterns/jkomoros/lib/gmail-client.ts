@@ -3,9 +3,15 @@
  *
  * This module provides a reusable Gmail client that handles:
  * - Token refresh on 401 errors
- * - Rate limit handling (429) with exponential backoff
+ * - Rate limit handling (429, and 403 rate limit errors) with exponential
+ *   backoff
  * - Configurable retry logic
  * - Batch API requests for efficiency
+ * - Label changes (modify, batchModify, archive, mark read), which need the
+ *   gmailModify scope
+ * - Sending RFC 2822 messages, which needs the gmailSend scope
+ * - A configurable API base URL, so patterns can run against a local stand-in
+ *   server (see tools/fake-gmail.ts)
  *
  * Usage:
  * ```typescript
@@ -27,6 +33,9 @@ import type { Auth } from "./gmail-importer.tsx";
 // TYPES
 // ============================================================================
 
+/** Base URL of the real Gmail API */
+export const GMAIL_API_BASE_URL = "https://gmail.googleapis.com";
+
 export interface GmailClientConfig {
   /** How many times the client will retry after an HTTP failure */
   retries?: number;
@@ -36,6 +45,12 @@ export interface GmailClientConfig {
   delayIncrement?: number;
   /** Enable verbose console logging */
   debugMode?: boolean;
+  /**
+   * Base URL for all Gmail API requests, including batch requests.
+   * Defaults to GMAIL_API_BASE_URL; point it at a local stand-in server
+   * (e.g. "http://localhost:8765" for tools/fake-gmail.ts) to test offline.
+   */
+  baseUrl?: string;
   /**
    * External refresh callback for cross-charm token refresh.
    * Use this when the auth cell belongs to a different charm - direct cell updates
@@ -71,6 +86,18 @@ export interface FullEmail {
   htmlContent: string;
 }
 
+/** A record from the Gmail history API (changes made in one history step) */
+export interface GmailHistoryRecord {
+  id: string;
+  messages?: Array<{ id: string; threadId: string }>;
+  messagesAdded?: Array<{
+    message: { id: string; threadId: string; labelIds: string[] };
+  }>;
+  messagesDeleted?: Array<{ message: { id: string; threadId: string } }>;
+  labelsAdded?: Array<{ message: { id: string }; labelIds: string[] }>;
+  labelsRemoved?: Array<{ message: { id: string }; labelIds: string[] }>;
+}
+
 // ============================================================================
 // HELPERS
 // ============================================================================
@@ -85,6 +112,15 @@ function debugWarn(debugMode: boolean, ...args: unknown[]) {
   if (debugMode) console.warn("[GmailClient]", ...args);
 }
 
+/**
+ * Build a Gmail API URL from a base URL and an absolute API path.
+ * Keeps any path prefix of the base URL (e.g. "http://localhost:8765/gmail-proxy").
+ */
+function gmailUrl(baseUrl: string | undefined, path: string): URL {
+  const base = (baseUrl || GMAIL_API_BASE_URL).replace(/\/+$/, "");
+  return new URL(`${base}${path}`);
+}
+
 // ============================================================================
 // GMAIL CLIENT
 // ============================================================================
@@ -102,6 +138,7 @@ export class GmailClient {
   private delay: number;
   private delayIncrement: number;
   private debugMode: boolean;
+  private baseUrl: string;
   private onRefresh?: () => Promise<void>;
 
   constructor(
@@ -111,6 +148,7 @@ export class GmailClient {
       delay = 1000,
       delayIncrement = 100,
       debugMode = false,
+      baseUrl = GMAIL_API_BASE_URL,
       onRefresh,
     }: GmailClientConfig = {},
   ) {
@@ -119,6 +157,7 @@ export class GmailClient {
     this.delay = delay;
     this.delayIncrement = delayIncrement;
     this.debugMode = debugMode;
+    this.baseUrl = baseUrl;
     this.onRefresh = onRefresh;
   }
 
@@ -178,9 +217,7 @@ export class GmailClient {
     threadsTotal: number;
     historyId: string;
   }> {
-    const url = new URL(
-      "https://gmail.googleapis.com/gmail/v1/users/me/profile",
-    );
+    const url = gmailUrl(this.baseUrl, "/gmail/v1/users/me/profile");
     const res = await this.googleRequest(url);
     return await res.json();
   }
@@ -221,8 +258,9 @@ export class GmailClient {
     gmailFilterQuery: string = "in:INBOX",
     maxResults: number = 100,
   ): Promise<{ id: string; threadId?: string }[]> {
-    const url = new URL(
-      `https://gmail.googleapis.com/gmail/v1/users/me/messages?q=${
+    const url = gmailUrl(
+      this.baseUrl,
+      `/gmail/v1/users/me/messages?q=${
         encodeURIComponent(gmailFilterQuery)
       }&maxResults=${maxResults}`,
     );
@@ -238,6 +276,29 @@ export class GmailClient {
     return json.messages;
   }
 
+  /**
+   * Fetch one page of message IDs matching a query.
+   * Pass the previous page's nextPageToken as pageToken to get the next page.
+   */
+  async listMessagesPage(
+    gmailFilterQuery: string,
+    maxResults: number = 500,
+    pageToken?: string,
+  ): Promise<{
+    messages?: { id: string; threadId?: string }[];
+    nextPageToken?: string;
+  }> {
+    const url = gmailUrl(this.baseUrl, "/gmail/v1/users/me/messages");
+    url.searchParams.set("q", gmailFilterQuery);
+    url.searchParams.set("maxResults", maxResults.toString());
+    if (pageToken) {
+      url.searchParams.set("pageToken", pageToken);
+    }
+
+    const res = await this.googleRequest(url);
+    return await res.json();
+  }
+
   /**
    * Alias for listMessages - for backwards compatibility with gmail-importer.
    */
@@ -250,8 +311,12 @@ export class GmailClient {
 
   /**
    * Fetch full message content for multiple message IDs using batch API.
+   * Pass format "minimal" to get only IDs and labels.
    */
-  async fetchBatch(messages: { id: string }[]): Promise<any[]> {
+  async fetchBatch(
+    messages: { id: string }[],
+    format: "full" | "metadata" | "minimal" = "full",
+  ): Promise<any[]> {
     if (messages.length === 0) return [];
 
     const boundary = `batch_${Math.random().toString(36).substring(2)}`;
@@ -264,7 +329,7 @@ export class GmailClient {
 Content-Type: application/http
 Content-ID: <batch-${index}+${message.id}>
 
-GET /gmail/v1/users/me/messages/${message.id}?format=full
+GET /gmail/v1/users/me/messages/${message.id}?format=${format}
 Authorization: Bearer $PLACEHOLDER
 Accept: application/json
 
@@ -273,7 +338,7 @@ Accept: application/json
       .join("") + `--${boundary}--`;
 
     const batchResponse = await this.googleRequest(
-      new URL("https://gmail.googleapis.com/batch/gmail/v1"),
+      gmailUrl(this.baseUrl, "/batch/gmail/v1"),
       {
         method: "POST",
         headers: {
@@ -341,6 +406,141 @@ Accept: application/json
     return await this.fetchBatch(messageIds.map((id) => ({ id })));
   }
 
+  /**
+   * Fetch the current label IDs of messages, keyed by message ID.
+   * Messages that no longer exist are missing from the result.
+   */
+  async fetchLabelIds(messageIds: string[]): Promise<Map<string, string[]>> {
+    const labels = new Map<string, string[]>();
+    for (let i = 0; i < messageIds.length; i += 100) {
+      const batch = messageIds.slice(i, i + 100).map((id) => ({ id }));
+      for (const message of await this.fetchBatch(batch, "minimal")) {
+        labels.set(message.id, message.labelIds || []);
+      }
+    }
+    return labels;
+  }
+
+  /**
+   * Add and remove labels on one message.
+   * Requires the gmailModify scope. Returns the message's resulting labels.
+   */
+  async modifyLabels(
+    messageId: string,
+    addLabelIds: string[] = [],
+    removeLabelIds: string[] = [],
+  ): Promise<{ id: string; threadId: string; labelIds: string[] }> {
+    const url = gmailUrl(
+      this.baseUrl,
+      `/gmail/v1/users/me/messages/${encodeURIComponent(messageId)}/modify`,
+    );
+    debugLog(this.debugMode, `Modifying labels of ${messageId}`, {
+      addLabelIds,
+      removeLabelIds,
+    });
+    const res = await this.googleRequest(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ addLabelIds, removeLabelIds }),
+    });
+    return await res.json();
+  }
+
+  /**
+   * Apply the same label change to many messages.
+   * Requires the gmailModify scope. Sent in chunks of 1000 IDs (the API limit).
+   */
+  async batchModify(
+    messageIds: string[],
+    addLabelIds: string[] = [],
+    removeLabelIds: string[] = [],
+  ): Promise<void> {
+    const url = gmailUrl(
+      this.baseUrl,
+      "/gmail/v1/users/me/messages/batchModify",
+    );
+    for (let i = 0; i < messageIds.length; i += 1000) {
+      const ids = messageIds.slice(i, i + 1000);
+      debugLog(this.debugMode, `Batch modifying ${ids.length} messages`, {
+        addLabelIds,
+        removeLabelIds,
+      });
+      await this.googleRequest(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids, addLabelIds, removeLabelIds }),
+      });
+    }
+  }
+
+  /**
+   * Archive messages (remove them from the inbox).
+   */
+  async archive(messageIds: string[]): Promise<void> {
+    await this.batchModify(messageIds, [], ["INBOX"]);
+  }
+
+  /**
+   * Mark messages as read.
+   */
+  async markRead(messageIds: string[]): Promise<void> {
+    await this.batchModify(messageIds, [], ["UNREAD"]);
+  }
+
+  /**
+   * Fetch the headers needed to reply to a message in its thread.
+   */
+  async fetchReplyHeaders(messageId: string): Promise<{
+    threadId: string;
+    messageIdHeader: string;
+    references: string;
+    subject: string;
+    from: string;
+  }> {
+    const url = gmailUrl(
+      this.baseUrl,
+      `/gmail/v1/users/me/messages/${encodeURIComponent(messageId)}`,
+    );
+    url.searchParams.set("format", "metadata");
+    for (const name of ["Message-ID", "References", "Subject", "From"]) {
+      url.searchParams.append("metadataHeaders", name);
+    }
+    const res = await this.googleRequest(url);
+    const json = await res.json();
+    const headers: { name: string; value: string }[] = json.payload?.headers ||
+      [];
+    const header = (name: string) =>
+      headers.find((h) => h.name.toLowerCase() === name.toLowerCase())
+        ?.value || "";
+    return {
+      threadId: json.threadId,
+      messageIdHeader: header("Message-ID"),
+      references: header("References"),
+      subject: header("Subject"),
+      from: header("From"),
+    };
+  }
+
+  /**
+   * Send a message. Requires the gmailSend scope.
+   *
+   * @param raw - The RFC 2822 message, base64url encoded
+   * @param threadId - Thread to add a reply to (its headers must also match)
+   */
+  async sendMessage(
+    raw: string,
+    threadId?: string,
+  ): Promise<{ id: string; threadId: string; labelIds: string[] }> {
+    const url = gmailUrl(this.baseUrl, "/gmail/v1/users/me/messages/send");
+    debugLog(this.debugMode, "Sending message", { threadId });
+    const res = await this.googleRequest(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(threadId ? { raw, threadId } : { raw }),
+    });
+    return await res.json();
+  }
+
   /**
    * Fetch a message attachment by ID.
    * Used to resolve inline image attachments (cid: references in HTML).
@@ -350,8 +550,9 @@ Accept: application/json
     messageId: string,
     attachmentId: string,
   ): Promise<string> {
-    const url = new URL(
-      `https://gmail.googleapis.com/gmail/v1/users/me/messages/${messageId}/attachments/${attachmentId}`,
+    const url = gmailUrl(
+      this.baseUrl,
+      `/gmail/v1/users/me/messages/${messageId}/attachments/${attachmentId}`,
     );
     const res = await this.googleRequest(url);
     const json = await res.json();
@@ -359,34 +560,29 @@ Accept: application/json
   }
 
   /**
-   * Fetch Gmail history for incremental sync.
+   * Fetch one page of Gmail history for incremental sync.
+   * Pass the previous page's nextPageToken as pageToken to get the next page.
+   * Throws "Gmail API error: 404 ..." when startHistoryId has expired.
    */
   async fetchHistory(
     startHistoryId: string,
     labelId?: string,
     maxResults: number = 100,
+    pageToken?: string,
   ): Promise<{
-    history?: Array<{
-      id: string;
-      messages?: Array<{ id: string; threadId: string }>;
-      messagesAdded?: Array<{
-        message: { id: string; threadId: string; labelIds: string[] };
-      }>;
-      messagesDeleted?: Array<{ message: { id: string; threadId: string } }>;
-      labelsAdded?: Array<{ message: { id: string }; labelIds: string[] }>;
-      labelsRemoved?: Array<{ message: { id: string }; labelIds: string[] }>;
-    }>;
+    history?: GmailHistoryRecord[];
     historyId: string;
     nextPageToken?: string;
   }> {
-    const url = new URL(
-      "https://gmail.googleapis.com/gmail/v1/users/me/history",
-    );
+    const url = gmailUrl(this.baseUrl, "/gmail/v1/users/me/history");
     url.searchParams.set("startHistoryId", startHistoryId);
     url.searchParams.set("maxResults", maxResults.toString());
     if (labelId) {
       url.searchParams.set("labelId", labelId);
     }
+    if (pageToken) {
+      url.searchParams.set("pageToken", pageToken);
+    }
 
     debugLog(this.debugMode, `Fetching history from: ${url.toString()}`);
     const res = await this.googleRequest(url);
@@ -500,6 +696,7 @@ Accept: application/json
 
     const res = await fetch(url, options);
     let { ok, status, statusText } = res;
+    let reason: string | undefined;
 
     // Batch requests may return 200 with error in body
     if (options.method === "POST") {
@@ -509,10 +706,18 @@ Accept: application/json
           ok = false;
           status = json.error.code;
           statusText = json.error?.message;
+          reason = json.error.errors?.[0]?.reason;
         }
       } catch (_) {
         // Not JSON, probably a real success
       }
+    } else if (status === 403) {
+      try {
+        const json = await res.clone().json();
+        reason = json?.error?.errors?.[0]?.reason;
+      } catch (_) {
+        // No error details
+      }
     }
 
     if (ok) {
@@ -526,7 +731,18 @@ Accept: application/json
       `Remaining retries: ${retries}`,
     );
 
-    if (retries === 0) {
+    // Gmail reports some rate limits as 403; those clear up like a 429 does
+    const rateLimited = status === 429 ||
+      (status === 403 &&
+        (reason === "rateLimitExceeded" ||
+          reason === "userRateLimitExceeded"));
+
+    // Other 400/403/404s won't change on retry (e.g. a label write without
+    // the gmailModify scope, or a message that was deleted)
+    if (
+      retries === 0 ||
+      (!rateLimited && (status === 400 || status === 403 || status === 404))
+    ) {
       throw new Error(`Gmail API error: ${status} ${statusText}`);
     }
 
@@ -534,7 +750,7 @@ Accept: application/json
 
     if (status === 401) {
       await this.refreshAuth();
-    } else if (status === 429) {
+    } else if (rateLimited) {
       this.delay += this.delayIncrement;
       debugLog(
         this.debugMode,
@@ -553,9 +769,12 @@ Accept: application/json
  *
  * NOTE: This function does NOT attempt to refresh expired tokens.
  * For validation with auto-refresh, use validateAndRefreshToken() instead.
+ *
+ * @param baseUrl - Gmail API base URL (defaults to GMAIL_API_BASE_URL)
  */
 export async function validateGmailToken(
   token: string,
+  baseUrl?: string,
 ): Promise<{ valid: boolean; error?: string }> {
   if (!token) {
     return { valid: false, error: "No token provided" };
@@ -563,7 +782,7 @@ export async function validateGmailToken(
 
   try {
     const res = await fetch(
-      "https://gmail.googleapis.com/gmail/v1/users/me/profile",
+      gmailUrl(baseUrl, "/gmail/v1/users/me/profile"),
       {
         headers: { Authorization: `Bearer ${token}` },
       },
@@ -594,11 +813,13 @@ export async function validateGmailToken(
  *
  * @param auth - The auth Cell (must be writable for refresh to work)
  * @param debugMode - Enable debug logging
+ * @param baseUrl - Gmail API base URL (defaults to GMAIL_API_BASE_URL)
  * @returns { valid: true, refreshed?: boolean } or { valid: false, error: string }
  */
 export async function validateAndRefreshToken(
   auth: Writable<Auth>,
   debugMode: boolean = false,
+  baseUrl?: string,
 ): Promise<{ valid: boolean; refreshed?: boolean; error?: string }> {
   const authData = auth.get();
   const token = authData?.token;
@@ -608,7 +829,7 @@ export async function validateAndRefreshToken(
   }
 
   // First, try validating the current token
-  const initialValidation = await validateGmailToken(token);
+  const initialValidation = await validateGmailToken(token, baseUrl);
 
   if (initialValidation.valid) {
     return { valid: true };
@@ -668,7 +889,7 @@ export async function validateAndRefreshToken(
         };
       }
 
-      const refreshedValidation = await validateGmailToken(newToken);
+      const refreshedValidation = await validateGmailToken(newToken, baseUrl);
       if (refreshedValidation.valid) {
         return { valid: true, refreshed: true };
       }
@@ -698,6 +919,7 @@ export async function validateAndRefreshToken(
  * @param auth - The auth Cell (read access)
  * @param refreshStream - A Stream from the auth charm that triggers token refresh
  * @param debugMode - Enable debug logging
+ * @param baseUrl - Gmail API base URL (defaults to GMAIL_API_BASE_URL)
  * @returns { valid: true, refreshed?: boolean } or { valid: false, error: string }
  */
 export async function validateAndRefreshTokenCrossCharm(
@@ -712,6 +934,7 @@ export async function validateAndRefreshTokenCrossCharm(
     | null
     | undefined,
   debugMode: boolean = false,
+  baseUrl?: string,
 ): Promise<{ valid: boolean; refreshed?: boolean; error?: string }> {
   // DEBUG: Log entry point and initial state
   console.log("[DEBUG-REFRESH] validateAndRefreshTokenCrossCharm called");
@@ -737,7 +960,7 @@ export async function validateAndRefreshTokenCrossCharm(
   }
 
   // First, try validating the current token
-  const initialValidation = await validateGmailToken(token);
+  const initialValidation = await validateGmailToken(token, baseUrl);
   console.log("[DEBUG-REFRESH] Initial validation result:", initialValidation);
 
   if (initialValidation.valid) {
@@ -753,7 +976,7 @@ export async function validateAndRefreshTokenCrossCharm(
         );
       }
       // Fall back to direct refresh attempt (will fail with cross-charm write isolation)
-      return validateAndRefreshToken(auth, debugMode);
+      return validateAndRefreshToken(auth, debugMode, baseUrl);
     }
 
     const refreshToken = authData?.refreshToken;
@@ -838,7 +1061,7 @@ export async function validateAndRefreshTokenCrossCharm(
 
       // Validate the new token
       console.log("[DEBUG-REFRESH] Validating new token...");
-      const refreshedValidation = await validateGmailToken(newToken);
+      const refreshedValidation = await validateGmailToken(newToken, baseUrl);
       console.log(
         "[DEBUG-REFRESH] New token validation result:",
         refreshedValidation,
@@ -10,6 +10,7 @@ import {
   pattern,
   patternTool,
   str,
+  Stream,
   UI,
   Writable,
 } from "commontools";
@@ -19,7 +20,8 @@ import {
   type ScopeKey,
 } from "./google-auth-manager.tsx";
 import TurndownService from "turndown";
-import { GmailClient } from "./gmail-client.ts";
+import { GmailClient, type GmailHistoryRecord } from "./gmail-client.ts";
+import { formatRRule, parseICS } from "../util/ical-generator.ts";
 
 type CFC<T, C extends string> = T;
 type Secret<T> = CFC<T, "secret">;
@@ -89,6 +91,123 @@ export type Email = {
   htmlContent: string;
   // Email content converted to Markdown format. Often best for processing email contents.
   markdownContent: string;
+  // Attached files; content is only fetched when fetchAttachments is on, and
+  // binary content only on demand (fetchAttachment) unless storeAttachmentData
+  attachments: Default<EmailAttachment[], []>;
+};
+
+// A file attached to an email
+export type EmailAttachment = {
+  // Gmail attachment ID (empty when the content came inline with the message)
+  attachmentId: string;
+  filename: string;
+  mimeType: string;
+  // Size in bytes as reported by Gmail
+  size: number;
+  // True for parts embedded in the HTML body (Content-ID / inline disposition)
+  inline: boolean;
+  // Standard base64 content, usable in data: URLs; empty until fetched with
+  // the fetchAttachment stream (or at import with storeAttachmentData on)
+  data: string;
+  // Decoded content of text attachments (ICS, CSV, ...)
+  text: string;
+  // Why the content wasn't fetched (too large, filtered type, fetch error)
+  skipped: string;
+  // Events parsed from an ICS calendar invite
+  events: CalendarInvite[];
+};
+
+// An event from an ICS calendar invite attached to an email
+export type CalendarInvite = {
+  // ID of the Gmail message the invite was attached to
+  emailId: string;
+  uid: string;
+  // Calendar METHOD: REQUEST, CANCEL, REPLY, PUBLISH (empty if unspecified)
+  method: string;
+  summary: string;
+  description: string;
+  location: string;
+  // "2025-11-09T03:00:00Z" (converted to UTC), "2025-11-08T22:00:00" for
+  // floating times, or "2025-11-08" for all-day events
+  start: string;
+  // Same format; the last day (inclusive) for all-day events
+  end: string;
+  allDay: boolean;
+  // Timezone the invite was written in, empty for UTC and floating times
+  timezone: string;
+  organizer: string;
+  attendees: string[];
+  // CONFIRMED, TENTATIVE or CANCELLED
+  status: string;
+  // RRULE value (UNTIL in UTC), empty for one-off events
+  rrule: string;
+};
+
+// A message within a thread
+export type ThreadMessage = {
+  id: string;
+  from: string;
+  to: string;
+  date: string;
+  subject: string;
+  snippet: string;
+  labelIds: string[];
+  // Markdown content without the quoted earlier messages of a reply
+  markdownContent: string;
+  // Filenames of non-inline attachments
+  attachmentNames: string[];
+};
+
+// A conversation: the imported emails sharing a Gmail threadId
+export type EmailThread = {
+  // Gmail thread identifier
+  id: string;
+  // Subject of the first message, without Re:/Fwd: prefixes
+  subject: string;
+  // Messages, oldest first
+  messages: ThreadMessage[];
+  // Email addresses of senders and recipients, in order of appearance
+  participants: string[];
+  // Date of the newest message
+  latestDate: string;
+  messageCount: number;
+  // Snippet of the newest message
+  snippet: string;
+  // Labels of any message in the thread
+  labelIds: string[];
+};
+
+// Outcome of the last sync, shown in the UI
+export type SyncStatus = {
+  // "full" re-lists all matching emails; "incremental" applies Gmail history
+  mode: "none" | "full" | "incremental";
+  // Why a full sync was needed (first sync, expired history ID, ...)
+  reason: string;
+  added: number;
+  removed: number;
+  relabeled: number;
+  // Non-fatal problem, e.g. messages that couldn't be fetched
+  error: string;
+  // ISO time the sync finished
+  at: string;
+};
+
+export type SyncResult = {
+  newHistoryId?: string;
+  newEmails?: Email[];
+  deletedEmailIds?: string[];
+  labelUpdates?: { id: string; labelIds: string[] }[];
+  status: SyncStatus;
+};
+
+const NO_SYNC: SyncStatus = {
+  mode: "none",
+  reason: "",
+  added: 0,
+  removed: 0,
+  relabeled: 0,
+  error: "",
+  at: "",
 };
 
 type Settings = {
@@ -106,6 +225,23 @@ type Settings = {
   // Enable this for emails with embedded images (e.g., USPS Informed Delivery)
   // Note: This fetches additional attachment data which may be slower
   resolveInlineImages: Default<boolean, false>;
+  // Fetch attachment content (PDFs, ICS invites, CSVs, images) into
+  // email.attachments and parse ICS invites into events
+  fetchAttachments: Default<boolean, false>;
+  // Attachments larger than this many bytes are listed but not fetched
+  attachmentMaxBytes: Default<number, 1048576>;
+  // Store every fetched attachment's base64 content on its email at import.
+  // Off, only the text of text attachments (ICS, CSV) is kept and the rest is
+  // fetched on demand through the fetchAttachment stream.
+  storeAttachmentData: Default<boolean, false>;
+  // Comma-separated MIME types to fetch; "image/*" matches a whole family
+  attachmentMimeTypes: Default<
+    string,
+    "application/pdf, text/calendar, application/ics, text/csv, image/*"
+  >;
+  // Gmail API base URL; empty uses the real Gmail API. Set to a local stand-in
+  // server (e.g. http://localhost:8765 from tools/fake-gmail.ts) to test offline
+  apiBaseUrl: Default<string, "">;
 };
 
 /** Gmail email importer for fetching and viewing emails. #gmailEmails */
@@ -113,6 +249,14 @@ interface Output {
   emails: Email[];
   /** Number of emails imported */
   emailCount: number;
+  /** Outcome of the last sync (full or incremental, and why) */
+  lastSync: SyncStatus;
+  /** Emails grouped into conversations, most recently active first */
+  threads: EmailThread[];
+  /** Events from ICS invites attached to imported emails */
+  calendarInvites: CalendarInvite[];
+  /** Fetch one attachment's content into email.attachments[].data */
+  fetchAttachment: Stream<{ emailId: string; attachmentId: string }>;
 }
 
 // Debug logging helpers - pass debugMode explicitly to avoid module-level state issues
@@ -146,8 +290,14 @@ const googleUpdater = handler<unknown, {
     debugMode: boolean;
     autoFetchOnAuth: boolean;
     resolveInlineImages: boolean;
+    fetchAttachments: boolean;
+    attachmentMaxBytes: number;
+    storeAttachmentData: boolean;
+    attachmentMimeTypes: string;
+    apiBaseUrl: string;
   }>;
   fetching?: Writable<boolean>;
+  lastSync?: Writable<SyncStatus>;
 }>(
   async (_event, state) => {
     // Set fetching state if available
@@ -178,6 +328,13 @@ const googleUpdater = handler<unknown, {
         { emails: state.emails, settings: state.settings },
         debugMode,
       );
+    } catch (error) {
+      state.lastSync?.set({
+        ...NO_SYNC,
+        error: error instanceof Error ? error.message : String(error),
+        at: new Date().toISOString(),
+      });
+      throw error;
     } finally {
       // Clear fetching state
       if (state.fetching) state.fetching.set(false);
@@ -199,6 +356,24 @@ const googleUpdater = handler<unknown, {
       state.emails.set(remainingEmails);
     }
 
+    // Apply label changes
+    if (result.labelUpdates && result.labelUpdates.length > 0) {
+      debugLog(
+        debugMode,
+        `Updating labels of ${result.labelUpdates.length} messages`,
+      );
+      const labelsById = new Map(
+        result.labelUpdates.map(({ id, labelIds }) => [id, labelIds]),
+      );
+      state.emails.set(
+        state.emails.get().map((email) =>
+          labelsById.has(email.id)
+            ? { ...email, labelIds: labelsById.get(email.id)! }
+            : email
+        ),
+      );
+    }
+
     // Add new emails
     if (result.newEmails && result.newEmails.length > 0) {
       debugLog(debugMode, `Adding ${result.newEmails.length} new emails`);
@@ -222,9 +397,30 @@ const googleUpdater = handler<unknown, {
       debugLog(debugMode, "HistoryId updated successfully");
       debugLog(debugMode, "==========================");
     }
+
+    state.lastSync?.set(result.status);
   },
 );
 
+/** One-line description of the last sync for the UI */
+function describeSync(sync: SyncStatus): string {
+  if (sync.mode === "none") {
+    return sync.error ? `Sync failed: ${sync.error}` : "Not synced yet";
+  }
+  const changes = [
+    `${sync.added} added`,
+    `${sync.removed} removed`,
+    ...(sync.mode === "incremental" ? [`${sync.relabeled} relabeled`] : []),
+  ].join(", ");
+  const when = new Date(sync.at).toLocaleString();
+  const kind = sync.mode === "full"
+    ? `Full sync (${sync.reason})`
+    : "Incremental sync";
+  return `${kind} at ${when}: ${changes}${
+    sync.error ? `. ${sync.error}` : ""
+  }`;
+}
+
 // Helper function to decode base64 encoded email parts
 function decodeBase64(data: string) {
   // Replace URL-safe characters back to their original form
@@ -343,11 +539,217 @@ async function resolveCidReferences(
   return resolvedHtml;
 }
 
+/** Which attachments to fetch; undefined in messageToEmail lists them only */
+type AttachmentOptions = {
+  maxBytes: number;
+  mimeTypes: string;
+  // Keep base64 content; otherwise only text attachments are fetched (for
+  // their text) and the rest is left to fetchAttachment
+  storeData: boolean;
+};
+
+const CALENDAR_MIME_TYPES = ["text/calendar", "application/ics"];
+
+// Helper to turn Gmail's base64url into standard base64 for data: URLs
+function toStandardBase64(data: string): string {
+  const sanitized = data.replace(/-/g, "+").replace(/_/g, "/");
+  return sanitized.padEnd(Math.ceil(sanitized.length / 4) * 4, "=");
+}
+
+// Helper to decode base64url data as UTF-8 text
+function decodeBase64Text(data: string): string {
+  const binary = decodeBase64(data);
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0)),
+  );
+}
+
+// Matches a MIME type against a comma-separated list; empty matches everything
+function mimeTypeMatches(mimeType: string, patterns: string): boolean {
+  const wanted = patterns.split(",").map((p) => p.trim().toLowerCase())
+    .filter(Boolean);
+  if (wanted.length === 0) return true;
+  const type = mimeType.toLowerCase();
+  return wanted.some((pattern) =>
+    pattern === type || pattern === "*/*" ||
+    (pattern.endsWith("/*") && type.startsWith(pattern.slice(0, -1)))
+  );
+}
+
+function isCalendarAttachment(mimeType: string, filename: string): boolean {
+  return CALENDAR_MIME_TYPES.includes(mimeType.toLowerCase()) ||
+    filename.toLowerCase().endsWith(".ics");
+}
+
+function isTextAttachment(mimeType: string, filename: string): boolean {
+  const type = mimeType.toLowerCase();
+  return type.startsWith("text/") || type === "application/json" ||
+    isCalendarAttachment(type, filename);
+}
+
+// Leaf MIME parts that are files rather than the message body. Invites sent
+// as a bare text/calendar alternative (no filename) count as attachments too.
+function findAttachmentParts(parts: any[]): any[] {
+  return parts.flatMap((part: any) => {
+    if (part.parts && Array.isArray(part.parts)) {
+      return findAttachmentParts(part.parts);
+    }
+    const mimeType = (part.mimeType || "").toLowerCase();
+    const isBody = mimeType === "text/plain" || mimeType === "text/html";
+    if (part.filename || (!isBody && part.body?.attachmentId)) return [part];
+    return CALENDAR_MIME_TYPES.includes(mimeType) ? [part] : [];
+  });
+}
+
+// A parsed event time as CalendarInvite shows it: the date of all-day events,
+// otherwise the date and time, in UTC ("Z") unless the invite left it floating
+function inviteTime(
+  date: string,
+  time: string,
+  allDay: boolean,
+  utc: boolean,
+): string {
+  if (allDay) return date;
+  return `${date}T${time}:00${utc ? "Z" : ""}`;
+}
+
+/**
+ * Parse the VEVENTs of an ICS calendar invite with parseICS. Timed events are
+ * converted to UTC using their TZID (or VTIMEZONE); recurrence rules are kept
+ * as RRULE strings rather than expanded.
+ */
+export function parseCalendarInvite(
+  ics: string,
+  emailId: string = "",
+): CalendarInvite[] {
+  const { events, method = "" } = parseICS(ics, { timezone: "UTC" });
+  // Parsed again without converting to learn the zone each event was written in
+  const zones = new Map(
+    parseICS(ics).events.map((event) => [event.uid, event.timezone || ""]),
+  );
+
+  return events.map((event) => {
+    const allDay = !!event.allDay;
+    const utc = !!event.timezone;
+    const zone = zones.get(event.uid) || "";
+    return {
+      emailId,
+      uid: event.uid,
+      method,
+      summary: event.summary,
+      description: event.description || "",
+      location: event.location || "",
+      start: inviteTime(event.startDate, event.startTime, allDay, utc),
+      end: inviteTime(
+        event.endDate || event.startDate,
+        event.endTime,
+        allDay,
+        utc,
+      ),
+      allDay,
+      timezone: zone === "UTC" ? "" : zone,
+      organizer: event.organizer || "",
+      attendees: event.attendees || [],
+      status: event.status || "",
+      rrule: event.rrule ? formatRRule(event.rrule, event.timezone) : "",
+    };
+  });
+}
+
+/**
+ * List a message's attachments, fetching the content of those that pass the
+ * size and MIME filters. Without options, attachments are listed only; unless
+ * options.storeData is set, only text attachments are fetched and their
+ * base64 content isn't kept.
+ */
+async function collectAttachments(
+  messageId: string,
+  parts: any[],
+  client: GmailClient | undefined,
+  options: AttachmentOptions | undefined,
+  debugMode: boolean,
+): Promise<EmailAttachment[]> {
+  return await Promise.all(
+    findAttachmentParts(parts).map(async (part: any) => {
+      const headers = part.headers || [];
+      const mimeType = part.mimeType || "application/octet-stream";
+      const filename = part.filename ||
+        (isCalendarAttachment(mimeType, "") ? "invite.ics" : "");
+      const size = part.body?.size || 0;
+      const attachment: EmailAttachment = {
+        attachmentId: part.body?.attachmentId || "",
+        filename,
+        mimeType,
+        size,
+        inline: !!getHeader(headers, "Content-ID") ||
+          getHeader(headers, "Content-Disposition").toLowerCase()
+            .startsWith("inline"),
+        data: "",
+        text: "",
+        skipped: "",
+        events: [],
+      };
+
+      if (!options) {
+        attachment.skipped = "Attachment fetching is off";
+        return attachment;
+      }
+      if (!mimeTypeMatches(mimeType, options.mimeTypes)) {
+        attachment.skipped = `${mimeType} is not in the fetched types`;
+        return attachment;
+      }
+      if (options.maxBytes > 0 && size > options.maxBytes) {
+        attachment.skipped =
+          `${size} bytes is over the ${options.maxBytes} byte limit`;
+        return attachment;
+      }
+      const isText = isTextAttachment(mimeType, filename);
+      // Binary content is fetched on demand (fetchAttachment)
+      if (!isText && !options.storeData) return attachment;
+
+      try {
+        let raw: string = part.body?.data || "";
+        if (!raw && attachment.attachmentId && client) {
+          debugLog(
+            debugMode,
+            `[Attachments] Fetching ${filename} (${mimeType}, ${size} bytes)`,
+          );
+          raw = await client.getAttachment(messageId, attachment.attachmentId);
+        }
+        if (!raw) {
+          attachment.skipped = "No content available";
+          return attachment;
+        }
+        if (options.storeData) attachment.data = toStandardBase64(raw);
+        if (isText) attachment.text = decodeBase64Text(raw);
+        if (isCalendarAttachment(mimeType, filename)) {
+          attachment.events = parseCalendarInvite(attachment.text, messageId);
+          debugLog(
+            debugMode,
+            `[Attachments] Parsed ${attachment.events.length} events from ${filename}`,
+          );
+        }
+      } catch (error) {
+        debugWarn(
+          debugMode,
+          `[Attachments] Failed to fetch ${filename}:`,
+          error,
+        );
+        attachment.skipped = error instanceof Error
+          ? error.message
+          : String(error);
+      }
+      return attachment;
+    }),
+  );
+}
+
 async function messageToEmail(
   parts: any[],
   debugMode: boolean = false,
   client?: GmailClient,
   resolveInlineImages: boolean = false,
+  attachmentOptions?: AttachmentOptions,
 ): Promise<Email[]> {
   const results = await Promise.all(parts.map(async (messageData, index) => {
     try {
@@ -538,6 +940,18 @@ async function messageToEmail(
         );
       }
 
+      const attachments = await collectAttachments(
+        messageData.id,
+        messageData.payload.parts || [messageData.payload],
+        client,
+        attachmentOptions,
+        debugMode,
+      );
+      debugLog(
+        debugMode,
+        `[messageToEmail] Attachments: ${attachments.length}`,
+      );
+
       // Generate markdown content from HTML or plainText
       let markdownContent = "";
       debugLog(debugMode, `[messageToEmail] Converting to markdown...`);
@@ -617,6 +1031,7 @@ async function messageToEmail(
         plainText,
         htmlContent,
         markdownContent,
+        attachments,
       };
     } catch (error: any) {
       if (debugMode) {
@@ -631,6 +1046,240 @@ async function messageToEmail(
   return results.filter((message): message is Email => message !== null);
 }
 
+// Gmail returns at most 500 history records per page
+const HISTORY_PAGE_SIZE = 500;
+
+/** Net effect of a run of history records, keyed by message ID */
+type HistoryChanges = {
+  addedIds: Set<string>;
+  deletedIds: Set<string>;
+  labelChanges: Map<string, { add: Set<string>; remove: Set<string> }>;
+};
+
+/**
+ * Fetch every history record since startHistoryId, following nextPageToken.
+ * Throws the client's "Gmail API error: 404" when the history ID has expired.
+ */
+async function fetchAllHistory(
+  client: GmailClient,
+  startHistoryId: string,
+  debugMode: boolean,
+): Promise<{ history: GmailHistoryRecord[]; historyId: string }> {
+  const history: GmailHistoryRecord[] = [];
+  let historyId = startHistoryId;
+  let pageToken: string | undefined;
+  let page = 0;
+  do {
+    const response = await client.fetchHistory(
+      startHistoryId,
+      undefined,
+      HISTORY_PAGE_SIZE,
+      pageToken,
+    );
+    page++;
+    debugLog(
+      debugMode,
+      `History page ${page}: ${response.history?.length || 0} records`,
+    );
+    history.push(...(response.history || []));
+    historyId = response.historyId;
+    pageToken = response.nextPageToken;
+  } while (pageToken);
+  return { history, historyId };
+}
+
+/**
+ * Fold history records (oldest first) into their net effect: a message added
+ * and deleted in the same window is dropped, and a label added then removed
+ * cancels out.
+ */
+function collectHistoryChanges(history: GmailHistoryRecord[]): HistoryChanges {
+  const changes: HistoryChanges = {
+    addedIds: new Set(),
+    deletedIds: new Set(),
+    labelChanges: new Map(),
+  };
+  const labelChange = (id: string) => {
+    let change = changes.labelChanges.get(id);
+    if (!change) {
+      change = { add: new Set(), remove: new Set() };
+      changes.labelChanges.set(id, change);
+    }
+    return change;
+  };
+
+  for (const record of history) {
+    for (const { message } of record.messagesAdded || []) {
+      changes.addedIds.add(message.id);
+    }
+    for (const { message } of record.messagesDeleted || []) {
+      changes.addedIds.delete(message.id);
+      changes.labelChanges.delete(message.id);
+      changes.deletedIds.add(message.id);
+    }
+    for (const { message, labelIds } of record.labelsAdded || []) {
+      const change = labelChange(message.id);
+      labelIds.forEach((label) => {
+        change.add.add(label);
+        change.remove.delete(label);
+      });
+    }
+    for (const { message, labelIds } of record.labelsRemoved || []) {
+      const change = labelChange(message.id);
+      labelIds.forEach((label) => {
+        change.remove.add(label);
+        change.add.delete(label);
+      });
+    }
+  }
+  return changes;
+}
+
+// Gmail labels that in:/is:/label:/category: terms name, keyed by lowercase name
+const SYSTEM_LABEL_IDS: Record<string, string> = {
+  inbox: "INBOX",
+  sent: "SENT",
+  drafts: "DRAFT",
+  draft: "DRAFT",
+  spam: "SPAM",
+  trash: "TRASH",
+  starred: "STARRED",
+  unread: "UNREAD",
+  important: "IMPORTANT",
+  chats: "CHAT",
+  primary: "CATEGORY_PERSONAL",
+  social: "CATEGORY_SOCIAL",
+  promotions: "CATEGORY_PROMOTIONS",
+  updates: "CATEGORY_UPDATES",
+  forums: "CATEGORY_FORUMS",
+};
+
+/**
+ * Test for queries made only of system label terms, such as "in:INBOX" or
+ * "label:inbox -is:unread", so messages can be matched by their labels
+ * without a search. Undefined for any other query.
+ */
+function labelQueryMatcher(
+  query: string,
+): ((labelIds: string[]) => boolean) | undefined {
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+  const required: { labelId: string; negate: boolean }[] = [];
+  for (const term of terms) {
+    const match = term.match(/^(-?)(in|is|label|category):([a-z_]+)$/i);
+    if (!match) return undefined;
+    const name = match[3].toLowerCase();
+    if (match[2].toLowerCase() === "is" && name === "read") {
+      required.push({ labelId: "UNREAD", negate: match[1] !== "-" });
+      continue;
+    }
+    const labelId = SYSTEM_LABEL_IDS[name];
+    if (!labelId) return undefined;
+    required.push({ labelId, negate: match[1] === "-" });
+  }
+  if (required.length === 0) return undefined;
+
+  // Like Gmail search, spam and trash only match when asked for
+  const searchesHidden = required.some(({ labelId, negate }) =>
+    !negate && (labelId === "SPAM" || labelId === "TRASH")
+  );
+  return (labelIds) =>
+    (searchesHidden ||
+      !labelIds.some((id) => id === "SPAM" || id === "TRASH")) &&
+    required.every(({ labelId, negate }) =>
+      labelIds.includes(labelId) !== negate
+    );
+}
+
+// Pages (of 500 IDs) the search for changed messages may read before the
+// rest are checked one at a time
+const MATCH_SEARCH_PAGES = 10;
+
+/**
+ * Which of the given messages currently match the query. Labels are checked
+ * locally for label-only queries. Anything else is one paginated search for
+ * the query, bounded to messages no older than the oldest given one, so the
+ * result isn't capped like a plain search; only if that runs past
+ * MATCH_SEARCH_PAGES are the rest asked about one at a time (by their
+ * Message-ID header). Messages that no longer exist are missing from both
+ * `found` and `matching`.
+ */
+async function matchMessages(
+  client: GmailClient,
+  messageIds: string[],
+  query: string,
+  debugMode: boolean,
+): Promise<{ found: Set<string>; matching: Set<string> }> {
+  const found = new Set<string>();
+  const matching = new Set<string>();
+  const matcher = labelQueryMatcher(query);
+  // Message-ID header and internalDate of messages left for the search
+  const unmatched = new Map<string, { rfcId: string; date: number }>();
+  for (let i = 0; i < messageIds.length; i += 100) {
+    const batch = messageIds.slice(i, i + 100).map((id) => ({ id }));
+    const messages = await client.fetchBatch(batch, "metadata");
+    for (const message of messages) {
+      found.add(message.id);
+      if (matcher) {
+        if (matcher(message.labelIds || [])) matching.add(message.id);
+        continue;
+      }
+      const rfcId = (message.payload?.headers || [])
+        .find((h: { name: string }) => h.name.toLowerCase() === "message-id")
+        ?.value?.replace(/^<|>$/g, "") || "";
+      unmatched.set(message.id, {
+        rfcId,
+        date: Number(message.internalDate) || 0,
+      });
+    }
+  }
+
+  if (unmatched.size > 0) {
+    const oldest = [...unmatched.values()]
+      .map(({ date }) => date)
+      .filter((date) => date > 0)
+      .reduce((a, b) => Math.min(a, b), Infinity);
+    // after: takes epoch seconds and is exclusive
+    const search = oldest === Infinity
+      ? query
+      : `(${query}) after:${Math.floor(oldest / 1000) - 1}`;
+    let pageToken: string | undefined;
+    let page = 0;
+    do {
+      const response = await client.listMessagesPage(search, 500, pageToken);
+      page++;
+      for (const { id } of response.messages || []) {
+        if (unmatched.delete(id)) matching.add(id);
+      }
+      pageToken = response.nextPageToken;
+    } while (pageToken && unmatched.size > 0 && page < MATCH_SEARCH_PAGES);
+    debugLog(debugMode, `Searched ${page} page(s) of "${search}"`);
+
+    // The search stopped early, so it may not have reached the rest
+    if (pageToken) {
+      for (const [id, { rfcId }] of unmatched) {
+        if (!rfcId) continue;
+        const listed = await client.listMessages(
+          `rfc822msgid:${rfcId} (${query})`,
+          10,
+        );
+        if (listed.some((m) => m.id === id)) matching.add(id);
+      }
+    }
+  }
+  debugLog(
+    debugMode,
+    `${matching.size} of ${messageIds.length} changed messages match "${query}"`,
+  );
+  return { found, matching };
+}
+
+/** HTTP status of an error thrown by GmailClient ("Gmail API error: 404 ..."), or 0 */
+function gmailErrorStatus(error: unknown): number {
+  const message = error instanceof Error ? error.message : String(error);
+  const match = message.match(/Gmail API error: (\d{3})/);
+  return match ? parseInt(match[1]) : 0;
+}
+
 export async function process(
   auth: Writable<Auth>,
   maxResults: number = 100,
@@ -643,26 +1292,34 @@ export async function process(
         limit: number;
         historyId: string;
         resolveInlineImages?: boolean;
+        fetchAttachments?: boolean;
+        attachmentMaxBytes?: number;
+        storeAttachmentData?: boolean;
+        attachmentMimeTypes?: string;
+        apiBaseUrl?: string;
       }
     >;
   },
   debugMode: boolean = false,
-): Promise<
-  | { newHistoryId?: string; newEmails?: Email[]; deletedEmailIds?: string[] }
-  | void
-> {
+): Promise<SyncResult | void> {
   if (!auth.get()) {
     debugWarn(debugMode, "no token");
     return;
   }
 
-  const client = new GmailClient(auth, { debugMode });
+  const client = new GmailClient(auth, {
+    debugMode,
+    baseUrl: state.settings.get().apiBaseUrl || undefined,
+  });
   const currentHistoryId = state.settings.get().historyId;
 
   let newHistoryId: string | null = null;
   let messagesToFetch: string[] = [];
   const messagesToDelete: string[] = [];
-  let useFullSync = false;
+  let labelUpdates: { id: string; labelIds: string[] }[] = [];
+  let fullSyncReason = "";
+  // Changed messages couldn't be checked against the query
+  let matchError = "";
 
   // Get existing email IDs and create a map for efficient updates
   const existingEmails = state.emails.get();
@@ -676,170 +1333,108 @@ export async function process(
     debugLog(debugMode, "Existing emails count:", existingEmails.length);
 
     try {
-      debugLog(debugMode, "Calling Gmail History API...");
-      const historyResponse = await client.fetchHistory(
+      const { history, historyId } = await fetchAllHistory(
+        client,
         currentHistoryId,
-        undefined,
-        maxResults,
-      );
-
-      debugLog(debugMode, "History API Response:");
-      debugLog(debugMode, "- New historyId:", historyResponse.historyId);
-      debugLog(debugMode, "- Has history records:", !!historyResponse.history);
-      debugLog(
         debugMode,
-        "- History records count:",
-        historyResponse.history?.length || 0,
       );
+      newHistoryId = historyId;
+      const changes = collectHistoryChanges(history);
 
-      if (historyResponse.history) {
-        debugLog(
-          debugMode,
-          `Processing ${historyResponse.history.length} history records`,
-        );
+      // Deleted messages we have
+      for (const id of changes.deletedIds) {
+        if (existingEmailIds.has(id)) messagesToDelete.push(id);
+      }
 
-        // Process history records
-        for (let i = 0; i < historyResponse.history.length; i++) {
-          const record = historyResponse.history[i];
-          debugLog(debugMode, `\nHistory Record ${i + 1}:`);
-          debugLog(debugMode, "- History ID:", record.id);
-          debugLog(
+      // Label changes to messages we have (new labels replace the stored ones)
+      for (const [id, change] of changes.labelChanges) {
+        const email = emailMap.get(id);
+        if (!email) continue;
+        const labels = new Set(email.labelIds);
+        change.add.forEach((label) => labels.add(label));
+        change.remove.forEach((label) => labels.delete(label));
+        const labelIds = Array.from(labels);
+        if (
+          labelIds.length !== email.labelIds.length ||
+          labelIds.some((label) => !email.labelIds.includes(label))
+        ) {
+          labelUpdates.push({ id, labelIds });
+        }
+      }
+
+      // New messages, messages whose new labels may now match the query, and
+      // stored messages whose label change may take them out of it (e.g.
+      // archived out of INBOX). History doesn't say which match
+      // gmailFilterQuery, so check each one.
+      const candidates = [
+        ...new Set([
+          ...changes.addedIds,
+          ...[...changes.labelChanges]
+            .filter(([id, change]) =>
+              existingEmailIds.has(id) || change.add.size > 0
+            )
+            .map(([id]) => id),
+        ]),
+      ].filter((id) => !changes.deletedIds.has(id));
+      if (candidates.length > 0) {
+        try {
+          const { found, matching } = await matchMessages(
+            client,
+            candidates,
+            gmailFilterQuery,
             debugMode,
-            "- Messages added:",
-            record.messagesAdded?.length || 0,
           );
-          debugLog(
-            debugMode,
-            "- Messages deleted:",
-            record.messagesDeleted?.length || 0,
+          messagesToFetch = candidates.filter((id) =>
+            !existingEmailIds.has(id) && matching.has(id)
           );
-          debugLog(
-            debugMode,
-            "- Labels added:",
-            record.labelsAdded?.length || 0,
+          // Stored messages that no longer match leave, as in a full sync
+          const leaving = candidates.filter((id) =>
+            existingEmailIds.has(id) && found.has(id) && !matching.has(id)
           );
-          debugLog(
-            debugMode,
-            "- Labels removed:",
-            record.labelsRemoved?.length || 0,
+          messagesToDelete.push(...leaving);
+          labelUpdates = labelUpdates.filter((update) =>
+            !leaving.includes(update.id)
           );
-
-          // Handle added messages
-          if (record.messagesAdded) {
-            debugLog(
-              debugMode,
-              `  Processing ${record.messagesAdded.length} added messages`,
-            );
-            for (const item of record.messagesAdded) {
-              if (!existingEmailIds.has(item.message.id)) {
-                debugLog(
-                  debugMode,
-                  `    - New message to fetch: ${item.message.id}`,
-                );
-                messagesToFetch.push(item.message.id);
-              } else {
-                debugLog(
-                  debugMode,
-                  `    - Message already exists: ${item.message.id}`,
-                );
-              }
-            }
-          }
-
-          // Handle deleted messages
-          if (record.messagesDeleted) {
-            debugLog(
-              debugMode,
-              `  Processing ${record.messagesDeleted.length} deleted messages`,
-            );
-            for (const item of record.messagesDeleted) {
-              debugLog(
-                debugMode,
-                `    - Message to delete: ${item.message.id}`,
-              );
-              messagesToDelete.push(item.message.id);
-            }
-          }
-
-          // Handle label changes
-          if (record.labelsAdded) {
-            debugLog(
-              debugMode,
-              `  Processing ${record.labelsAdded.length} label additions`,
-            );
-            for (const item of record.labelsAdded) {
-              const email = emailMap.get(item.message.id);
-              if (email) {
-                debugLog(
-                  debugMode,
-                  `    - Adding labels to ${item.message.id}:`,
-                  item.labelIds,
-                );
-                // Add new labels
-                const newLabels = new Set(email.labelIds);
-                item.labelIds.forEach((label) => newLabels.add(label));
-                email.labelIds = Array.from(newLabels);
-              }
-            }
-          }
-
-          if (record.labelsRemoved) {
-            debugLog(
-              debugMode,
-              `  Processing ${record.labelsRemoved.length} label removals`,
-            );
-            for (const item of record.labelsRemoved) {
-              const email = emailMap.get(item.message.id);
-              if (email) {
-                debugLog(
-                  debugMode,
-                  `    - Removing labels from ${item.message.id}:`,
-                  item.labelIds,
-                );
-                // Remove labels
-                const labelSet = new Set(email.labelIds);
-                item.labelIds.forEach((label) => labelSet.delete(label));
-                email.labelIds = Array.from(labelSet);
-              }
-            }
-          }
+        } catch (error: unknown) {
+          // Keep the old historyId so these changes are checked again
+          const message = error instanceof Error
+            ? error.message
+            : String(error);
+          matchError =
+            `Changed messages couldn't be matched (${message}); they will be retried next sync`;
+          if (debugMode) console.error("Error matching changes:", error);
         }
-
-        newHistoryId = historyResponse.historyId;
-        debugLog(debugMode, "\n=== INCREMENTAL SYNC SUMMARY ===");
-        debugLog(debugMode, `Messages to fetch: ${messagesToFetch.length}`);
-        debugLog(debugMode, `Messages to delete: ${messagesToDelete.length}`);
-        debugLog(debugMode, `Old historyId: ${currentHistoryId}`);
-        debugLog(debugMode, `New historyId: ${newHistoryId}`);
-        debugLog(debugMode, "================================\n");
-      } else {
-        debugLog(debugMode, "No history changes found");
-        debugLog(
-          debugMode,
-          `Updating historyId from ${currentHistoryId} to ${historyResponse.historyId}`,
-        );
-        newHistoryId = historyResponse.historyId;
       }
-    } catch (error: any) {
-      if (
-        error.message &&
-        (error.message.includes("404") || error.message.includes("410"))
-      ) {
-        debugLog(debugMode, "History ID expired, falling back to full sync");
-        useFullSync = true;
+
+      debugLog(debugMode, "\n=== INCREMENTAL SYNC SUMMARY ===");
+      debugLog(debugMode, `History records: ${history.length}`);
+      debugLog(debugMode, `Messages to fetch: ${messagesToFetch.length}`);
+      debugLog(debugMode, `Messages to delete: ${messagesToDelete.length}`);
+      debugLog(debugMode, `Label updates: ${labelUpdates.length}`);
+      debugLog(debugMode, `Old historyId: ${currentHistoryId}`);
+      debugLog(debugMode, `New historyId: ${newHistoryId}`);
+      debugLog(debugMode, "================================\n");
+    } catch (error: unknown) {
+      const status = gmailErrorStatus(error);
+      if (status === 404 || status === 410) {
+        fullSyncReason =
+          `History ID ${currentHistoryId} expired (${status}), so all matching emails were re-checked`;
+        debugLog(debugMode, fullSyncReason);
       } else {
         if (debugMode) console.error("Error fetching history:", error);
         throw error;
       }
     }
   } else {
+    fullSyncReason = existingEmails.length > 0
+      ? "No history ID saved, so all matching emails were re-checked"
+      : "First sync";
     debugLog(debugMode, "=== FULL SYNC MODE ===");
-    debugLog(debugMode, "No historyId found, performing full sync");
-    useFullSync = true;
+    debugLog(debugMode, fullSyncReason);
   }
 
   // Perform full sync if needed
-  if (useFullSync) {
+  if (fullSyncReason) {
     debugLog(debugMode, "Getting user profile to obtain current historyId...");
     // Get current profile to get latest historyId
     const profile = await client.getProfile();
@@ -861,6 +1456,17 @@ export async function process(
       .filter((message: { id: string }) => !existingEmailIds.has(message.id))
       .map((message: { id: string }) => message.id);
 
+    // Fewer results than the limit means this is every matching message, so
+    // stored emails missing from it were deleted or stopped matching meanwhile
+    if (messages.length < maxResults) {
+      const listedIds = new Set(messages.map((message) => message.id));
+      messagesToDelete.push(
+        ...existingEmails
+          .filter((email) => !listedIds.has(email.id))
+          .map((email) => email.id),
+      );
+    }
+
     debugLog(
       debugMode,
       `After filtering existing: ${messagesToFetch.length} new messages to fetch`,
@@ -870,6 +1476,7 @@ export async function process(
 
   // Collect all new emails to return
   const allNewEmails: Email[] = [];
+  let failedBatches = 0;
 
   // Fetch new messages in batches
   if (messagesToFetch.length > 0) {
@@ -900,11 +1507,19 @@ export async function process(
           `[process] Full settings:`,
           JSON.stringify(currentSettings),
         );
+        const attachmentOptions = currentSettings.fetchAttachments
+          ? {
+            maxBytes: currentSettings.attachmentMaxBytes ?? 1048576,
+            mimeTypes: currentSettings.attachmentMimeTypes ?? "",
+            storeData: currentSettings.storeAttachmentData ?? false,
+          }
+          : undefined;
         const emails = await messageToEmail(
           fetched,
           debugMode,
           client,
           resolveInlineImages,
+          attachmentOptions,
         );
 
         if (emails.length > 0) {
@@ -912,6 +1527,7 @@ export async function process(
           allNewEmails.push(...emails);
         }
       } catch (error: any) {
+        failedBatches++;
         if (debugMode) {
           console.error(
             "Error processing batch:",
@@ -924,14 +1540,125 @@ export async function process(
 
   debugLog(debugMode, "Sync completed successfully");
 
+  // Keep the old historyId if messages couldn't be fetched or matched, so the
+  // next sync sees them again (re-applying the other changes is harmless)
+  const status: SyncStatus = {
+    mode: fullSyncReason ? "full" : "incremental",
+    reason: fullSyncReason,
+    added: allNewEmails.length,
+    removed: messagesToDelete.length,
+    relabeled: labelUpdates.length,
+    error: matchError ||
+      (failedBatches > 0
+        ? `${failedBatches} batch(es) of new messages failed; they will be retried next sync`
+        : ""),
+    at: new Date().toISOString(),
+  };
+
   // Return the results instead of directly updating cells
   return {
-    newHistoryId: newHistoryId || undefined,
+    newHistoryId: failedBatches === 0 && !matchError && newHistoryId
+      ? newHistoryId
+      : undefined,
     newEmails: allNewEmails.length > 0 ? allNewEmails : undefined,
     deletedEmailIds: messagesToDelete.length > 0 ? messagesToDelete : undefined,
+    labelUpdates: labelUpdates.length > 0 ? labelUpdates : undefined,
+    status,
   };
 }
 
+// Line introducing a quoted reply, e.g. "On Mon, Nov 3, Ann <ann@x.com> wrote:"
+const REPLY_HEADER = /^(On\b.*\bwrote:|-+\s*Original Message\s*-+|_{10,})\s*$/i;
+
+/**
+ * Remove the quoted earlier messages from a reply's markdown: everything from
+ * an "On ... wrote:" / "Original Message" line on, and trailing "> " lines.
+ * Returns the content unchanged if nothing would be left.
+ */
+export function stripQuotedText(markdown: string): string {
+  const lines = markdown.split("\n");
+  let end = lines.length;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    // "On ... <address>" and "wrote:" are often wrapped onto two lines
+    const joined = `${line} ${(lines[i + 1] ?? "").trim()}`;
+    if (
+      REPLY_HEADER.test(line) ||
+      (/^On\b/.test(line) && /^On\b.*\bwrote:$/i.test(joined))
+    ) {
+      end = i;
+      break;
+    }
+  }
+  while (end > 0 && /^\s*(>.*)?$/.test(lines[end - 1])) end--;
+
+  const stripped = lines.slice(0, end).join("\n").trim();
+  return stripped || markdown;
+}
+
+function emailTime(email: { date: string }): number {
+  const time = Date.parse(email.date);
+  return isNaN(time) ? 0 : time;
+}
+
+// Subject without reply/forward prefixes, for naming a thread
+function threadSubject(subject: string): string {
+  return subject
+    .replace(/^\s*((re|fw|fwd|aw|sv)\s*(\[\d+\])?:\s*)+/i, "")
+    .trim();
+}
+
+/** Group emails by threadId, newest thread first, messages oldest first */
+export function groupThreads(emails: Email[]): EmailThread[] {
+  const byThread = new Map<string, Email[]>();
+  for (const email of emails || []) {
+    if (!email) continue;
+    const key = email.threadId || email.id;
+    const list = byThread.get(key) || [];
+    list.push(email);
+    byThread.set(key, list);
+  }
+
+  const threads: EmailThread[] = [];
+  for (const [id, list] of byThread) {
+    const ordered = [...list].sort((a, b) => emailTime(a) - emailTime(b));
+    const latest = ordered[ordered.length - 1];
+    const participants: string[] = [];
+    for (const email of ordered) {
+      for (const address of [email.from, ...(email.to || "").split(",")]) {
+        const clean = extractEmailAddress(address.trim()).toLowerCase();
+        if (clean && !participants.includes(clean)) participants.push(clean);
+      }
+    }
+    threads.push({
+      id,
+      subject: threadSubject(ordered[0].subject) || "(no subject)",
+      messages: ordered.map((email) => ({
+        id: email.id,
+        from: email.from,
+        to: email.to,
+        date: email.date,
+        subject: email.subject,
+        snippet: email.snippet,
+        labelIds: email.labelIds || [],
+        markdownContent: stripQuotedText(email.markdownContent || ""),
+        attachmentNames: (email.attachments || [])
+          .filter((attachment) => !attachment.inline)
+          .map((attachment) => attachment.filename),
+      })),
+      participants,
+      latestDate: latest.date,
+      messageCount: ordered.length,
+      snippet: latest.snippet,
+      labelIds: [...new Set(ordered.flatMap((email) => email.labelIds || []))],
+    });
+  }
+
+  const latestTime = (thread: EmailThread) =>
+    emailTime(thread.messages[thread.messages.length - 1]);
+  return threads.sort((a, b) => latestTime(b) - latestTime(a));
+}
+
 const updateGmailFilterQuery = handler<
   { detail: { value: string } },
   { gmailFilterQuery: Writable<string> }
@@ -971,6 +1698,70 @@ const toggleResolveInlineImages = handler<
   },
 );
 
+const toggleFetchAttachments = handler<
+  { target: { checked: boolean } },
+  { settings: Writable<Settings> }
+>(
+  ({ target }, { settings }) => {
+    const current = settings.get();
+    settings.set({ ...current, fetchAttachments: target.checked });
+  },
+);
+
+const toggleStoreAttachmentData = handler<
+  { target: { checked: boolean } },
+  { settings: Writable<Settings> }
+>(
+  ({ target }, { settings }) => {
+    const current = settings.get();
+    settings.set({ ...current, storeAttachmentData: target.checked });
+  },
+);
+
+// Fetch one attachment's content into its email, for attachments that were
+// imported as metadata only
+const fetchAttachment = handler<
+  { emailId: string; attachmentId: string },
+  {
+    emails: Writable<Email[]>;
+    auth: Writable<Auth>;
+    settings: Writable<Settings>;
+  }
+>(async ({ emailId, attachmentId }, { emails, auth, settings }) => {
+  const index = emails.get().findIndex((email) => email.id === emailId);
+  if (index === -1) return;
+  const position = (emails.get()[index].attachments || []).findIndex((
+    attachment,
+  ) => attachment.attachmentId === attachmentId);
+  if (position === -1) return;
+  const attachment = emails.key(index).key("attachments").key(position);
+  if (attachment.get().data) return;
+
+  const { debugMode, apiBaseUrl } = settings.get();
+  const client = new GmailClient(auth, {
+    debugMode,
+    baseUrl: apiBaseUrl || undefined,
+  });
+  try {
+    const raw = await client.getAttachment(emailId, attachmentId);
+    attachment.set({
+      ...attachment.get(),
+      data: toStandardBase64(raw),
+      skipped: "",
+    });
+  } catch (error) {
+    debugWarn(
+      debugMode,
+      `[Attachments] Failed to fetch ${attachmentId}:`,
+      error,
+    );
+    attachment.set({
+      ...attachment.get(),
+      skipped: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 // Handler to change account type - must be at module scope
 const setAccountType = handler<
   { target: { value: string } },
@@ -981,6 +1772,16 @@ const setAccountType = handler<
   state.selectedType.set(newType);
 });
 
+// Handler to switch between thread and message lists - must be at module scope
+const setViewMode = handler<
+  { target: { value: string } },
+  { viewMode: Writable<"threads" | "messages"> }
+>((event, state) => {
+  state.viewMode.set(
+    event.target.value === "messages" ? "messages" : "threads",
+  );
+});
+
 // Pattern tool callbacks - must be defined at module scope
 const searchEmailsCallback = (
   { query, emails }: { query: string; emails: Email[] },
@@ -1022,6 +1823,12 @@ export default pattern<{
     debugMode: false;
     autoFetchOnAuth: false;
     resolveInlineImages: false;
+    fetchAttachments: false;
+    attachmentMaxBytes: 1048576;
+    storeAttachmentData: false;
+    attachmentMimeTypes:
+      "application/pdf, text/calendar, application/ics, text/csv, image/*";
+    apiBaseUrl: "";
   }>;
   // Optional: Link auth directly from a Google Auth charm when wish() is unavailable
   // Use: ct charm link googleAuthCharm/auth gmailImporterCharm/linkedAuth
@@ -1030,6 +1837,9 @@ export default pattern<{
   ({ settings, linkedAuth }) => {
     const emails = Writable.of<Confidential<Email[]>>([]);
     const fetching = Writable.of(false);
+    const lastSync = Writable.of<SyncStatus>(NO_SYNC);
+    const viewMode = Writable.of<"threads" | "messages">("threads");
+    const threads = derive(emails, (list: Email[]) => groupThreads(list));
 
     // Local writable cell for account type selection
     const selectedAccountType = Writable.of<AccountType>("default");
@@ -1112,6 +1922,7 @@ export default pattern<{
           auth,
           settings,
           fetching,
+          lastSync,
         }).send({});
       }
     });
@@ -1189,6 +2000,23 @@ export default pattern<{
                 historyId: {settings.historyId || "none"}
               </div>
 
+              <div
+                style={{
+                  fontSize: "14px",
+                  color: derive(
+                    lastSync,
+                    (sync: SyncStatus) =>
+                      sync.error
+                        ? "#b91c1c"
+                        : sync.mode === "full" && sync.reason !== "First sync"
+                        ? "#b45309"
+                        : "#666",
+                  ),
+                }}
+              >
+                {derive(lastSync, describeSync)}
+              </div>
+
               <ct-vstack gap="4">
                 <div>
                   <label
@@ -1224,6 +2052,23 @@ export default pattern<{
                   />
                 </div>
 
+                <div>
+                  <label
+                    style={{
+                      display: "block",
+                      marginBottom: "4px",
+                      fontSize: "14px",
+                    }}
+                  >
+                    Gmail API Base URL (leave empty for Gmail)
+                  </label>
+                  <ct-input
+                    type="text"
+                    $value={settings.apiBaseUrl}
+                    placeholder="http://localhost:8765"
+                  />
+                </div>
+
                 <div>
                   <label
                     style={{
@@ -1261,6 +2106,77 @@ export default pattern<{
                   </label>
                 </div>
 
+                <div>
+                  <label
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "8px",
+                      fontSize: "14px",
+                    }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={settings.fetchAttachments}
+                      onChange={toggleFetchAttachments({ settings })}
+                    />
+                    Fetch attachments (PDFs, ICS invites, CSVs - slower)
+                  </label>
+                </div>
+
+                <div>
+                  <label
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "8px",
+                      fontSize: "14px",
+                    }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={settings.storeAttachmentData}
+                      onChange={toggleStoreAttachmentData({ settings })}
+                    />
+                    Store attachment content at import (otherwise fetched on
+                    demand)
+                  </label>
+                </div>
+
+                <div>
+                  <label
+                    style={{
+                      display: "block",
+                      marginBottom: "4px",
+                      fontSize: "14px",
+                    }}
+                  >
+                    Max Attachment Size (bytes)
+                  </label>
+                  <ct-input
+                    type="number"
+                    $value={settings.attachmentMaxBytes}
+                    placeholder="1048576"
+                  />
+                </div>
+
+                <div>
+                  <label
+                    style={{
+                      display: "block",
+                      marginBottom: "4px",
+                      fontSize: "14px",
+                    }}
+                  >
+                    Attachment Types (comma-separated, e.g. image/*)
+                  </label>
+                  <ct-input
+                    type="text"
+                    $value={settings.attachmentMimeTypes}
+                    placeholder="application/pdf, text/calendar, image/*"
+                  />
+                </div>
+
                 <div>
                   <label
                     style={{
@@ -1287,6 +2203,7 @@ export default pattern<{
                       auth,
                       settings,
                       fetching,
+                      lastSync,
                     })}
                     disabled={fetching}
                   >
@@ -1309,65 +2226,170 @@ export default pattern<{
                 )}
               </ct-vstack>
 
-              <div>
-                <table>
-                  <thead>
-                    <tr>
-                      <th style={{ padding: "10px" }}>DATE</th>
-                      <th style={{ padding: "10px" }}>SUBJECT</th>
-                      <th style={{ padding: "10px" }}>LABEL</th>
-                      <th style={{ padding: "10px" }}>CONTENT</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {emails.map((email) => (
-                      <tr>
-                        <td
-                          style={{ border: "1px solid black", padding: "10px" }}
-                        >
-                          &nbsp;{email.date}&nbsp;
-                        </td>
-                        <td
-                          style={{ border: "1px solid black", padding: "10px" }}
-                        >
-                          &nbsp;{email.subject}&nbsp;
-                        </td>
-                        <td
-                          style={{ border: "1px solid black", padding: "10px" }}
-                        >
-                          &nbsp;{derive(
-                            email,
-                            (email) => email?.labelIds?.join(", "),
-                          )}&nbsp;
-                        </td>
-                        <td
-                          style={{ border: "1px solid black", padding: "10px" }}
-                        >
-                          <details>
-                            <summary>Show Markdown</summary>
+              <label style={{ fontSize: "14px" }}>
+                Show{" "}
+                <select onChange={setViewMode({ viewMode })}>
+                  <option
+                    value="threads"
+                    selected={derive(viewMode, (v: string) => v === "threads")}
+                  >
+                    Threads ({derive(threads, (t: EmailThread[]) => t.length)})
+                  </option>
+                  <option
+                    value="messages"
+                    selected={derive(viewMode, (v: string) => v === "messages")}
+                  >
+                    Messages
+                  </option>
+                </select>
+              </label>
+
+              {ifElse(
+                derive(viewMode, (v: string) => v === "threads"),
+                <ct-vstack gap="2">
+                  {computed(() =>
+                    // Plain arrays: nested .map() on reactive proxies is flaky
+                    [...(threads || [])].map((thread: EmailThread) => (
+                      <details
+                        style={{
+                          border: "1px solid #e5e7eb",
+                          borderRadius: "6px",
+                          padding: "8px 12px",
+                        }}
+                      >
+                        <summary style={{ cursor: "pointer" }}>
+                          <strong>{thread.subject}</strong>
+                          {thread.messageCount > 1
+                            ? ` (${thread.messageCount})`
+                            : ""}
+                          <div style={{ fontSize: "12px", color: "#666" }}>
+                            {thread.participants.join(", ")} ·{" "}
+                            {thread.latestDate}
+                          </div>
+                          <div style={{ fontSize: "13px", color: "#444" }}>
+                            {thread.snippet}
+                          </div>
+                        </summary>
+                        {[...thread.messages].map((message: ThreadMessage) => (
+                          <div
+                            style={{
+                              borderTop: "1px solid #f3f4f6",
+                              marginTop: "8px",
+                              paddingTop: "8px",
+                            }}
+                          >
+                            <div style={{ fontSize: "12px", color: "#666" }}>
+                              {message.from} → {message.to} · {message.date}
+                            </div>
+                            {message.attachmentNames.length > 0
+                              ? (
+                                <div
+                                  style={{ fontSize: "12px", color: "#666" }}
+                                >
+                                  📎 {message.attachmentNames.join(", ")}
+                                </div>
+                              )
+                              : null}
                             <pre
                               style={{
                                 whiteSpace: "pre-wrap",
                                 maxHeight: "300px",
                                 overflowY: "auto",
+                                fontSize: "13px",
                               }}
                             >
-                          {email.markdownContent}
+                              {message.markdownContent}
                             </pre>
-                          </details>
-                        </td>
+                          </div>
+                        ))}
+                      </details>
+                    ))
+                  )}
+                </ct-vstack>,
+                <div>
+                  <table>
+                    <thead>
+                      <tr>
+                        <th style={{ padding: "10px" }}>DATE</th>
+                        <th style={{ padding: "10px" }}>SUBJECT</th>
+                        <th style={{ padding: "10px" }}>LABEL</th>
+                        <th style={{ padding: "10px" }}>CONTENT</th>
                       </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
+                    </thead>
+                    <tbody>
+                      {emails.map((email) => (
+                        <tr>
+                          <td
+                            style={{
+                              border: "1px solid black",
+                              padding: "10px",
+                            }}
+                          >
+                            &nbsp;{email.date}&nbsp;
+                          </td>
+                          <td
+                            style={{
+                              border: "1px solid black",
+                              padding: "10px",
+                            }}
+                          >
+                            &nbsp;{email.subject}&nbsp;
+                          </td>
+                          <td
+                            style={{
+                              border: "1px solid black",
+                              padding: "10px",
+                            }}
+                          >
+                            &nbsp;{derive(
+                              email,
+                              (email) => email?.labelIds?.join(", "),
+                            )}&nbsp;
+                          </td>
+                          <td
+                            style={{
+                              border: "1px solid black",
+                              padding: "10px",
+                            }}
+                          >
+                            <details>
+                              <summary>Show Markdown</summary>
+                              <pre
+                                style={{
+                                  whiteSpace: "pre-wrap",
+                                  maxHeight: "300px",
+                                  overflowY: "auto",
+                                }}
+                              >
+                            {email.markdownContent}
+                              </pre>
+                            </details>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>,
+              )}
             </ct-vstack>
           </ct-vscroll>
         </ct-screen>
       ),
       emails,
       emailCount: derive(emails, (list: Email[]) => list?.length || 0),
-      bgUpdater: googleUpdater({ emails, auth, settings }),
+      lastSync,
+      threads,
+      calendarInvites: derive(
+        emails,
+        (list: Email[]) =>
+          list.flatMap((email) =>
+            (email.attachments || []).flatMap((attachment) =>
+              attachment.events || []
+            )
+          ),
+      ),
+      fetchAttachment: fetchAttachment({ emails, auth, settings }),
+      bgUpdater: googleUpdater({ emails, auth, settings, lastSync }),
       // Pattern tools for omnibot - using module-scope callbacks
       searchEmails: patternTool(searchEmailsCallback, { emails }),
       getEmailCount: patternTool(getEmailCountCallback, { emails }),
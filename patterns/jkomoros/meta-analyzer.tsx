@@ -11,30 +11,42 @@ import {
   recipe,
   str,
   UI,
-  wish,
   Writable,
 } from "commontools";
-
-// Type for a person charm reference
-type PersonCharm = {
-  displayName: string;
-  notes: string;
-  customFields: Array<{
-    key: string;
-    label: string;
-    value: string;
-    dataType: "text" | "number" | "date" | "url";
-  }>;
-};
+import {
+  activePersons,
+  isPersonCharm,
+  type PersonCharm,
+  wishAllCharms,
+} from "./util/person-charms.ts";
+import {
+  type CustomFieldType,
+  isValidCustomFieldValue,
+  type PersonCustomField,
+  withCustomField,
+} from "./util/person-types.ts";
 
 type FieldSuggestion = {
   fieldKey: string;
   fieldLabel: string;
-  dataType: Default<"text" | "number" | "date" | "url", "text">;
+  dataType: Default<CustomFieldType, "text">;
   frequency: number;
   samples: Array<{ personName: string; value: string }>;
 };
 
+// The suggestion being applied, before per-person values are filled in
+type BackfillField = Omit<PersonCustomField, "value">;
+
+// One extracted value awaiting review
+type BackfillRow = {
+  charmIndex: number;
+  personName: string;
+  current: string;
+  value: string;
+  valid: boolean;
+  skipped: boolean;
+};
+
 type Input = Record<string, never>;
 
 type Output = {
@@ -63,18 +75,102 @@ const triggerAnalysis = handler<
   },
 );
 
+// Handler to start applying a suggestion: re-extract its value from every
+// person's notes, then wait for review
+const startBackfill = handler<
+  Record<string, never>,
+  {
+    allCharms: Writable<any[]>;
+    applying: Writable<BackfillField | null>;
+    backfillInput: Writable<string>;
+    skipped: Writable<number[]>;
+    applyStatus: Writable<string>;
+    fieldKey: string;
+    fieldLabel: string;
+    dataType: CustomFieldType;
+  }
+>(
+  (_, { allCharms, applying, backfillInput, skipped, applyStatus, fieldKey, fieldLabel, dataType }) => {
+    const field: BackfillField = { key: fieldKey, label: fieldLabel, dataType };
+    // Only people with notes can have a value extracted
+    const snapshot = activePersons(allCharms.get() || []).flatMap(({ charm, charmIndex: index }) =>
+      charm.notes?.trim()
+        ? [{ index, name: charm.displayName || `Person ${index + 1}`, notes: charm.notes }]
+        : []
+    );
+    applying.set(field);
+    skipped.set([]);
+    applyStatus.set("");
+    // Add timestamp to ensure the trigger value always changes
+    backfillInput.set(
+      `Field: ${field.label} (key: ${field.key}, type: ${field.dataType})\n\n${JSON.stringify(snapshot)}\n---BACKFILL-${Date.now()}---`,
+    );
+  },
+);
+
+// Handler to include or skip one person's extracted value
+const toggleBackfillRow = handler<
+  Record<string, never>,
+  { skipped: Writable<number[]>; charmIndex: number }
+>(
+  (_, { skipped, charmIndex }) => {
+    const current = skipped.get();
+    skipped.set(
+      current.includes(charmIndex)
+        ? current.filter((i) => i !== charmIndex)
+        : [...current, charmIndex],
+    );
+  },
+);
+
+// Handler to write the reviewed values to each Person
+const applyBackfill = handler<
+  Record<string, never>,
+  {
+    allCharms: Writable<any[]>;
+    applying: Writable<BackfillField | null>;
+    backfillInput: Writable<string>;
+    backfillRows: Writable<BackfillRow[]>;
+    applyStatus: Writable<string>;
+  }
+>(
+  (_, { allCharms, applying, backfillInput, backfillRows, applyStatus }) => {
+    const field = applying.get();
+    if (!field) return;
+    const rows = backfillRows.get().filter((row) => !row.skipped);
+    const charms = allCharms.get();
+    for (const row of rows) {
+      const existing: PersonCustomField[] = charms[row.charmIndex]?.customFields || [];
+      allCharms.key(row.charmIndex).key("customFields").set(
+        withCustomField(existing, { ...field, value: row.value }),
+      );
+    }
+    applying.set(null);
+    backfillInput.set("");
+    applyStatus.set(`Added ${field.label} to ${rows.length} profile${rows.length === 1 ? "" : "s"}.`);
+  },
+);
+
+// Handler to drop the extracted values without applying them
+const cancelBackfill = handler<
+  Record<string, never>,
+  { applying: Writable<BackfillField | null>; backfillInput: Writable<string> }
+>(
+  (_, { applying, backfillInput }) => {
+    applying.set(null);
+    backfillInput.set("");
+  },
+);
+
 const MetaAnalyzer = recipe<Input, Output>(
   "Meta Analyzer",
   () => {
     // Get all charms from the space via wish
-    const allCharmsWish = wish<any[]>("#allCharms");
-    const allCharms = computed(() => allCharmsWish ?? []);
+    const { allCharmsWish, allCharms } = wishAllCharms();
 
     // Filter for Person charms (those with profile property)
     const personCharms = computed(() =>
-      allCharms.filter((charm: any) =>
-        charm && typeof charm === "object" && "profile" in charm
-      )
+      allCharms.filter((charm: any) => isPersonCharm(charm))
     );
 
     // Writable to hold the input for analysis
@@ -148,6 +244,81 @@ Return an array of suggestions, or an empty array if no patterns are found.`,
       () => analysisResult?.suggestions || []
     );
 
+    // Applying a suggestion: the field, the extraction trigger and the
+    // charm indices the user chose to skip
+    const applying = Writable.of<BackfillField | null>(null);
+    const backfillInput = Writable.of<string>("");
+    const skipped = Writable.of<number[]>([]);
+    const applyStatus = Writable.of<string>("");
+
+    // Only prompt the LLM for an explicit backfill request (see person.tsx)
+    const guardedBackfillPrompt = computed(() => {
+      const input = backfillInput.get();
+      return input && input.includes("---BACKFILL-") ? input : undefined;
+    });
+
+    // LLM extraction of the applied field from each person's notes
+    const { result: backfillResult, pending: backfillPending } = generateObject({
+      system: `You extract the value of one field from notes about several people.
+
+You get the field's label, key and data type, then a JSON array of people with an index, name and notes.
+
+For each person whose notes state a value for the field, return their index and the value:
+- text: a short phrase, as written in the notes
+- number: digits only (e.g. "3", "42.5")
+- date: YYYY-MM-DD
+- url: a full URL starting with http:// or https://
+
+Skip people whose notes don't mention it. Never guess.`,
+      prompt: guardedBackfillPrompt,
+      model: "anthropic:claude-sonnet-4-5",
+      schema: {
+        type: "object",
+        properties: {
+          values: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                index: { type: "number" },
+                value: { type: "string" },
+              },
+              required: ["index", "value"]
+            }
+          }
+        },
+        required: ["values"]
+      },
+    });
+
+    // Extracted values that would change a Person, for review
+    const backfillRows = computed((): BackfillRow[] => {
+      const field = applying.get();
+      if (!field || !backfillResult) return [];
+      const skippedIndices = skipped.get();
+      return (backfillResult.values || []).flatMap(
+        ({ index, value }: { index: number; value: string }) => {
+          const charm = allCharms[index];
+          const trimmed = (value || "").trim();
+          if (!isPersonCharm(charm) || !trimmed) return [];
+          const current = (charm.customFields || [])
+            .find((f) => f.key === field.key)?.value || "";
+          if (current === trimmed) return [];
+          return [{
+            charmIndex: index,
+            personName: charm.displayName || `Person ${index + 1}`,
+            current,
+            value: trimmed,
+            valid: isValidCustomFieldValue(trimmed, field.dataType),
+            skipped: skippedIndices.includes(index),
+          }];
+        },
+      );
+    });
+    const applyCount = computed(
+      () => backfillRows.filter((row) => !row.skipped).length
+    );
+
     return {
       [NAME]: str`⚡ Meta Analyzer (${personCount} profiles)`,
       [UI]: (
@@ -180,6 +351,109 @@ Return an array of suggestions, or an empty array if no patterns are found.`,
                 </ct-button>
               </ct-hstack>
 
+              {ifElse(
+                applyStatus,
+                <div style={{ fontSize: "13px", color: "#047857" }}>{applyStatus}</div>,
+                null
+              )}
+
+              {/* Review of values extracted for the suggestion being applied */}
+              {ifElse(
+                computed(() => applying.get() !== null),
+                <ct-vstack
+                  style={{
+                    padding: "12px",
+                    background: "#eff6ff",
+                    border: "1px solid #bfdbfe",
+                    borderRadius: "6px",
+                    gap: "8px",
+                  }}
+                >
+                  <h3 style={{ margin: 0, fontSize: "14px" }}>
+                    Review {computed(() => applying.get()?.label ?? "")}
+                  </h3>
+                  {ifElse(
+                    backfillPending,
+                    <span style={{ display: "flex", alignItems: "center", gap: "6px", fontSize: "13px" }}>
+                      <ct-loader size="sm" show-elapsed></ct-loader>
+                      Extracting values from notes...
+                    </span>,
+                    <ct-vstack style={{ gap: "6px" }}>
+                      {ifElse(
+                        computed(() => backfillRows.length === 0),
+                        <div style={{ fontSize: "13px", color: "#666" }}>
+                          No new values found in anyone's notes.
+                        </div>,
+                        null
+                      )}
+                      {backfillRows.map((row: BackfillRow) => (
+                        <ct-hstack
+                          style={{
+                            alignItems: "center",
+                            gap: "8px",
+                            padding: "6px 8px",
+                            background: "white",
+                            border: "1px solid #e5e7eb",
+                            borderRadius: "3px",
+                            fontSize: "12px",
+                            opacity: ifElse(row.skipped, "0.5", "1"),
+                          }}
+                        >
+                          <div style={{ flex: 1 }}>
+                            <strong>{row.personName}:</strong>{" "}
+                            {ifElse(
+                              row.current,
+                              <span style={{ color: "#dc2626", textDecoration: "line-through", marginRight: "6px" }}>
+                                {row.current}
+                              </span>,
+                              null
+                            )}
+                            <span style={{ color: "#16a34a" }}>{row.value}</span>
+                            {ifElse(
+                              row.valid,
+                              null,
+                              <span style={{ color: "#b45309", marginLeft: "6px" }}>
+                                (doesn't look like a {computed(() => applying.get()?.dataType ?? "")})
+                              </span>
+                            )}
+                          </div>
+                          <ct-button
+                            variant="secondary"
+                            size="sm"
+                            onClick={toggleBackfillRow({ skipped, charmIndex: row.charmIndex })}
+                          >
+                            {ifElse(row.skipped, "Include", "Skip")}
+                          </ct-button>
+                        </ct-hstack>
+                      ))}
+                    </ct-vstack>
+                  )}
+                  <ct-hstack style={{ gap: "8px" }}>
+                    <ct-button
+                      size="sm"
+                      disabled={computed(() => backfillPending || applyCount === 0)}
+                      onClick={applyBackfill({
+                        allCharms: allCharmsWish,
+                        applying,
+                        backfillInput,
+                        backfillRows,
+                        applyStatus,
+                      })}
+                    >
+                      Apply to {applyCount} profile{computed(() => (applyCount === 1 ? "" : "s"))}
+                    </ct-button>
+                    <ct-button
+                      variant="secondary"
+                      size="sm"
+                      onClick={cancelBackfill({ applying, backfillInput })}
+                    >
+                      Cancel
+                    </ct-button>
+                  </ct-hstack>
+                </ct-vstack>,
+                null
+              )}
+
               {ifElse(
                 computed(() => suggestions.length > 0),
                 <ct-vstack style={{ gap: "12px" }}>
@@ -203,8 +477,22 @@ Return an array of suggestions, or an empty array if no patterns are found.`,
                           Found in {suggestion.frequency} profile{suggestion.frequency !== 1 ? "s" : ""} • {suggestion.dataType}
                         </div>
                       </div>
-                      <ct-button variant="secondary" size="sm" disabled>
-                        Field
+                      <ct-button
+                        variant="secondary"
+                        size="sm"
+                        disabled={backfillPending}
+                        onClick={startBackfill({
+                          allCharms: allCharmsWish,
+                          applying,
+                          backfillInput,
+                          skipped,
+                          applyStatus,
+                          fieldKey: suggestion.fieldKey,
+                          fieldLabel: suggestion.fieldLabel,
+                          dataType: suggestion.dataType,
+                        })}
+                      >
+                        Apply
                       </ct-button>
                     </ct-hstack>
 
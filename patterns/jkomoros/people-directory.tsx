@@ -0,0 +1,546 @@
+/// <cts-enable />
+/**
+ * People Directory
+ *
+ * Lists the Person charms in the space and finds likely duplicates of the
+ * same human: a shared email or phone, or a close name match (see
+ * util/person-dedup.ts). Each duplicate group shows, field by field, what
+ * merging would add to the Person being kept before anything changes.
+ *
+ * Merging copies the duplicates' details into the kept Person (its own values
+ * win; lists are combined), marks each duplicate with mergedInto so Person
+ * shows a banner and this directory hides it, and relinks Family members that
+ * pointed at a duplicate. Hosting tracker records refer to families and
+ * attendee emails rather than people; the kept Person keeps every email, so
+ * its attendee_email rules keep matching.
+ */
+import {
+  computed,
+  Default,
+  derive,
+  handler,
+  ifElse,
+  NAME,
+  pattern,
+  str,
+  UI,
+  Writable,
+} from "commontools";
+import { compareFields } from "./utils/diff-utils.ts";
+import { type FamilyMember, generateId } from "./util/hosting-types.ts";
+import {
+  findDuplicateGroups,
+  normalizeName,
+} from "./util/person-dedup.ts";
+import {
+  activePersons,
+  isPersonCharm,
+  openPerson,
+  type PersonCharm,
+  personName,
+  wishAllCharms,
+} from "./util/person-charms.ts";
+import {
+  type PersonProfile,
+  PROFILE_FIELD_LABELS,
+  profileFieldText,
+} from "./util/person-types.ts";
+import {
+  type PersonLink,
+  relinkPeople,
+} from "./util/person-relationships.ts";
+import { mergeImportedProfile } from "./util/vcard.ts";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+// Fields read from Family charms (family.tsx)
+type FamilyCharm = {
+  familyName: string;
+  members: FamilyMember[];
+};
+
+interface Input {
+  // Groups marked "not duplicates": their personIds, sorted, joined with "|"
+  dismissed: Default<string[], []>;
+}
+
+/** Directory of Person charms with duplicate merging. #peopleDirectory */
+interface Output {
+  dismissed: string[];
+  /** Number of Person charms that haven't been merged away */
+  personCount: number;
+  /** Number of duplicate groups waiting for review */
+  duplicateCount: number;
+}
+
+type MergeState = {
+  allCharms: Writable<any[]>;
+  status: Writable<string>;
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+// Rendering more rows than this makes the list sluggish; search to narrow it
+const MAX_VISIBLE = 25;
+
+const PROFILE_FIELDS = Object.keys(PROFILE_FIELD_LABELS) as Array<
+  keyof PersonProfile
+>;
+
+function isFamilyCharm(charm: any): charm is FamilyCharm {
+  return !!charm && typeof charm === "object" && "familyName" in charm &&
+    Array.isArray(charm.members);
+}
+
+/** How many profile fields have a value */
+function filledFieldCount(profile: PersonProfile): number {
+  return Object.values(profileFieldText(profile)).filter(Boolean).length;
+}
+
+function dismissKey(personIds: string[]): string {
+  return [...personIds].sort().join("|");
+}
+
+// Identifies a duplicate group by the charms in it
+function groupId(charmIndices: number[]): string {
+  return charmIndices.join(",");
+}
+
+/**
+ * Merges the duplicates into the kept Person and repoints family members and
+ * relationships at it. Returns the number of family members relinked.
+ */
+function mergePeople(
+  allCharms: Writable<any[]>,
+  keepIndex: number,
+  duplicateIndices: number[],
+): number {
+  const charms = allCharms.get();
+  const keep = charms[keepIndex] as PersonCharm;
+  const keepId = keep.personId || generateId();
+
+  let profile: PersonProfile = { ...keep.profile };
+  let links: PersonLink[] = [...(keep.relationships || [])];
+  let lastContacted = keep.lastContacted || "";
+  const customFields = [...(keep.customFields || [])];
+  const duplicateIds = new Set<string>();
+  const duplicateNames = new Set<string>();
+  for (const index of duplicateIndices) {
+    const duplicate = charms[index] as PersonCharm;
+    profile = mergeImportedProfile(profile, duplicate.profile, {
+      prefer: "current",
+    });
+    links = [...links, ...(duplicate.relationships || [])];
+    if ((duplicate.lastContacted || "") > lastContacted) {
+      lastContacted = duplicate.lastContacted!;
+    }
+    // The kept Person's custom field values win, like its profile fields
+    for (const field of duplicate.customFields || []) {
+      if (!customFields.some((f) => f.key === field.key)) {
+        customFields.push(field);
+      }
+    }
+    if (duplicate.personId) duplicateIds.add(duplicate.personId);
+    duplicateNames.add(normalizeName(personName(duplicate.profile)));
+
+    const charm = allCharms.key(index);
+    if (!duplicate.personId) charm.key("personId").set(generateId());
+    charm.key("mergedInto").set(keepId);
+  }
+
+  const kept = allCharms.key(keepIndex);
+  for (const field of PROFILE_FIELDS) {
+    kept.key(field).set(profile[field] ?? "");
+  }
+  if (!keep.personId) kept.key("personId").set(keepId);
+  kept.key("relationships").set(
+    relinkPeople(links, duplicateIds, keepId, keepId),
+  );
+  kept.key("lastContacted").set(lastContacted);
+  kept.key("customFields").set(customFields);
+
+  // Other Persons' relationships with a duplicate move to the kept Person
+  charms.forEach((charm, index) => {
+    if (
+      !isPersonCharm(charm) || index === keepIndex ||
+      duplicateIndices.includes(index)
+    ) return;
+    const own = charm.relationships || [];
+    if (!own.some((link) => duplicateIds.has(link.personId))) return;
+    allCharms.key(index).key("relationships").set(
+      relinkPeople(own, duplicateIds, keepId, charm.personId),
+    );
+  });
+
+  // Relink family members that pointed at (or were named as) a duplicate
+  const keepName = personName(profile);
+  let relinked = 0;
+  charms.forEach((charm, index) => {
+    if (!isFamilyCharm(charm)) return;
+    let changed = false;
+    const members = charm.members.map((member) => {
+      const isDuplicate = member.personId
+        ? duplicateIds.has(member.personId)
+        : duplicateNames.has(normalizeName(member.name));
+      if (!isDuplicate) return member;
+      changed = true;
+      relinked++;
+      return { ...member, name: keepName, personId: keepId };
+    });
+    if (changed) allCharms.key(index).key("members").set(members);
+  });
+  return relinked;
+}
+
+// =============================================================================
+// HANDLERS
+// =============================================================================
+
+const chooseKeep = handler<
+  unknown,
+  {
+    keepChoice: Writable<Record<string, number>>;
+    groupId: string;
+    charmIndex: number;
+  }
+>((_event, { keepChoice, groupId, charmIndex }) => {
+  keepChoice.set({ ...keepChoice.get(), [groupId]: charmIndex });
+});
+
+const mergeGroup = handler<
+  unknown,
+  MergeState & { keepIndex: number; charmIndices: number[] }
+>((_event, { allCharms, status, keepIndex, charmIndices }) => {
+  const duplicates = charmIndices.filter((index) => index !== keepIndex);
+  if (duplicates.length === 0) return;
+  try {
+    const relinked = mergePeople(allCharms, keepIndex, duplicates);
+    const keepName = personName(allCharms.get()[keepIndex].profile);
+    status.set(
+      `Merged ${duplicates.length} into ${keepName}${
+        relinked > 0
+          ? `; relinked ${relinked} family member${relinked === 1 ? "" : "s"}`
+          : ""
+      }.`,
+    );
+  } catch (error) {
+    console.error("[PeopleDirectory] Merge failed:", error);
+    status.set(
+      `Merge failed: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+});
+
+// Remember that a group isn't duplicates; gives each Person an id to key on
+const dismissGroup = handler<
+  unknown,
+  {
+    allCharms: Writable<any[]>;
+    dismissed: Writable<string[]>;
+    charmIndices: number[];
+  }
+>((_event, { allCharms, dismissed, charmIndices }) => {
+  const charms = allCharms.get();
+  const personIds = charmIndices.map((index) => {
+    const existing = (charms[index] as PersonCharm).personId;
+    if (existing) return existing;
+    const personId = generateId();
+    allCharms.key(index).key("personId").set(personId);
+    return personId;
+  });
+  dismissed.push(dismissKey(personIds));
+});
+
+// =============================================================================
+// PATTERN
+// =============================================================================
+
+export default pattern<Input, Output>(({ dismissed }) => {
+  // Get all charms from the space via wish
+  const { allCharmsWish, allCharms } = wishAllCharms();
+
+  const search = Writable.of("");
+  const status = Writable.of("");
+  // Chosen Person to keep per group id; unset groups keep the fullest one
+  const keepChoice = Writable.of<Record<string, number>>({});
+
+  // Indices into allCharms of Person charms that haven't been merged away
+  const personIndices = computed(() =>
+    activePersons(allCharms).map(({ charmIndex }) => charmIndex)
+  );
+  const personCount = computed(() => personIndices.length);
+
+  const visiblePeople = computed(() => {
+    const needle = search.get().trim().toLowerCase();
+    return personIndices
+      .map((charmIndex: number) => {
+        const profile: PersonProfile = allCharms[charmIndex].profile || {};
+        return {
+          charmIndex,
+          name: personName(profile),
+          detail: [profile.emails?.[0]?.value, profile.phones?.[0]?.value]
+            .filter(Boolean).join(" · "),
+        };
+      })
+      .filter((row) =>
+        !needle || `${row.name} ${row.detail}`.toLowerCase().includes(needle)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .slice(0, MAX_VISIBLE);
+  });
+
+  // Duplicate groups with the side-by-side diff for each
+  const duplicateGroups = computed(() => {
+    const profiles: PersonProfile[] = personIndices.map((index: number) =>
+      allCharms[index].profile || {}
+    );
+    const dismissedKeys = new Set(dismissed);
+    const choices = keepChoice.get();
+
+    return findDuplicateGroups(profiles).flatMap((group) => {
+      const charmIndices = group.indices.map((i) => personIndices[i]);
+      const personIds = charmIndices.map((index) =>
+        allCharms[index].personId || ""
+      );
+      if (
+        personIds.every(Boolean) && dismissedKeys.has(dismissKey(personIds))
+      ) {
+        return [];
+      }
+
+      const id = groupId(charmIndices);
+      const fullest = group.indices.reduce((best, i) =>
+        filledFieldCount(profiles[i]) > filledFieldCount(profiles[best])
+          ? i
+          : best
+      );
+      const keepIndex = charmIndices.includes(choices[id])
+        ? choices[id]
+        : personIndices[fullest];
+      const keepProfile: PersonProfile = allCharms[keepIndex].profile || {};
+      const keepText = profileFieldText(keepProfile);
+
+      return [{
+        id,
+        reasons: group.reasons.join(", "),
+        keepIndex,
+        charmIndices,
+        members: charmIndices.map((charmIndex) => {
+          const profile: PersonProfile = allCharms[charmIndex].profile || {};
+          const isKeep = charmIndex === keepIndex;
+          // What merging this duplicate would change on the kept Person
+          const changes = isKeep ? [] : compareFields(
+            profileFieldText(
+              mergeImportedProfile(keepProfile, profile, { prefer: "current" }),
+            ),
+            Object.fromEntries(PROFILE_FIELDS.map((field) => [
+              field,
+              { current: keepText[field], label: PROFILE_FIELD_LABELS[field] },
+            ])),
+          );
+          return {
+            charmIndex,
+            name: personName(profile),
+            detail: [profile.emails?.[0]?.value, profile.phones?.[0]?.value]
+              .filter(Boolean).join(" · "),
+            isKeep,
+            changes,
+          };
+        }),
+      }];
+    });
+  });
+  const duplicateCount = computed(() => duplicateGroups.length);
+
+  return {
+    [NAME]: str`People Directory (${personCount})`,
+    [UI]: (
+      <ct-screen>
+        <div slot="header">
+          <ct-heading level={3}>People Directory</ct-heading>
+        </div>
+
+        <ct-vscroll flex showScrollbar>
+          <ct-vstack padding="6" gap="4">
+            {ifElse(
+              status,
+              <div style={{ fontSize: "14px", color: "#374151" }}>
+                {status}
+              </div>,
+              null,
+            )}
+
+            <h3 style={{ margin: "0" }}>
+              Possible duplicates ({duplicateCount})
+            </h3>
+            {ifElse(
+              derive(duplicateCount, (n: number) => n === 0),
+              <div style={{ fontSize: "13px", color: "#6b7280" }}>
+                No likely duplicates found.
+              </div>,
+              null,
+            )}
+
+            {duplicateGroups.map((group) => (
+              <div
+                style={{
+                  padding: "12px",
+                  border: "1px solid #e5e7eb",
+                  borderRadius: "8px",
+                }}
+              >
+                <div style={{ fontSize: "12px", color: "#6b7280" }}>
+                  Matched on: {group.reasons}
+                </div>
+
+                <ct-vstack gap="2" style={{ marginTop: "8px" }}>
+                  {group.members.map((member) => (
+                    <div
+                      style={{
+                        padding: "8px 10px",
+                        borderRadius: "6px",
+                        background: ifElse(member.isKeep, "#ecfdf5", "#f9fafb"),
+                        border: ifElse(
+                          member.isKeep,
+                          "1px solid #22c55e",
+                          "1px solid #e5e7eb",
+                        ),
+                      }}
+                    >
+                      <ct-hstack align="center" gap="2">
+                        <div style={{ flex: "1" }}>
+                          <div style={{ fontWeight: "600" }}>{member.name}</div>
+                          <div style={{ fontSize: "12px", color: "#6b7280" }}>
+                            {member.detail}
+                          </div>
+                        </div>
+                        {ifElse(
+                          member.isKeep,
+                          <span style={{ fontSize: "11px", color: "#16a34a" }}>
+                            Keep
+                          </span>,
+                          <ct-button
+                            type="button"
+                            size="sm"
+                            variant="secondary"
+                            onClick={chooseKeep({
+                              keepChoice,
+                              groupId: group.id,
+                              charmIndex: member.charmIndex,
+                            })}
+                          >
+                            Keep this one
+                          </ct-button>,
+                        )}
+                        <ct-button
+                          type="button"
+                          size="sm"
+                          variant="secondary"
+                          onClick={openPerson({
+                            allCharms: allCharmsWish,
+                            charmIndex: member.charmIndex,
+                          })}
+                        >
+                          Open
+                        </ct-button>
+                      </ct-hstack>
+
+                      {member.changes.map((change) => (
+                        <div style={{ fontSize: "11px", lineHeight: "1.4" }}>
+                          <strong>{change.field}: </strong>
+                          <span
+                            style={{
+                              color: "#dc2626",
+                              textDecoration: "line-through",
+                              marginRight: "6px",
+                            }}
+                          >
+                            {change.from}
+                          </span>
+                          <span style={{ color: "#16a34a" }}>{change.to}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </ct-vstack>
+
+                <ct-hstack gap="2" style={{ marginTop: "8px" }}>
+                  <ct-button
+                    type="button"
+                    size="sm"
+                    onClick={mergeGroup({
+                      allCharms: allCharmsWish,
+                      status,
+                      keepIndex: group.keepIndex,
+                      charmIndices: group.charmIndices,
+                    })}
+                  >
+                    Merge into kept person
+                  </ct-button>
+                  <ct-button
+                    type="button"
+                    size="sm"
+                    variant="secondary"
+                    onClick={dismissGroup({
+                      allCharms: allCharmsWish,
+                      dismissed,
+                      charmIndices: group.charmIndices,
+                    })}
+                  >
+                    Not duplicates
+                  </ct-button>
+                </ct-hstack>
+              </div>
+            ))}
+
+            <h3 style={{ margin: "16px 0 0 0" }}>People ({personCount})</h3>
+            <ct-input $value={search} placeholder="Search people..." />
+            {visiblePeople.map((row) => (
+              <ct-hstack
+                align="center"
+                gap="2"
+                style={{
+                  padding: "8px 12px",
+                  border: "1px solid #e5e7eb",
+                  borderRadius: "8px",
+                }}
+              >
+                <div style={{ flex: "1" }}>
+                  <div style={{ fontWeight: "600" }}>{row.name}</div>
+                  <div style={{ fontSize: "12px", color: "#6b7280" }}>
+                    {row.detail}
+                  </div>
+                </div>
+                <ct-button
+                  type="button"
+                  size="sm"
+                  variant="secondary"
+                  onClick={openPerson({
+                    allCharms: allCharmsWish,
+                    charmIndex: row.charmIndex,
+                  })}
+                >
+                  Open
+                </ct-button>
+              </ct-hstack>
+            ))}
+            {ifElse(
+              derive(personCount, (n: number) => n > MAX_VISIBLE),
+              <div style={{ fontSize: "12px", color: "#6b7280" }}>
+                Showing up to {MAX_VISIBLE}. Search to find others.
+              </div>,
+              null,
+            )}
+          </ct-vstack>
+        </ct-vscroll>
+      </ct-screen>
+    ),
+    dismissed,
+    personCount,
+    duplicateCount,
+  };
+});
@@ -0,0 +1,322 @@
+/// <cts-enable />
+/**
+ * People Reminders
+ *
+ * Scans the Person charms in the space for upcoming birthdays, people you
+ * haven't been in touch with for longer than their closeness suggests, and
+ * gift planning for "gift-always" people. "In touch today" records the
+ * contact on the Person (lastContacted). Everything can be downloaded as an
+ * .ics calendar; the same text is on the `ics` output for other charms.
+ *
+ * See util/person-reminders.ts for the intervals and calendar events.
+ */
+import {
+  computed,
+  Default,
+  handler,
+  ifElse,
+  NAME,
+  pattern,
+  str,
+  UI,
+  Writable,
+} from "commontools";
+import { generateICS } from "./util/ical-generator.ts";
+import {
+  activePersons,
+  openPerson,
+  personName,
+  wishAllCharms,
+} from "./util/person-charms.ts";
+import { CLOSENESS_LABELS } from "./util/person-types.ts";
+import {
+  giftPlans,
+  keepInTouchNudges,
+  localToday,
+  reminderEvents,
+  type ReminderPerson,
+  upcomingBirthdays,
+} from "./util/person-reminders.ts";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface Input {
+  // How far ahead to list birthdays
+  withinDays: Default<number, 30>;
+  // How long before a birthday gift planning starts
+  giftLeadDays: Default<number, 21>;
+}
+
+/** Birthday, keep-in-touch and gift reminders for people. #peopleReminders */
+interface Output {
+  withinDays: number;
+  giftLeadDays: number;
+  birthdayCount: number;
+  nudgeCount: number;
+  /** All reminders as iCalendar text */
+  ics: string;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function whenLabel(days: number): string {
+  if (days === 0) return "today";
+  if (days === 1) return "tomorrow";
+  return `in ${days} days`;
+}
+
+// =============================================================================
+// HANDLERS
+// =============================================================================
+
+// Record that you were in touch with someone today
+const markContacted = handler<
+  unknown,
+  { allCharms: Writable<any[]>; charmIndex: number }
+>((_event, { allCharms, charmIndex }) => {
+  allCharms.key(charmIndex).key("lastContacted").set(localToday());
+});
+
+// =============================================================================
+// PATTERN
+// =============================================================================
+
+export default pattern<Input, Output>(({ withinDays, giftLeadDays }) => {
+  // Get all charms from the space via wish
+  const { allCharmsWish, allCharms } = wishAllCharms();
+
+  // Reminder inputs, with the charm index to act on each person
+  const people = computed(() =>
+    activePersons(allCharms).map(({ charm, charmIndex }) => {
+      const profile = charm.profile || {};
+      const name = personName(profile);
+      return {
+        charmIndex,
+        // personId keeps calendar UIDs stable; Persons without one fall back
+        // to their charm index, since names can repeat
+        id: charm.personId || `charm-${charmIndex}`,
+        name,
+        birthday: profile.birthday || "",
+        closeness: profile.closeness || "",
+        giftTier: profile.giftTier || "",
+        lastContacted: charm.lastContacted || "",
+      };
+    })
+  );
+  const indexById = computed(() =>
+    Object.fromEntries(
+      people.map((person: ReminderPerson & { charmIndex: number }) => [
+        person.id,
+        person.charmIndex,
+      ]),
+    )
+  );
+
+  const birthdays = computed(() =>
+    upcomingBirthdays(people, { withinDays }).map((reminder) => ({
+      charmIndex: indexById[reminder.id],
+      name: reminder.name,
+      date: reminder.date,
+      when: whenLabel(reminder.daysUntil),
+      turning: reminder.turning ? `turns ${reminder.turning}` : "",
+    }))
+  );
+  const birthdayCount = computed(() => birthdays.length);
+
+  const nudges = computed(() =>
+    keepInTouchNudges(people).map((nudge) => ({
+      charmIndex: indexById[nudge.id],
+      name: nudge.name,
+      closeness: CLOSENESS_LABELS[nudge.closeness],
+      lastSeen: nudge.daysSince === undefined
+        ? "No contact recorded"
+        : `Last in touch ${nudge.daysSince} days ago`,
+    }))
+  );
+  const nudgeCount = computed(() => nudges.length);
+
+  const gifts = computed(() =>
+    giftPlans(people, { giftLeadDays }).map((plan) => ({
+      charmIndex: indexById[plan.id],
+      name: plan.name,
+      date: plan.date,
+      shopBy: plan.shopBy,
+      // Inside the lead time: time to pick something
+      due: plan.daysUntil <= giftLeadDays,
+    }))
+  );
+  const giftCount = computed(() => gifts.length);
+
+  const ics = computed(() =>
+    generateICS(reminderEvents(people, { giftLeadDays }), {
+      prodId: "-//CommonTools//People Reminders//EN",
+      calendarName: "People Reminders",
+    })
+  );
+
+  return {
+    [NAME]: str`People Reminders (${birthdayCount} birthdays)`,
+    [UI]: (
+      <ct-screen>
+        <div slot="header">
+          <ct-hstack align="center" gap="2">
+            <ct-heading level={3} style={{ flex: "1" }}>
+              People Reminders
+            </ct-heading>
+            <ct-file-download
+              $data={ics}
+              filename="people-reminders.ics"
+              mime-type="text/calendar"
+              size="sm"
+            >
+              Export .ics
+            </ct-file-download>
+          </ct-hstack>
+        </div>
+
+        <ct-vscroll flex showScrollbar>
+          <ct-vstack padding="6" gap="4">
+            {/* Birthdays */}
+            <h3 style={{ margin: "0" }}>
+              Birthdays in the next {withinDays} days ({birthdayCount})
+            </h3>
+            {ifElse(
+              birthdayCount,
+              null,
+              <div style={{ fontSize: "13px", color: "#6b7280" }}>
+                No upcoming birthdays.
+              </div>,
+            )}
+            {birthdays.map((birthday) => (
+              <ct-hstack
+                align="center"
+                gap="2"
+                style={{
+                  padding: "8px 12px",
+                  border: "1px solid #e5e7eb",
+                  borderRadius: "8px",
+                }}
+              >
+                <div style={{ flex: "1" }}>
+                  <div style={{ fontWeight: "600" }}>{birthday.name}</div>
+                  <div style={{ fontSize: "12px", color: "#6b7280" }}>
+                    {birthday.date} · {birthday.when} {birthday.turning}
+                  </div>
+                </div>
+                <ct-button
+                  type="button"
+                  size="sm"
+                  variant="secondary"
+                  onClick={openPerson({
+                    allCharms: allCharmsWish,
+                    charmIndex: birthday.charmIndex,
+                  })}
+                >
+                  Open
+                </ct-button>
+              </ct-hstack>
+            ))}
+
+            {/* Keep in touch */}
+            <h3 style={{ margin: "16px 0 0 0" }}>
+              Keep in touch ({nudgeCount})
+            </h3>
+            <div style={{ fontSize: "12px", color: "#6b7280" }}>
+              Based on closeness: intimate every 2 weeks, close monthly, casual
+              every 3 months, distant yearly.
+            </div>
+            {nudges.map((nudge) => (
+              <ct-hstack
+                align="center"
+                gap="2"
+                style={{
+                  padding: "8px 12px",
+                  border: "1px solid #e5e7eb",
+                  borderRadius: "8px",
+                }}
+              >
+                <div style={{ flex: "1" }}>
+                  <div style={{ fontWeight: "600" }}>{nudge.name}</div>
+                  <div style={{ fontSize: "12px", color: "#6b7280" }}>
+                    {nudge.closeness} · {nudge.lastSeen}
+                  </div>
+                </div>
+                <ct-button
+                  type="button"
+                  size="sm"
+                  onClick={markContacted({
+                    allCharms: allCharmsWish,
+                    charmIndex: nudge.charmIndex,
+                  })}
+                >
+                  In touch today
+                </ct-button>
+                <ct-button
+                  type="button"
+                  size="sm"
+                  variant="secondary"
+                  onClick={openPerson({
+                    allCharms: allCharmsWish,
+                    charmIndex: nudge.charmIndex,
+                  })}
+                >
+                  Open
+                </ct-button>
+              </ct-hstack>
+            ))}
+
+            {/* Gift planning */}
+            <h3 style={{ margin: "16px 0 0 0" }}>
+              Gift planning ({giftCount})
+            </h3>
+            <div style={{ fontSize: "12px", color: "#6b7280" }}>
+              People set to "Always" for gift giving, by next birthday.
+            </div>
+            {gifts.map((gift) => (
+              <ct-hstack
+                align="center"
+                gap="2"
+                style={{
+                  padding: "8px 12px",
+                  border: ifElse(
+                    gift.due,
+                    "1px solid #f59e0b",
+                    "1px solid #e5e7eb",
+                  ),
+                  borderRadius: "8px",
+                }}
+              >
+                <div style={{ flex: "1" }}>
+                  <div style={{ fontWeight: "600" }}>{gift.name}</div>
+                  <div style={{ fontSize: "12px", color: "#6b7280" }}>
+                    Birthday {gift.date} · shop by {gift.shopBy}
+                  </div>
+                </div>
+                <ct-button
+                  type="button"
+                  size="sm"
+                  variant="secondary"
+                  onClick={openPerson({
+                    allCharms: allCharmsWish,
+                    charmIndex: gift.charmIndex,
+                  })}
+                >
+                  Open
+                </ct-button>
+              </ct-hstack>
+            ))}
+          </ct-vstack>
+        </ct-vscroll>
+      </ct-screen>
+    ),
+    withinDays,
+    giftLeadDays,
+    birthdayCount,
+    nudgeCount,
+    ics,
+  };
+});
@@ -15,214 +15,45 @@ import {
 } from "commontools";
 import { type MentionableCharm } from "./lib/backlinks-index.tsx";
 import { computeWordDiff, compareFields } from "./utils/diff-utils.ts";
+import {
+  CLOSENESS_LABELS,
+  type Closeness,
+  type EmailEntry,
+  GIFT_TIER_LABELS,
+  type GiftTier,
+  type Origin,
+  ORIGIN_LABELS,
+  type PersonCustomField,
+  type PersonProfile,
+  type PhoneEntry,
+  PROFILE_FIELD_LABELS,
+  profileFieldText,
+  RELATIONSHIP_TYPE_GROUPS,
+  RELATIONSHIP_TYPE_LABELS,
+  type RelationshipType,
+  type SocialLink,
+  type SocialPlatform,
+} from "./util/person-types.ts";
+import {
+  decodeDataUrlText,
+  formatVCard,
+  mergeImportedProfile,
+  parseVCards,
+  vcardFilename,
+  type VCardVersion,
+} from "./util/vcard.ts";
+import { linkLabel, type PersonLink } from "./util/person-relationships.ts";
+import { isPersonCharm, openPerson, personName } from "./util/person-charms.ts";
 
 // Performance measurement - set to true to see timing in console
 const PERF_MEASURE = false;
 
-// Social platform types
-type SocialPlatform =
-  | "twitter"
-  | "instagram"
-  | "linkedin"
-  | "github"
-  | "mastodon"
-  | "facebook"
-  | "tiktok"
-  | "youtube";
-
-type ContactType = "mobile" | "work" | "home";
-
-// ============================================================================
-// RELATIONSHIP TAXONOMY
-// ============================================================================
-
-// Relationship types - can have multiple, family modifiers stack with base types
-type RelationshipType =
-  // Professional
-  | "colleague"
-  | "former-colleague"
-  | "manager"
-  | "direct-report"
-  | "mentor"
-  | "mentee"
-  | "client"
-  | "vendor"
-  | "investor"
-  | "founder"
-  | "advisor"
-  | "recruiter"
-  | "collaborator"
-  // Personal
-  | "friend"
-  | "acquaintance"
-  | "neighbor"
-  | "classmate"
-  | "roommate"
-  | "ex-partner"
-  | "online-friend"
-  // Family - Base
-  | "spouse"
-  | "parent"
-  | "child"
-  | "grandparent"
-  | "grandchild"
-  | "sibling"
-  | "aunt-uncle"
-  | "niece-nephew"
-  | "cousin"
-  | "cousin-elder"
-  | "cousin-younger"
-  // Family - Modifiers (stack with base)
-  | "in-law"
-  | "step"
-  | "half"
-  | "adopted"
-  // Family - Special
-  | "chosen-family"
-  // Service
-  | "service-provider"
-  | "support-contact";
-
-// Closeness level - user-assigned, not agent-inferred
-type Closeness = "intimate" | "close" | "casual" | "distant" | "dormant";
-
-// How you met - can have multiple
-type Origin =
-  | "work"
-  | "school"
-  | "conference"
-  | "online"
-  | "neighborhood"
-  | "community"
-  | "mutual-friend"
-  | "family-connection"
-  | "dating"
-  | "random";
-
-// Gift-giving tier
-type GiftTier = "gift-always" | "gift-occasions" | "gift-reciprocal" | "gift-none";
-
-// Labels for display
-const RELATIONSHIP_TYPE_LABELS: Record<RelationshipType, string> = {
-  // Professional
-  "colleague": "Colleague",
-  "former-colleague": "Former Colleague",
-  "manager": "Manager",
-  "direct-report": "Direct Report",
-  "mentor": "Mentor",
-  "mentee": "Mentee",
-  "client": "Client",
-  "vendor": "Vendor",
-  "investor": "Investor",
-  "founder": "Founder",
-  "advisor": "Advisor",
-  "recruiter": "Recruiter",
-  "collaborator": "Collaborator",
-  // Personal
-  "friend": "Friend",
-  "acquaintance": "Acquaintance",
-  "neighbor": "Neighbor",
-  "classmate": "Classmate",
-  "roommate": "Roommate",
-  "ex-partner": "Ex-Partner",
-  "online-friend": "Online Friend",
-  // Family - Base
-  "spouse": "Spouse",
-  "parent": "Parent",
-  "child": "Child",
-  "grandparent": "Grandparent",
-  "grandchild": "Grandchild",
-  "sibling": "Sibling",
-  "aunt-uncle": "Aunt/Uncle",
-  "niece-nephew": "Niece/Nephew",
-  "cousin": "Cousin",
-  "cousin-elder": "Cousin (Elder)",
-  "cousin-younger": "Cousin (Younger)",
-  // Family - Modifiers
-  "in-law": "In-Law",
-  "step": "Step-",
-  "half": "Half-",
-  "adopted": "Adopted",
-  // Family - Special
-  "chosen-family": "Chosen Family",
-  // Service
-  "service-provider": "Service Provider",
-  "support-contact": "Support Contact",
-};
-
-const CLOSENESS_LABELS: Record<Closeness, string> = {
-  "intimate": "Intimate (inner circle)",
-  "close": "Close",
-  "casual": "Casual",
-  "distant": "Distant",
-  "dormant": "Dormant",
-};
-
-const ORIGIN_LABELS: Record<Origin, string> = {
-  "work": "Work",
-  "school": "School",
-  "conference": "Conference/Event",
-  "online": "Online",
-  "neighborhood": "Neighborhood",
-  "community": "Community",
-  "mutual-friend": "Mutual Friend",
-  "family-connection": "Family Connection",
-  "dating": "Dating",
-  "random": "Random/Serendipity",
-};
-
-const GIFT_TIER_LABELS: Record<GiftTier, string> = {
-  "gift-always": "Always (birthday, holidays)",
-  "gift-occasions": "Major Occasions Only",
-  "gift-reciprocal": "Reciprocal (if they give)",
-  "gift-none": "Cards/Greetings Only",
-};
-
-// Grouped relationship types for UI organization
-const RELATIONSHIP_TYPE_GROUPS = {
-  "Professional": [
-    "colleague", "former-colleague", "manager", "direct-report",
-    "mentor", "mentee", "client", "vendor", "investor",
-    "founder", "advisor", "recruiter", "collaborator",
-  ] as RelationshipType[],
-  "Personal": [
-    "friend", "acquaintance", "neighbor", "classmate",
-    "roommate", "ex-partner", "online-friend",
-  ] as RelationshipType[],
-  "Family": [
-    "spouse", "parent", "child", "grandparent", "grandchild",
-    "sibling", "aunt-uncle", "niece-nephew",
-    "cousin", "cousin-elder", "cousin-younger", "chosen-family",
-  ] as RelationshipType[],
-  "Family Modifiers": [
-    "in-law", "step", "half", "adopted",
-  ] as RelationshipType[],
-  "Service": [
-    "service-provider", "support-contact",
-  ] as RelationshipType[],
-};
-
 // Items for ct-autocomplete relationship type picker
 const RELATIONSHIP_TYPE_ITEMS = Object.entries(RELATIONSHIP_TYPE_GROUPS)
   .flatMap(([group, types]) => types.map((type) => ({
     value: type, label: RELATIONSHIP_TYPE_LABELS[type], group,
   })));
 
-type EmailEntry = {
-  type: ContactType;
-  value: string;
-};
-
-type PhoneEntry = {
-  type: ContactType;
-  value: string;
-};
-
-type SocialLink = {
-  platform: SocialPlatform;
-  handle: string;
-};
-
 type ProfileData = {
   // Basic identity
   displayName?: Default<string, "">;
@@ -260,10 +91,28 @@ type ProfileData = {
   professionalReference?: Default<boolean, false>;
 };
 
-type Input = ProfileData;
+type Input = ProfileData & {
+  // Stable id that other charms link to (PersonLink, FamilyMember.personId)
+  personId?: Default<string, "">;
+  // personId of the Person this one was merged into by the People Directory
+  mergedInto?: Default<string, "">;
+  // Links to other Persons, kept reciprocal by the Relationship Graph
+  relationships?: Default<PersonLink[], []>;
+  // YYYY-MM-DD you were last in touch; drives People Reminders nudges
+  lastContacted?: Default<string, "">;
+  // Extra fields, added in bulk from Meta Analyzer suggestions
+  customFields?: Default<PersonCustomField[], []>;
+};
+
+// Uploaded file from ct-file-input (data is a base64 data: URL)
+type FileData = {
+  name: string;
+  data: string;
+  type: string;
+};
 
 /** Person profile with contact info and relationship data. #person */
-type Output = ProfileData & {
+type Output = Input & {
   profile: ProfileData;
 };
 
@@ -397,6 +246,29 @@ const toggleOrigin = handler<
   },
 );
 
+// Handler to edit a custom field's value
+const updateCustomField = handler<
+  { detail: { value: string } },
+  { customFields: Writable<PersonCustomField[]>; key: string }
+>(
+  ({ detail }, { customFields, key }) => {
+    const value = detail?.value ?? "";
+    customFields.set(
+      customFields.get().map((f) => (f.key === key ? { ...f, value } : f)),
+    );
+  },
+);
+
+// Handler to remove a custom field
+const removeCustomField = handler<
+  Record<string, never>,
+  { customFields: Writable<PersonCustomField[]>; key: string }
+>(
+  (_, { customFields, key }) => {
+    customFields.set(customFields.get().filter((f) => f.key !== key));
+  },
+);
+
 // Handler to remove a relationship type
 const removeRelationshipType = handler<
   Record<string, never>,
@@ -599,6 +471,164 @@ const applyExtractedData = handler<
   },
 );
 
+// Handler to read an uploaded .vcf file into the vCard import review
+const importVCardFile = handler<
+  { detail: { files: FileData[] } },
+  {
+    vcardImport: Writable<PersonProfile | null>;
+    vcardMessage: Writable<string>;
+  }
+>(
+  ({ detail }, { vcardImport, vcardMessage }) => {
+    const file = detail?.files?.[detail.files.length - 1];
+    if (!file) return;
+
+    try {
+      const { contacts, warnings } = parseVCards(decodeDataUrlText(file.data));
+      if (contacts.length === 0) {
+        vcardImport.set(null);
+        vcardMessage.set(
+          [`No contacts found in ${file.name}.`, ...warnings].join("\n"),
+        );
+        return;
+      }
+      const messages = [...warnings];
+      if (contacts.length > 1) {
+        messages.unshift(
+          `${file.name} has ${contacts.length} contacts; showing the first. ` +
+            "Use the Contacts Importer to import them all.",
+        );
+      }
+      vcardMessage.set(messages.join("\n"));
+      vcardImport.set(contacts[0].profile);
+    } catch (e) {
+      vcardImport.set(null);
+      vcardMessage.set(
+        `Could not read ${file.name}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+    }
+  },
+);
+
+// Handler to discard a pending vCard import
+const cancelVCardImport = handler<
+  Record<string, never>,
+  {
+    vcardImport: Writable<PersonProfile | null>;
+    vcardMessage: Writable<string>;
+  }
+>(
+  (_, { vcardImport, vcardMessage }) => {
+    vcardImport.set(null);
+    vcardMessage.set("");
+  },
+);
+
+// Handler to merge a pending vCard import into the profile fields
+const applyVCardImport = handler<
+  Record<string, never>,
+  {
+    vcardImport: Writable<PersonProfile | null>;
+    vcardMessage: Writable<string>;
+    displayName: Writable<string>;
+    givenName: Writable<string>;
+    familyName: Writable<string>;
+    nickname: Writable<string>;
+    pronouns: Writable<string>;
+    emails: Writable<EmailEntry[]>;
+    phones: Writable<PhoneEntry[]>;
+    socialLinks: Writable<SocialLink[]>;
+    birthday: Writable<string>;
+    tags: Writable<string[]>;
+    notes: Writable<string>;
+    photoUrl: Writable<string>;
+    relationshipTypes: Writable<RelationshipType[]>;
+    closeness: Writable<Closeness | "">;
+    origins: Writable<Origin[]>;
+    giftTier: Writable<GiftTier | "">;
+    innerCircle: Writable<boolean>;
+    emergencyContact: Writable<boolean>;
+    professionalReference: Writable<boolean>;
+  }
+>(
+  (
+    _,
+    {
+      vcardImport,
+      vcardMessage,
+      displayName,
+      givenName,
+      familyName,
+      nickname,
+      pronouns,
+      emails,
+      phones,
+      socialLinks,
+      birthday,
+      tags,
+      notes,
+      photoUrl,
+      relationshipTypes,
+      closeness,
+      origins,
+      giftTier,
+      innerCircle,
+      emergencyContact,
+      professionalReference,
+    },
+  ) => {
+    const imported = vcardImport.get();
+    if (!imported) return;
+
+    const merged = mergeImportedProfile({
+      displayName: displayName.get(),
+      givenName: givenName.get(),
+      familyName: familyName.get(),
+      nickname: nickname.get(),
+      pronouns: pronouns.get(),
+      emails: emails.get(),
+      phones: phones.get(),
+      socialLinks: socialLinks.get(),
+      birthday: birthday.get(),
+      tags: tags.get(),
+      notes: notes.get(),
+      photoUrl: photoUrl.get(),
+      relationshipTypes: relationshipTypes.get(),
+      closeness: closeness.get(),
+      origins: origins.get(),
+      giftTier: giftTier.get(),
+      innerCircle: innerCircle.get(),
+      emergencyContact: emergencyContact.get(),
+      professionalReference: professionalReference.get(),
+    }, imported);
+
+    displayName.set(merged.displayName || "");
+    givenName.set(merged.givenName || "");
+    familyName.set(merged.familyName || "");
+    nickname.set(merged.nickname || "");
+    pronouns.set(merged.pronouns || "");
+    emails.set(merged.emails || []);
+    phones.set(merged.phones || []);
+    socialLinks.set(merged.socialLinks || []);
+    birthday.set(merged.birthday || "");
+    tags.set(merged.tags || []);
+    notes.set(merged.notes || "");
+    photoUrl.set(merged.photoUrl || "");
+    relationshipTypes.set(merged.relationshipTypes || []);
+    closeness.set(merged.closeness || "");
+    origins.set(merged.origins || []);
+    giftTier.set(merged.giftTier || "");
+    innerCircle.set(!!merged.innerCircle);
+    emergencyContact.set(!!merged.emergencyContact);
+    professionalReference.set(!!merged.professionalReference);
+
+    vcardImport.set(null);
+    vcardMessage.set("");
+  },
+);
+
 const Person = recipe<Input, Output>(
   "Person",
   ({
@@ -621,11 +651,35 @@ const Person = recipe<Input, Output>(
     innerCircle,
     emergencyContact,
     professionalReference,
+    personId,
+    mergedInto,
+    relationships,
+    lastContacted,
+    customFields,
   }) => {
     // Set up mentionable charms for @ references
     const mentionable = wish<MentionableCharm[]>("#mentionable");
     const mentioned = Writable.of<MentionableCharm[]>([]);
 
+    // Resolve relationship links to the Person charms they point at
+    const allCharmsWish = wish<any[]>("#allCharms");
+    const connections = computed(() => {
+      const charms = allCharmsWish ?? [];
+      return relationships.map((link) => {
+        const charmIndex = charms.findIndex((charm: any) =>
+          isPersonCharm(charm) && charm.personId === link.personId
+        );
+        return {
+          charmIndex,
+          found: charmIndex >= 0,
+          name: charmIndex >= 0
+            ? personName(charms[charmIndex].profile || {})
+            : "(Missing)",
+          label: linkLabel(link),
+        };
+      });
+    });
+
     // The only way to serialize a pattern, apparently?
     const pattern = computed(() => JSON.stringify(Person));
 
@@ -768,12 +822,72 @@ Return only the fields you can confidently extract. Leave remainingNotes with an
       return result;
     });
 
+    // vCard import/export
+    const currentProfile = computed((): PersonProfile => ({
+      displayName,
+      givenName,
+      familyName,
+      nickname,
+      pronouns,
+      emails,
+      phones,
+      socialLinks,
+      birthday,
+      tags,
+      notes,
+      photoUrl,
+      relationshipTypes,
+      closeness,
+      origins,
+      giftTier,
+      innerCircle,
+      emergencyContact,
+      professionalReference,
+    }));
+    const vcardVersion = Writable.of<VCardVersion>("3.0");
+    const vcardData = computed(() =>
+      formatVCard(currentProfile, { version: vcardVersion.get() })
+    );
+    const vcardName = computed(() => vcardFilename(currentProfile));
+
+    // Parsed upload waiting for review (null when nothing is pending)
+    const vcardImport = Writable.of<PersonProfile | null>(null);
+    const vcardMessage = Writable.of<string>("");
+
+    // Field-by-field preview of what accepting the import would change
+    const vcardChanges = computed(() => {
+      const imported = vcardImport.get();
+      if (!imported) return [];
+      const current = profileFieldText(currentProfile);
+      const merged = profileFieldText(
+        mergeImportedProfile(currentProfile, imported),
+      );
+      const fields = Object.keys(PROFILE_FIELD_LABELS) as Array<
+        keyof PersonProfile
+      >;
+      return compareFields(
+        merged,
+        Object.fromEntries(fields.map((field) => [
+          field,
+          { current: current[field], label: PROFILE_FIELD_LABELS[field] },
+        ])),
+      );
+    });
+    const hasVCardImport = computed(() => vcardImport.get() !== null);
+
     return {
       [NAME]: str`👤 ${effectiveDisplayName}`,
       [UI]: (
         <ct-screen>
           <div slot="header">
             <h2>Person</h2>
+            {ifElse(
+              mergedInto,
+              <div style="padding: 6px 10px; background: #fef3c7; color: #92400e; font-size: 12px; border-radius: 4px;">
+                This person was merged into another record in the People Directory. Edit that record instead.
+              </div>,
+              null,
+            )}
           </div>
 
           {ifElse(
@@ -1088,6 +1202,142 @@ Return only the fields you can confidently extract. Leave remainingNotes with an
                         />
                       </label>
                     </ct-vstack>
+
+                    {/* Custom Fields Section */}
+                    {ifElse(
+                      computed(() => customFields.length > 0),
+                      <ct-vstack style="gap: 6px;">
+                        <h3 style="margin: 0 0 4px 0; font-size: 14px;">Custom Fields</h3>
+                        {customFields.map((field: PersonCustomField) => (
+                          <div style="display: flex; align-items: flex-end; gap: 6px;">
+                            <label style="flex: 1;">
+                              {field.label}
+                              <ct-input
+                                value={field.value}
+                                onct-input={updateCustomField({
+                                  customFields,
+                                  key: field.key,
+                                })}
+                              />
+                            </label>
+                            <ct-button
+                              size="sm"
+                              variant="ghost"
+                              onClick={removeCustomField({
+                                customFields,
+                                key: field.key,
+                              })}
+                            >
+                              ×
+                            </ct-button>
+                          </div>
+                        ))}
+                      </ct-vstack>,
+                      null,
+                    )}
+
+                    {/* Contact Card (vCard) Section */}
+                    <ct-vstack style="gap: 6px;">
+                      <h3 style="margin: 0 0 4px 0; font-size: 14px;">Contact Card</h3>
+                      <p style="margin: 0; font-size: 12px; color: #666;">
+                        Import a .vcf file from another address book, or download this person as a vCard.
+                      </p>
+
+                      <ct-hstack style="gap: 8px; align-items: center; flex-wrap: wrap;">
+                        <ct-file-input
+                          accept=".vcf,text/vcard,text/x-vcard"
+                          buttonText="Import vCard"
+                          onct-change={importVCardFile({
+                            vcardImport,
+                            vcardMessage,
+                          })}
+                        />
+                        <ct-select
+                          $value={vcardVersion}
+                          items={[
+                            { label: "vCard 3.0", value: "3.0" },
+                            { label: "vCard 4.0", value: "4.0" },
+                          ]}
+                        />
+                        <ct-file-download
+                          $data={vcardData}
+                          $filename={vcardName}
+                          mime-type="text/vcard"
+                          size="sm"
+                        >
+                          Export vCard
+                        </ct-file-download>
+                      </ct-hstack>
+
+                      {ifElse(
+                        vcardMessage,
+                        <div style="font-size: 12px; color: #92400e; white-space: pre-wrap;">
+                          {vcardMessage}
+                        </div>,
+                        null,
+                      )}
+
+                      {ifElse(
+                        hasVCardImport,
+                        <ct-vstack style="gap: 6px; padding: 8px; background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 4px;">
+                          <strong style="font-size: 12px;">Review Imported Changes</strong>
+                          {ifElse(
+                            computed(() => vcardChanges.length === 0),
+                            <div style="font-size: 12px; color: #666;">
+                              Nothing new in this card.
+                            </div>,
+                            null,
+                          )}
+                          {vcardChanges.map((change) => (
+                            <div style="font-size: 11px; line-height: 1.4;">
+                              <strong>{change.field}: </strong>
+                              <span style="color: #dc2626; text-decoration: line-through; margin-right: 6px;">
+                                {change.from}
+                              </span>
+                              <span style="color: #16a34a;">{change.to}</span>
+                            </div>
+                          ))}
+                          <ct-hstack style="gap: 8px; justify-content: flex-end;">
+                            <ct-button
+                              onClick={cancelVCardImport({
+                                vcardImport,
+                                vcardMessage,
+                              })}
+                            >
+                              Cancel
+                            </ct-button>
+                            <ct-button
+                              onClick={applyVCardImport({
+                                vcardImport,
+                                vcardMessage,
+                                displayName,
+                                givenName,
+                                familyName,
+                                nickname,
+                                pronouns,
+                                emails,
+                                phones,
+                                socialLinks,
+                                birthday,
+                                tags,
+                                notes,
+                                photoUrl,
+                                relationshipTypes,
+                                closeness,
+                                origins,
+                                giftTier,
+                                innerCircle,
+                                emergencyContact,
+                                professionalReference,
+                              })}
+                            >
+                              Accept Changes
+                            </ct-button>
+                          </ct-hstack>
+                        </ct-vstack>,
+                        null,
+                      )}
+                    </ct-vstack>
                   </ct-vstack>
                 </ct-vscroll>
 
@@ -1156,6 +1406,34 @@ Return only the fields you can confidently extract. Leave remainingNotes with an
                       />
                     </ct-vstack>
 
+                    {/* Connections Section */}
+                    <ct-vstack style="gap: 8px;">
+                      <h3 style="margin: 0; font-size: 14px;">Connections</h3>
+                      <p style="margin: 0; font-size: 12px; color: #666;">
+                        Links to other people. Add or remove them in the Relationship Graph so both sides stay in sync.
+                      </p>
+                      {connections.map((connection) => (
+                        <div style="display: flex; align-items: center; gap: 8px; font-size: 13px;">
+                          <span style="color: #666; min-width: 110px;">{connection.label}</span>
+                          <span style="flex: 1;">{connection.name}</span>
+                          {ifElse(
+                            connection.found,
+                            <ct-button
+                              size="sm"
+                              variant="ghost"
+                              onClick={openPerson({
+                                allCharms: allCharmsWish,
+                                charmIndex: connection.charmIndex,
+                              })}
+                            >
+                              Open
+                            </ct-button>,
+                            null,
+                          )}
+                        </div>
+                      ))}
+                    </ct-vstack>
+
                     {/* Closeness Section */}
                     <ct-vstack style="gap: 6px;">
                       <h3 style="margin: 0; font-size: 14px;">Closeness</h3>
@@ -1171,6 +1449,15 @@ Return only the fields you can confidently extract. Leave remainingNotes with an
                       />
                     </ct-vstack>
 
+                    {/* Last in Touch Section */}
+                    <ct-vstack style="gap: 6px;">
+                      <h3 style="margin: 0; font-size: 14px;">Last in Touch</h3>
+                      <p style="margin: 0; font-size: 12px; color: #666;">
+                        People Reminders nudges you when this gets old for how close you are.
+                      </p>
+                      <ct-input type="date" $value={lastContacted} />
+                    </ct-vstack>
+
                     {/* Origin Section */}
                     <ct-vstack style="gap: 8px;">
                       <h3 style="margin: 0; font-size: 14px;">How You Met</h3>
@@ -1292,6 +1579,11 @@ Return only the fields you can confidently extract. Leave remainingNotes with an
       innerCircle,
       emergencyContact,
       professionalReference,
+      personId,
+      mergedInto,
+      relationships,
+      lastContacted,
+      customFields,
       profile: {
         displayName,
         givenName,
@@ -707,6 +707,10 @@ const PromptInjectionTracker = pattern<TrackerInput, TrackerOutput>(({ gmailFilt
       debugMode: DEBUG_LOGGING, // Use same flag as pattern debug logging
       autoFetchOnAuth: false,
       resolveInlineImages: false,
+      fetchAttachments: false,
+      attachmentMaxBytes: 1048576,
+      attachmentMimeTypes: "",
+      apiBaseUrl: "",
     },
     // Note: GmailImporter now manages auth internally via createGoogleAuth()
   });
@@ -0,0 +1,550 @@
+/// <cts-enable />
+/**
+ * Relationship Graph
+ *
+ * Links Person charms to each other ("Sam is Alex's parent") and keeps both
+ * sides in sync: adding or removing a link also updates the reciprocal one on
+ * the other Person (see util/person-relationships.ts). Shows the network as a
+ * circle graph and suggests relationships implied by the recorded ones, such
+ * as siblings through a shared parent, for one-click confirmation.
+ *
+ * Links are stored on each Person's `relationships` and keyed by personId,
+ * the same id Family members record as personId.
+ */
+import {
+  computed,
+  handler,
+  ifElse,
+  NAME,
+  pattern,
+  str,
+  UI,
+  Writable,
+} from "commontools";
+import { generateId } from "./util/hosting-types.ts";
+import {
+  activePersons,
+  openPerson,
+  type PersonCharm,
+  personName,
+  wishAllCharms,
+} from "./util/person-charms.ts";
+import {
+  RELATIONSHIP_TYPE_GROUPS,
+  RELATIONSHIP_TYPE_LABELS,
+  type RelationshipType,
+} from "./util/person-types.ts";
+import {
+  circleLayout,
+  edgeGeometry,
+  FAMILY_MODIFIERS,
+  graphOrder,
+  inferRelationships,
+  LINK_TYPES,
+  linkLabel,
+  type PersonLink,
+  reciprocalLink,
+  reciprocalType,
+  type RelationshipNode,
+  withLink,
+  withoutLink,
+} from "./util/person-relationships.ts";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+// A Person charm as listed here
+type DirectoryPerson = {
+  charmIndex: number;
+  personId: string;
+  name: string;
+  links: PersonLink[];
+};
+
+type Input = Record<string, never>;
+
+/** Reciprocal relationships between Person charms. #relationshipGraph */
+interface Output {
+  /** Number of recorded relationships (a reciprocal pair counts once) */
+  relationshipCount: number;
+  /** Number of inferred relationships waiting for confirmation */
+  suggestionCount: number;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+// Graph area is GRAPH_SIZE px square; beyond MAX_GRAPH_NODES it gets unreadable
+const GRAPH_SIZE = 480;
+const MAX_GRAPH_NODES = 40;
+const NODE_WIDTH = 96;
+
+const FAMILY_TYPES: RelationshipType[] = RELATIONSHIP_TYPE_GROUPS["Family"];
+
+const TYPE_ITEMS = LINK_TYPES.map((type) => ({
+  label: RELATIONSHIP_TYPE_LABELS[type],
+  value: type,
+}));
+
+const MODIFIER_ITEMS = [
+  { label: "No modifier", value: "" },
+  ...FAMILY_MODIFIERS.map((type) => ({
+    label: RELATIONSHIP_TYPE_LABELS[type],
+    value: type,
+  })),
+];
+
+/** Returns the Person's id, giving it one first if it has none */
+function ensurePersonId(
+  allCharms: Writable<any[]>,
+  charmIndex: number,
+): string {
+  const existing = (allCharms.get()[charmIndex] as PersonCharm).personId;
+  if (existing) return existing;
+  const personId = generateId();
+  allCharms.key(charmIndex).key("personId").set(personId);
+  return personId;
+}
+
+function linksOf(
+  allCharms: Writable<any[]>,
+  charmIndex: number,
+): PersonLink[] {
+  return (allCharms.get()[charmIndex] as PersonCharm).relationships || [];
+}
+
+/**
+ * Records that the Person at toIndex is `type` to the Person at fromIndex,
+ * plus the reciprocal link on the other side.
+ */
+function linkPeople(
+  allCharms: Writable<any[]>,
+  fromIndex: number,
+  toIndex: number,
+  type: RelationshipType,
+  modifiers: RelationshipType[] = [],
+): void {
+  const fromId = ensurePersonId(allCharms, fromIndex);
+  const toId = ensurePersonId(allCharms, toIndex);
+  const link: PersonLink = modifiers.length
+    ? { personId: toId, type, modifiers }
+    : { personId: toId, type };
+  allCharms.key(fromIndex).key("relationships").set(
+    withLink(linksOf(allCharms, fromIndex), link),
+  );
+  const back = reciprocalLink(fromId, link);
+  if (back) {
+    allCharms.key(toIndex).key("relationships").set(
+      withLink(linksOf(allCharms, toIndex), back),
+    );
+  }
+}
+
+// =============================================================================
+// HANDLERS
+// =============================================================================
+
+const addRelationship = handler<
+  unknown,
+  {
+    allCharms: Writable<any[]>;
+    fromValue: Writable<string>;
+    toValue: Writable<string>;
+    typeValue: Writable<string>;
+    modifierValue: Writable<string>;
+    status: Writable<string>;
+  }
+>((_event, state) => {
+  const { allCharms, fromValue, toValue, typeValue, modifierValue, status } =
+    state;
+  const from = fromValue.get();
+  const to = toValue.get();
+  if (!from || !to) {
+    status.set("Choose both people first.");
+    return;
+  }
+  if (from === to) {
+    status.set("A person can't be related to themselves.");
+    return;
+  }
+  const type = typeValue.get() as RelationshipType;
+  const modifier = modifierValue.get() as RelationshipType | "";
+  linkPeople(
+    allCharms,
+    Number(from),
+    Number(to),
+    type,
+    modifier ? [modifier] : [],
+  );
+  toValue.set("");
+  modifierValue.set("");
+  status.set(
+    reciprocalType(type)
+      ? "Relationship added to both people."
+      : `Added. ${RELATIONSHIP_TYPE_LABELS[type]} has no counterpart, so ` +
+        "it's recorded on one side only.",
+  );
+});
+
+// Removes a link and its reciprocal
+const removeRelationship = handler<
+  unknown,
+  {
+    allCharms: Writable<any[]>;
+    fromIndex: number;
+    toIndex: number;
+    type: RelationshipType;
+  }
+>((_event, { allCharms, fromIndex, toIndex, type }) => {
+  const charms = allCharms.get();
+  const fromId = (charms[fromIndex] as PersonCharm).personId || "";
+  const toId = (charms[toIndex] as PersonCharm).personId || "";
+  allCharms.key(fromIndex).key("relationships").set(
+    withoutLink(linksOf(allCharms, fromIndex), toId, type),
+  );
+  const back = reciprocalType(type);
+  if (back) {
+    allCharms.key(toIndex).key("relationships").set(
+      withoutLink(linksOf(allCharms, toIndex), fromId, back),
+    );
+  }
+});
+
+const confirmSuggestion = handler<
+  unknown,
+  {
+    allCharms: Writable<any[]>;
+    fromIndex: number;
+    toIndex: number;
+    type: RelationshipType;
+    modifiers: RelationshipType[];
+  }
+>((_event, { allCharms, fromIndex, toIndex, type, modifiers }) => {
+  linkPeople(allCharms, fromIndex, toIndex, type, modifiers);
+});
+
+// =============================================================================
+// PATTERN
+// =============================================================================
+
+export default pattern<Input, Output>(() => {
+  // Get all charms from the space via wish
+  const { allCharmsWish, allCharms } = wishAllCharms();
+
+  const fromValue = Writable.of("");
+  const toValue = Writable.of("");
+  const typeValue = Writable.of<string>("friend");
+  const modifierValue = Writable.of("");
+  const status = Writable.of("");
+
+  // Person charms that haven't been merged away
+  const people = computed((): DirectoryPerson[] =>
+    activePersons(allCharms).map(({ charm, charmIndex }) => ({
+      charmIndex,
+      personId: charm.personId || "",
+      name: personName(charm.profile || {}),
+      links: charm.relationships || [],
+    }))
+  );
+
+  const personItems = computed(() => [
+    { label: "Choose a person...", value: "" },
+    ...[...people]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((person) => ({
+        label: person.name,
+        value: String(person.charmIndex),
+      })),
+  ]);
+
+  // Recorded relationships, one row per reciprocal pair
+  const relationships = computed(() => {
+    const byId = new Map<string, DirectoryPerson>(
+      people.filter((p) => p.personId).map((p) => [p.personId, p]),
+    );
+    const seen = new Set<string>();
+    const rows = [];
+    for (const person of people) {
+      for (const link of person.links) {
+        const other = byId.get(link.personId);
+        if (!other) continue;
+        const back = reciprocalType(link.type);
+        if (seen.has(`${other.personId}|${person.personId}|${back}`)) continue;
+        seen.add(`${person.personId}|${other.personId}|${link.type}`);
+        rows.push({
+          fromIndex: person.charmIndex,
+          toIndex: other.charmIndex,
+          fromId: person.personId,
+          toId: other.personId,
+          type: link.type,
+          family: FAMILY_TYPES.includes(link.type),
+          text: `${other.name} is ${person.name}'s ${linkLabel(link)}`,
+        });
+      }
+    }
+    return rows;
+  });
+  const relationshipCount = computed(() => relationships.length);
+
+  const nodes = computed((): RelationshipNode[] =>
+    people
+      .filter((person) => person.personId)
+      .map((person) => ({ personId: person.personId, links: person.links }))
+  );
+
+  const suggestions = computed(() => {
+    const byId = new Map<string, DirectoryPerson>(
+      people.map((p) => [p.personId, p]),
+    );
+    return inferRelationships(nodes).flatMap((inferred) => {
+      const from = byId.get(inferred.fromId);
+      const to = byId.get(inferred.personId);
+      if (!from || !to) return [];
+      const via = inferred.via
+        .map((id) => byId.get(id)?.name)
+        .filter(Boolean)
+        .join(", ");
+      return [{
+        fromIndex: from.charmIndex,
+        toIndex: to.charmIndex,
+        type: inferred.type,
+        modifiers: inferred.modifiers || [],
+        text: `${to.name} is ${from.name}'s ${linkLabel(inferred)}`,
+        via,
+      }];
+    });
+  });
+  const suggestionCount = computed(() => suggestions.length);
+
+  // Circle layout of everyone with at least one relationship
+  const graph = computed(() => {
+    const connected = new Set(
+      relationships.flatMap((row) => [row.fromId, row.toId]),
+    );
+    const order = graphOrder(
+      nodes.filter((node) => connected.has(node.personId)),
+    ).slice(0, MAX_GRAPH_NODES);
+    const points = circleLayout(order.length, GRAPH_SIZE);
+    const position = new Map(order.map((id, i) => [id, points[i]]));
+    const byId = new Map<string, DirectoryPerson>(
+      people.map((p) => [p.personId, p]),
+    );
+
+    const graphNodes = order.map((id, i) => ({
+      charmIndex: byId.get(id)!.charmIndex,
+      name: byId.get(id)!.name,
+      left: points[i].x - NODE_WIDTH / 2,
+      top: points[i].y - 12,
+    }));
+    const edges = relationships.flatMap((row) => {
+      const from = position.get(row.fromId);
+      const to = position.get(row.toId);
+      if (!from || !to) return [];
+      const edge = edgeGeometry(from, to);
+      return [{
+        left: edge.left,
+        top: edge.top,
+        width: edge.length,
+        transform: `rotate(${edge.angle}deg)`,
+        color: row.family ? "#f59e0b" : "#93c5fd",
+      }];
+    });
+    return {
+      nodes: graphNodes,
+      edges,
+      hidden: connected.size - order.length,
+    };
+  });
+
+  return {
+    [NAME]: str`Relationship Graph (${relationshipCount})`,
+    [UI]: (
+      <ct-screen>
+        <div slot="header">
+          <ct-heading level={3}>Relationship Graph</ct-heading>
+        </div>
+
+        <ct-vscroll flex showScrollbar>
+          <ct-vstack padding="6" gap="4">
+            {/* Add relationship */}
+            <ct-vstack gap="2">
+              <h3 style={{ margin: "0" }}>Add a relationship</h3>
+              <ct-hstack gap="2" align="center" wrap>
+                <ct-select $value={toValue} items={personItems} />
+                <span>is the</span>
+                <ct-select $value={modifierValue} items={MODIFIER_ITEMS} />
+                <ct-select $value={typeValue} items={TYPE_ITEMS} />
+                <span>of</span>
+                <ct-select $value={fromValue} items={personItems} />
+                <ct-button
+                  type="button"
+                  onClick={addRelationship({
+                    allCharms: allCharmsWish,
+                    fromValue,
+                    toValue,
+                    typeValue,
+                    modifierValue,
+                    status,
+                  })}
+                >
+                  Add
+                </ct-button>
+              </ct-hstack>
+              {ifElse(
+                status,
+                <div style={{ fontSize: "13px", color: "#374151" }}>
+                  {status}
+                </div>,
+                null,
+              )}
+            </ct-vstack>
+
+            {/* Graph */}
+            <h3 style={{ margin: "0" }}>Network</h3>
+            {ifElse(
+              relationshipCount,
+              <div
+                style={{
+                  position: "relative",
+                  width: `${GRAPH_SIZE}px`,
+                  height: `${GRAPH_SIZE}px`,
+                  border: "1px solid #e5e7eb",
+                  borderRadius: "8px",
+                  overflow: "hidden",
+                }}
+              >
+                {graph.edges.map((edge) => (
+                  <div
+                    style={{
+                      position: "absolute",
+                      left: `${edge.left}px`,
+                      top: `${edge.top}px`,
+                      width: `${edge.width}px`,
+                      height: "2px",
+                      background: edge.color,
+                      transform: edge.transform,
+                      transformOrigin: "0 0",
+                    }}
+                  />
+                ))}
+                {graph.nodes.map((node) => (
+                  <div
+                    onClick={openPerson({
+                      allCharms: allCharmsWish,
+                      charmIndex: node.charmIndex,
+                    })}
+                    style={{
+                      position: "absolute",
+                      left: `${node.left}px`,
+                      top: `${node.top}px`,
+                      width: `${NODE_WIDTH}px`,
+                      padding: "2px 4px",
+                      background: "white",
+                      border: "1px solid #9ca3af",
+                      borderRadius: "12px",
+                      fontSize: "11px",
+                      textAlign: "center",
+                      whiteSpace: "nowrap",
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                      cursor: "pointer",
+                    }}
+                  >
+                    {node.name}
+                  </div>
+                ))}
+              </div>,
+              <div style={{ fontSize: "13px", color: "#6b7280" }}>
+                No relationships yet. Add one above.
+              </div>,
+            )}
+            {ifElse(
+              graph.hidden,
+              <div style={{ fontSize: "12px", color: "#6b7280" }}>
+                {graph.hidden} more people aren't shown in the graph.
+              </div>,
+              null,
+            )}
+
+            {/* Suggestions */}
+            {ifElse(
+              suggestionCount,
+              <ct-vstack gap="2">
+                <h3 style={{ margin: "0" }}>
+                  Suggested ({suggestionCount})
+                </h3>
+                {suggestions.map((suggestion) => (
+                  <ct-hstack
+                    align="center"
+                    gap="2"
+                    style={{
+                      padding: "8px 12px",
+                      border: "1px dashed #d1d5db",
+                      borderRadius: "8px",
+                    }}
+                  >
+                    <div style={{ flex: "1" }}>
+                      <div>{suggestion.text}</div>
+                      <div style={{ fontSize: "12px", color: "#6b7280" }}>
+                        via {suggestion.via}
+                      </div>
+                    </div>
+                    <ct-button
+                      type="button"
+                      size="sm"
+                      onClick={confirmSuggestion({
+                        allCharms: allCharmsWish,
+                        fromIndex: suggestion.fromIndex,
+                        toIndex: suggestion.toIndex,
+                        type: suggestion.type,
+                        modifiers: suggestion.modifiers,
+                      })}
+                    >
+                      Add
+                    </ct-button>
+                  </ct-hstack>
+                ))}
+              </ct-vstack>,
+              null,
+            )}
+
+            {/* Recorded relationships */}
+            <h3 style={{ margin: "0" }}>
+              Relationships ({relationshipCount})
+            </h3>
+            {relationships.map((row) => (
+              <ct-hstack
+                align="center"
+                gap="2"
+                style={{
+                  padding: "8px 12px",
+                  border: "1px solid #e5e7eb",
+                  borderRadius: "8px",
+                }}
+              >
+                <div style={{ flex: "1" }}>{row.text}</div>
+                <ct-button
+                  type="button"
+                  size="sm"
+                  variant="secondary"
+                  onClick={removeRelationship({
+                    allCharms: allCharmsWish,
+                    fromIndex: row.fromIndex,
+                    toIndex: row.toIndex,
+                    type: row.type,
+                  })}
+                >
+                  Remove
+                </ct-button>
+              </ct-hstack>
+            ))}
+          </ct-vstack>
+        </ct-vscroll>
+      </ct-screen>
+    ),
+    relationshipCount,
+    suggestionCount,
+  };
+});
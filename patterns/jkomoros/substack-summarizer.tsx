@@ -1,10 +1,14 @@
 /// <cts-enable />
 import { computed, Default, NAME, pattern, UI } from "commontools";
-import GmailImporter from "./lib/gmail-importer.tsx";
+import GmailImporter, { type Auth } from "./lib/gmail-importer.tsx";
 
 interface SubstackInput {
   gmailFilterQuery?: Default<string, "label:demo">;
   limit?: Default<number, 50>;
+  // Gmail API base URL; empty uses the real Gmail API (see tools/fake-gmail.ts)
+  apiBaseUrl?: Default<string, "">;
+  // Optional: auth linked directly, e.g. a placeholder token for tools/fake-gmail.ts
+  linkedAuth?: Auth;
 }
 
 /** Substack newsletter summarizer with email grouping. #substackSummaries */
@@ -17,8 +21,9 @@ interface Output {
   totalEmails: number;
 }
 
-const SubstackSummarizer = pattern<SubstackInput, Output>(({ gmailFilterQuery, limit }) => {
+const SubstackSummarizer = pattern<SubstackInput, Output>(({ gmailFilterQuery, limit, apiBaseUrl, linkedAuth }) => {
   // GmailImporter will automatically discover auth via wish({ tag: "#googleAuth" })
+  // unless linkedAuth is provided
   const importer = GmailImporter({
     settings: {
       gmailFilterQuery,
@@ -27,7 +32,12 @@ const SubstackSummarizer = pattern<SubstackInput, Output>(({ gmailFilterQuery, l
       debugMode: false,
       autoFetchOnAuth: false,
       resolveInlineImages: false,
+      fetchAttachments: false,
+      attachmentMaxBytes: 1048576,
+      attachmentMimeTypes: "",
+      apiBaseUrl,
     },
+    linkedAuth,
   });
 
   const emails = importer.emails;
@@ -18,6 +18,16 @@
  *   exportToGoogle,
  * } from "./util/calendar-export.tsx";
  * ```
+ *
+ * Re-exporting after a schedule change goes through a plan instead, so events
+ * that were already exported are updated or deleted rather than duplicated:
+ * ```typescript
+ * const { snapshots } = toExportSnapshots(events, dateRange);
+ * const plan = planExport(snapshots, record.entries, "google", "primary");
+ * // ...user confirms the plan...
+ * const result = await syncToGoogle(auth, plan);
+ * record.set(recordExportResults(record.get(), plan, result.eventResults));
+ * ```
  */
 
 import type { Writable } from "commontools";
@@ -25,6 +35,7 @@ import type { Auth } from "../lib/google-auth-manager.tsx";
 import {
   CalendarWriteClient,
   type BatchProgress,
+  type CalendarEventResult,
 } from "../lib/calendar-write-client.ts";
 import {
   generateICS,
@@ -40,11 +51,17 @@ import type {
   ExportTargetInfo,
   ExportConfig,
   ExportResult,
+  EventExportResult,
   CalendarOutboxEvent,
   RecurrenceRule,
   DayOfWeek,
   ExportProgress,
   ExportProgressCallback,
+  ExportedEventSnapshot,
+  ExportRecordEntry,
+  CalendarExportRecord,
+  ExportPlan,
+  ExportPlanItem,
 } from "../lib/calendar-export-types.ts";
 
 // Re-export types for convenience
@@ -57,6 +74,11 @@ export type {
   CalendarOutboxEvent,
   ExportProgress,
   ExportProgressCallback,
+  ExportedEventSnapshot,
+  ExportRecordEntry,
+  CalendarExportRecord,
+  ExportPlan,
+  ExportPlanItem,
 } from "../lib/calendar-export-types.ts";
 
 // ============================================================================
@@ -295,6 +317,386 @@ export function convertToICS(
   });
 }
 
+// ============================================================================
+// RE-EXPORT PLANNING
+// ============================================================================
+
+/**
+ * Expand events into one snapshot per recurring series (or single event),
+ * the unit that export plans and records work with.
+ *
+ * Time slots that start after the end of the date range are skipped.
+ */
+export function toExportSnapshots(
+  events: ExportableEvent[],
+  dateRange: { startDate: string; endDate: string },
+): {
+  snapshots: ExportedEventSnapshot[];
+  skipped: Array<{ name: string; reason: string }>;
+} {
+  const snapshots: ExportedEventSnapshot[] = [];
+  const skipped: Array<{ name: string; reason: string }> = [];
+  const usedKeys = new Set<string>();
+
+  // Two slots on the same day would share a key; number the extras
+  const uniqueKey = (key: string): string => {
+    let candidate = key;
+    for (let n = 2; usedKeys.has(candidate); n++) candidate = `${key}-${n}`;
+    usedKeys.add(candidate);
+    return candidate;
+  };
+
+  for (const event of events) {
+    if (event.timeSlots && event.timeSlots.length > 0) {
+      for (const slot of event.timeSlots) {
+        const firstDate = getFirstOccurrenceDate(
+          dateRange.startDate,
+          slot.day as DayOfWeek,
+        );
+
+        if (firstDate > dateRange.endDate) {
+          skipped.push({
+            name: event.title,
+            reason: `${slot.day} slot starts after semester ends`,
+          });
+          continue;
+        }
+
+        snapshots.push({
+          key: uniqueKey(`${event.id}-${slot.day}`),
+          uid: generateEventUID(
+            event.title,
+            slot.day,
+            slot.startTime,
+            firstDate,
+          ),
+          title: event.title,
+          location: event.location,
+          description: event.description,
+          startDate: firstDate,
+          startTime: slot.startTime,
+          endTime: slot.endTime,
+          recurrence: {
+            frequency: "WEEKLY",
+            byDay: DAY_TO_RRULE[slot.day as DayOfWeek],
+            until: dateRange.endDate,
+          },
+        });
+      }
+    } else if (event.startDate && event.startTime && event.endTime) {
+      snapshots.push({
+        key: uniqueKey(event.id),
+        uid: generateEventUID(
+          event.title,
+          "single",
+          event.startTime,
+          event.startDate,
+        ),
+        title: event.title,
+        location: event.location,
+        description: event.description,
+        startDate: event.startDate,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        isAllDay: event.isAllDay,
+      });
+    } else {
+      skipped.push({ name: event.title, reason: "No date or time slots" });
+    }
+  }
+
+  return { snapshots, skipped };
+}
+
+/**
+ * List which fields differ between an exported event and its current state.
+ */
+function changedFields(
+  previous: ExportedEventSnapshot,
+  current: ExportedEventSnapshot,
+): string[] {
+  const differs = (a?: string, b?: string) => (a || "") !== (b || "");
+  const changes: string[] = [];
+  if (differs(previous.title, current.title)) changes.push("title");
+  if (
+    differs(previous.startTime, current.startTime) ||
+    differs(previous.endTime, current.endTime)
+  ) {
+    changes.push("time");
+  }
+  if (
+    differs(previous.startDate, current.startDate) ||
+    differs(previous.recurrence?.until, current.recurrence?.until) ||
+    !!previous.isAllDay !== !!current.isAllDay
+  ) {
+    changes.push("dates");
+  }
+  if (differs(previous.location, current.location)) changes.push("location");
+  if (differs(previous.description, current.description)) {
+    changes.push("notes");
+  }
+  return changes;
+}
+
+/**
+ * Diff the events that should be on a calendar against what was exported
+ * there before, producing a create/update/delete plan.
+ *
+ * Record entries for other targets are ignored. Entries for the same target
+ * but a different calendar are deleted there and created in the new one.
+ * Updated events keep their original UID so calendar apps (and ICS
+ * re-imports) replace them instead of adding a copy.
+ */
+export function planExport(
+  snapshots: ExportedEventSnapshot[],
+  record: readonly ExportRecordEntry[],
+  target: ExportTarget,
+  calendarId: string,
+): ExportPlan {
+  const previousByKey = new Map<string, ExportRecordEntry>();
+  const stale: ExportRecordEntry[] = [];
+  for (const entry of record || []) {
+    if (!entry || entry.target !== target) continue;
+    if (entry.calendarId === calendarId) {
+      previousByKey.set(entry.key, entry);
+    } else {
+      stale.push(entry);
+    }
+  }
+
+  const items: ExportPlanItem[] = [];
+  const currentKeys = new Set<string>();
+
+  for (const snapshot of snapshots) {
+    currentKeys.add(snapshot.key);
+    const previous = previousByKey.get(snapshot.key);
+    if (!previous) {
+      items.push({
+        action: "create",
+        key: snapshot.key,
+        title: snapshot.title,
+        event: snapshot,
+        changes: [],
+      });
+      continue;
+    }
+
+    const changes = changedFields(previous, snapshot);
+    items.push({
+      action: changes.length > 0 ? "update" : "unchanged",
+      key: snapshot.key,
+      title: snapshot.title,
+      event: { ...snapshot, uid: previous.uid },
+      previous,
+      changes,
+    });
+  }
+
+  // Deletes go first: an event moved to another calendar keeps its UID, and
+  // the old copy has to be gone before the new one is created
+  const deletes: ExportPlanItem[] = [];
+  for (const previous of [...previousByKey.values(), ...stale]) {
+    if (previous.calendarId === calendarId && currentKeys.has(previous.key)) {
+      continue;
+    }
+    deletes.push({
+      action: "delete",
+      key: previous.key,
+      title: previous.title,
+      previous,
+      changes: [],
+    });
+  }
+  items.unshift(...deletes);
+
+  const count = (action: ExportPlanItem["action"]) =>
+    items.filter((item) => item.action === action).length;
+
+  return {
+    target,
+    calendarId,
+    items,
+    createCount: count("create"),
+    updateCount: count("update"),
+    deleteCount: count("delete"),
+    unchangedCount: count("unchanged"),
+  };
+}
+
+/**
+ * One-line summary of a plan, e.g. "2 new, 1 changed, 1 removed".
+ */
+export function describeExportPlan(plan: ExportPlan): string {
+  const parts: string[] = [];
+  if (plan.createCount > 0) parts.push(`${plan.createCount} new`);
+  if (plan.updateCount > 0) parts.push(`${plan.updateCount} changed`);
+  if (plan.deleteCount > 0) parts.push(`${plan.deleteCount} removed`);
+  if (parts.length === 0) return "Calendar is already up to date";
+  if (plan.unchangedCount > 0) {
+    parts.push(`${plan.unchangedCount} unchanged`);
+  }
+  return parts.join(", ");
+}
+
+/**
+ * Apply the outcome of an executed plan to the export record.
+ *
+ * Steps without a matching result in `results` count as succeeded (outbox
+ * and ICS exports can't fail at confirmation time). Failed steps leave the
+ * record as it was, so the next plan retries them.
+ */
+export function recordExportResults(
+  record: CalendarExportRecord | null | undefined,
+  plan: ExportPlan,
+  results?: EventExportResult[],
+  options: { outboxEntryId?: string; timestamp?: string } = {},
+): CalendarExportRecord {
+  const timestamp = options.timestamp || new Date().toISOString();
+  const resultByKey = new Map(
+    (results || []).map((result) => [result.eventId, result]),
+  );
+
+  // planExport lists every earlier entry for its target, so those are
+  // rebuilt below; entries for other targets stay as they are
+  const entries = (record?.entries || []).filter((entry) =>
+    entry != null && entry.target !== plan.target
+  );
+
+  for (const item of plan.items) {
+    const result = resultByKey.get(item.key);
+    const succeeded = result ? result.success : true;
+
+    if (item.action === "unchanged" || !succeeded) {
+      if (item.previous) entries.push(item.previous);
+      continue;
+    }
+    if (item.action === "delete" || !item.event) continue;
+
+    entries.push({
+      ...item.event,
+      target: plan.target,
+      calendarId: plan.calendarId,
+      externalId: result?.externalId ?? item.previous?.externalId,
+      outboxEntryId: options.outboxEntryId ?? item.previous?.outboxEntryId,
+      sequence: item.previous ? item.previous.sequence + 1 : 0,
+      exportedAt: timestamp,
+    });
+  }
+
+  return { entries, lastUpdated: timestamp };
+}
+
+/**
+ * Convert a plan to outbox events for the apple-sync CLI.
+ * Unchanged events are left out.
+ */
+export function planToOutboxEvents(plan: ExportPlan): CalendarOutboxEvent[] {
+  const result: CalendarOutboxEvent[] = [];
+
+  for (const item of plan.items) {
+    if (item.action === "unchanged") continue;
+    const event = item.action === "delete" ? item.previous : item.event;
+    if (!event) continue;
+
+    result.push({
+      id: event.uid,
+      action: item.action,
+      title: event.title,
+      calendarName: item.action === "delete"
+        ? item.previous?.calendarId ?? plan.calendarId
+        : plan.calendarId,
+      startDate: event.startDate,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      location: event.location,
+      notes: event.description,
+      recurrence: event.recurrence,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Convert a plan to ICS content.
+ *
+ * The file holds every current event (with its SEQUENCE bumped when it
+ * changed) plus deleted ones marked CANCELLED, so importing it over an
+ * earlier download brings a calendar app up to date.
+ */
+export function planToICS(
+  plan: ExportPlan,
+  options: {
+    calendarName?: string;
+    prodId?: string;
+    timezone?: string;
+  } = {},
+): string {
+  const timezone =
+    options.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const icalEvents: ICalEvent[] = [];
+
+  for (const item of plan.items) {
+    const event = item.action === "delete" ? item.previous : item.event;
+    if (!event) continue;
+
+    const previousSequence = item.previous?.sequence ?? 0;
+    icalEvents.push({
+      uid: event.uid,
+      summary: event.title,
+      location: event.location,
+      description: event.description,
+      startDate: event.startDate,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      timezone,
+      allDay: event.isAllDay,
+      rrule: event.recurrence
+        ? {
+          freq: "WEEKLY",
+          byday: event.recurrence.byDay,
+          until: event.recurrence.until,
+        }
+        : undefined,
+      sequence: item.action === "update" || item.action === "delete"
+        ? previousSequence + 1
+        : previousSequence,
+      status: item.action === "delete" ? "CANCELLED" : "CONFIRMED",
+    });
+  }
+
+  return generateICS(icalEvents, {
+    calendarName: options.calendarName,
+    prodId: options.prodId,
+    timezone,
+  });
+}
+
+/**
+ * Convert a snapshot to a Google Calendar event (same shape as
+ * convertToGoogleEvents, with the snapshot key as clientId).
+ */
+function snapshotToGoogleEvent(event: ExportedEventSnapshot) {
+  const rule = event.recurrence;
+  const until = rule?.until
+    ? `;UNTIL=${rule.until.replace(/-/g, "")}T235959Z`
+    : "";
+  const recurrence = rule
+    ? [`RRULE:FREQ=${rule.frequency};BYDAY=${rule.byDay}${until}`]
+    : undefined;
+
+  return {
+    clientId: event.key,
+    summary: event.title,
+    start: `${event.startDate}T${event.startTime}:00`,
+    end: `${event.startDate}T${event.endTime}:00`,
+    description: event.description,
+    location: event.location,
+    isAllDay: event.isAllDay,
+    recurrence,
+  };
+}
+
 // ============================================================================
 // EXPORT FUNCTIONS
 // ============================================================================
@@ -410,6 +812,197 @@ export async function exportToGoogle(
   }
 }
 
+/**
+ * Execute an export plan against Google Calendar.
+ *
+ * New events are created with the batch API; changed events are patched and
+ * removed ones deleted using the event IDs from the export record. An update
+ * whose event is gone (404/410) is recreated, and a delete whose event is
+ * already gone counts as done.
+ *
+ * @param auth - Google auth cell
+ * @param plan - Plan from planExport() with target "google"
+ * @param onProgress - Progress callback
+ * @returns Export result; eventResults are keyed by snapshot key
+ */
+export async function syncToGoogle(
+  auth: Writable<Auth>,
+  plan: ExportPlan,
+  onProgress?: ExportProgressCallback,
+): Promise<ExportResult> {
+  const client = new CalendarWriteClient(auth, { debugMode: false });
+  const calendarId = plan.calendarId || "primary";
+  const creates = plan.items.filter((item) => item.action === "create");
+  const changes = plan.items.filter((item) =>
+    item.action === "update" || item.action === "delete"
+  );
+  const total = creates.length + changes.length;
+
+  if (total === 0) {
+    return {
+      success: true,
+      target: "google",
+      message: "Google Calendar is already up to date",
+      timestamp: new Date().toISOString(),
+      exportedCount: 0,
+      eventResults: [],
+    };
+  }
+
+  const eventResults: EventExportResult[] = [];
+  const report = (
+    phase: ExportProgress["phase"],
+    currentEvent?: string,
+  ) => {
+    const succeeded = eventResults.filter((r) => r.success).length;
+    onProgress?.({
+      phase,
+      total,
+      processed: eventResults.length,
+      succeeded,
+      failed: eventResults.length - succeeded,
+      percentComplete: Math.round((eventResults.length / total) * 100),
+      currentEvent,
+    });
+  };
+  const isGone = (error: unknown) =>
+    error instanceof Error && /\b(404|410)\b/.test(error.message);
+
+  report("preparing");
+
+  if (creates.length > 0) {
+    try {
+      const result = await client.createBatchEvents({
+        calendarId,
+        events: creates.map((item) => snapshotToGoogleEvent(item.event!)),
+        sendUpdates: "none",
+        batchSize: 5, // Conservative to avoid rate limits
+        batchDelayMs: 200,
+        onProgress: (bp: BatchProgress) => {
+          onProgress?.({
+            phase: "exporting",
+            total,
+            processed: bp.processed,
+            succeeded: bp.succeeded,
+            failed: bp.failed,
+            percentComplete: Math.round((bp.processed / total) * 100),
+            currentEvent: bp.currentEvent,
+          });
+        },
+      });
+      for (const r of result.results) {
+        eventResults.push({
+          eventId: r.clientId,
+          success: r.success,
+          externalId: r.event?.id,
+          error: r.error,
+        });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error
+        ? error.message
+        : String(error);
+      for (const item of creates) {
+        eventResults.push({
+          eventId: item.key,
+          success: false,
+          error: errorMessage,
+        });
+      }
+    }
+  }
+
+  for (const item of changes) {
+    report("exporting", item.title);
+    const previous = item.previous!;
+
+    try {
+      if (item.action === "delete") {
+        if (previous.externalId) {
+          try {
+            await client.deleteEvent(
+              previous.calendarId || calendarId,
+              previous.externalId,
+              "none",
+            );
+          } catch (error) {
+            if (!isGone(error)) throw error;
+          }
+        }
+        eventResults.push({ eventId: item.key, success: true });
+        continue;
+      }
+
+      const google = snapshotToGoogleEvent(item.event!);
+      let saved: CalendarEventResult | null = null;
+      if (previous.externalId) {
+        try {
+          saved = await client.updateEvent(
+            calendarId,
+            previous.externalId,
+            {
+              summary: google.summary,
+              start: google.start,
+              end: google.end,
+              // Empty strings clear fields that were removed
+              description: google.description || "",
+              location: google.location || "",
+              isAllDay: google.isAllDay,
+              recurrence: google.recurrence || [],
+            },
+            "none",
+          );
+        } catch (error) {
+          if (!isGone(error)) throw error;
+        }
+      }
+      // Deleted in Google Calendar since the last export - create it again
+      if (!saved) {
+        saved = await client.createEvent({
+          calendarId,
+          summary: google.summary,
+          start: google.start,
+          end: google.end,
+          description: google.description,
+          location: google.location,
+          isAllDay: google.isAllDay,
+          recurrence: google.recurrence,
+          sendUpdates: "none",
+        });
+      }
+      eventResults.push({
+        eventId: item.key,
+        success: true,
+        externalId: saved.id,
+      });
+    } catch (error) {
+      eventResults.push({
+        eventId: item.key,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  report("done");
+
+  const failedCount = eventResults.filter((r) => !r.success).length;
+  const succeededCount = eventResults.length - failedCount;
+  const summary = describeExportPlan(plan);
+
+  return {
+    success: failedCount === 0,
+    target: "google",
+    message: failedCount === 0
+      ? `Updated Google Calendar: ${summary}`
+      : `Applied ${succeededCount} of ${total} changes, ${failedCount} failed`,
+    timestamp: new Date().toISOString(),
+    exportedCount: succeededCount,
+    failedCount,
+    eventResults,
+  };
+}
+
 /**
  * Export events as ICS content.
  * Returns the ICS content and filename for use with <ct-file-download>.
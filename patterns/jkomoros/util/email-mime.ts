@@ -0,0 +1,232 @@
+/**
+ * RFC 2822 Email Builder
+ *
+ * Builds the MIME message the Gmail API's messages.send expects from an
+ * EmailDraft (see write-api-tools.ts), including the In-Reply-To/References
+ * headers that keep replies in their thread.
+ *
+ * Usage:
+ * ```ts
+ * import { buildMimeMessage, encodeBase64Url } from "./util/email-mime.ts";
+ *
+ * const mime = buildMimeMessage(draft, {
+ *   from: "me@example.com",
+ *   inReplyTo: "<CAF=abc@mail.gmail.com>",
+ *   references: "<CAF=xyz@mail.gmail.com>",
+ * });
+ * await client.sendMessage(encodeBase64Url(mime), draft.replyToThreadId);
+ * ```
+ */
+import type { EmailDraft } from "./write-api-tools.ts";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MimeMessageOptions {
+  /** Sender address; Gmail fills in the account's address when omitted */
+  from?: string;
+  /** Message-ID header of the message being replied to */
+  inReplyTo?: string;
+  /** References header of the message being replied to */
+  references?: string;
+  /** Date header (default: now) */
+  date?: Date;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// RFC 2045 limits encoded lines to 76 characters
+const BASE64_LINE_LENGTH = 76;
+
+const ADDRESS_PATTERN = /^[^\s@<>,]+@[^\s@<>,]+\.[^\s@<>,]+$/;
+
+function utf8ToBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+/**
+ * Removes line breaks so a header value can't smuggle in extra headers.
+ */
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
+// An encoded-word is at most 75 characters; 45 bytes are 60 base64 characters
+// plus the 12 of "=?UTF-8?B?" and "?="
+const ENCODED_WORD_BYTES = 45;
+
+/**
+ * Encodes a header value as RFC 2047 encoded-words when it isn't ASCII,
+ * split on character boundaries and folded onto continuation lines.
+ */
+function encodeHeaderText(value: string): string {
+  const clean = headerValue(value);
+  if (/^[ -~]*$/.test(clean)) return clean;
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = "";
+  let bytes = 0;
+  for (const char of clean) {
+    const size = encoder.encode(char).length;
+    if (bytes + size > ENCODED_WORD_BYTES) {
+      chunks.push(chunk);
+      chunk = "";
+      bytes = 0;
+    }
+    chunk += char;
+    bytes += size;
+  }
+  chunks.push(chunk);
+  return chunks.map((part) => `=?UTF-8?B?${utf8ToBase64(part)}?=`)
+    .join("\r\n ");
+}
+
+/**
+ * Encodes a recipient's display name when it isn't ASCII:
+ * "José <j@x.com>" becomes "=?UTF-8?B?Sm9zw6k=?= <j@x.com>".
+ */
+function encodeRecipient(recipient: string): string {
+  const match = recipient.match(/^(.*?)\s*<([^>]*)>$/);
+  if (!match || /^[ -~]*$/.test(match[1])) return recipient;
+  // Encoded-words can't sit inside quotes
+  const name = match[1].replace(/^"(.*)"$/, "$1").replace(/\\(.)/g, "$1");
+  return `${encodeHeaderText(name)} <${match[2].trim()}>`;
+}
+
+/**
+ * Normalizes a comma-separated recipient list ("a@x.com,  B <b@y.com>").
+ */
+function formatAddressList(value: string | undefined): string {
+  return splitAddresses(value).map(encodeRecipient).join(", ");
+}
+
+/** Just the address of "Name <addr>" or "addr" */
+function bareAddress(recipient: string): string {
+  const match = recipient.match(/<([^>]*)>/);
+  return (match ? match[1] : recipient).trim();
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Splits a comma-separated recipient list, dropping empty entries. Commas
+ * inside quoted names or angle brackets don't split: "Doe, Jane" <j@x.com>
+ * is one recipient.
+ */
+export function splitAddresses(value: string | undefined): string[] {
+  const recipients: string[] = [];
+  let current = "";
+  let quoted = false;
+  let bracketed = false;
+  const text = value || "";
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\" && quoted) {
+      current += char + (text[i + 1] ?? "");
+      i++;
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    else if (char === "<" && !quoted) bracketed = true;
+    else if (char === ">" && !quoted) bracketed = false;
+    else if (char === "," && !quoted && !bracketed) {
+      recipients.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  recipients.push(current);
+  return recipients.map((recipient) => headerValue(recipient)).filter(Boolean);
+}
+
+/**
+ * Checks a draft before it is sent. Returns a list of problems (empty if OK).
+ */
+export function validateEmailDraft(draft: EmailDraft): string[] {
+  const errors: string[] = [];
+  const to = splitAddresses(draft.to);
+  if (to.length === 0) errors.push("Add at least one recipient.");
+  for (
+    const recipient of [
+      ...to,
+      ...splitAddresses(draft.cc),
+      ...splitAddresses(draft.bcc),
+    ]
+  ) {
+    if (!ADDRESS_PATTERN.test(bareAddress(recipient))) {
+      errors.push(`"${recipient}" is not a valid email address.`);
+    }
+  }
+  if (!draft.subject?.trim()) errors.push("Add a subject.");
+  if (!draft.body?.trim()) errors.push("The message body is empty.");
+  return errors;
+}
+
+/**
+ * Adds "Re: " to a subject unless it already has it.
+ */
+export function replySubject(subject: string): string {
+  return /^\s*re:/i.test(subject) ? subject : `Re: ${subject}`;
+}
+
+/**
+ * Builds a plain-text RFC 2822 message with CRLF line endings.
+ *
+ * The body is base64 encoded so any UTF-8 text survives transport; non-ASCII
+ * subjects and recipient names use RFC 2047 encoded-words. Bcc is included
+ * because the Gmail API reads it to deliver the message (and strips it before
+ * sending).
+ */
+export function buildMimeMessage(
+  draft: EmailDraft,
+  options: MimeMessageOptions = {},
+): string {
+  const headers: string[] = [];
+  if (options.from) headers.push(`From: ${headerValue(options.from)}`);
+  headers.push(`To: ${formatAddressList(draft.to)}`);
+  const cc = formatAddressList(draft.cc);
+  if (cc) headers.push(`Cc: ${cc}`);
+  const bcc = formatAddressList(draft.bcc);
+  if (bcc) headers.push(`Bcc: ${bcc}`);
+  headers.push(`Subject: ${encodeHeaderText(draft.subject || "")}`);
+  headers.push(`Date: ${(options.date ?? new Date()).toUTCString()}`);
+
+  if (options.inReplyTo) {
+    const inReplyTo = headerValue(options.inReplyTo);
+    // References = the parent's References plus the parent itself
+    const references = [headerValue(options.references || ""), inReplyTo]
+      .filter(Boolean)
+      .join(" ");
+    headers.push(`In-Reply-To: ${inReplyTo}`);
+    headers.push(`References: ${references}`);
+  }
+
+  headers.push("MIME-Version: 1.0");
+  headers.push('Content-Type: text/plain; charset="UTF-8"');
+  headers.push("Content-Transfer-Encoding: base64");
+
+  const body = utf8ToBase64((draft.body || "").replace(/\r?\n/g, "\r\n"));
+  const bodyLines = body.match(new RegExp(`.{1,${BASE64_LINE_LENGTH}}`, "g")) ||
+    [];
+
+  return [...headers, "", ...bodyLines, ""].join("\r\n");
+}
+
+/**
+ * Encodes a MIME message as base64url, the format messages.send expects.
+ */
+export function encodeBase64Url(mime: string): string {
+  return utf8ToBase64(mime)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
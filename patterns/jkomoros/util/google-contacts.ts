@@ -0,0 +1,457 @@
+/**
+ * Google Contacts (People API) client and field mapping
+ *
+ * Reads the signed-in user's contacts with the (read-only) `contacts` scope
+ * from SCOPE_MAP and maps People API person resources to and from
+ * PersonProfiles.
+ * Taxonomy fields and flags are stored as userDefined entries with the same
+ * X-CT-* keys the vCard export uses, so they survive a trip through Google.
+ *
+ * Usage:
+ * ```ts
+ * import {
+ *   GoogleContactsClient,
+ *   googlePersonToProfile,
+ * } from "./util/google-contacts.ts";
+ *
+ * const client = new GoogleContactsClient(authCell, { debugMode: true });
+ * const groups = await client.listContactGroups();
+ * const people = await client.listConnections();
+ * const profiles = people.map((person) =>
+ *   googlePersonToProfile(person, groups)
+ * );
+ * ```
+ */
+import { getRecipeEnvironment, Writable } from "commontools";
+import type { Auth } from "../lib/google-auth-manager.tsx";
+import type {
+  ContactType,
+  EmailEntry,
+  PersonProfile,
+  PhoneEntry,
+  SocialLink,
+} from "./person-types.ts";
+import {
+  applyCustomFields,
+  applyFullName,
+  customFieldEntries,
+  parseSocialUrl,
+  socialProfileUrl,
+} from "./vcard.ts";
+
+const env = getRecipeEnvironment();
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GoogleContactsClientConfig {
+  /** Enable verbose console logging */
+  debugMode?: boolean;
+}
+
+interface GoogleDate {
+  year?: number;
+  month?: number;
+  day?: number;
+}
+
+/**
+ * The subset of a People API person resource we read and write.
+ * See https://developers.google.com/people/api/rest/v1/people
+ */
+export interface GooglePerson {
+  resourceName?: string;
+  etag?: string;
+  names?: {
+    displayName?: string;
+    givenName?: string;
+    familyName?: string;
+    unstructuredName?: string;
+  }[];
+  nicknames?: { value: string }[];
+  emailAddresses?: { value: string; type?: string }[];
+  phoneNumbers?: { value: string; type?: string }[];
+  urls?: { value: string; type?: string }[];
+  birthdays?: { date?: GoogleDate; text?: string }[];
+  photos?: { url: string; default?: boolean }[];
+  biographies?: { value: string; contentType?: string }[];
+  genders?: { value?: string; addressMeAs?: string }[];
+  memberships?: {
+    contactGroupMembership?: { contactGroupResourceName: string };
+  }[];
+  userDefined?: { key: string; value: string }[];
+}
+
+export interface GoogleContactGroup {
+  /** e.g. "contactGroups/3a7f..." */
+  resourceName: string;
+  name: string;
+  formattedName?: string;
+  /** USER_CONTACT_GROUP or SYSTEM_CONTACT_GROUP */
+  groupType?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Fields requested from people.connections.list */
+export const PERSON_FIELDS = [
+  "names",
+  "nicknames",
+  "emailAddresses",
+  "phoneNumbers",
+  "urls",
+  "birthdays",
+  "photos",
+  "biographies",
+  "genders",
+  "memberships",
+  "userDefined",
+].join(",");
+
+const PEOPLE_API = "https://people.googleapis.com/v1";
+
+// Connections are paged at most 1000 at a time; stop after 10 pages
+const PAGE_SIZE = 1000;
+const MAX_PAGES = 10;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function debugLog(debugMode: boolean, ...args: unknown[]) {
+  if (debugMode) console.log("[GoogleContactsClient]", ...args);
+}
+
+/** Google's type strings are free-form; anything unknown becomes the default */
+function contactType(
+  type: string | undefined,
+  fallback: ContactType,
+): ContactType {
+  const normalized = (type || "").toLowerCase();
+  return normalized === "mobile" || normalized === "work" ||
+      normalized === "home"
+    ? normalized
+    : fallback;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function birthdayFromGoogle(
+  birthday: { date?: GoogleDate; text?: string },
+): string {
+  const date = birthday.date;
+  if (date?.month && date.day) {
+    const monthDay = `${pad(date.month)}-${pad(date.day)}`;
+    return date.year ? `${date.year}-${monthDay}` : `--${monthDay}`;
+  }
+  return birthday.text?.trim() || "";
+}
+
+function birthdayToGoogle(
+  birthday: string,
+): { date?: GoogleDate; text?: string } {
+  const match = birthday.match(/^(\d{4}|--)-?(\d{2})-(\d{2})$/);
+  if (!match) return { text: birthday };
+  const date: GoogleDate = { month: Number(match[2]), day: Number(match[3]) };
+  if (match[1] !== "--") date.year = Number(match[1]);
+  return { date };
+}
+
+// ============================================================================
+// FIELD MAPPING
+// ============================================================================
+
+/**
+ * Maps a People API person to a PersonProfile.
+ *
+ * URLs that point at a known social network become social links; other URLs
+ * are dropped. Google's default placeholder photo is ignored. Memberships
+ * become tags for the user-created groups in `groups` (system groups such as
+ * "myContacts" are skipped). Problems are appended to `warnings`.
+ */
+export function googlePersonToProfile(
+  person: GooglePerson,
+  groups: GoogleContactGroup[] = [],
+  warnings: string[] = [],
+): PersonProfile {
+  const profile: PersonProfile = {};
+  const name = person.names?.[0];
+  if (name?.givenName) profile.givenName = name.givenName.trim();
+  if (name?.familyName) profile.familyName = name.familyName.trim();
+  const nickname = person.nicknames?.[0]?.value?.trim();
+  if (nickname) profile.nickname = nickname;
+  applyFullName(profile, name?.displayName || name?.unstructuredName || "");
+
+  const emails: EmailEntry[] = (person.emailAddresses || [])
+    .filter((email) => email.value?.trim())
+    .map((email) => ({
+      type: contactType(email.type, "home"),
+      value: email.value.trim(),
+    }));
+  if (emails.length > 0) profile.emails = emails;
+
+  const phones: PhoneEntry[] = (person.phoneNumbers || [])
+    .filter((phone) => phone.value?.trim())
+    .map((phone) => ({
+      type: contactType(phone.type, "mobile"),
+      value: phone.value.trim(),
+    }));
+  if (phones.length > 0) profile.phones = phones;
+
+  const socialLinks: SocialLink[] = [];
+  for (const url of person.urls || []) {
+    const link = parseSocialUrl(url.value || "", url.type);
+    if (link && !socialLinks.some((l) => l.platform === link.platform)) {
+      socialLinks.push(link);
+    }
+  }
+  if (socialLinks.length > 0) profile.socialLinks = socialLinks;
+
+  const birthday = (person.birthdays || [])
+    .map(birthdayFromGoogle)
+    .find(Boolean);
+  if (birthday) profile.birthday = birthday;
+
+  const photo = person.photos?.find((p) => p.url && !p.default);
+  if (photo) profile.photoUrl = photo.url;
+
+  const bio = person.biographies?.[0]?.value?.trim();
+  if (bio) profile.notes = bio;
+
+  const pronouns = person.genders?.[0]?.addressMeAs?.trim();
+  if (pronouns) profile.pronouns = pronouns;
+
+  const tags = (person.memberships || [])
+    .map((m) => m.contactGroupMembership?.contactGroupResourceName)
+    .map((resourceName) =>
+      groups.find((group) =>
+        group.resourceName === resourceName &&
+        group.groupType === "USER_CONTACT_GROUP"
+      )
+    )
+    .map((group) => group?.formattedName || group?.name || "")
+    .filter(Boolean);
+  if (tags.length > 0) profile.tags = tags;
+
+  const label = profile.displayName || name?.displayName ||
+    person.resourceName || "contact";
+  applyCustomFields(profile, person.userDefined || [], label, warnings);
+
+  return profile;
+}
+
+/**
+ * Maps a PersonProfile to a People API person body (for people.createContact
+ * or, with resourceName and etag added, people.updateContact).
+ *
+ * Tags and the photo are left out: memberships need contact group ids and
+ * photos have their own upload endpoint. Sending the body needs the full
+ * contacts scope rather than the read-only one in SCOPE_MAP.
+ */
+export function profileToGooglePerson(profile: PersonProfile): GooglePerson {
+  const person: GooglePerson = {};
+  const givenName = profile.givenName?.trim();
+  const familyName = profile.familyName?.trim();
+  const displayName = profile.displayName?.trim();
+  if (givenName || familyName) {
+    person.names = [{
+      ...(givenName && { givenName }),
+      ...(familyName && { familyName }),
+    }];
+  } else if (displayName) {
+    person.names = [{ unstructuredName: displayName }];
+  }
+  if (profile.nickname?.trim()) {
+    person.nicknames = [{ value: profile.nickname.trim() }];
+  }
+
+  const emails = (profile.emails || []).filter((e) => e.value.trim());
+  if (emails.length > 0) {
+    person.emailAddresses = emails.map((email) => ({
+      value: email.value.trim(),
+      // Google has no "mobile" email type
+      type: email.type === "mobile" ? "other" : email.type,
+    }));
+  }
+  const phones = (profile.phones || []).filter((p) => p.value.trim());
+  if (phones.length > 0) {
+    person.phoneNumbers = phones.map((phone) => ({
+      value: phone.value.trim(),
+      type: phone.type,
+    }));
+  }
+
+  const links = (profile.socialLinks || []).filter((l) => l.handle.trim());
+  if (links.length > 0) {
+    person.urls = links.map((link) => ({
+      value: socialProfileUrl(link),
+      type: link.platform,
+    }));
+  }
+
+  if (profile.birthday?.trim()) {
+    person.birthdays = [birthdayToGoogle(profile.birthday.trim())];
+  }
+  if (profile.notes?.trim()) {
+    person.biographies = [{
+      value: profile.notes.trim(),
+      contentType: "TEXT_PLAIN",
+    }];
+  }
+  if (profile.pronouns?.trim()) {
+    person.genders = [{ value: "unspecified", addressMeAs: profile.pronouns }];
+  }
+
+  const custom = customFieldEntries(profile);
+  if (custom.length > 0) person.userDefined = custom;
+
+  return person;
+}
+
+// ============================================================================
+// GOOGLE CONTACTS CLIENT
+// ============================================================================
+
+/**
+ * People API client for reading contacts.
+ *
+ * IMPORTANT: Requires the contacts scope to be authorized.
+ * The auth cell MUST be writable for token refresh to work!
+ */
+export class GoogleContactsClient {
+  private auth: Writable<Auth>;
+  private debugMode: boolean;
+
+  constructor(
+    auth: Writable<Auth>,
+    { debugMode = false }: GoogleContactsClientConfig = {},
+  ) {
+    this.auth = auth;
+    this.debugMode = debugMode;
+  }
+
+  /**
+   * Fetch all of the user's contacts ("connections"), following pagination.
+   *
+   * @param onProgress - Called with the running count after each page
+   * @returns Person resources with PERSON_FIELDS populated
+   */
+  async listConnections(
+    onProgress?: (fetched: number) => void,
+  ): Promise<GooglePerson[]> {
+    const people: GooglePerson[] = [];
+    let pageToken = "";
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const url = new URL(`${PEOPLE_API}/people/me/connections`);
+      url.searchParams.set("personFields", PERSON_FIELDS);
+      url.searchParams.set("pageSize", String(PAGE_SIZE));
+      if (pageToken) url.searchParams.set("pageToken", pageToken);
+
+      const result = await this.request(url) as {
+        connections?: GooglePerson[];
+        nextPageToken?: string;
+      };
+      people.push(...(result.connections || []));
+      onProgress?.(people.length);
+      debugLog(this.debugMode, `Fetched page ${page + 1}:`, people.length);
+
+      if (!result.nextPageToken) break;
+      pageToken = result.nextPageToken;
+    }
+    return people;
+  }
+
+  /**
+   * Fetch the user's contact groups (labels), used to turn memberships into
+   * tags.
+   */
+  async listContactGroups(): Promise<GoogleContactGroup[]> {
+    const url = new URL(`${PEOPLE_API}/contactGroups`);
+    url.searchParams.set("pageSize", String(PAGE_SIZE));
+    const result = await this.request(url) as {
+      contactGroups?: GoogleContactGroup[];
+    };
+    return result.contactGroups || [];
+  }
+
+  /**
+   * GET a People API URL, refreshing the token on 401 (max 2 retries).
+   */
+  private async request(url: URL, retryCount = 0): Promise<unknown> {
+    const token = this.auth.get()?.token;
+    if (!token) {
+      throw new Error("No authorization token. Please authenticate first.");
+    }
+
+    const res = await fetch(url.toString(), {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    if (res.status === 401) {
+      if (retryCount >= 2) {
+        throw new Error(
+          "Authentication failed after retries. Please re-authenticate.",
+        );
+      }
+      debugLog(this.debugMode, "Token expired, attempting refresh...");
+      await this.refreshAuth();
+      return this.request(url, retryCount + 1);
+    }
+
+    if (!res.ok) {
+      const error = await res.json().catch(() => ({}));
+      const errorMessage =
+        (error as { error?: { message?: string } }).error?.message ||
+        res.statusText;
+      debugLog(this.debugMode, "Request failed:", res.status, errorMessage);
+      throw new Error(`People API error: ${res.status} ${errorMessage}`);
+    }
+
+    return res.json();
+  }
+
+  /**
+   * Refresh the OAuth token using the refresh token.
+   * Updates the auth cell with new token data.
+   */
+  private async refreshAuth(): Promise<void> {
+    const refreshToken = this.auth.get()?.refreshToken;
+    if (!refreshToken) {
+      throw new Error("No refresh token available. Please re-authenticate.");
+    }
+
+    debugLog(this.debugMode, "Refreshing auth token...");
+
+    const res = await fetch(
+      new URL("/api/integrations/google-oauth/refresh", env.apiUrl),
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken }),
+      },
+    );
+
+    if (!res.ok) {
+      throw new Error("Token refresh failed. Please re-authenticate.");
+    }
+
+    const json = await res.json();
+    if (!json.tokenInfo) {
+      throw new Error("Invalid refresh response");
+    }
+
+    // Keep existing user info since refresh doesn't return it
+    const currentAuth = this.auth.get();
+    this.auth.update({
+      ...json.tokenInfo,
+      user: currentAuth?.user,
+    });
+
+    debugLog(this.debugMode, "Auth token refreshed successfully");
+  }
+}
@@ -120,6 +120,7 @@ export interface FamilyMember {
   name: string;
   role: FamilyRole;
   personCharmId?: string; // Optional link to person.tsx charm
+  personId?: string; // personId of the matching Person, set on merge
 }
 
 // ============================================================================
@@ -2,8 +2,9 @@
 /**
  * iCal/ICS Generator Utility
  *
- * Generates RFC 5545 compliant iCalendar content for calendar events.
- * Supports recurring events with RRULE for weekly schedules.
+ * Generates RFC 5545 compliant iCalendar content for calendar events, and
+ * parses .ics files and feeds back into the same ICalEvent shape.
+ * Supports recurring events with RRULE, EXDATE and RDATE.
  *
  * Note: Use <ct-file-download> component to trigger downloads.
  *
@@ -23,6 +24,12 @@
  * }];
  *
  * const icsContent = generateICS(events, { prodId: "-//MyApp//EN" });
+ *
+ * // Parse an .ics file or feed, expanding recurring events into occurrences
+ * const { events: occurrences } = parseICS(icsText, {
+ *   timezone: "America/Los_Angeles",
+ *   expand: { from: "2025-01-01", to: "2025-03-31" },
+ * });
  * ```
  */
 
@@ -48,8 +55,14 @@ export interface RRule {
   freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
   /** Interval between occurrences (e.g., 2 = every 2 weeks) */
   interval?: number;
-  /** Days of week (for WEEKLY): MO, TU, WE, TH, FR, SA, SU */
+  /** Days of week: MO, TU, ... (MONTHLY/YEARLY allow ordinals: 2TU, -1FR) */
   byday?: string;
+  /** Days of the month, e.g. "1,15" or "-1" for the last day */
+  bymonthday?: string;
+  /** Months (1-12), e.g. "3,9" */
+  bymonth?: string;
+  /** First day of the week for WEEKLY rules (default: MO) */
+  wkst?: string;
   /** End date (YYYYMMDD or YYYY-MM-DD format) */
   until?: string;
   /** Number of occurrences instead of until date */
@@ -74,12 +87,34 @@ export interface ICalEvent {
   startTime: string;
   /** End time in HH:MM (24h) format */
   endTime: string;
+  /**
+   * End date in YYYY-MM-DD format, for events that end on a later day
+   * (the last day for all-day events). Defaults to startDate.
+   */
+  endDate?: string;
   /** Timezone identifier (e.g., "America/Los_Angeles"). Defaults to local. */
   timezone?: string;
   /** Recurrence rule for repeating events */
   rrule?: RRule;
+  /** Dates (YYYY-MM-DD) of occurrences to skip (EXDATE) */
+  exdates?: string[];
+  /** Extra occurrence dates (YYYY-MM-DD) at the usual start time (RDATE) */
+  rdates?: string[];
+  /**
+   * Set on a changed single occurrence of a recurring event (and on expanded
+   * occurrences): the date (YYYY-MM-DD) it would originally have started.
+   */
+  recurrenceId?: string;
   /** Whether this is an all-day event */
   allDay?: boolean;
+  /** Revision number; bump it when re-exporting a changed event (default: 0) */
+  sequence?: number;
+  /** CANCELLED tells calendar apps to remove a previously imported event */
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+  /** Organizer's address, without "mailto:" (read by parseICS only) */
+  organizer?: string;
+  /** Attendee addresses, without "mailto:" (read by parseICS only) */
+  attendees?: string[];
 }
 
 /**
@@ -94,6 +129,39 @@ export interface ICSOptions {
   timezone?: string;
 }
 
+/**
+ * Options for ICS parsing.
+ */
+export interface ICSParseOptions {
+  /**
+   * Convert timed events to this timezone (e.g., "America/Los_Angeles").
+   * By default events keep their own timezone; UTC times and VTIMEZONEs
+   * without a known zone name are converted to the calendar's
+   * X-WR-TIMEZONE, or UTC.
+   */
+  timezone?: string;
+  /**
+   * Expand recurring events into single occurrences that overlap this
+   * date range (YYYY-MM-DD, inclusive). Without it, recurring events are
+   * returned once, with their rrule, exdates and rdates.
+   */
+  expand?: { from: string; to: string };
+}
+
+/**
+ * Result of parsing ICS content.
+ */
+export interface ICSParseResult {
+  /** Parsed events, sorted by start */
+  events: ICalEvent[];
+  /** Calendar name from X-WR-CALNAME, if present */
+  calendarName?: string;
+  /** iTIP METHOD of an invite (REQUEST, CANCEL, REPLY, ...), if present */
+  method?: string;
+  /** Problems that didn't stop parsing (skipped events, ignored rule parts) */
+  warnings: string[];
+}
+
 // ============================================================================
 // CONSTANTS
 // ============================================================================
@@ -179,6 +247,48 @@ function formatDateTime(
   return `${date}T${time}`;
 }
 
+/**
+ * Formats a date-time property for one or more dates at the same time.
+ * UTC times use the Z suffix; other timezones a TZID parameter.
+ */
+function dateTimeProperty(
+  name: string,
+  dates: readonly string[],
+  timeStr: string,
+  timezone: string
+): string {
+  const values = dates.map((date) => formatDateTime(date, timeStr, timezone));
+  if (timezone === "UTC") {
+    return `${name}:${values.map((value) => `${value}Z`).join(",")}`;
+  }
+  return `${name};TZID=${timezone}:${values.join(",")}`;
+}
+
+/**
+ * Formats an occurrence-date property (EXDATE, RDATE, RECURRENCE-ID) for an
+ * event: plain dates for all-day events, otherwise at the event's start time.
+ */
+function dateListProperty(
+  name: string,
+  dates: readonly string[],
+  event: ICalEvent,
+  timezone: string
+): string {
+  if (event.allDay) {
+    return `${name};VALUE=DATE:${dates.map(formatDate).join(",")}`;
+  }
+  return dateTimeProperty(name, dates, event.startTime, timezone);
+}
+
+/**
+ * Adds days to a YYYY-MM-DD date (calendar arithmetic, no timezone).
+ */
+function addDays(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return date.toISOString().split("T")[0];
+}
+
 /**
  * Generates a DTSTAMP in UTC format (required by RFC 5545).
  */
@@ -194,9 +304,10 @@ function generateDTStamp(): string {
 }
 
 /**
- * Generates an RRULE string from RRule object.
+ * Generates an RRULE string from RRule object. UNTIL is written as a date
+ * for all-day events (no timezone) and as UTC otherwise.
  */
-function formatRRule(rrule: RRule): string {
+export function formatRRule(rrule: RRule, timezone?: string): string {
   const parts: string[] = [`FREQ=${rrule.freq}`];
 
   if (rrule.interval && rrule.interval > 1) {
@@ -207,10 +318,20 @@ function formatRRule(rrule: RRule): string {
     parts.push(`BYDAY=${rrule.byday}`);
   }
 
+  if (rrule.bymonthday) {
+    parts.push(`BYMONTHDAY=${rrule.bymonthday}`);
+  }
+
+  if (rrule.bymonth) {
+    parts.push(`BYMONTH=${rrule.bymonth}`);
+  }
+
+  if (rrule.wkst) {
+    parts.push(`WKST=${rrule.wkst}`);
+  }
+
   if (rrule.until) {
-    // Format until date - ensure it's in YYYYMMDD format
-    const until = rrule.until.replace(/-/g, "");
-    parts.push(`UNTIL=${until}T235959Z`);
+    parts.push(`UNTIL=${formatUntil(rrule.until, timezone)}`);
   } else if (rrule.count) {
     parts.push(`COUNT=${rrule.count}`);
   }
@@ -282,20 +403,28 @@ export function generateICS(
     lines.push("BEGIN:VEVENT");
     lines.push(`UID:${event.uid}`);
     lines.push(`DTSTAMP:${dtstamp}`);
+    if (event.sequence) {
+      lines.push(`SEQUENCE:${event.sequence}`);
+    }
 
     // Start/end times with timezone
     if (event.allDay) {
       lines.push(`DTSTART;VALUE=DATE:${formatDate(event.startDate)}`);
-      // For all-day events, DTEND is the next day
-      const endDate = new Date(event.startDate);
-      endDate.setDate(endDate.getDate() + 1);
-      const endDateStr = endDate.toISOString().split("T")[0];
+      // For all-day events, DTEND is the day after the last day
+      const endDateStr = addDays(event.endDate || event.startDate, 1);
       lines.push(`DTEND;VALUE=DATE:${formatDate(endDateStr)}`);
     } else {
-      const dtstart = formatDateTime(event.startDate, event.startTime, tz);
-      const dtend = formatDateTime(event.startDate, event.endTime, tz);
-      lines.push(`DTSTART;TZID=${tz}:${dtstart}`);
-      lines.push(`DTEND;TZID=${tz}:${dtend}`);
+      const endDate = event.endDate || event.startDate;
+      lines.push(
+        dateTimeProperty("DTSTART", [event.startDate], event.startTime, tz)
+      );
+      lines.push(dateTimeProperty("DTEND", [endDate], event.endTime, tz));
+    }
+
+    // Changed occurrence of a recurring event
+    if (event.recurrenceId) {
+      const recurrenceId = [event.recurrenceId];
+      lines.push(dateListProperty("RECURRENCE-ID", recurrenceId, event, tz));
     }
 
     // Summary (title)
@@ -313,10 +442,21 @@ export function generateICS(
 
     // Recurrence rule
     if (event.rrule) {
-      lines.push(`RRULE:${formatRRule(event.rrule)}`);
+      const untilZone = event.allDay ? undefined : tz;
+      lines.push(`RRULE:${formatRRule(event.rrule, untilZone)}`);
     }
 
-    lines.push("STATUS:CONFIRMED");
+    // Skipped and extra occurrences
+    if (event.exdates?.length) {
+      const exdate = dateListProperty("EXDATE", event.exdates, event, tz);
+      lines.push(foldLine(exdate));
+    }
+    if (event.rdates?.length) {
+      const rdate = dateListProperty("RDATE", event.rdates, event, tz);
+      lines.push(foldLine(rdate));
+    }
+
+    lines.push(`STATUS:${event.status || "CONFIRMED"}`);
     lines.push("TRANSP:OPAQUE");
     lines.push("END:VEVENT");
   }
@@ -417,3 +557,1033 @@ export function sanitizeFilename(name: string): string {
     .slice(0, 100);                // Limit length
 }
 
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/** Upper bound on recurrence periods walked, so a bad rule can't hang */
+const MAX_RECURRENCE_ITERATIONS = 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ICAL_DAY_NUMBERS: Record<string, number> = {
+  SU: 0,
+  MO: 1,
+  TU: 2,
+  WE: 3,
+  TH: 4,
+  FR: 5,
+  SA: 6,
+};
+
+const ICAL_DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+/** RRULE parts the expander understands; others are reported and ignored */
+const SUPPORTED_RRULE_PARTS = new Set([
+  "FREQ",
+  "INTERVAL",
+  "BYDAY",
+  "BYMONTHDAY",
+  "BYMONTH",
+  "WKST",
+  "UNTIL",
+  "COUNT",
+]);
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface Component {
+  type: string;
+  properties: ContentLine[];
+  children: Component[];
+}
+
+/**
+ * Converts between UTC instants and wall-clock time in one timezone, either
+ * an IANA zone (via Intl) or the offset rules of a VTIMEZONE.
+ */
+interface Zone {
+  /** IANA name, when the zone has one */
+  name?: string;
+  /** Offset from UTC in minutes at a UTC instant (ms) */
+  offsetAt(utcMs: number): number;
+}
+
+/** A DATE or DATE-TIME value as written in the file */
+interface ParsedDateTime {
+  date: string;
+  time: string;
+  allDay: boolean;
+  /** Undefined for floating times and dates */
+  zone?: Zone;
+}
+
+/** A VEVENT with its times still in the zone of its DTSTART */
+interface ParsedEvent {
+  event: ICalEvent;
+  zone?: Zone;
+  /** Original start time of a changed occurrence (RECURRENCE-ID) */
+  recurrenceTime?: string;
+}
+
+interface ByDayEntry {
+  day: number;
+  /** Nth weekday of the month/year (negative counts from the end) */
+  ordinal?: number;
+}
+
+const UTC_ZONE: Zone = { name: "UTC", offsetAt: () => 0 };
+
+const ianaZoneCache = new Map<string, Zone | null>();
+
+/**
+ * Returns the IANA timezone with this name, or null if Intl doesn't know it.
+ */
+function ianaZone(name: string): Zone | null {
+  if (name === "UTC" || name === "Etc/UTC" || name === "GMT") return UTC_ZONE;
+  if (!ianaZoneCache.has(name)) {
+    let zone: Zone | null = null;
+    try {
+      const format = new Intl.DateTimeFormat("en-US", {
+        timeZone: name,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+      });
+      zone = {
+        name,
+        offsetAt(utcMs: number): number {
+          const parts: Record<string, number> = {};
+          for (const part of format.formatToParts(new Date(utcMs))) {
+            parts[part.type] = Number(part.value);
+          }
+          const wall = Date.UTC(
+            parts.year,
+            parts.month - 1,
+            parts.day,
+            parts.hour % 24,
+            parts.minute
+          );
+          return Math.round((wall - utcMs) / 60000);
+        },
+      };
+    } catch {
+      zone = null;
+    }
+    ianaZoneCache.set(name, zone);
+  }
+  return ianaZoneCache.get(name) ?? null;
+}
+
+/** Milliseconds for a wall-clock date and time, read as if it were UTC */
+function wallMs(dateStr: string, timeStr: string): number {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  const [hour, minute] = timeStr.split(":").map(Number);
+  return Date.UTC(year, month - 1, day, hour, minute);
+}
+
+function fromWallMs(ms: number): { date: string; time: string } {
+  const iso = new Date(ms).toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+}
+
+/**
+ * Converts a wall-clock time in a zone to a UTC instant. Times skipped by a
+ * DST change move forward; repeated times resolve to the first one.
+ */
+function wallToUtc(zone: Zone, dateStr: string, timeStr: string): number {
+  const wall = wallMs(dateStr, timeStr);
+  const guess = wall - zone.offsetAt(wall) * 60000;
+  return wall - zone.offsetAt(guess) * 60000;
+}
+
+function utcToWall(zone: Zone, utcMs: number): { date: string; time: string } {
+  return fromWallMs(utcMs + zone.offsetAt(utcMs) * 60000);
+}
+
+/**
+ * Moves a wall-clock time from one zone to another. Floating times (no zone)
+ * stay as written.
+ */
+function convertWall(
+  dateStr: string,
+  timeStr: string,
+  from: Zone | undefined,
+  to: Zone | undefined
+): { date: string; time: string } {
+  if (!from || !to || from === to) return { date: dateStr, time: timeStr };
+  return utcToWall(to, wallToUtc(from, dateStr, timeStr));
+}
+
+/** Accepts YYYYMMDD or YYYY-MM-DD */
+function normalizeDate(dateStr: string): string {
+  const digits = dateStr.replace(/-/g, "").slice(0, 8);
+  return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((wallMs(to, "00:00") - wallMs(from, "00:00")) / DAY_MS);
+}
+
+function isoDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/**
+ * Formats an RRULE UNTIL for the end of the given day. RFC 5545 wants a DATE
+ * for all-day events and a UTC time for events with a timezone.
+ */
+function formatUntil(until: string, timezone?: string): string {
+  const date = until.replace(/-/g, "");
+  if (!timezone) return date;
+  const zone = ianaZone(timezone);
+  if (!zone) return `${date}T235959Z`;
+  const utcMs = wallToUtc(zone, normalizeDate(until), "23:59") + 59000;
+  return new Date(utcMs).toISOString().replace(/[-:]|\.\d{3}/g, "");
+}
+
+/**
+ * Unfolds continuation lines (RFC 5545 section 3.1) and splits into lines.
+ */
+function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r\n?/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+}
+
+/**
+ * Splits "NAME;PARAM=value;PARAM="quoted:value":content" into its parts.
+ * Returns null for lines without a value.
+ */
+function parseContentLine(line: string): ContentLine | null {
+  const segments: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  let index = 0;
+  for (; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && (char === ";" || char === ":")) {
+      segments.push(current);
+      current = "";
+      if (char === ":") break;
+      continue;
+    }
+    current += char;
+  }
+  if (index >= line.length) return null;
+
+  const [name, ...paramParts] = segments;
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eq = part.indexOf("=");
+    if (eq < 0) continue;
+    params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(
+      /"/g,
+      ""
+    );
+  }
+  return {
+    name: name.trim().toUpperCase(),
+    params,
+    value: line.slice(index + 1),
+  };
+}
+
+/**
+ * Builds the BEGIN/END component tree. Unbalanced END lines are tolerated.
+ */
+function parseComponents(lines: string[]): Component {
+  const root: Component = { type: "ROOT", properties: [], children: [] };
+  const stack: Component[] = [root];
+  for (const line of lines) {
+    const property = parseContentLine(line);
+    if (!property) continue;
+    const current = stack[stack.length - 1];
+    const type = property.value.trim().toUpperCase();
+    if (property.name === "BEGIN") {
+      const child: Component = { type, properties: [], children: [] };
+      current.children.push(child);
+      stack.push(child);
+    } else if (property.name === "END") {
+      const open = stack.map((component) => component.type).lastIndexOf(type);
+      if (open > 0) stack.length = open;
+    } else {
+      current.properties.push(property);
+    }
+  }
+  return root;
+}
+
+function getProperty(
+  component: Component,
+  name: string
+): ContentLine | undefined {
+  return component.properties.find((property) => property.name === name);
+}
+
+function getProperties(component: Component, name: string): ContentLine[] {
+  return component.properties.filter((property) => property.name === name);
+}
+
+/**
+ * Reverses escapeText: \\ \; \, and \n (or \N).
+ */
+function unescapeText(text: string): string {
+  return text.replace(
+    /\\([\\;,nN])/g,
+    (_, char: string) => (char === "n" || char === "N" ? "\n" : char)
+  );
+}
+
+function getText(component: Component, name: string): string | undefined {
+  const property = getProperty(component, name);
+  return property ? unescapeText(property.value) : undefined;
+}
+
+/**
+ * Parses a DATE (20250115) or DATE-TIME (20250115T093000, ...Z) value.
+ */
+function parseDateTimeValue(
+  value: string,
+  zone: Zone | undefined
+): ParsedDateTime | null {
+  const match = value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  if (!match[4]) return { date, time: "00:00", allDay: true };
+  return {
+    date,
+    time: `${match[4]}:${match[5]}`,
+    allDay: false,
+    zone: match[7] ? UTC_ZONE : zone,
+  };
+}
+
+/**
+ * Parses a DURATION (e.g., PT1H30M, P1D, -PT15M) into minutes.
+ */
+function parseDuration(value: string): number | null {
+  const match = value
+    .trim()
+    .match(
+      /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+    );
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map(
+    (part, index) => (index > 1 ? Number(part || 0) : part)
+  ) as [string, string | undefined, number, number, number, number, number];
+  const total = ((weeks * 7 + days) * 24 + hours) * 60 + minutes +
+    Math.floor(seconds / 60);
+  return sign === "-" ? -total : total;
+}
+
+/** Parses a UTC offset like -0800 or +0530 into minutes */
+function parseUtcOffset(value: string): number | null {
+  const match = value.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (!match) return null;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === "-" ? -minutes : minutes;
+}
+
+/**
+ * Builds a zone from a VTIMEZONE's STANDARD/DAYLIGHT observances, for TZIDs
+ * that don't name an IANA zone (e.g., Outlook's "Pacific Standard Time").
+ */
+function vtimezoneZone(component: Component): Zone | null {
+  const observances = component.children
+    .filter((child) => child.type === "STANDARD" || child.type === "DAYLIGHT")
+    .flatMap((child) => {
+      const start = getProperty(child, "DTSTART");
+      const from = getProperty(child, "TZOFFSETFROM");
+      const to = getProperty(child, "TZOFFSETTO");
+      const startValue = start && parseDateTimeValue(start.value, undefined);
+      const offsetTo = to ? parseUtcOffset(to.value) : null;
+      if (!startValue || offsetTo === null) return [];
+      const offsetFrom = (from && parseUtcOffset(from.value)) ?? offsetTo;
+      const rule = getProperty(child, "RRULE");
+      const rrule = rule ? parseRRule(rule.value, startValue, []) : undefined;
+      const rdates = getProperties(child, "RDATE").flatMap((property) =>
+        property.value.split(",").map((value) => value.slice(0, 8))
+      );
+      return [{ start: startValue, offsetFrom, offsetTo, rrule, rdates }];
+    });
+  if (observances.length === 0) return null;
+
+  // Offset changes up to the end of a year, sorted by instant
+  const transitionsByYear = new Map<
+    number,
+    { utcMs: number; offset: number }[]
+  >();
+  const transitions = (year: number) => {
+    if (!transitionsByYear.has(year)) {
+      const list = observances.flatMap((observance) => {
+        const { start, rrule } = observance;
+        const dates = rrule
+          ? recurrenceDates(start.date, rrule, `${year}-12-31`)
+          : [start.date];
+        dates.push(...observance.rdates.map(normalizeDate));
+        return dates.map((date) => ({
+          utcMs: wallMs(date, start.time) - observance.offsetFrom * 60000,
+          offset: observance.offsetTo,
+        }));
+      });
+      transitionsByYear.set(year, list.sort((a, b) => a.utcMs - b.utcMs));
+    }
+    return transitionsByYear.get(year)!;
+  };
+
+  return {
+    offsetAt(utcMs: number): number {
+      const list = transitions(new Date(utcMs).getUTCFullYear());
+      let offset = observances[0].offsetFrom;
+      for (const transition of list) {
+        if (transition.utcMs > utcMs) break;
+        offset = transition.offset;
+      }
+      return offset;
+    },
+  };
+}
+
+/**
+ * Resolves a TZID: a valid IANA name, then X-LIC-LOCATION, then a trailing
+ * Area/City (e.g., "/mozilla.org/20050126_1/America/New_York"), then the
+ * VTIMEZONE's own offset rules.
+ */
+function resolveZone(tzid: string, vtimezone?: Component): Zone | null {
+  const location = vtimezone && getText(vtimezone, "X-LIC-LOCATION");
+  const segments = tzid.split("/");
+  const candidates = [
+    tzid,
+    location,
+    segments.slice(-3).join("/"),
+    segments.slice(-2).join("/"),
+  ];
+  for (const candidate of candidates) {
+    const zone = candidate ? ianaZone(candidate) : null;
+    if (zone) return zone;
+  }
+  return vtimezone ? vtimezoneZone(vtimezone) : null;
+}
+
+/**
+ * Parses an RRULE value. UNTIL becomes the last date (in the DTSTART's zone)
+ * on which an occurrence may start.
+ */
+function parseRRule(
+  value: string,
+  start: ParsedDateTime,
+  warnings: string[],
+  label = "Event"
+): RRule | undefined {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(";")) {
+    const [key, partValue] = part.split("=");
+    if (key && partValue) parts[key.trim().toUpperCase()] = partValue.trim();
+  }
+
+  const freq = parts.FREQ?.toUpperCase();
+  if (
+    freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY" &&
+    freq !== "YEARLY"
+  ) {
+    warnings.push(
+      `${label}: FREQ=${parts.FREQ} isn't supported; ` +
+        "only the first occurrence is included"
+    );
+    return undefined;
+  }
+  const ignored = Object.keys(parts).filter(
+    (key) => !SUPPORTED_RRULE_PARTS.has(key)
+  );
+  if (ignored.length > 0) {
+    warnings.push(`${label}: ignored RRULE parts ${ignored.join(", ")}`);
+  }
+
+  const rrule: RRule = { freq };
+  const interval = Number(parts.INTERVAL);
+  if (interval > 1) rrule.interval = interval;
+  if (parts.BYDAY) rrule.byday = parts.BYDAY.toUpperCase();
+  if (parts.BYMONTHDAY) rrule.bymonthday = parts.BYMONTHDAY;
+  if (parts.BYMONTH) rrule.bymonth = parts.BYMONTH;
+  if (parts.WKST) rrule.wkst = parts.WKST.toUpperCase();
+  if (parts.COUNT && Number(parts.COUNT) > 0) rrule.count = Number(parts.COUNT);
+
+  const until = parts.UNTIL && parseDateTimeValue(parts.UNTIL, start.zone);
+  if (until) {
+    if (until.allDay || start.allDay) {
+      rrule.until = until.date;
+    } else {
+      // An UNTIL earlier in the day than the start time excludes that day
+      const wall = convertWall(until.date, until.time, until.zone, start.zone);
+      rrule.until = wall.time < start.time ? addDays(wall.date, -1) : wall.date;
+    }
+  }
+  return rrule;
+}
+
+function parseByDay(value: string | undefined): ByDayEntry[] {
+  if (!value) return [];
+  return value.split(",").flatMap((entry) => {
+    const match = entry.trim().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (!match) return [];
+    const day = ICAL_DAY_NUMBERS[match[2]];
+    return [match[1] ? { day, ordinal: Number(match[1]) } : { day }];
+  });
+}
+
+function parseNumberList(value: string | undefined): number[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map(Number)
+    .filter((number) => Number.isInteger(number) && number !== 0);
+}
+
+/**
+ * Days (UTC ms) in a span matching BYDAY entries. Entries with an ordinal
+ * pick the Nth matching weekday in the span (negative counts from the end).
+ */
+function weekdaysInSpan(
+  firstMs: number,
+  dayCount: number,
+  byday: ByDayEntry[]
+): number[] {
+  const result: number[] = [];
+  for (const entry of byday) {
+    const matches: number[] = [];
+    for (let offset = 0; offset < dayCount; offset++) {
+      const ms = firstMs + offset * DAY_MS;
+      if (new Date(ms).getUTCDay() === entry.day) matches.push(ms);
+    }
+    if (entry.ordinal === undefined) {
+      result.push(...matches);
+    } else {
+      const index = entry.ordinal > 0
+        ? entry.ordinal - 1
+        : matches.length + entry.ordinal;
+      if (index >= 0 && index < matches.length) result.push(matches[index]);
+    }
+  }
+  return result;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Candidate days (UTC ms) in one month for MONTHLY/YEARLY rules.
+ */
+function monthDates(
+  year: number,
+  month: number,
+  byday: ByDayEntry[],
+  bymonthday: number[],
+  defaultDay: number
+): number[] {
+  const length = daysInMonth(year, month);
+  const firstMs = Date.UTC(year, month, 1);
+  const monthDays = bymonthday
+    .map((day) => (day < 0 ? length + day + 1 : day))
+    .filter((day) => day >= 1 && day <= length);
+  if (byday.length > 0) {
+    const days = weekdaysInSpan(firstMs, length, byday);
+    if (monthDays.length === 0) return days;
+    return days.filter((ms) =>
+      monthDays.includes(new Date(ms).getUTCDate())
+    );
+  }
+  const days = monthDays.length > 0 ? monthDays : [defaultDay];
+  return days
+    .filter((day) => day <= length)
+    .map((day) => Date.UTC(year, month, day));
+}
+
+/**
+ * Lists the start dates (YYYY-MM-DD) a recurrence rule produces from
+ * startDate through `to`, honoring COUNT and UNTIL. DTSTART always counts as
+ * the first occurrence, as RFC 5545 requires.
+ */
+function recurrenceDates(
+  startDate: string,
+  rrule: RRule,
+  to: string
+): string[] {
+  const until = rrule.until ? normalizeDate(rrule.until) : undefined;
+  const last = until && until < to ? until : to;
+  if (startDate > last) return [];
+
+  const interval = Math.max(1, rrule.interval || 1);
+  const start = new Date(wallMs(startDate, "00:00"));
+  const startYear = start.getUTCFullYear();
+  const startMonth = start.getUTCMonth();
+  const startDay = start.getUTCDate();
+  const byday = parseByDay(rrule.byday);
+  const bymonthday = parseNumberList(rrule.bymonthday);
+  const bymonth = parseNumberList(rrule.bymonth);
+  const inMonths = (ms: number) =>
+    bymonth.length === 0 || bymonth.includes(new Date(ms).getUTCMonth() + 1);
+
+  const dates = [startDate];
+  for (let period = 0; period < MAX_RECURRENCE_ITERATIONS; period++) {
+    const step = period * interval;
+    let periodStart: number;
+    let candidates: number[];
+
+    if (rrule.freq === "DAILY") {
+      periodStart = start.getTime() + step * DAY_MS;
+      const day = new Date(periodStart);
+      const length = daysInMonth(day.getUTCFullYear(), day.getUTCMonth());
+      const monthDay = day.getUTCDate();
+      const matchesMonthDay = bymonthday.length === 0 ||
+        bymonthday.some((d) => d === monthDay || length + d + 1 === monthDay);
+      const matchesDay = byday.length === 0 ||
+        byday.some((entry) => entry.day === day.getUTCDay());
+      candidates = inMonths(periodStart) && matchesMonthDay && matchesDay
+        ? [periodStart]
+        : [];
+    } else if (rrule.freq === "WEEKLY") {
+      const weekStartDay = ICAL_DAY_NUMBERS[rrule.wkst || "MO"] ?? 1;
+      const backtrack = (start.getUTCDay() - weekStartDay + 7) % 7;
+      periodStart = start.getTime() + (step * 7 - backtrack) * DAY_MS;
+      const days = byday.length > 0
+        ? byday.map((entry) => entry.day)
+        : [start.getUTCDay()];
+      candidates = days
+        .map((day) => periodStart + ((day - weekStartDay + 7) % 7) * DAY_MS)
+        .filter(inMonths);
+    } else if (rrule.freq === "MONTHLY") {
+      const year = startYear + Math.floor((startMonth + step) / 12);
+      const month = (startMonth + step) % 12;
+      periodStart = Date.UTC(year, month, 1);
+      candidates = inMonths(periodStart)
+        ? monthDates(year, month, byday, bymonthday, startDay)
+        : [];
+    } else {
+      const year = startYear + step;
+      periodStart = Date.UTC(year, 0, 1);
+      if (bymonth.length === 0 && bymonthday.length === 0 && byday.length > 0) {
+        // BYDAY alone (e.g., 20MO) counts weekdays across the whole year
+        const length = (Date.UTC(year + 1, 0, 1) - periodStart) / DAY_MS;
+        candidates = weekdaysInSpan(periodStart, length, byday);
+      } else {
+        const months = bymonth.length > 0
+          ? bymonth.map((month) => month - 1)
+          : [startMonth];
+        candidates = months.flatMap((month) =>
+          monthDates(year, month, byday, bymonthday, startDay)
+        );
+      }
+    }
+
+    if (isoDate(periodStart) > last) break;
+    const sorted = [...new Set(candidates)].sort((a, b) => a - b).map(isoDate);
+    for (const date of sorted) {
+      if (date <= startDate) continue;
+      if (date > last || (rrule.count && dates.length >= rrule.count)) {
+        return dates;
+      }
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Moves a rule's dates when converting an event shifts its start date
+ * (e.g., a 5pm Los Angeles class is the next day in UTC). Only the weekday
+ * of BYDAY moves; other BY* parts are left as written.
+ */
+function shiftRRule(rrule: RRule, days: number): RRule {
+  const shifted: RRule = { ...rrule };
+  if (rrule.until) shifted.until = addDays(normalizeDate(rrule.until), days);
+  if (rrule.byday) {
+    shifted.byday = rrule.byday
+      .split(",")
+      .map((entry) => {
+        const match = entry.match(/^([+-]?\d*)(SU|MO|TU|WE|TH|FR|SA)$/);
+        if (!match) return entry;
+        const day = (((ICAL_DAY_NUMBERS[match[2]] + days) % 7) + 7) % 7;
+        return `${match[1]}${ICAL_DAY_CODES[day]}`;
+      })
+      .join(",");
+  }
+  return shifted;
+}
+
+/**
+ * Converts an event's wall times (and its occurrence dates) between zones.
+ */
+function convertEvent(
+  event: ICalEvent,
+  from: Zone | undefined,
+  to: Zone | undefined,
+  originalTime = event.startTime
+): ICalEvent {
+  if (event.allDay || !from || !to || from === to) return event;
+  const start = convertWall(event.startDate, event.startTime, from, to);
+  const end = convertWall(
+    event.endDate || event.startDate,
+    event.endTime,
+    from,
+    to
+  );
+  const converted: ICalEvent = {
+    ...event,
+    startDate: start.date,
+    startTime: start.time,
+    endTime: end.time,
+    timezone: to.name,
+  };
+  delete converted.endDate;
+  if (end.date !== start.date) converted.endDate = end.date;
+  if (event.recurrenceId) {
+    converted.recurrenceId =
+      convertWall(event.recurrenceId, originalTime, from, to).date;
+  }
+
+  const shift = daysBetween(event.startDate, start.date);
+  if (shift !== 0) {
+    const shiftDate = (date: string) => addDays(date, shift);
+    if (event.exdates) converted.exdates = event.exdates.map(shiftDate);
+    if (event.rdates) converted.rdates = event.rdates.map(shiftDate);
+    if (event.rrule) converted.rrule = shiftRRule(event.rrule, shift);
+  }
+  return converted;
+}
+
+/**
+ * Parses one VEVENT. Returns null (with a warning) if it has no usable
+ * DTSTART.
+ */
+function parseEvent(
+  component: Component,
+  zoneFor: (tzid: string) => Zone | undefined,
+  warnings: string[]
+): ParsedEvent | null {
+  const summary = getText(component, "SUMMARY") || "";
+  const dateValue = (property: ContentLine, value = property.value) =>
+    parseDateTimeValue(
+      value,
+      property.params.TZID ? zoneFor(property.params.TZID) : undefined
+    );
+
+  const startProperty = getProperty(component, "DTSTART");
+  const start = startProperty && dateValue(startProperty);
+  if (!start) {
+    const name = summary || getText(component, "UID") || "untitled";
+    warnings.push(`Skipped event "${name}": missing or invalid DTSTART`);
+    return null;
+  }
+  const zone = start.allDay ? undefined : start.zone;
+  const toEventZone = (value: ParsedDateTime) =>
+    value.allDay
+      ? { date: value.date, time: value.time }
+      : convertWall(value.date, value.time, value.zone, zone);
+
+  // End from DTEND, then DURATION; otherwise one day or zero length
+  const endProperty = getProperty(component, "DTEND");
+  const durationProperty = getProperty(component, "DURATION");
+  const endValue = endProperty && dateValue(endProperty);
+  const duration = durationProperty && parseDuration(durationProperty.value);
+  let end = {
+    date: start.allDay ? addDays(start.date, 1) : start.date,
+    time: start.time,
+  };
+  if (endValue) {
+    end = toEventZone(endValue);
+  } else if (typeof duration === "number") {
+    end = fromWallMs(wallMs(start.date, start.time) + duration * 60000);
+  }
+
+  const uid = getText(component, "UID") ||
+    generateEventUID(summary, "", start.time, start.date);
+  const label = `Event "${summary || uid}"`;
+  const event: ICalEvent = {
+    uid,
+    summary,
+    startDate: start.date,
+    startTime: start.allDay ? "00:00" : start.time,
+    endTime: start.allDay ? "23:59" : end.time,
+  };
+
+  // All-day DTEND is exclusive; endDate is the last day
+  const lastDate = start.allDay ? addDays(end.date, -1) : end.date;
+  if (lastDate > start.date) event.endDate = lastDate;
+  if (start.allDay) event.allDay = true;
+  if (zone?.name) event.timezone = zone.name;
+
+  const location = getText(component, "LOCATION");
+  if (location) event.location = location;
+  const description = getText(component, "DESCRIPTION");
+  if (description) event.description = description;
+  const sequence = Number(getText(component, "SEQUENCE"));
+  if (sequence > 0) event.sequence = sequence;
+  const status = getText(component, "STATUS")?.toUpperCase();
+  if (
+    status === "CONFIRMED" || status === "TENTATIVE" || status === "CANCELLED"
+  ) {
+    event.status = status;
+  }
+  const address = (property: ContentLine) =>
+    property.value.replace(/^mailto:/i, "");
+  const organizer = getProperty(component, "ORGANIZER");
+  if (organizer) event.organizer = address(organizer);
+  const attendees = getProperties(component, "ATTENDEE").map(address);
+  if (attendees.length > 0) event.attendees = attendees;
+
+  const rule = getProperty(component, "RRULE");
+  const rrule = rule && parseRRule(rule.value, start, warnings, label);
+  if (rrule) event.rrule = rrule;
+
+  // EXDATE/RDATE may repeat and hold comma-separated lists
+  const occurrenceDates = (name: string) =>
+    getProperties(component, name).flatMap((property) =>
+      property.value.split(",").flatMap((value) => {
+        // RDATE periods ("start/end") only keep their start
+        const parsed = dateValue(property, value.split("/")[0]);
+        return parsed ? [toEventZone(parsed).date] : [];
+      })
+    );
+  const exdates = occurrenceDates("EXDATE");
+  if (exdates.length > 0) event.exdates = exdates;
+  const rdates = occurrenceDates("RDATE");
+  if (rdates.length > 0) event.rdates = rdates;
+
+  const recurrenceProperty = getProperty(component, "RECURRENCE-ID");
+  const recurrence = recurrenceProperty && dateValue(recurrenceProperty);
+  if (recurrence) {
+    const original = toEventZone(recurrence);
+    event.recurrenceId = original.date;
+    return { event, zone, recurrenceTime: original.time };
+  }
+  return { event, zone };
+}
+
+function compareEvents(a: ICalEvent, b: ICalEvent): number {
+  const startA = `${a.startDate}T${a.allDay ? "" : a.startTime}`;
+  const startB = `${b.startDate}T${b.allDay ? "" : b.startTime}`;
+  return startA < startB ? -1 : startA > startB ? 1 : 0;
+}
+
+function overlapsRange(
+  event: ICalEvent,
+  range: { from: string; to: string }
+): boolean {
+  return event.startDate <= range.to &&
+    (event.endDate || event.startDate) >= range.from;
+}
+
+/**
+ * Expands a recurring event into single occurrences that overlap a date
+ * range (YYYY-MM-DD, inclusive), applying its RRULE, RDATEs and EXDATEs.
+ * Changed occurrences (events with a recurrenceId) replace the occurrence
+ * they override; cancelled ones remove it. A non-recurring event is
+ * returned as-is if it overlaps the range.
+ *
+ * Works on the event's own wall times; parseICS handles timezones.
+ */
+export function expandRecurrence(
+  event: ICalEvent,
+  range: { from: string; to: string },
+  overrides: ICalEvent[] = []
+): ICalEvent[] {
+  const spanDays = daysBetween(
+    event.startDate,
+    event.endDate || event.startDate
+  );
+  const earliest = addDays(range.from, -spanDays);
+  const skipped = new Set([
+    ...(event.exdates || []),
+    ...overrides.map((override) => override.recurrenceId),
+  ]);
+  const dates = new Set(
+    event.rrule
+      ? recurrenceDates(event.startDate, event.rrule, range.to)
+      : [event.startDate]
+  );
+  for (const date of event.rdates || []) dates.add(date);
+
+  const { rrule: _rrule, exdates: _exdates, rdates: _rdates, ...single } =
+    event;
+  const occurrences: ICalEvent[] = [];
+  for (const date of dates) {
+    if (date < earliest || date > range.to || skipped.has(date)) continue;
+    const occurrence: ICalEvent = { ...single, startDate: date };
+    delete occurrence.endDate;
+    if (spanDays > 0) occurrence.endDate = addDays(date, spanDays);
+    if (event.rrule || event.rdates?.length) occurrence.recurrenceId = date;
+    occurrences.push(occurrence);
+  }
+  for (const override of overrides) {
+    if (override.status === "CANCELLED" || !overlapsRange(override, range)) {
+      continue;
+    }
+    occurrences.push(override);
+  }
+  return occurrences.sort(compareEvents);
+}
+
+/**
+ * Parses iCal/ICS content (a downloaded .ics file or a subscribed feed).
+ *
+ * Handles folded lines, escaped text, quoted parameters, TZID/VTIMEZONE
+ * timezones (IANA names, Outlook/Mozilla-style TZIDs and raw offset rules),
+ * DURATION, and RRULE/EXDATE/RDATE/RECURRENCE-ID. Timed events keep their
+ * own timezone unless options.timezone is given; UTC times and zones with
+ * no IANA name are converted to the calendar's X-WR-TIMEZONE (or UTC).
+ * All-day and floating events are left as written.
+ *
+ * With options.expand, recurring events become single occurrences within
+ * the range and cancelled events are dropped. Without it, a recurring event
+ * is returned once with its rule, and changed occurrences are separate
+ * events with a recurrenceId, the same shape generateICS writes.
+ *
+ * Problems with individual events are reported in `warnings` rather than
+ * thrown.
+ *
+ * @param content - ICS text
+ * @param options - Parse options
+ */
+export function parseICS(
+  content: string,
+  options: ICSParseOptions = {}
+): ICSParseResult {
+  const warnings: string[] = [];
+  const root = parseComponents(unfoldLines(content));
+  const calendars = root.children.filter((child) => child.type === "VCALENDAR");
+  if (calendars.length === 0) {
+    warnings.push("No VCALENDAR found; reading top-level events");
+    calendars.push(root);
+  }
+
+  let preferred: Zone | undefined;
+  if (options.timezone) {
+    preferred = ianaZone(options.timezone) ?? undefined;
+    if (!preferred) {
+      warnings.push(
+        `Unknown timezone "${options.timezone}"; ` +
+          "events keep their own timezones"
+      );
+    }
+  }
+
+  let calendarName: string | undefined;
+  let method: string | undefined;
+  const parsed: { source: ParsedEvent; target?: Zone }[] = [];
+  for (const calendar of calendars) {
+    calendarName ??= getText(calendar, "X-WR-CALNAME");
+    method ??= getText(calendar, "METHOD")?.toUpperCase();
+    const defaultName = getText(calendar, "X-WR-TIMEZONE");
+    const calendarZone = defaultName ? ianaZone(defaultName) : null;
+
+    const vtimezones = new Map<string, Component>();
+    for (const child of calendar.children) {
+      const tzid = child.type === "VTIMEZONE" && getText(child, "TZID");
+      if (tzid) vtimezones.set(tzid, child);
+    }
+    const zones = new Map<string, Zone | undefined>();
+    const zoneFor = (tzid: string) => {
+      if (!zones.has(tzid)) {
+        const zone = resolveZone(tzid, vtimezones.get(tzid)) ?? undefined;
+        if (!zone) {
+          warnings.push(
+            `Unknown timezone "${tzid}"; its times are treated as floating`
+          );
+        }
+        zones.set(tzid, zone);
+      }
+      return zones.get(tzid);
+    };
+
+    for (const child of calendar.children) {
+      if (child.type !== "VEVENT") continue;
+      const source = parseEvent(child, zoneFor, warnings);
+      if (!source) continue;
+      // Floating and all-day events have no zone to convert from
+      let target: Zone | undefined;
+      if (source.zone) {
+        target = preferred ??
+          (source.zone.name && source.zone !== UTC_ZONE
+            ? source.zone
+            : calendarZone ?? UTC_ZONE);
+      }
+      parsed.push({ source, target });
+    }
+  }
+
+  if (!options.expand) {
+    const events = parsed.map(({ source, target }) =>
+      convertEvent(source.event, source.zone, target, source.recurrenceTime)
+    );
+    return {
+      events: events.sort(compareEvents),
+      calendarName,
+      ...(method ? { method } : {}),
+      warnings,
+    };
+  }
+
+  // Expand in each series' own zone (so DST doesn't move occurrences), one
+  // day wider than asked since converting can shift dates
+  const range = options.expand;
+  const wideRange = { from: addDays(range.from, -1), to: addDays(range.to, 1) };
+  const masters = parsed.filter(({ source }) => !source.event.recurrenceId);
+  const masterUids = new Set(masters.map(({ source }) => source.event.uid));
+  const overridesByUid = new Map<string, ParsedEvent[]>();
+  for (const entry of parsed) {
+    const { event } = entry.source;
+    if (!event.recurrenceId) continue;
+    if (!masterUids.has(event.uid)) {
+      masters.push(entry);
+      continue;
+    }
+    const overrides = overridesByUid.get(event.uid) || [];
+    overrides.push(entry.source);
+    overridesByUid.set(event.uid, overrides);
+  }
+
+  const events: ICalEvent[] = [];
+  for (const { source, target } of masters) {
+    if (source.event.status === "CANCELLED") continue;
+    const overrides = (overridesByUid.get(source.event.uid) || []).map(
+      (override) =>
+        convertEvent(
+          override.event,
+          override.zone,
+          source.zone,
+          override.recurrenceTime
+        )
+    );
+    const occurrences = expandRecurrence(source.event, wideRange, overrides);
+    for (const occurrence of occurrences) {
+      const converted = convertEvent(
+        occurrence,
+        source.zone,
+        target,
+        source.event.startTime
+      );
+      if (overlapsRange(converted, range)) events.push(converted);
+    }
+  }
+  return {
+    events: events.sort(compareEvents),
+    calendarName,
+    ...(method ? { method } : {}),
+    warnings,
+  };
+}
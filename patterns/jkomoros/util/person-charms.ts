@@ -0,0 +1,87 @@
+/// <cts-enable />
+/**
+ * Person charms seen from other patterns
+ *
+ * People Directory, Relationship Graph, People Reminders and Meta Analyzer all
+ * find Person charms (person.tsx) through wish("#allCharms") and open them by
+ * their index in that list. This is the shared part: the fields they read, how
+ * to recognize a Person, and the Open handler.
+ *
+ * Usage:
+ * ```ts
+ * import {
+ *   activePersons,
+ *   openPerson,
+ *   personName,
+ *   wishAllCharms,
+ * } from "./util/person-charms.ts";
+ *
+ * // In the pattern body
+ * const { allCharmsWish, allCharms } = wishAllCharms();
+ * const people = computed(() =>
+ *   activePersons(allCharms).map(({ charm, charmIndex }) => ({
+ *     charmIndex,
+ *     name: personName(charm.profile || {}),
+ *   }))
+ * );
+ *
+ * // Handlers write through the wish, not the computed copy
+ * onClick={openPerson({ allCharms: allCharmsWish, charmIndex })}
+ * ```
+ */
+import {
+  computed,
+  handler,
+  navigateTo,
+  wish,
+  type Writable,
+} from "commontools";
+import type { PersonCustomField, PersonProfile } from "./person-types.ts";
+import type { PersonLink } from "./person-relationships.ts";
+import { profileDisplayName } from "./vcard.ts";
+
+/** Fields read from Person charms (person.tsx) found via wish("#allCharms") */
+export type PersonCharm = {
+  profile: PersonProfile;
+  displayName?: string;
+  notes?: string;
+  personId?: string;
+  mergedInto?: string;
+  relationships?: PersonLink[];
+  lastContacted?: string;
+  customFields?: PersonCustomField[];
+};
+
+export function isPersonCharm(charm: any): charm is PersonCharm {
+  return !!charm && typeof charm === "object" && "profile" in charm;
+}
+
+export function personName(profile: PersonProfile): string {
+  return profileDisplayName(profile) || "(Untitled Person)";
+}
+
+/** Person charms that haven't been merged away, with their index in the list */
+export function activePersons(
+  charms: readonly any[],
+): Array<{ charm: PersonCharm; charmIndex: number }> {
+  return charms.flatMap((charm, charmIndex) =>
+    isPersonCharm(charm) && !charm.mergedInto ? [{ charm, charmIndex }] : []
+  );
+}
+
+/**
+ * All charms in the space. Call from a pattern body: `allCharms` is the list
+ * to read (never undefined), `allCharmsWish` the cell handlers write through.
+ */
+export function wishAllCharms() {
+  const allCharmsWish = wish<any[]>("#allCharms");
+  const allCharms = computed(() => allCharmsWish ?? []);
+  return { allCharmsWish, allCharms };
+}
+
+export const openPerson = handler<
+  unknown,
+  { allCharms: Writable<any[]>; charmIndex: number }
+>((_event, { allCharms, charmIndex }) => {
+  return navigateTo(allCharms.key(charmIndex));
+});
@@ -0,0 +1,259 @@
+/**
+ * Duplicate detection for person profiles
+ *
+ * Finds profiles that probably describe the same human: a shared email
+ * (case, dots and +tags ignored for Gmail), a shared phone number (compared
+ * on its last 10 digits), or a close fuzzy name match. Matches are grouped
+ * transitively, so A~B and B~C put A, B and C in one group.
+ *
+ * Usage:
+ * ```ts
+ * import { findDuplicateGroups } from "./util/person-dedup.ts";
+ *
+ * const groups = findDuplicateGroups(profiles);
+ * // [{ indices: [0, 3], score: 1, reasons: ["same email jo@x.com"] }]
+ * ```
+ */
+import type { PersonProfile } from "./person-types.ts";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DuplicateMatch {
+  /** 0-1; 1 means certain */
+  score: number;
+  /** Human-readable evidence, e.g. "same phone 555-1234" */
+  reasons: string[];
+}
+
+export interface DuplicateGroup extends DuplicateMatch {
+  /** Indices into the profile list, ascending */
+  indices: number[];
+}
+
+export interface DuplicateOptions {
+  /** Minimum pair score to treat as a duplicate (default: 0.75) */
+  threshold?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const EMAIL_SCORE = 1;
+const PHONE_SCORE = 0.95;
+// Name-only matches top out below shared contact details
+const NAME_WEIGHT = 0.9;
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+const DEFAULT_THRESHOLD = 0.75;
+
+// Domains where dots and +tags in the local part are ignored
+const GMAIL_DOMAINS = ["gmail.com", "googlemail.com"];
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+/**
+ * Lowercases an email; for Gmail also drops dots and +tags from the local
+ * part and maps googlemail.com to gmail.com.
+ */
+export function normalizeEmail(email: string): string {
+  const clean = email.trim().toLowerCase().replace(/^mailto:/, "");
+  const at = clean.lastIndexOf("@");
+  if (at < 0) return clean;
+  const domain = clean.slice(at + 1);
+  if (!GMAIL_DOMAINS.includes(domain)) return clean;
+  const local = clean.slice(0, at).split("+")[0].replace(/\./g, "");
+  return `${local}@gmail.com`;
+}
+
+/**
+ * Reduces a phone number to its digits, keeping only the last 10 so
+ * "+1 (555) 123-4567" and "555.123.4567" match. Returns "" for numbers too
+ * short to compare safely.
+ */
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  return digits.length < 7 ? "" : digits.slice(-10);
+}
+
+/**
+ * Lowercases a name, strips accents and punctuation, and collapses spaces.
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// ============================================================================
+// NAME MATCHING
+// ============================================================================
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+/** The normalized full names a profile might go by */
+function nameVariants(profile: PersonProfile): string[] {
+  const given = profile.givenName || "";
+  const family = profile.familyName || "";
+  const variants = [
+    profile.displayName || "",
+    `${given} ${family}`,
+    profile.nickname ? `${profile.nickname} ${family}` : "",
+  ].map(normalizeName);
+  // A one-word name ("Sam") is too weak to match on
+  return [...new Set(variants)].filter((name) => name.includes(" "));
+}
+
+/** Token order doesn't matter: "Smith John" ~ "John Smith" */
+function sortedTokens(name: string): string {
+  return name.split(" ").sort().join(" ");
+}
+
+/**
+ * How alike two profiles' names are (0-1), taking the best pair of full
+ * name, "First Last" and "Nickname Last".
+ */
+export function nameSimilarity(a: PersonProfile, b: PersonProfile): number {
+  let best = 0;
+  for (const x of nameVariants(a)) {
+    for (const y of nameVariants(b)) {
+      best = Math.max(
+        best,
+        similarity(x, y),
+        similarity(sortedTokens(x), sortedTokens(y)),
+      );
+    }
+  }
+  return best;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/** Full YYYY-MM-DD birthdays that differ rule out a name-only match */
+function birthdaysConflict(a: PersonProfile, b: PersonProfile): boolean {
+  const full = /^\d{4}-\d{2}-\d{2}$/;
+  return !!a.birthday && !!b.birthday && full.test(a.birthday) &&
+    full.test(b.birthday) && a.birthday !== b.birthday;
+}
+
+/**
+ * Scores how likely two profiles are the same person.
+ */
+export function matchPeople(
+  a: PersonProfile,
+  b: PersonProfile,
+): DuplicateMatch {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const emailsB = new Set((b.emails || []).map((e) => normalizeEmail(e.value)));
+  const sharedEmail = (a.emails || []).find((e) =>
+    e.value.trim() && emailsB.has(normalizeEmail(e.value))
+  );
+  if (sharedEmail) {
+    score = Math.max(score, EMAIL_SCORE);
+    reasons.push(`same email ${sharedEmail.value.trim()}`);
+  }
+
+  const phonesB = new Set(
+    (b.phones || []).map((p) => normalizePhone(p.value)).filter(Boolean),
+  );
+  const sharedPhone = (a.phones || []).find((p) =>
+    phonesB.has(normalizePhone(p.value))
+  );
+  if (sharedPhone) {
+    score = Math.max(score, PHONE_SCORE);
+    reasons.push(`same phone ${sharedPhone.value.trim()}`);
+  }
+
+  const names = nameSimilarity(a, b);
+  if (names >= NAME_SIMILARITY_THRESHOLD && !birthdaysConflict(a, b)) {
+    score = Math.max(score, names * NAME_WEIGHT);
+    reasons.push(
+      names === 1 ? "same name" : `similar name (${Math.round(names * 100)}%)`,
+    );
+  }
+
+  return { score, reasons };
+}
+
+/**
+ * Groups likely duplicates. Profiles in no group are left out. Compares
+ * every pair, so keep lists to a few thousand profiles.
+ */
+export function findDuplicateGroups(
+  profiles: PersonProfile[],
+  { threshold = DEFAULT_THRESHOLD }: DuplicateOptions = {},
+): DuplicateGroup[] {
+  // Each profile starts in its own group; matching pairs merge groups
+  const groupOf = profiles.map((_, i) => i);
+  const members = new Map(profiles.map((_, i) => [i, [i]]));
+  const evidence = new Map<number, DuplicateMatch>();
+
+  for (let i = 0; i < profiles.length; i++) {
+    for (let j = i + 1; j < profiles.length; j++) {
+      const match = matchPeople(profiles[i], profiles[j]);
+      if (match.score < threshold) continue;
+      const [gi, gj] = [groupOf[i], groupOf[j]];
+      const current = members.get(gi)!;
+      const joining = gi === gj ? [] : members.get(gj)!;
+      // Don't chain two people with different birthdays through a third
+      const conflict = current.some((x) =>
+        joining.some((y) => birthdaysConflict(profiles[x], profiles[y]))
+      );
+      if (conflict) continue;
+
+      const previous = [evidence.get(gi), evidence.get(gj)]
+        .filter((e): e is DuplicateMatch => !!e);
+      evidence.set(gi, {
+        score: Math.min(match.score, ...previous.map((e) => e.score)),
+        reasons: [
+          ...new Set([...previous.flatMap((e) => e.reasons), ...match.reasons]),
+        ],
+      });
+      for (const k of joining) groupOf[k] = gi;
+      if (gi !== gj) {
+        members.set(gi, [...current, ...joining]);
+        members.delete(gj);
+        evidence.delete(gj);
+      }
+    }
+  }
+
+  return [...members.entries()]
+    .filter(([, indices]) => indices.length > 1)
+    .map(([group, indices]) => ({
+      indices: indices.sort((a, b) => a - b),
+      ...evidence.get(group)!,
+    }))
+    .sort((a, b) => b.score - a.score);
+}
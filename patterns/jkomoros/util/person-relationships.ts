@@ -0,0 +1,411 @@
+/**
+ * Relationships between Person charms
+ *
+ * A PersonLink on one Person points at another by personId and says what
+ * that other person is to this one. Links are kept in reciprocal pairs:
+ * "B is A's parent" on A goes with "A is B's child" on B. Types without a
+ * natural counterpart (advisor, recruiter, ...) are stored on one side only.
+ *
+ * Usage:
+ * ```ts
+ * import { reciprocalLink, withLink } from "./util/person-relationships.ts";
+ *
+ * const link = { personId: bId, type: "parent" };    // B is A's parent
+ * aLinks = withLink(aLinks, link);
+ * const back = reciprocalLink(aId, link);             // A is B's child
+ * if (back) bLinks = withLink(bLinks, back);
+ * ```
+ */
+import {
+  RELATIONSHIP_TYPE_GROUPS,
+  RELATIONSHIP_TYPE_LABELS,
+  type RelationshipType,
+} from "./person-types.ts";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PersonLink {
+  /** personId of the other Person */
+  personId: string;
+  /** What the other person is to this one ("parent": they're my parent) */
+  type: RelationshipType;
+  /** Family modifiers that stack with type, e.g. ["step"] */
+  modifiers?: RelationshipType[];
+}
+
+/** A Person's id and outgoing links, as read from its charm */
+export interface RelationshipNode {
+  personId: string;
+  links: PersonLink[];
+}
+
+/** A link implied by others, e.g. siblings through a shared parent */
+export interface InferredRelationship extends PersonLink {
+  /** personId of the Person the link belongs on */
+  fromId: string;
+  /** personIds of the people it was inferred through */
+  via: string[];
+}
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+}
+
+// ============================================================================
+// RECIPROCITY
+// ============================================================================
+
+export const FAMILY_MODIFIERS: RelationshipType[] =
+  RELATIONSHIP_TYPE_GROUPS["Family Modifiers"];
+
+// Each pair is [type, its inverse]
+const INVERSE_PAIRS: Array<[RelationshipType, RelationshipType]> = [
+  ["parent", "child"],
+  ["grandparent", "grandchild"],
+  ["aunt-uncle", "niece-nephew"],
+  ["cousin-elder", "cousin-younger"],
+  ["manager", "direct-report"],
+  ["mentor", "mentee"],
+  ["client", "vendor"],
+];
+
+// Types that are their own inverse
+const SYMMETRIC_TYPES: RelationshipType[] = [
+  "spouse",
+  "sibling",
+  "cousin",
+  "chosen-family",
+  "colleague",
+  "former-colleague",
+  "collaborator",
+  "friend",
+  "acquaintance",
+  "neighbor",
+  "classmate",
+  "roommate",
+  "ex-partner",
+  "online-friend",
+];
+
+/** The type each side of a reciprocal pair gets */
+export const RECIPROCAL_TYPES: Partial<
+  Record<RelationshipType, RelationshipType>
+> = Object.fromEntries([
+  ...INVERSE_PAIRS.flatMap(([a, b]) => [[a, b], [b, a]]),
+  ...SYMMETRIC_TYPES.map((type) => [type, type]),
+]);
+
+/** Types that can link two people (everything but the family modifiers) */
+export const LINK_TYPES: RelationshipType[] = (
+  Object.keys(RELATIONSHIP_TYPE_LABELS) as RelationshipType[]
+).filter((type) => !FAMILY_MODIFIERS.includes(type));
+
+export function reciprocalType(
+  type: RelationshipType,
+): RelationshipType | undefined {
+  return RECIPROCAL_TYPES[type];
+}
+
+/**
+ * The link to store on the other Person, or undefined when the type has no
+ * counterpart. Modifiers carry over: a step-parent has a step-child.
+ */
+export function reciprocalLink(
+  ownerId: string,
+  link: PersonLink,
+): PersonLink | undefined {
+  const type = reciprocalType(link.type);
+  if (!type) return undefined;
+  return link.modifiers?.length
+    ? { personId: ownerId, type, modifiers: [...link.modifiers] }
+    : { personId: ownerId, type };
+}
+
+/** "Step-Parent", "Sibling (In-Law)" */
+export function linkLabel(link: PersonLink): string {
+  const label = RELATIONSHIP_TYPE_LABELS[link.type] || link.type;
+  const modifiers = link.modifiers || [];
+  const prefixes = modifiers
+    .filter((m) => m === "step" || m === "half")
+    .map((m) => RELATIONSHIP_TYPE_LABELS[m])
+    .join("");
+  const suffixes = modifiers
+    .filter((m) => m !== "step" && m !== "half")
+    .map((m) => RELATIONSHIP_TYPE_LABELS[m]);
+  return `${prefixes}${label}${
+    suffixes.length ? ` (${suffixes.join(", ")})` : ""
+  }`;
+}
+
+// ============================================================================
+// EDITING
+// ============================================================================
+
+function sameLink(a: PersonLink, personId: string, type: string): boolean {
+  return a.personId === personId && a.type === type;
+}
+
+/**
+ * Adds a link, replacing one with the same person and type (so modifiers
+ * can be changed by adding again).
+ */
+export function withLink(
+  links: readonly PersonLink[],
+  link: PersonLink,
+): PersonLink[] {
+  return [
+    ...links.filter((l) => !sameLink(l, link.personId, link.type)),
+    link,
+  ];
+}
+
+export function withoutLink(
+  links: readonly PersonLink[],
+  personId: string,
+  type: RelationshipType,
+): PersonLink[] {
+  return links.filter((l) => !sameLink(l, personId, type));
+}
+
+/**
+ * Repoints links at any of fromIds to toId, dropping links to toId itself
+ * (ownerId) and any duplicates this creates. Used when merging Persons.
+ */
+export function relinkPeople(
+  links: readonly PersonLink[],
+  fromIds: ReadonlySet<string>,
+  toId: string,
+  ownerId = "",
+): PersonLink[] {
+  let result: PersonLink[] = [];
+  for (const link of links) {
+    const personId = fromIds.has(link.personId) ? toId : link.personId;
+    if (personId === ownerId) continue;
+    result = withLink(result, { ...link, personId });
+  }
+  return result;
+}
+
+// ============================================================================
+// INFERENCE
+// ============================================================================
+
+/**
+ * Every node's links, with reciprocals filled in where only one side was
+ * recorded. Keyed by personId.
+ */
+function completeLinks(
+  nodes: readonly RelationshipNode[],
+): Map<string, PersonLink[]> {
+  const links = new Map<string, PersonLink[]>(
+    nodes.map((node) => [node.personId, [...node.links]]),
+  );
+  for (const node of nodes) {
+    for (const link of node.links) {
+      const back = reciprocalLink(node.personId, link);
+      const other = links.get(link.personId);
+      if (!back || !other) continue;
+      if (!other.some((l) => sameLink(l, back.personId, back.type))) {
+        other.push(back);
+      }
+    }
+  }
+  return links;
+}
+
+// In-law links don't carry through: a spouse's sibling isn't a sibling
+function idsOfType(
+  links: readonly PersonLink[] | undefined,
+  type: RelationshipType,
+  excluded: RelationshipType[] = ["in-law"],
+): string[] {
+  return (links || [])
+    .filter((l) =>
+      l.type === type && !l.modifiers?.some((m) => excluded.includes(m))
+    )
+    .map((l) => l.personId);
+}
+
+/**
+ * Relationships implied by the recorded ones but not yet recorded:
+ * - siblings through a shared parent (half-siblings when both have two
+ *   known parents and share only one; step-siblings when the only shared
+ *   parent is a step-parent to one of them)
+ * - grandparents through a parent's parent
+ * - aunts/uncles through a parent's sibling
+ * - parents-in-law through a spouse's parent
+ *
+ * Each pair is suggested once, on one side; applying it with reciprocalLink
+ * fills in the other. Pairs that already have any link are skipped.
+ */
+export function inferRelationships(
+  nodes: readonly RelationshipNode[],
+): InferredRelationship[] {
+  const links = completeLinks(nodes);
+  const linked = (a: string, b: string) =>
+    (links.get(a) || []).some((l) => l.personId === b);
+  const parentsOf = (id: string) => idsOfType(links.get(id), "parent");
+  const birthParentsOf = (id: string) =>
+    idsOfType(links.get(id), "parent", ["in-law", "step"]);
+
+  const inferred: InferredRelationship[] = [];
+  const seen = new Set<string>();
+  const suggest = (
+    fromId: string,
+    link: PersonLink,
+    via: string[],
+  ) => {
+    if (fromId === link.personId || linked(fromId, link.personId)) return;
+    const pair = [fromId, link.personId].sort().join("|");
+    if (seen.has(pair)) return;
+    seen.add(pair);
+    inferred.push({ fromId, ...link, via });
+  };
+
+  // Siblings first, so aunts/uncles can go through inferred siblings too
+  const siblings = new Map<string, Set<string>>();
+  const addSibling = (a: string, b: string) => {
+    if (!siblings.has(a)) siblings.set(a, new Set());
+    siblings.get(a)!.add(b);
+  };
+  for (const [id, own] of links) {
+    for (const other of idsOfType(own, "sibling", ["in-law", "step"])) {
+      addSibling(id, other);
+    }
+  }
+  for (const [, own] of links) {
+    const children = idsOfType(own, "child").sort();
+    for (let i = 0; i < children.length; i++) {
+      for (let j = i + 1; j < children.length; j++) {
+        const [a, b] = [children[i], children[j]];
+        const parentsA = birthParentsOf(a);
+        const parentsB = birthParentsOf(b);
+        const shared = parentsA.filter((p) => parentsB.includes(p));
+        // Only linked through a step-parent: step-siblings, not siblings
+        if (!shared.length) {
+          const via = parentsOf(a).filter((p) => parentsOf(b).includes(p));
+          suggest(
+            a,
+            { personId: b, type: "sibling", modifiers: ["step"] },
+            via,
+          );
+          continue;
+        }
+        addSibling(a, b);
+        addSibling(b, a);
+        const half = parentsA.length >= 2 && parentsB.length >= 2 &&
+          shared.length === 1;
+        suggest(
+          a,
+          half
+            ? { personId: b, type: "sibling", modifiers: ["half"] }
+            : { personId: b, type: "sibling" },
+          shared,
+        );
+      }
+    }
+  }
+
+  for (const id of links.keys()) {
+    for (const parentId of parentsOf(id)) {
+      for (const grandparentId of parentsOf(parentId)) {
+        suggest(
+          id,
+          { personId: grandparentId, type: "grandparent" },
+          [parentId],
+        );
+      }
+      for (const auntUncleId of siblings.get(parentId) || []) {
+        suggest(
+          id,
+          { personId: auntUncleId, type: "aunt-uncle" },
+          [parentId],
+        );
+      }
+    }
+    for (const spouseId of idsOfType(links.get(id), "spouse")) {
+      for (const parentInLawId of parentsOf(spouseId)) {
+        suggest(
+          id,
+          { personId: parentInLawId, type: "parent", modifiers: ["in-law"] },
+          [spouseId],
+        );
+      }
+    }
+  }
+
+  return inferred;
+}
+
+// ============================================================================
+// GRAPH LAYOUT
+// ============================================================================
+
+/**
+ * Orders personIds so connected people sit next to each other: each
+ * connected group is walked breadth-first, largest groups first.
+ */
+export function graphOrder(nodes: readonly RelationshipNode[]): string[] {
+  const links = completeLinks(nodes);
+  const visited = new Set<string>();
+  const groups: string[][] = [];
+  for (const node of nodes) {
+    if (visited.has(node.personId)) continue;
+    const group: string[] = [];
+    const queue = [node.personId];
+    visited.add(node.personId);
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      group.push(id);
+      for (const link of links.get(id) || []) {
+        if (visited.has(link.personId) || !links.has(link.personId)) continue;
+        visited.add(link.personId);
+        queue.push(link.personId);
+      }
+    }
+    groups.push(group);
+  }
+  return groups.sort((a, b) => b.length - a.length).flat();
+}
+
+/**
+ * Evenly spaced points on a circle inside a size x size square, starting at
+ * the top and going clockwise.
+ */
+export function circleLayout(
+  count: number,
+  size: number,
+  padding = 40,
+): GraphPoint[] {
+  const center = size / 2;
+  const radius = count > 1 ? center - padding : 0;
+  return Array.from({ length: count }, (_, i) => {
+    const angle = (2 * Math.PI * i) / count - Math.PI / 2;
+    return {
+      x: Math.round(center + radius * Math.cos(angle)),
+      y: Math.round(center + radius * Math.sin(angle)),
+    };
+  });
+}
+
+/**
+ * Position for drawing an edge as a rotated box: place its left edge at
+ * (left, top), give it the length as width and rotate by angle degrees
+ * around its left edge.
+ */
+export function edgeGeometry(
+  from: GraphPoint,
+  to: GraphPoint,
+): { left: number; top: number; length: number; angle: number } {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  return {
+    left: from.x,
+    top: from.y,
+    length: Math.round(Math.hypot(dx, dy)),
+    angle: Math.round((Math.atan2(dy, dx) * 180) / Math.PI),
+  };
+}
@@ -0,0 +1,350 @@
+/**
+ * Birthday, keep-in-touch and gift reminders for people
+ *
+ * Works from the Person fields that matter for staying in touch: birthday,
+ * closeness, giftTier and the date you were last in touch. Closer people get
+ * nudged sooner (see KEEP_IN_TOUCH_DAYS). The reminders can be exported as
+ * all-day calendar events via util/ical-generator.ts.
+ *
+ * Dates are YYYY-MM-DD strings compared as calendar days, so results don't
+ * shift with the timezone.
+ *
+ * Usage:
+ * ```ts
+ * import {
+ *   reminderEvents,
+ *   upcomingBirthdays,
+ * } from "./util/person-reminders.ts";
+ *
+ * const soon = upcomingBirthdays(people, { withinDays: 14 });
+ * const ics = generateICS(reminderEvents(people), { calendarName: "People" });
+ * ```
+ */
+import type { ICalEvent, RRule } from "./ical-generator.ts";
+import type { Closeness, GiftTier } from "./person-types.ts";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The Person fields reminders read */
+export interface ReminderPerson {
+  /** Unique within the list; used for stable calendar UIDs */
+  id: string;
+  name: string;
+  /** YYYY-MM-DD, or --MM-DD when the year is unknown */
+  birthday?: string;
+  closeness?: Closeness | "";
+  giftTier?: GiftTier | "";
+  /** YYYY-MM-DD of the last time you were in touch */
+  lastContacted?: string;
+}
+
+export interface BirthdayReminder {
+  id: string;
+  name: string;
+  /** Next birthday, YYYY-MM-DD */
+  date: string;
+  daysUntil: number;
+  /** Age they turn, when the birth year is known */
+  turning?: number;
+}
+
+export interface TouchNudge {
+  id: string;
+  name: string;
+  closeness: Closeness;
+  /** Days since last contact; undefined when none is recorded */
+  daysSince?: number;
+  intervalDays: number;
+  /** YYYY-MM-DD the next contact is due */
+  dueDate: string;
+  /** Days past due (0 when due today or never contacted) */
+  daysOverdue: number;
+}
+
+export interface GiftPlan extends BirthdayReminder {
+  /** YYYY-MM-DD to start looking for a gift */
+  shopBy: string;
+}
+
+export interface ReminderOptions {
+  /** YYYY-MM-DD (default: today, local time) */
+  today?: string;
+  /** How far ahead to list birthdays (default: 30 days) */
+  withinDays?: number;
+  /** How long before a birthday to start gift shopping (default: 21 days) */
+  giftLeadDays?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Days between contacts before a nudge; 0 means never nudge */
+export const KEEP_IN_TOUCH_DAYS: Record<Closeness, number> = {
+  intimate: 14,
+  close: 30,
+  casual: 90,
+  distant: 365,
+  dormant: 0,
+};
+
+const DEFAULT_WITHIN_DAYS = 30;
+const DEFAULT_GIFT_LEAD_DAYS = 21;
+const UID_DOMAIN = "people.commontools.app";
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+/** Today's date as YYYY-MM-DD in local time */
+export function localToday(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+function toUTC(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(toUTC(date) + days * 86400000).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((toUTC(to) - toUTC(from)) / 86400000);
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function birthdayIn(year: number, month: number, day: number): string {
+  // Feb 29 birthdays fall on Feb 28 in other years
+  const d = month === 2 && day === 29 && !isLeapYear(year) ? 28 : day;
+  const mm = String(month).padStart(2, "0");
+  return `${year}-${mm}-${String(d).padStart(2, "0")}`;
+}
+
+/**
+ * The next occurrence (today or later) of a YYYY-MM-DD or --MM-DD birthday,
+ * or undefined if it doesn't parse.
+ */
+export function nextBirthday(
+  birthday: string,
+  today: string = localToday(),
+): { date: string; turning?: number } | undefined {
+  const match = birthday.trim().match(/^(\d{4}|-)-(\d{2})-(\d{2})$/);
+  if (!match) return undefined;
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  const birthYear = match[1] === "-" ? undefined : Number(match[1]);
+  // Without a year, Feb 29 is allowed (2000 is a leap year)
+  if (month < 1 || month > 12 || day < 1) return undefined;
+  if (day > daysInMonth(birthYear ?? 2000, month)) return undefined;
+
+  const thisYear = Number(today.slice(0, 4));
+  let date = birthdayIn(thisYear, month, day);
+  if (date < today) date = birthdayIn(thisYear + 1, month, day);
+  return birthYear
+    ? { date, turning: Number(date.slice(0, 4)) - birthYear }
+    : { date };
+}
+
+// ============================================================================
+// REMINDERS
+// ============================================================================
+
+/** Birthdays within the window, soonest first */
+export function upcomingBirthdays(
+  people: readonly ReminderPerson[],
+  { today = localToday(), withinDays = DEFAULT_WITHIN_DAYS }:
+    ReminderOptions = {},
+): BirthdayReminder[] {
+  return allBirthdays(people, today)
+    .filter((reminder) => reminder.daysUntil <= withinDays);
+}
+
+function allBirthdays(
+  people: readonly ReminderPerson[],
+  today: string,
+): BirthdayReminder[] {
+  return people
+    .flatMap((person) => {
+      const next = person.birthday
+        ? nextBirthday(person.birthday, today)
+        : undefined;
+      if (!next) return [];
+      return [{
+        id: person.id,
+        name: person.name,
+        date: next.date,
+        daysUntil: daysBetween(today, next.date),
+        ...(next.turning ? { turning: next.turning } : {}),
+      }];
+    })
+    .sort((a, b) => a.daysUntil - b.daysUntil);
+}
+
+/**
+ * People due a catch-up: last contact longer ago than their closeness
+ * allows, or no contact recorded at all. Most overdue (relative to their
+ * interval) first.
+ */
+export function keepInTouchNudges(
+  people: readonly ReminderPerson[],
+  { today = localToday() }: ReminderOptions = {},
+): TouchNudge[] {
+  const nudges = people.flatMap((person) => {
+    if (!person.closeness) return [];
+    const intervalDays = KEEP_IN_TOUCH_DAYS[person.closeness];
+    if (!intervalDays) return [];
+
+    const last = person.lastContacted;
+    if (!last) {
+      return [{
+        id: person.id,
+        name: person.name,
+        closeness: person.closeness,
+        intervalDays,
+        dueDate: today,
+        daysOverdue: 0,
+      }];
+    }
+    const dueDate = addDays(last, intervalDays);
+    if (dueDate > today) return [];
+    return [{
+      id: person.id,
+      name: person.name,
+      closeness: person.closeness,
+      daysSince: daysBetween(last, today),
+      intervalDays,
+      dueDate,
+      daysOverdue: daysBetween(dueDate, today),
+    }];
+  });
+  return nudges.sort((a, b) =>
+    b.daysOverdue / b.intervalDays - a.daysOverdue / a.intervalDays
+  );
+}
+
+/** Every "gift-always" person with a known birthday, soonest first */
+export function giftPlans(
+  people: readonly ReminderPerson[],
+  { today = localToday(), giftLeadDays = DEFAULT_GIFT_LEAD_DAYS }:
+    ReminderOptions = {},
+): GiftPlan[] {
+  const giftAlways = people.filter((p) => p.giftTier === "gift-always");
+  return allBirthdays(giftAlways, today).map((reminder) => ({
+    ...reminder,
+    shopBy: addDays(reminder.date, -giftLeadDays),
+  }));
+}
+
+// ============================================================================
+// CALENDAR EXPORT
+// ============================================================================
+
+function reminderUID(kind: string, id: string): string {
+  const slug = id.toLowerCase().replace(/[^a-z0-9]+/g, "-").slice(0, 60);
+  return `${kind}-${slug}@${UID_DOMAIN}`;
+}
+
+/**
+ * Repeats every year. A plain YEARLY rule on Feb 29 only fires in leap
+ * years, so leap-day dates repeat on the last day of February instead.
+ */
+function yearlyRule(leapDay: boolean): RRule {
+  return leapDay
+    ? { freq: "YEARLY", bymonth: "2", bymonthday: "-1" }
+    : { freq: "YEARLY" };
+}
+
+function isLeapDay(date: string): boolean {
+  return date.endsWith("-02-29");
+}
+
+function allDayEvent(
+  uid: string,
+  summary: string,
+  startDate: string,
+  description?: string,
+): ICalEvent {
+  return {
+    uid,
+    summary,
+    startDate,
+    startTime: "00:00",
+    endTime: "00:00",
+    allDay: true,
+    ...(description ? { description } : {}),
+  };
+}
+
+/**
+ * All reminders as calendar events: a yearly all-day event per birthday, a
+ * yearly "find a gift" event for gift-always people, and a one-off event per
+ * keep-in-touch nudge on its due date (today when overdue). UIDs are stable
+ * per person, so re-importing the feed updates events instead of adding
+ * copies.
+ */
+export function reminderEvents(
+  people: readonly ReminderPerson[],
+  options: ReminderOptions = {},
+): ICalEvent[] {
+  const today = options.today || localToday();
+  const events: ICalEvent[] = [];
+  // This year's date may be Feb 28, so check the birthday itself
+  const leapDayIds = new Set(
+    people
+      .filter((person) => isLeapDay(person.birthday?.trim() || ""))
+      .map((person) => person.id),
+  );
+
+  for (const birthday of allBirthdays(people, today)) {
+    events.push({
+      ...allDayEvent(
+        reminderUID("birthday", birthday.id),
+        `${birthday.name}'s birthday`,
+        birthday.date,
+      ),
+      rrule: yearlyRule(leapDayIds.has(birthday.id)),
+    });
+  }
+
+  for (const plan of giftPlans(people, { ...options, today })) {
+    events.push({
+      ...allDayEvent(
+        reminderUID("gift", plan.id),
+        `Find a gift for ${plan.name}`,
+        plan.shopBy,
+        `Birthday on ${plan.date.slice(5)}`,
+      ),
+      rrule: yearlyRule(
+        isLeapDay(plan.shopBy) ||
+          (leapDayIds.has(plan.id) && plan.shopBy === plan.date),
+      ),
+    });
+  }
+
+  for (const nudge of keepInTouchNudges(people, { today })) {
+    events.push(allDayEvent(
+      reminderUID("touch", nudge.id),
+      `Get in touch with ${nudge.name}`,
+      nudge.dueDate < today ? today : nudge.dueDate,
+      nudge.daysSince === undefined
+        ? "No contact recorded yet"
+        : `Last in touch ${nudge.daysSince} days ago`,
+    ));
+  }
+
+  return events;
+}
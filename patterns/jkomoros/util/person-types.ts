@@ -0,0 +1,343 @@
+/**
+ * Shared types for person profiles
+ *
+ * The relationship taxonomy, contact entry and custom field shapes used by
+ * person.tsx, plus a plain PersonProfile for code that reads or writes
+ * profiles outside the pattern (vCard files, Google Contacts).
+ */
+
+// ============================================================================
+// CONTACT TYPES
+// ============================================================================
+
+// Social platform types
+export type SocialPlatform =
+  | "twitter"
+  | "instagram"
+  | "linkedin"
+  | "github"
+  | "mastodon"
+  | "facebook"
+  | "tiktok"
+  | "youtube";
+
+export type ContactType = "mobile" | "work" | "home";
+
+export type EmailEntry = {
+  type: ContactType;
+  value: string;
+};
+
+export type PhoneEntry = {
+  type: ContactType;
+  value: string;
+};
+
+export type SocialLink = {
+  platform: SocialPlatform;
+  handle: string;
+};
+
+// ============================================================================
+// RELATIONSHIP TAXONOMY
+// ============================================================================
+
+// Relationship types - can have multiple, family modifiers stack with base types
+export type RelationshipType =
+  // Professional
+  | "colleague"
+  | "former-colleague"
+  | "manager"
+  | "direct-report"
+  | "mentor"
+  | "mentee"
+  | "client"
+  | "vendor"
+  | "investor"
+  | "founder"
+  | "advisor"
+  | "recruiter"
+  | "collaborator"
+  // Personal
+  | "friend"
+  | "acquaintance"
+  | "neighbor"
+  | "classmate"
+  | "roommate"
+  | "ex-partner"
+  | "online-friend"
+  // Family - Base
+  | "spouse"
+  | "parent"
+  | "child"
+  | "grandparent"
+  | "grandchild"
+  | "sibling"
+  | "aunt-uncle"
+  | "niece-nephew"
+  | "cousin"
+  | "cousin-elder"
+  | "cousin-younger"
+  // Family - Modifiers (stack with base)
+  | "in-law"
+  | "step"
+  | "half"
+  | "adopted"
+  // Family - Special
+  | "chosen-family"
+  // Service
+  | "service-provider"
+  | "support-contact";
+
+// Closeness level - user-assigned, not agent-inferred
+export type Closeness = "intimate" | "close" | "casual" | "distant" | "dormant";
+
+// How you met - can have multiple
+export type Origin =
+  | "work"
+  | "school"
+  | "conference"
+  | "online"
+  | "neighborhood"
+  | "community"
+  | "mutual-friend"
+  | "family-connection"
+  | "dating"
+  | "random";
+
+// Gift-giving tier
+export type GiftTier = "gift-always" | "gift-occasions" | "gift-reciprocal" | "gift-none";
+
+// Labels for display
+export const RELATIONSHIP_TYPE_LABELS: Record<RelationshipType, string> = {
+  // Professional
+  "colleague": "Colleague",
+  "former-colleague": "Former Colleague",
+  "manager": "Manager",
+  "direct-report": "Direct Report",
+  "mentor": "Mentor",
+  "mentee": "Mentee",
+  "client": "Client",
+  "vendor": "Vendor",
+  "investor": "Investor",
+  "founder": "Founder",
+  "advisor": "Advisor",
+  "recruiter": "Recruiter",
+  "collaborator": "Collaborator",
+  // Personal
+  "friend": "Friend",
+  "acquaintance": "Acquaintance",
+  "neighbor": "Neighbor",
+  "classmate": "Classmate",
+  "roommate": "Roommate",
+  "ex-partner": "Ex-Partner",
+  "online-friend": "Online Friend",
+  // Family - Base
+  "spouse": "Spouse",
+  "parent": "Parent",
+  "child": "Child",
+  "grandparent": "Grandparent",
+  "grandchild": "Grandchild",
+  "sibling": "Sibling",
+  "aunt-uncle": "Aunt/Uncle",
+  "niece-nephew": "Niece/Nephew",
+  "cousin": "Cousin",
+  "cousin-elder": "Cousin (Elder)",
+  "cousin-younger": "Cousin (Younger)",
+  // Family - Modifiers
+  "in-law": "In-Law",
+  "step": "Step-",
+  "half": "Half-",
+  "adopted": "Adopted",
+  // Family - Special
+  "chosen-family": "Chosen Family",
+  // Service
+  "service-provider": "Service Provider",
+  "support-contact": "Support Contact",
+};
+
+export const CLOSENESS_LABELS: Record<Closeness, string> = {
+  "intimate": "Intimate (inner circle)",
+  "close": "Close",
+  "casual": "Casual",
+  "distant": "Distant",
+  "dormant": "Dormant",
+};
+
+export const ORIGIN_LABELS: Record<Origin, string> = {
+  "work": "Work",
+  "school": "School",
+  "conference": "Conference/Event",
+  "online": "Online",
+  "neighborhood": "Neighborhood",
+  "community": "Community",
+  "mutual-friend": "Mutual Friend",
+  "family-connection": "Family Connection",
+  "dating": "Dating",
+  "random": "Random/Serendipity",
+};
+
+export const GIFT_TIER_LABELS: Record<GiftTier, string> = {
+  "gift-always": "Always (birthday, holidays)",
+  "gift-occasions": "Major Occasions Only",
+  "gift-reciprocal": "Reciprocal (if they give)",
+  "gift-none": "Cards/Greetings Only",
+};
+
+// Grouped relationship types for UI organization
+export const RELATIONSHIP_TYPE_GROUPS = {
+  "Professional": [
+    "colleague", "former-colleague", "manager", "direct-report",
+    "mentor", "mentee", "client", "vendor", "investor",
+    "founder", "advisor", "recruiter", "collaborator",
+  ] as RelationshipType[],
+  "Personal": [
+    "friend", "acquaintance", "neighbor", "classmate",
+    "roommate", "ex-partner", "online-friend",
+  ] as RelationshipType[],
+  "Family": [
+    "spouse", "parent", "child", "grandparent", "grandchild",
+    "sibling", "aunt-uncle", "niece-nephew",
+    "cousin", "cousin-elder", "cousin-younger", "chosen-family",
+  ] as RelationshipType[],
+  "Family Modifiers": [
+    "in-law", "step", "half", "adopted",
+  ] as RelationshipType[],
+  "Service": [
+    "service-provider", "support-contact",
+  ] as RelationshipType[],
+};
+
+// ============================================================================
+// CUSTOM FIELDS
+// ============================================================================
+
+export type CustomFieldType = "text" | "number" | "date" | "url";
+
+/** A field added to some Persons, e.g. from a meta-analyzer suggestion */
+export type PersonCustomField = {
+  /** camelCase key shared by every Person with this field */
+  key: string;
+  label: string;
+  value: string;
+  dataType: CustomFieldType;
+};
+
+/** Adds a custom field, or replaces the one with the same key */
+export function withCustomField(
+  fields: readonly PersonCustomField[],
+  field: PersonCustomField,
+): PersonCustomField[] {
+  const index = fields.findIndex((f) => f.key === field.key);
+  if (index < 0) return [...fields, field];
+  return fields.map((f, i) => (i === index ? field : f));
+}
+
+/** Whether a value fits its field's type; text always does */
+export function isValidCustomFieldValue(
+  value: string,
+  dataType: CustomFieldType,
+): boolean {
+  const trimmed = value.trim();
+  switch (dataType) {
+    case "number":
+      return /^-?\d+(\.\d+)?$/.test(trimmed.replace(/,/g, ""));
+    case "date":
+      return /^\d{4}-\d{2}-\d{2}$/.test(trimmed) &&
+        !isNaN(Date.parse(trimmed));
+    case "url":
+      return /^https?:\/\/\S+$/i.test(trimmed);
+    default:
+      return true;
+  }
+}
+
+// ============================================================================
+// PROFILE
+// ============================================================================
+
+/**
+ * Person profile fields without pattern defaults (see ProfileData in
+ * person.tsx). Missing fields mean "not set".
+ */
+export interface PersonProfile {
+  displayName?: string;
+  givenName?: string;
+  familyName?: string;
+  nickname?: string;
+  pronouns?: string;
+  emails?: EmailEntry[];
+  phones?: PhoneEntry[];
+  socialLinks?: SocialLink[];
+  /** YYYY-MM-DD, or --MM-DD when the year is unknown */
+  birthday?: string;
+  tags?: string[];
+  notes?: string;
+  photoUrl?: string;
+  relationshipTypes?: RelationshipType[];
+  closeness?: Closeness | "";
+  origins?: Origin[];
+  giftTier?: GiftTier | "";
+  innerCircle?: boolean;
+  emergencyContact?: boolean;
+  professionalReference?: boolean;
+}
+
+/** Display labels for PersonProfile fields, in form order */
+export const PROFILE_FIELD_LABELS: Record<keyof PersonProfile, string> = {
+  displayName: "Display Name",
+  givenName: "First Name",
+  familyName: "Last Name",
+  nickname: "Nickname",
+  pronouns: "Pronouns",
+  birthday: "Birthday",
+  emails: "Emails",
+  phones: "Phones",
+  socialLinks: "Social",
+  photoUrl: "Photo",
+  tags: "Tags",
+  relationshipTypes: "Relationship Types",
+  closeness: "Closeness",
+  origins: "How You Met",
+  giftTier: "Gift Giving",
+  innerCircle: "Inner Circle",
+  emergencyContact: "Emergency Contact",
+  professionalReference: "Professional Reference",
+  notes: "Notes",
+};
+
+/**
+ * Flattens a profile to one display string per field ("" when unset), for
+ * side-by-side reviews with compareFields().
+ */
+export function profileFieldText(
+  profile: PersonProfile,
+): Record<keyof PersonProfile, string> {
+  const list = (values: string[] | undefined) => (values || []).join(", ");
+  const flag = (value: boolean | undefined) => value ? "Yes" : "";
+  return {
+    displayName: profile.displayName || "",
+    givenName: profile.givenName || "",
+    familyName: profile.familyName || "",
+    nickname: profile.nickname || "",
+    pronouns: profile.pronouns || "",
+    birthday: profile.birthday || "",
+    emails: list(profile.emails?.map((e) => e.value)),
+    phones: list(profile.phones?.map((p) => p.value)),
+    socialLinks: list(
+      profile.socialLinks?.map((l) => `${l.platform}: ${l.handle}`),
+    ),
+    photoUrl: profile.photoUrl || "",
+    tags: list(profile.tags),
+    relationshipTypes: list(
+      profile.relationshipTypes?.map((t) => RELATIONSHIP_TYPE_LABELS[t] || t),
+    ),
+    closeness: profile.closeness ? CLOSENESS_LABELS[profile.closeness] : "",
+    origins: list(profile.origins?.map((o) => ORIGIN_LABELS[o] || o)),
+    giftTier: profile.giftTier ? GIFT_TIER_LABELS[profile.giftTier] : "",
+    innerCircle: flag(profile.innerCircle),
+    emergencyContact: flag(profile.emergencyContact),
+    professionalReference: flag(profile.professionalReference),
+    notes: profile.notes || "",
+  };
+}
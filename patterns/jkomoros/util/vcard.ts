@@ -0,0 +1,884 @@
+/**
+ * vCard Import/Export
+ *
+ * Reads vCard 2.1/3.0/4.0 files (one or many cards) into PersonProfiles and
+ * writes profiles back out as vCard 3.0 or 4.0. Fields without a standard
+ * vCard property (relationship types, closeness, origins, gift tier and the
+ * quick flags) travel in X-CT-* properties so a round trip keeps them.
+ *
+ * Usage:
+ * ```ts
+ * import { formatVCard, parseVCards } from "./util/vcard.ts";
+ *
+ * const { contacts, warnings } = parseVCards(fileText);
+ * const profile = contacts[0]?.profile;
+ *
+ * const vcf = formatVCard(profile, { version: "4.0" });
+ * ```
+ */
+import { sanitizeFilename } from "./ical-generator.ts";
+import {
+  CLOSENESS_LABELS,
+  type ContactType,
+  type EmailEntry,
+  GIFT_TIER_LABELS,
+  ORIGIN_LABELS,
+  type PersonProfile,
+  type PhoneEntry,
+  RELATIONSHIP_TYPE_LABELS,
+  type SocialLink,
+  type SocialPlatform,
+} from "./person-types.ts";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type VCardVersion = "3.0" | "4.0";
+
+/**
+ * One card read from a vCard file.
+ */
+export interface ParsedVCard {
+  /** UID property, if the card has one */
+  uid?: string;
+  /** VERSION property as written (2.1, 3.0 or 4.0) */
+  version: string;
+  profile: PersonProfile;
+}
+
+export interface VCardParseResult {
+  contacts: ParsedVCard[];
+  /** Problems that didn't stop parsing (skipped cards, unknown values) */
+  warnings: string[];
+}
+
+export interface VCardOptions {
+  /** vCard version to write (default: 3.0, the most widely supported) */
+  version?: VCardVersion;
+  /** UID to write, so re-imports can be matched to earlier exports */
+  uid?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const PRODID = "-//CommonTools//Person//EN";
+
+/**
+ * X- properties for profile fields vCard has no property for. Google
+ * Contacts uses the same names as userDefined keys.
+ */
+export const CUSTOM_FIELD_PROPERTIES = {
+  relationshipTypes: "X-CT-RELATIONSHIP-TYPES",
+  closeness: "X-CT-CLOSENESS",
+  origins: "X-CT-ORIGINS",
+  giftTier: "X-CT-GIFT-TIER",
+  innerCircle: "X-CT-INNER-CIRCLE",
+  emergencyContact: "X-CT-EMERGENCY-CONTACT",
+  professionalReference: "X-CT-PROFESSIONAL-REFERENCE",
+} as const;
+
+type CustomField = keyof typeof CUSTOM_FIELD_PROPERTIES;
+
+type FlagField = "innerCircle" | "emergencyContact" | "professionalReference";
+
+const FLAG_FIELDS: FlagField[] = [
+  "innerCircle",
+  "emergencyContact",
+  "professionalReference",
+];
+
+/** Platforms with a single home site (Mastodon has many instances) */
+type HostedPlatform = Exclude<SocialPlatform, "mastodon">;
+
+/** Profile URL prefix for each platform; the handle follows it */
+const SOCIAL_URL_PREFIXES: Record<HostedPlatform, string> = {
+  twitter: "https://x.com/",
+  instagram: "https://www.instagram.com/",
+  linkedin: "https://www.linkedin.com/in/",
+  github: "https://github.com/",
+  facebook: "https://www.facebook.com/",
+  tiktok: "https://www.tiktok.com/@",
+  youtube: "https://www.youtube.com/@",
+};
+
+/** Hostnames (without www.) that identify each platform's profile URLs */
+const SOCIAL_HOSTS: Record<string, HostedPlatform> = {
+  "twitter.com": "twitter",
+  "x.com": "twitter",
+  "instagram.com": "instagram",
+  "linkedin.com": "linkedin",
+  "github.com": "github",
+  "facebook.com": "facebook",
+  "fb.com": "facebook",
+  "tiktok.com": "tiktok",
+  "youtube.com": "youtube",
+};
+
+const DATE_PATTERN = /^(\d{4})-?(\d{2})-?(\d{2})/;
+const NO_YEAR_DATE_PATTERN = /^--(\d{2})-?(\d{2})$/;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+interface VCardProperty {
+  name: string;
+  /** Lowercased parameter values by parameter name; bare 2.1 params are TYPE */
+  params: Record<string, string[]>;
+  value: string;
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+function unescapeText(text: string): string {
+  return text.replace(
+    /\\([\\;,nN])/g,
+    (_, char: string) => (char === "n" || char === "N" ? "\n" : char),
+  );
+}
+
+/**
+ * Splits on unescaped separators (";" for N, "," for lists), then unescapes.
+ */
+function splitValue(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === "\\" && i + 1 < value.length) {
+      current += char + value[i + 1];
+      i++;
+    } else if (char === separator) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(unescapeText);
+}
+
+function utf8Length(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+/**
+ * Folds a line at 75 octets without splitting a multi-byte character.
+ */
+function foldLine(line: string): string {
+  if (utf8Length(line) <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  let limit = 75;
+  for (const char of line) {
+    if (utf8Length(current + char) > limit) {
+      parts.push(current);
+      current = "";
+      // Continuation lines start with a space
+      limit = 74;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * Decodes a QUOTED-PRINTABLE value (vCard 2.1) as UTF-8.
+ */
+function decodeQuotedPrintable(value: string): string {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const hex = value.slice(i + 1, i + 3);
+    if (value[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...new TextEncoder().encode(value[i]));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+/**
+ * Unfolds continuation lines. vCard 2.1 quoted-printable values continue
+ * with a trailing "=" instead.
+ */
+function unfoldLines(text: string): string[] {
+  const lines: string[] = [];
+  for (const line of text.split(/\r\n|\r|\n/)) {
+    const previous = lines[lines.length - 1];
+    if (/^[ \t]/.test(line) && lines.length > 0) {
+      lines[lines.length - 1] = previous + line.slice(1);
+    } else if (
+      previous !== undefined && /QUOTED-PRINTABLE/i.test(previous) &&
+      previous.endsWith("=")
+    ) {
+      lines[lines.length - 1] = previous.slice(0, -1) + line;
+    } else if (line.trim() !== "") {
+      lines.push(line);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Parses "item1.EMAIL;TYPE=work,pref:value". Returns null for lines without
+ * a value.
+ */
+function parseProperty(line: string): VCardProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(";");
+  // Drop the group prefix Apple uses to attach labels ("item1.")
+  const name = rawName.trim().toUpperCase().replace(/^[^.]*\./, "");
+  const params: Record<string, string[]> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    const key = eq < 0 ? "TYPE" : param.slice(0, eq).trim().toUpperCase();
+    const values = (eq < 0 ? param : param.slice(eq + 1))
+      .split(",")
+      .map((value) => value.replace(/"/g, "").trim().toLowerCase())
+      .filter(Boolean);
+    params[key] = [...(params[key] || []), ...values];
+  }
+
+  let value = line.slice(colon + 1);
+  if (params.ENCODING?.includes("quoted-printable")) {
+    value = decodeQuotedPrintable(value);
+  }
+  return { name, params, value };
+}
+
+function contactType(
+  params: Record<string, string[]>,
+  fallback: ContactType,
+): ContactType {
+  const types = params.TYPE || [];
+  if (types.includes("cell") || types.includes("mobile")) return "mobile";
+  if (types.includes("work")) return "work";
+  if (types.includes("home")) return "home";
+  return fallback;
+}
+
+/**
+ * Normalizes BDAY values: 1990-01-15, 19900115, 1990-01-15T00:00:00Z,
+ * --0115 / --01-15 (no year) and Apple's 1604-01-15 placeholder year.
+ * Returns undefined for text birthdays.
+ */
+function parseBirthday(value: string): string | undefined {
+  const noYear = value.match(NO_YEAR_DATE_PATTERN);
+  if (noYear) return `--${noYear[1]}-${noYear[2]}`;
+  const match = value.match(DATE_PATTERN);
+  if (!match) return undefined;
+  if (match[1] === "1604") return `--${match[2]}-${match[3]}`;
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+function formatBirthday(
+  birthday: string,
+  version: VCardVersion,
+): string | undefined {
+  const noYear = birthday.match(NO_YEAR_DATE_PATTERN);
+  if (noYear) {
+    return version === "4.0"
+      ? `--${noYear[1]}${noYear[2]}`
+      : `--${noYear[1]}-${noYear[2]}`;
+  }
+  const match = birthday.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return undefined;
+  return version === "4.0"
+    ? `${match[1]}${match[2]}${match[3]}`
+    : `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+/**
+ * Reads PHOTO as a URL, or a data: URL for inline (base64) photos.
+ */
+function parsePhoto(property: VCardProperty): string | undefined {
+  const value = property.value.trim();
+  if (!value) return undefined;
+  const encoding = property.params.ENCODING || [];
+  if (encoding.includes("b") || encoding.includes("base64")) {
+    const type = (property.params.TYPE || [])[0] || "jpeg";
+    const mime = type.includes("/") ? type : `image/${type}`;
+    return `data:${mime};base64,${value.replace(/\s/g, "")}`;
+  }
+  return value;
+}
+
+function formatPhoto(photoUrl: string, version: VCardVersion): string {
+  const inline = photoUrl.match(/^data:image\/([\w.+-]+);base64,(.*)$/);
+  if (version === "3.0" && inline) {
+    return `PHOTO;ENCODING=b;TYPE=${inline[1].toUpperCase()}:${inline[2]}`;
+  }
+  return version === "3.0"
+    ? `PHOTO;VALUE=uri:${photoUrl}`
+    : `PHOTO:${photoUrl}`;
+}
+
+/**
+ * Keeps values that belong to a taxonomy, warning about the rest.
+ */
+function taxonomyValues<T extends string>(
+  value: string,
+  labels: Record<T, string>,
+  label: string,
+  warnings: string[],
+): T[] {
+  return splitValue(value, ",").flatMap((entry) => {
+    const key = entry.trim().toLowerCase();
+    if (!key) return [];
+    if (key in labels) return [key as T];
+    warnings.push(`${label}: ignored unknown value "${entry.trim()}"`);
+    return [];
+  });
+}
+
+function isTrue(value: string): boolean {
+  return /^(true|yes|1)$/i.test(value.trim());
+}
+
+/**
+ * Reads the X-CT-* (or Google userDefined) entries into a profile.
+ */
+export function applyCustomFields(
+  profile: PersonProfile,
+  entries: { key: string; value: string }[],
+  label: string,
+  warnings: string[],
+): void {
+  for (const { key, value } of entries) {
+    const field = (Object.keys(CUSTOM_FIELD_PROPERTIES) as CustomField[])
+      .find((name) => CUSTOM_FIELD_PROPERTIES[name] === key.toUpperCase());
+    if (!field) continue;
+    if (field === "relationshipTypes") {
+      profile.relationshipTypes = taxonomyValues(
+        value,
+        RELATIONSHIP_TYPE_LABELS,
+        label,
+        warnings,
+      );
+    } else if (field === "origins") {
+      profile.origins = taxonomyValues(value, ORIGIN_LABELS, label, warnings);
+    } else if (field === "closeness") {
+      profile.closeness =
+        taxonomyValues(value, CLOSENESS_LABELS, label, warnings)[0] || "";
+    } else if (field === "giftTier") {
+      profile.giftTier =
+        taxonomyValues(value, GIFT_TIER_LABELS, label, warnings)[0] || "";
+    } else {
+      profile[field] = isTrue(value);
+    }
+  }
+}
+
+/**
+ * Writes the taxonomy fields and set flags as key/value pairs (X-CT-*
+ * property names). Empty fields are left out.
+ */
+export function customFieldEntries(
+  profile: PersonProfile,
+): { key: string; value: string }[] {
+  const entries: { key: string; value: string }[] = [];
+  const lists = {
+    relationshipTypes: profile.relationshipTypes,
+    origins: profile.origins,
+  };
+  for (const [field, values] of Object.entries(lists)) {
+    if (values && values.length > 0) {
+      entries.push({
+        key: CUSTOM_FIELD_PROPERTIES[field as CustomField],
+        value: values.join(","),
+      });
+    }
+  }
+  if (profile.closeness) {
+    entries.push({
+      key: CUSTOM_FIELD_PROPERTIES.closeness,
+      value: profile.closeness,
+    });
+  }
+  if (profile.giftTier) {
+    entries.push({
+      key: CUSTOM_FIELD_PROPERTIES.giftTier,
+      value: profile.giftTier,
+    });
+  }
+  for (const field of FLAG_FIELDS) {
+    if (profile[field]) {
+      entries.push({ key: CUSTOM_FIELD_PROPERTIES[field], value: "TRUE" });
+    }
+  }
+  return entries;
+}
+
+// Single-valued text fields; mergeImportedProfile keeps one side's value
+const PREFERRED_SCALARS = [
+  "displayName",
+  "givenName",
+  "familyName",
+  "nickname",
+  "pronouns",
+  "birthday",
+  "photoUrl",
+] as const;
+
+function sameEmail(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function samePhone(a: string, b: string): boolean {
+  const digits = (value: string) => value.replace(/[^\d+]/g, "");
+  return digits(a) === digits(b) && digits(a) !== "";
+}
+
+function sameValue<T>(a: T, b: T): boolean {
+  return a === b;
+}
+
+function addUnique<T>(
+  current: T[],
+  incoming: T[],
+  same: (a: T, b: T) => boolean,
+): T[] {
+  const merged = [...current];
+  for (const item of incoming) {
+    if (!merged.some((existing) => same(existing, item))) merged.push(item);
+  }
+  return merged;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Decodes the base64 data: URL ct-file-input produces as UTF-8 text.
+ */
+export function decodeDataUrlText(dataUrl: string): string {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(",") + 1));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Builds the name person.tsx shows when displayName is empty:
+ * First 'Nickname' Last.
+ */
+export function profileDisplayName(profile: PersonProfile): string {
+  const displayName = profile.displayName?.trim();
+  if (displayName) return displayName;
+  const parts: string[] = [];
+  if (profile.givenName?.trim()) parts.push(profile.givenName.trim());
+  if (profile.nickname?.trim()) parts.push(`'${profile.nickname.trim()}'`);
+  if (profile.familyName?.trim()) parts.push(profile.familyName.trim());
+  return parts.join(" ");
+}
+
+/**
+ * Sets displayName from a contact's full name, unless it is just the name
+ * person.tsx would compute anyway ("First Last" or "First 'Nick' Last").
+ */
+export function applyFullName(profile: PersonProfile, fullName: string): void {
+  const composedNames = [
+    [profile.givenName, profile.familyName].filter(Boolean).join(" "),
+    profileDisplayName({ ...profile, displayName: "" }),
+  ];
+  if (fullName.trim() && !composedNames.includes(fullName.trim())) {
+    profile.displayName = fullName.trim();
+  }
+}
+
+/**
+ * Builds a profile URL for a social link. Handles that are already URLs
+ * (or "linkedin.com/in/..." paths) are passed through.
+ */
+export function socialProfileUrl(link: SocialLink): string {
+  const handle = link.handle.trim();
+  if (/^https?:\/\//i.test(handle)) return handle;
+  if (/^[\w-]+(\.[\w-]+)+\//.test(handle)) return `https://${handle}`;
+  if (link.platform === "mastodon") {
+    const [user, instance] = handle.replace(/^@/, "").split("@");
+    return instance ? `https://${instance}/@${user}` : handle;
+  }
+  return `${SOCIAL_URL_PREFIXES[link.platform]}${handle.replace(/^@/, "")}`;
+}
+
+/**
+ * Recognizes a social profile URL and returns the platform and handle
+ * (Mastodon handles as @user@instance). Returns null for other URLs.
+ */
+export function parseSocialUrl(
+  url: string,
+  platformHint?: string,
+): SocialLink | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`);
+  } catch {
+    return null;
+  }
+  const host = parsed.hostname.toLowerCase().replace(/^(www|m|mobile)\./, "");
+  const segments = parsed.pathname.split("/").filter(Boolean);
+  const platform = SOCIAL_HOSTS[host];
+
+  if (platform === "linkedin") {
+    const index = segments.indexOf("in");
+    const handle = index >= 0 ? segments[index + 1] : segments[0];
+    return handle ? { platform, handle } : null;
+  }
+  if (platform) {
+    const handle = segments[0]?.replace(/^@/, "");
+    return handle ? { platform, handle } : null;
+  }
+  // Mastodon lives on many hosts; profile paths look like /@user
+  if (
+    segments.length === 1 && segments[0].startsWith("@") ||
+    platformHint?.toLowerCase() === "mastodon"
+  ) {
+    const user = segments[segments.length - 1]?.replace(/^@/, "");
+    return user ? { platform: "mastodon", handle: `@${user}@${host}` } : null;
+  }
+  return null;
+}
+
+/**
+ * Parses one or more vCards (2.1, 3.0 or 4.0).
+ *
+ * Unknown properties are ignored; cards with no name, email or phone are
+ * skipped with a warning. The first NICKNAME and the first date-valued BDAY
+ * win; FN is read with applyFullName.
+ */
+export function parseVCards(text: string): VCardParseResult {
+  const contacts: ParsedVCard[] = [];
+  const warnings: string[] = [];
+  let card: VCardProperty[] | null = null;
+
+  for (const line of unfoldLines(text)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+    const value = property.value.trim().toUpperCase();
+    if (property.name === "BEGIN" && value === "VCARD") {
+      card = [];
+    } else if (property.name === "END" && value === "VCARD" && card) {
+      const parsed = parseCard(card, contacts.length + 1, warnings);
+      if (parsed) contacts.push(parsed);
+      card = null;
+    } else if (card) {
+      card.push(property);
+    }
+  }
+
+  if (contacts.length === 0 && warnings.length === 0) {
+    warnings.push("No vCards found");
+  }
+  return { contacts, warnings };
+}
+
+function parseCard(
+  properties: VCardProperty[],
+  index: number,
+  warnings: string[],
+): ParsedVCard | null {
+  const get = (name: string) => properties.find((p) => p.name === name);
+  const all = (name: string) => properties.filter((p) => p.name === name);
+  const text = (name: string) => {
+    const property = get(name);
+    return property ? unescapeText(property.value).trim() : "";
+  };
+
+  const profile: PersonProfile = {};
+  const fullName = text("FN");
+  const name = get("N");
+  if (name) {
+    const [familyName = "", givenName = ""] = splitValue(name.value, ";");
+    if (givenName.trim()) profile.givenName = givenName.trim();
+    if (familyName.trim()) profile.familyName = familyName.trim();
+  }
+  const label = `Card ${index}${fullName ? ` ("${fullName}")` : ""}`;
+
+  const nickname = get("NICKNAME");
+  if (nickname) {
+    const first = splitValue(nickname.value, ",")[0]?.trim();
+    if (first) profile.nickname = first;
+  }
+  applyFullName(profile, fullName);
+
+  const pronouns = text("PRONOUNS") || text("X-PRONOUNS");
+  if (pronouns) profile.pronouns = pronouns;
+
+  const emails: EmailEntry[] = all("EMAIL")
+    .map((p) => ({
+      type: contactType(p.params, "work"),
+      value: unescapeText(p.value).trim(),
+    }))
+    .filter((entry) => entry.value);
+  if (emails.length > 0) {
+    profile.emails = addUnique([], emails, (a, b) =>
+      sameEmail(a.value, b.value)
+    );
+  }
+
+  const phones: PhoneEntry[] = all("TEL")
+    .map((p) => ({
+      type: contactType(p.params, "mobile"),
+      value: unescapeText(p.value).trim().replace(/^tel:/i, ""),
+    }))
+    .filter((entry) => entry.value);
+  if (phones.length > 0) {
+    profile.phones = addUnique([], phones, (a, b) =>
+      samePhone(a.value, b.value)
+    );
+  }
+
+  // Apple writes X-SOCIALPROFILE (with the handle in X-USER); vCard 4.0
+  // extensions use SOCIALPROFILE; others just list URLs
+  const socialLinks: SocialLink[] = [];
+  for (
+    const property of [
+      ...all("X-SOCIALPROFILE"),
+      ...all("SOCIALPROFILE"),
+      ...all("URL"),
+    ]
+  ) {
+    const hint = (property.params.TYPE || property.params["SERVICE-TYPE"] ||
+      [])[0];
+    const link = parseSocialUrl(unescapeText(property.value).trim(), hint);
+    const user = property.params["X-USER"]?.[0];
+    if (link && user && link.platform !== "mastodon") link.handle = user;
+    if (link && !socialLinks.some((l) => l.platform === link.platform)) {
+      socialLinks.push(link);
+    }
+  }
+  if (socialLinks.length > 0) profile.socialLinks = socialLinks;
+
+  for (const property of all("BDAY")) {
+    const birthday = parseBirthday(property.value.trim());
+    if (birthday) {
+      profile.birthday = birthday;
+      break;
+    }
+  }
+
+  const photo = get("PHOTO");
+  const photoUrl = photo && parsePhoto(photo);
+  if (photoUrl) profile.photoUrl = photoUrl;
+
+  const notes = text("NOTE");
+  if (notes) profile.notes = notes;
+
+  const tags = all("CATEGORIES")
+    .flatMap((p) => splitValue(p.value, ","))
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  if (tags.length > 0) profile.tags = [...new Set(tags)];
+
+  applyCustomFields(
+    profile,
+    properties.map((p) => ({ key: p.name, value: p.value })),
+    label,
+    warnings,
+  );
+
+  if (!profileDisplayName(profile) && !emails.length && !phones.length) {
+    warnings.push(`Skipped card ${index}: no name, email or phone`);
+    return null;
+  }
+  const uid = text("UID");
+  return {
+    ...(uid ? { uid } : {}),
+    version: text("VERSION") || "3.0",
+    profile,
+  };
+}
+
+/**
+ * Writes a profile as a single vCard (CRLF line endings, folded lines).
+ */
+export function formatVCard(
+  profile: PersonProfile,
+  options: VCardOptions = {},
+): string {
+  const version = options.version || "3.0";
+  const lines = ["BEGIN:VCARD", `VERSION:${version}`, `PRODID:${PRODID}`];
+  if (version === "4.0") lines.push("KIND:individual");
+  if (options.uid) lines.push(`UID:${escapeText(options.uid)}`);
+
+  const fullName = profileDisplayName(profile) || "Unnamed";
+  lines.push(`FN:${escapeText(fullName)}`);
+  const name = [profile.familyName || "", profile.givenName || "", "", "", ""];
+  lines.push(`N:${name.map(escapeText).join(";")}`);
+  if (profile.nickname) lines.push(`NICKNAME:${escapeText(profile.nickname)}`);
+  if (profile.pronouns) {
+    const property = version === "4.0" ? "PRONOUNS" : "X-PRONOUNS";
+    lines.push(`${property}:${escapeText(profile.pronouns)}`);
+  }
+
+  for (const email of profile.emails || []) {
+    if (!email.value) continue;
+    const type = email.type === "home" ? "home" : "work";
+    lines.push(
+      version === "4.0"
+        ? `EMAIL;TYPE=${type}:${email.value}`
+        : `EMAIL;TYPE=INTERNET,${type.toUpperCase()}:${email.value}`,
+    );
+  }
+  for (const phone of profile.phones || []) {
+    if (!phone.value) continue;
+    const type = phone.type === "mobile" ? "cell" : phone.type;
+    lines.push(
+      `TEL;TYPE=${version === "4.0" ? type : type.toUpperCase()}:${
+        escapeText(phone.value)
+      }`,
+    );
+  }
+
+  const birthday = profile.birthday &&
+    formatBirthday(profile.birthday, version);
+  if (birthday) {
+    lines.push(`BDAY:${birthday}`);
+  } else if (profile.birthday && version === "4.0") {
+    lines.push(`BDAY;VALUE=text:${escapeText(profile.birthday)}`);
+  }
+
+  for (const link of profile.socialLinks || []) {
+    if (!link.handle) continue;
+    const url = socialProfileUrl(link);
+    lines.push(
+      version === "4.0"
+        ? `SOCIALPROFILE;SERVICE-TYPE=${link.platform}:${url}`
+        : `X-SOCIALPROFILE;TYPE=${link.platform}:${url}`,
+    );
+  }
+
+  if (profile.photoUrl) lines.push(formatPhoto(profile.photoUrl, version));
+  if (profile.tags && profile.tags.length > 0) {
+    lines.push(`CATEGORIES:${profile.tags.map(escapeText).join(",")}`);
+  }
+  if (profile.notes) lines.push(`NOTE:${escapeText(profile.notes)}`);
+
+  for (const { key, value } of customFieldEntries(profile)) {
+    lines.push(`${key}:${value}`);
+  }
+
+  lines.push("END:VCARD");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Writes several profiles into one .vcf file.
+ */
+export function formatVCards(
+  contacts: { profile: PersonProfile; uid?: string }[],
+  options: Omit<VCardOptions, "uid"> = {},
+): string {
+  return contacts
+    .map(({ profile, uid }) => formatVCard(profile, { ...options, uid }))
+    .join("");
+}
+
+/**
+ * Suggests a .vcf filename for one profile.
+ */
+export function vcardFilename(profile: PersonProfile): string {
+  return `${sanitizeFilename(profileDisplayName(profile)) || "contact"}.vcf`;
+}
+
+/**
+ * Merges imported contact data into an existing profile. Imported names,
+ * birthday, photo and taxonomy values replace current ones when set; emails,
+ * phones, tags, relationship types and origins are added to the current
+ * lists; a social link replaces the current one for the same platform;
+ * flags are only ever turned on; imported notes are appended.
+ *
+ * With `prefer: "current"` (used when merging duplicates) the current
+ * profile's names, birthday, photo, taxonomy values and social links are
+ * kept, and imported values only fill in what is missing.
+ */
+export function mergeImportedProfile(
+  current: PersonProfile,
+  imported: PersonProfile,
+  { prefer = "imported" }: { prefer?: "imported" | "current" } = {},
+): PersonProfile {
+  if (prefer === "current") {
+    const filled = mergeImportedProfile(current, {
+      ...imported,
+      socialLinks: imported.socialLinks?.filter((link) =>
+        !current.socialLinks?.some((l) => l.platform === link.platform)
+      ),
+    });
+    for (const field of PREFERRED_SCALARS) {
+      if (current[field]) filled[field] = current[field];
+    }
+    if (current.closeness) filled.closeness = current.closeness;
+    if (current.giftTier) filled.giftTier = current.giftTier;
+    return filled;
+  }
+
+  const merged: PersonProfile = { ...current };
+  for (const field of PREFERRED_SCALARS) {
+    if (imported[field]) merged[field] = imported[field];
+  }
+  if (imported.closeness) merged.closeness = imported.closeness;
+  if (imported.giftTier) merged.giftTier = imported.giftTier;
+
+  merged.emails = addUnique(
+    current.emails || [],
+    imported.emails || [],
+    (a, b) => sameEmail(a.value, b.value),
+  );
+  merged.phones = addUnique(
+    current.phones || [],
+    imported.phones || [],
+    (a, b) => samePhone(a.value, b.value),
+  );
+  merged.socialLinks = [
+    ...(current.socialLinks || []).filter((link) =>
+      !imported.socialLinks?.some((l) => l.platform === link.platform)
+    ),
+    ...(imported.socialLinks || []),
+  ];
+  merged.tags = addUnique(current.tags || [], imported.tags || [], sameValue);
+  merged.relationshipTypes = addUnique(
+    current.relationshipTypes || [],
+    imported.relationshipTypes || [],
+    sameValue,
+  );
+  merged.origins = addUnique(
+    current.origins || [],
+    imported.origins || [],
+    sameValue,
+  );
+
+  for (const field of FLAG_FIELDS) {
+    merged[field] = !!(current[field] || imported[field]);
+  }
+
+  const notes = imported.notes?.trim();
+  if (notes && !(current.notes || "").includes(notes)) {
+    merged.notes = current.notes?.trim()
+      ? `${current.notes.trim()}\n\n${notes}`
+      : notes;
+  }
+  return merged;
+}
@@ -22,6 +22,8 @@
  * const suggestEmail = suggestEmailTool(pendingEmailDraft);
  * const suggestEvent = suggestCalendarEventTool(pendingEventDraft);
  * const suggestLabels = suggestLabelChangeTool(pendingLabelOp);
+ * // Or append to the review queue shown by gmail-label-manager.tsx
+ * const queueLabels = queueLabelChangeTool(labelChangeQueue);
  *
  * // Use in additionalTools for generateObject
  * additionalTools: {
@@ -297,6 +299,10 @@ const SUGGEST_LABEL_CHANGE_SCHEMA: JSONSchema = {
       description:
         "Comma-separated list of label IDs to remove (e.g., 'UNREAD,INBOX')",
     },
+    reason: {
+      type: "string",
+      description: "Why these changes are suggested, shown to the reviewer",
+    },
     result: { type: "object", asCell: true },
   },
   required: ["messageIds"],
@@ -314,6 +320,55 @@ export interface LabelChangeDraft {
   messageIds: string[];
   labelsToAdd: string[];
   labelsToRemove: string[];
+  reason?: string;
+}
+
+/** A LabelChangeDraft waiting in the gmail-label-manager review queue */
+export interface QueuedLabelChange extends LabelChangeDraft {
+  id: string;
+  suggestedAt: string;
+  /** Set when applying the change failed; the item stays queued */
+  error?: string;
+}
+
+type LabelChangeInput = {
+  messageIds: string;
+  addLabels?: string;
+  removeLabels?: string;
+  reason?: string;
+  result?: Writable<any>;
+};
+
+function splitList(value?: string): string[] {
+  return value
+    ? value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : [];
+}
+
+function labelChangeFromInput(input: LabelChangeInput): LabelChangeDraft {
+  return {
+    messageIds: splitList(input.messageIds),
+    labelsToAdd: splitList(input.addLabels),
+    labelsToRemove: splitList(input.removeLabels),
+    reason: input.reason || "",
+  };
+}
+
+function labelChangeResult(input: LabelChangeInput, op: LabelChangeDraft) {
+  const result = {
+    success: true,
+    message: `Label changes prepared for ${op.messageIds.length} message(s). Add: [${op.labelsToAdd.join(", ")}], Remove: [${op.labelsToRemove.join(", ")}]`,
+    requiresConfirmation: true,
+  };
+
+  if (input.result) {
+    input.result.set(result);
+  }
+
+  return result;
 }
 
 /**
@@ -332,57 +387,65 @@ export function suggestLabelChangeTool(
     SUGGEST_LABEL_CHANGE_SCHEMA,
     SUGGEST_LABEL_CHANGE_STATE_SCHEMA,
     (
-      input: {
-        messageIds: string;
-        addLabels?: string;
-        removeLabels?: string;
-        result?: Writable<any>;
-      },
+      input: LabelChangeInput,
       state: { pendingLabelOp: Writable<LabelChangeDraft | null> },
     ) => {
-      const messageIds = input.messageIds
-        .split(",")
-        .map((id) => id.trim())
-        .filter(Boolean);
-      const labelsToAdd = input.addLabels
-        ? input.addLabels
-            .split(",")
-            .map((l) => l.trim())
-            .filter(Boolean)
-        : [];
-      const labelsToRemove = input.removeLabels
-        ? input.removeLabels
-            .split(",")
-            .map((l) => l.trim())
-            .filter(Boolean)
-        : [];
-
-      const op: LabelChangeDraft = {
-        messageIds,
-        labelsToAdd,
-        labelsToRemove,
-      };
+      const op = labelChangeFromInput(input);
 
       state.pendingLabelOp.set(op);
       console.log("[suggestLabelChangeTool] Label change suggested:", {
-        messageCount: messageIds.length,
-        addLabels: labelsToAdd,
-        removeLabels: labelsToRemove,
+        messageCount: op.messageIds.length,
+        addLabels: op.labelsToAdd,
+        removeLabels: op.labelsToRemove,
       });
 
-      const result = {
-        success: true,
-        message: `Label changes prepared for ${messageIds.length} message(s). Add: [${labelsToAdd.join(", ")}], Remove: [${labelsToRemove.join(", ")}]`,
-        requiresConfirmation: true,
-      };
+      return labelChangeResult(input, op);
+    },
+  )({ pendingLabelOp });
+}
 
-      if (input.result) {
-        input.result.set(result);
-      }
+const QUEUE_LABEL_CHANGE_STATE_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: {
+    queue: { type: "array", asCell: true },
+  },
+  required: ["queue"],
+};
 
-      return result;
+/**
+ * Creates a tool that appends label changes to a review queue.
+ *
+ * Unlike suggestLabelChangeTool, earlier suggestions are kept, so an agent
+ * can propose many changes in one run. gmail-label-manager.tsx shows the
+ * queue for approval.
+ *
+ * @param queue - Cell holding the queued suggestions
+ * @returns Bound handler ready for use in additionalTools
+ */
+export function queueLabelChangeTool(queue: Writable<QueuedLabelChange[]>) {
+  return handler(
+    SUGGEST_LABEL_CHANGE_SCHEMA,
+    QUEUE_LABEL_CHANGE_STATE_SCHEMA,
+    (
+      input: LabelChangeInput,
+      state: { queue: Writable<QueuedLabelChange[]> },
+    ) => {
+      const op = labelChangeFromInput(input);
+
+      state.queue.push({
+        ...op,
+        id: `label-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        suggestedAt: new Date().toISOString(),
+      });
+      console.log("[queueLabelChangeTool] Label change queued:", {
+        messageCount: op.messageIds.length,
+        addLabels: op.labelsToAdd,
+        removeLabels: op.labelsToRemove,
+      });
+
+      return labelChangeResult(input, op);
     },
-  )({ pendingLabelOp });
+  )({ queue });
 }
 
 // =============================================================================
@@ -423,6 +486,7 @@ Parameters:
 - messageIds: Comma-separated list of Gmail message IDs (required)
 - addLabels: Comma-separated label IDs to add (optional)
 - removeLabels: Comma-separated label IDs to remove (optional)
+- reason: Why the change is suggested, shown to the reviewer (optional)
 
 Common labels: STARRED, UNREAD, INBOX, IMPORTANT, SPAM, TRASH
 Custom labels have IDs like 'Label_123'.
@@ -14,6 +14,7 @@
 const REPO_ROOT = new URL("..", import.meta.url).pathname;
 const CONFIG_FILE = `${REPO_ROOT}.apple-sync-config`;
 const STATE_FILE = `${REPO_ROOT}.apple-sync-state`;
+const JOURNAL_FILE = `${REPO_ROOT}.apple-sync-journal`;
 const DEFAULT_LABS_DIR = `${REPO_ROOT}../labs`;
 const IDENTITY_PATH = `${REPO_ROOT}claude.key`;
 
@@ -32,22 +33,51 @@ interface Config {
     calendar?: string; // Charm ID for calendar viewer
     reminders?: string; // Charm ID for reminders viewer
     notes?: string; // Charm ID for notes viewer
+    contacts?: string; // Charm ID for contacts viewer
+  };
+  // Person charms created or matched by `contacts --people`, keyed by
+  // "email:<address>" or "phone:<number>"
+  personCharms?: Record<string, string>;
+  // Read a data type from a file instead of this Mac's Apple data: a fixture
+  // SQLite copy, an .ics export or a JSON dump (paths relative to the repo root)
+  sources?: {
+    imessage?: string;
+    calendar?: string;
+    reminders?: string;
+    notes?: string;
+    contacts?: string;
   };
 }
 
+// "source" is the id of the source adapter the state came from (missing = Apple data).
+// The other fields are change cursors (see SyncCursor); they only apply to that source.
 interface SyncState {
   imessage?: {
     lastRowId?: number;
     lastSyncTime?: string;
+    source?: string;
   };
   calendar?: {
     lastSyncTime?: string;
+    source?: string;
+    modifiedSince?: string;
+    daysBack?: number;
+    windowEnd?: string;
   };
   reminders?: {
-    lastSyncTime?: string;
+    lastSyncTime?: string;  // Outbox edits are checked for conflicts against this
+    source?: string;
+    modifiedSince?: string;
   };
   notes?: {
     lastSyncTime?: string;
+    source?: string;
+    modifiedSince?: string;
+  };
+  contacts?: {
+    lastSyncTime?: string;
+    source?: string;
+    people?: Record<string, PersonFields>;  // Person charm ID -> fields last written to it
   };
 }
 
@@ -79,6 +109,32 @@ async function saveState(state: SyncState): Promise<void> {
   await Deno.writeTextFile(STATE_FILE, JSON.stringify(state, null, 2));
 }
 
+function escapeAppleScript(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+/**
+ * AppleScript lines that set a variable to a date, built from local components
+ * as AppleScript has no ISO date parser
+ */
+function appleScriptDate(variable: string, date: Date): string[] {
+  return [
+    `set ${variable} to current date`,
+    `set day of ${variable} to 1`,
+    `set year of ${variable} to ${date.getFullYear()}`,
+    `set month of ${variable} to ${date.getMonth() + 1}`,
+    `set day of ${variable} to ${date.getDate()}`,
+    `set hours of ${variable} to ${date.getHours()}`,
+    `set minutes of ${variable} to ${date.getMinutes()}`,
+    `set seconds of ${variable} to ${date.getSeconds()}`,
+  ];
+}
+
+// Parse a date AppleScript printed as «class isot» ("null" or "missing value" when unset)
+function parseAppleDate(value: string | undefined): Date | null {
+  return value && value !== "null" && value !== "missing value" ? new Date(value) : null;
+}
+
 async function prompt(message: string, defaultValue?: string): Promise<string> {
   const displayDefault = defaultValue ? ` [${defaultValue}]` : "";
   const encoder = new TextEncoder();
@@ -104,11 +160,13 @@ USAGE:
   ./tools/apple-sync.ts <command> [options]
 
 COMMANDS:
-  imessage          Sync iMessage conversations
+  imessage          Sync iMessage conversations (with group chats, tapbacks and attachments)
   calendar          Sync Calendar events
-  reminders         Sync Reminders
-  notes             Sync Notes
-  calendar-write    Write events from extracurricular outbox to Apple Calendar
+  reminders         Sync Reminders (applies edits from the viewer's outbox first)
+  notes             Sync Notes (formatting as Markdown, folders and attachments)
+  contacts          Sync Contacts (add --people to also keep person charms in sync)
+  calendar-write    Apply event changes from extracurricular outbox to Apple Calendar
+  reminders-write   Apply edits from the reminders viewer's outbox to Apple Reminders
   status            Show sync status and configuration
   --all             Sync all data sources
   --help            Show this help message
@@ -116,10 +174,14 @@ COMMANDS:
 OPTIONS:
   --space <name>    Specify space name (saved for future runs)
   --mock            Use mock/sample data instead of real Apple data
+  --source <file>   Read from a file instead of Apple data (see SOURCES)
   --charm <id>      Override charm ID for this sync (optional - charms are auto-created)
   --daemon          Run in background daemon mode (syncs every 5 minutes)
   --interval <min>  Sync interval in minutes for daemon mode (default: 5)
   --days-back <n>   Days of history to sync for calendar (default: 30)
+  --people          With contacts: create or update a person charm per contact,
+                    matched by email or phone
+  --full            Ignore saved cursors and re-read everything (see INCREMENTAL SYNC)
 
 EXAMPLES:
   ./tools/apple-sync.ts --all                     # Prompts for space on first run
@@ -130,10 +192,49 @@ EXAMPLES:
   ./tools/apple-sync.ts --all --daemon            # Run as background daemon
   ./tools/apple-sync.ts --all --daemon --interval 10  # Sync every 10 minutes
   ./tools/apple-sync.ts calendar-write            # Write extracurricular events to Calendar
+  ./tools/apple-sync.ts reminders-write           # Apply viewer edits without a full sync
+  ./tools/apple-sync.ts notes --full              # Re-read all notes, not just changed ones
+  ./tools/apple-sync.ts calendar --source fixtures/work.ics --days-back 365
+  ./tools/apple-sync.ts imessage --source fixtures/chat.db
+  ./tools/apple-sync.ts contacts --source ~/Desktop/contacts.vcf --people
+
+SOURCES:
+  By default data is read from this Mac's apps and databases. On any machine,
+  a data type can instead be read from a file; the format comes from the extension:
+
+    .db .sqlite .sqlitedb  Copy of the Apple database (chat.db, Calendar.sqlitedb,
+    .abcddb                Reminders Data-*.sqlite, NoteStore.sqlite, AddressBook-v22.abcddb)
+    .ics                   Calendar or Reminders export (VEVENT / VTODO)
+    .vcf                   Contacts export (vCard 3.0 / 4.0)
+    .json                  Dump in the viewer charm's format, e.g. the output of
+                           ct charm get ... events
+
+  To use files for several types (e.g. with --all), add to the config file:
+    "sources": { "calendar": "fixtures/work.ics", "notes": "fixtures/NoteStore.sqlite" }
+  Paths in the config are relative to the repo root.
+
+REMINDERS WRITE-BACK:
+  Completing, adding or editing reminders in the reminders viewer queues the change
+  in its outbox. 'reminders' and 'reminders-write' apply queued changes to Apple
+  Reminders. A reminder that was also edited in Reminders.app since the last sync
+  is flagged as a conflict in the viewer instead of being overwritten.
+
+CALENDAR WRITE:
+  Exporting from the extracurricular pattern queues the events to create, update
+  or delete in its outbox. 'calendar-write' applies them in order. Updates and
+  deletes find the Apple event created by an earlier entry with the same event ID;
+  an update whose event was removed in Calendar.app creates it again.
+
+INCREMENTAL SYNC:
+  After the first sync, only what changed since the last one is read (new messages;
+  events, reminders and notes modified since) and only changed records are written
+  to the charm. Contacts are always read in full. A sync interrupted after reading
+  is finished by the next run from the journal file. Use --full to re-read everything.
 
 CONFIGURATION:
-  Config stored in: ${CONFIG_FILE}
-  State stored in:  ${STATE_FILE}
+  Config stored in:  ${CONFIG_FILE}
+  State stored in:   ${STATE_FILE}
+  Journal stored in: ${JOURNAL_FILE}
 `);
 }
 
@@ -145,6 +246,8 @@ const PATTERN_PATHS: Record<string, string> = {
   calendar: "patterns/jkomoros/calendar-viewer.tsx",
   reminders: "patterns/jkomoros/WIP/reminders-viewer.tsx",
   notes: "patterns/jkomoros/WIP/notes-viewer.tsx",
+  contacts: "patterns/jkomoros/WIP/contacts-viewer.tsx",
+  person: "patterns/jkomoros/person.tsx",
   extracurricular: "patterns/jkomoros/extracurricular.tsx",
 };
 
@@ -154,6 +257,7 @@ const PATTERN_NAMES: Record<string, string> = {
   calendar: "calendar-viewer",
   reminders: "reminders-viewer",
   notes: "notes-viewer",
+  contacts: "contacts-viewer",
   extracurricular: "extracurricular",
 };
 
@@ -502,6 +606,326 @@ async function writeToCharm(options: WriteToCharmOptions): Promise<void> {
   }
 }
 
+// ===== INCREMENTAL SYNC =====
+
+// A sync reads only what changed since the cursor in the sync state (a row ID for
+// iMessage, the newest modification date seen for calendar, reminders and notes),
+// upserts those records into the charm, and only then advances the cursor.
+// The records are journaled before the charm is touched, so a run interrupted in
+// between is finished by the next run: upserts are keyed, so nothing is added twice,
+// and the cursor never moves past records that didn't reach the charm.
+
+// Above this many changed records, rewrite the whole array in one `ct` call
+// instead of one call per record
+const DELTA_WRITE_LIMIT = 20;
+
+interface SyncCursor {
+  lastRowId?: number;      // iMessage: newest message row read
+  modifiedSince?: string;  // Newest modification date read
+  daysBack?: number;       // Calendar: history window the cursor covers
+  windowEnd?: string;      // Calendar: end of the window at the last sync
+}
+
+interface JournalEntry {
+  charmId: string;
+  source: string;        // Source adapter id
+  startedAt: string;     // When the read started; becomes lastSyncTime
+  cursor: SyncCursor;    // Saved to the sync state once the records are in the charm
+  records: object[];     // Records read, in the charm's format
+  replace?: boolean;     // Records are the full set; drop stored records not among them
+}
+
+type SyncJournal = Partial<Record<SourceType, JournalEntry>>;
+
+interface UpsertResult {
+  total: number;
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+// Arrays in viewer charms that are synced record by record (the source types, plus
+// the chats the iMessage viewer shows next to its messages)
+type CharmRecordType = SourceType | "chats";
+
+type CharmRecord = Record<string, unknown>;
+
+interface CharmRecordSpec {
+  path: string;  // Array input of the viewer charm
+  key: (record: CharmRecord) => string;
+  compare: (a: CharmRecord, b: CharmRecord) => number;  // Order used for full rewrites
+  replaces?: (incoming: CharmRecord, stored: CharmRecord) => boolean;  // Default: always
+}
+
+function timestampOf(value: unknown): number {
+  return value ? new Date(value as string).getTime() : 0;
+}
+
+function compareCharmReminders(a: CharmRecord, b: CharmRecord): number {
+  // Incomplete first, then by due date, then by priority
+  if (a.isCompleted !== b.isCompleted) return a.isCompleted ? 1 : -1;
+  if (a.dueDate && !b.dueDate) return -1;
+  if (!a.dueDate && b.dueDate) return 1;
+  if (a.dueDate && b.dueDate) {
+    const dateDiff = timestampOf(a.dueDate) - timestampOf(b.dueDate);
+    if (dateDiff !== 0) return dateDiff;
+  }
+  const aPriority = (a.priority as number) || 0;
+  const bPriority = (b.priority as number) || 0;
+  if (aPriority !== bPriority) {
+    if (aPriority === 0) return 1;
+    if (bPriority === 0) return -1;
+    return aPriority - bPriority;
+  }
+  return 0;
+}
+
+const CHARM_RECORDS: Record<CharmRecordType, CharmRecordSpec> = {
+  imessage: {
+    path: "messages",
+    key: (m) => m.guid as string,
+    compare: (a, b) => timestampOf(a.date) - timestampOf(b.date),
+  },
+  chats: {
+    path: "chats",
+    key: (c) => c.chatId as string,
+    compare: (a, b) => String(a.chatId).localeCompare(String(b.chatId)),
+  },
+  calendar: {
+    path: "events",
+    key: (e) => e.id as string,
+    compare: (a, b) => timestampOf(a.startDate) - timestampOf(b.startDate),
+  },
+  reminders: {
+    path: "reminders",
+    key: (r) => r.id as string,
+    compare: compareCharmReminders,
+  },
+  notes: {
+    path: "notes",
+    key: (n) => n.id as string,
+    compare: (a, b) => timestampOf(b.modificationDate) - timestampOf(a.modificationDate),
+    // Keep the newer version of a note
+    replaces: (incoming, stored) => timestampOf(incoming.modificationDate) >= timestampOf(stored.modificationDate),
+  },
+  contacts: {
+    path: "contacts",
+    key: (c) => c.id as string,
+    compare: (a, b) =>
+      String(a.familyName || a.displayName).localeCompare(String(b.familyName || b.displayName)),
+  },
+};
+
+async function loadJournal(): Promise<SyncJournal> {
+  try {
+    const content = await Deno.readTextFile(JOURNAL_FILE);
+    return JSON.parse(content);
+  } catch {
+    return {};
+  }
+}
+
+async function saveJournal(journal: SyncJournal): Promise<void> {
+  if (Object.keys(journal).length === 0) {
+    await Deno.remove(JOURNAL_FILE).catch(() => {});
+    return;
+  }
+  await Deno.writeTextFile(JOURNAL_FILE, JSON.stringify(journal));
+}
+
+// JSON with sorted keys, so records compare equal regardless of key order
+function stableJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
+
+/**
+ * The saved cursor for a data type. Cursors only carry over for the source they
+ * came from (a row ID means nothing in another database), and --full ignores them.
+ */
+async function loadSyncCursor(type: SourceType, sourceId: string, fullSync: boolean): Promise<SyncCursor> {
+  if (fullSync) return {};
+  const state = await loadState();
+  const saved = state[type] as (SyncCursor & { source?: string }) | undefined;
+  if (!saved || (saved.source ?? "apple") !== sourceId) return {};
+  return {
+    lastRowId: saved.lastRowId,
+    modifiedSince: saved.modifiedSince,
+    daysBack: saved.daysBack,
+    windowEnd: saved.windowEnd,
+  };
+}
+
+/**
+ * Newest modification date among the records read, or the previous cursor if none is newer
+ */
+function newestModification(
+  records: Array<{ modificationDate?: Date | null }>,
+  previous?: string
+): string | undefined {
+  let newest = previous ? new Date(previous).getTime() : null;
+  for (const record of records) {
+    const modified = record.modificationDate?.getTime();
+    if (modified !== undefined && !isNaN(modified) && (newest === null || modified > newest)) {
+      newest = modified;
+    }
+  }
+  return newest === null ? undefined : new Date(newest).toISOString();
+}
+
+/**
+ * Upsert records into an array input of a charm, writing only what changed.
+ *
+ * Small changes are written record by record (`ct charm set` with a path like
+ * `messages/12`, appending at the end for new records). A first sync, removals
+ * or more than DELTA_WRITE_LIMIT changes rewrite the whole array, sorted.
+ */
+async function upsertCharmRecords(
+  type: CharmRecordType,
+  apiUrl: string,
+  space: string,
+  charmId: string,
+  records: object[],
+  replace: boolean = false
+): Promise<UpsertResult> {
+  const spec = CHARM_RECORDS[type];
+  const charmConfig = { apiUrl, space, charmId, path: spec.path };
+
+  let stored: Array<CharmRecord | null> = [];
+  try {
+    stored = (await readFromCharm<Array<CharmRecord | null>>(charmConfig)) || [];
+  } catch {
+    // No existing records (first sync)
+  }
+
+  // Indexes are positions in the stored array, which may contain nulls
+  const indexByKey = new Map<string, number>();
+  stored.forEach((record, index) => {
+    if (record && spec.key(record)) indexByKey.set(spec.key(record), index);
+  });
+
+  const updates = new Map<number, CharmRecord>();
+  const additions = new Map<string, CharmRecord>();
+  const incomingKeys = new Set<string>();
+
+  for (const record of records as CharmRecord[]) {
+    const key = record && spec.key(record);
+    if (!key) continue;
+    incomingKeys.add(key);
+    const index = indexByKey.get(key);
+    if (index === undefined) {
+      additions.set(key, record);
+      continue;
+    }
+    const current = updates.get(index) ?? stored[index]!;
+    if (spec.replaces && !spec.replaces(record, current)) continue;
+    if (stableJson(record) !== stableJson(stored[index])) {
+      updates.set(index, record);
+    } else {
+      updates.delete(index);
+    }
+  }
+
+  const removed = new Set<number>();
+  if (replace) {
+    for (const [key, index] of indexByKey) {
+      if (!incomingKeys.has(key)) removed.add(index);
+    }
+  }
+
+  const merged = [
+    ...stored
+      .map((record, index) => updates.get(index) ?? record)
+      .filter((record, index): record is CharmRecord => record !== null && !removed.has(index)),
+    ...additions.values(),
+  ];
+  const result: UpsertResult = { total: merged.length, added: additions.size, updated: updates.size, removed: removed.size };
+  const changes = updates.size + additions.size;
+
+  if (changes === 0 && removed.size === 0) {
+    console.log("  ✓ Charm already up to date");
+    return result;
+  }
+
+  if (stored.length === 0 || removed.size > 0 || changes > DELTA_WRITE_LIMIT) {
+    merged.sort(spec.compare);
+    await writeToCharm({ ...charmConfig, data: merged });
+  } else {
+    for (const [index, record] of updates) {
+      await writeToCharm({ ...charmConfig, path: `${spec.path}/${index}`, data: record });
+    }
+    let index = stored.length;
+    for (const record of additions.values()) {
+      await writeToCharm({ ...charmConfig, path: `${spec.path}/${index++}`, data: record });
+    }
+  }
+
+  const removedInfo = removed.size > 0 ? `, ${removed.size} removed` : "";
+  console.log(`  ✓ Written to charm: ${additions.size} new, ${updates.size} updated${removedInfo} (${merged.length} total)`);
+  return result;
+}
+
+/**
+ * Save the cursor of a finished sync and drop its journal entry.
+ * Mock runs don't touch the state, so they don't reset real cursors.
+ */
+async function commitSync(type: SourceType, entry: JournalEntry): Promise<void> {
+  if (entry.source !== "mock") {
+    const state = await loadState();
+    // Replace all cursor fields, so none are left over from another source
+    const { lastRowId: _lastRowId, modifiedSince: _modifiedSince, daysBack: _daysBack, windowEnd: _windowEnd, ...rest } =
+      (state[type] || {}) as SyncCursor & Record<string, unknown>;
+    (state as Record<string, unknown>)[type] = {
+      ...rest,
+      ...entry.cursor,
+      lastSyncTime: entry.startedAt,
+      source: entry.source,
+    };
+    await saveState(state);
+  }
+
+  const journal = await loadJournal();
+  delete journal[type];
+  await saveJournal(journal);
+}
+
+/**
+ * Journal the records read, upsert them into the charm, then commit the cursor
+ */
+async function syncRecords(
+  type: SourceType,
+  apiUrl: string,
+  space: string,
+  entry: JournalEntry
+): Promise<UpsertResult> {
+  let result: UpsertResult = { total: 0, added: 0, updated: 0, removed: 0 };
+  if (entry.records.length > 0 || entry.replace) {
+    const journal = await loadJournal();
+    journal[type] = entry;
+    await saveJournal(journal);
+
+    result = await upsertCharmRecords(type, apiUrl, space, entry.charmId, entry.records, entry.replace);
+  }
+  await commitSync(type, entry);
+  return result;
+}
+
+/**
+ * Finish a sync of this type that was interrupted after reading its records
+ */
+async function resumeInterruptedSync(type: SourceType, apiUrl: string, space: string, charmId: string): Promise<void> {
+  const entry = (await loadJournal())[type];
+  if (!entry) return;
+
+  console.log(`  Resuming interrupted sync from ${new Date(entry.startedAt).toLocaleString()} (${entry.records.length} records)...`);
+  // Write to the current charm in case the journaled one was replaced since
+  await upsertCharmRecords(type, apiUrl, space, charmId, entry.records, entry.replace);
+  await commitSync(type, entry);
+}
+
 // ===== COMMANDS =====
 
 async function cmdStatus(): Promise<void> {
@@ -519,6 +943,11 @@ async function cmdStatus(): Promise<void> {
   console.log(`  Calendar: ${config.charms?.calendar || "(not set)"}`);
   console.log(`  Reminders: ${config.charms?.reminders || "(not set)"}`);
   console.log(`  Notes: ${config.charms?.notes || "(not set)"}`);
+  console.log(`  Contacts: ${config.charms?.contacts || "(not set)"}`);
+  const personCount = new Set(Object.values(config.personCharms || {})).size;
+  if (personCount > 0) {
+    console.log(`  Person charms: ${personCount}`);
+  }
 
   console.log("\nSync State:");
   if (state.imessage?.lastSyncTime) {
@@ -530,45 +959,82 @@ async function cmdStatus(): Promise<void> {
 
   if (state.calendar?.lastSyncTime) {
     console.log(`  Calendar: Last synced ${state.calendar.lastSyncTime}`);
+    if (state.calendar.modifiedSince) {
+      console.log(`            Changes since: ${state.calendar.modifiedSince}`);
+    }
   } else {
     console.log("  Calendar: Never synced");
   }
 
   if (state.reminders?.lastSyncTime) {
     console.log(`  Reminders: Last synced ${state.reminders.lastSyncTime}`);
+    if (state.reminders.modifiedSince) {
+      console.log(`             Changes since: ${state.reminders.modifiedSince}`);
+    }
   } else {
     console.log("  Reminders: Never synced");
   }
 
   if (state.notes?.lastSyncTime) {
     console.log(`  Notes: Last synced ${state.notes.lastSyncTime}`);
+    if (state.notes.modifiedSince) {
+      console.log(`         Changes since: ${state.notes.modifiedSince}`);
+    }
   } else {
     console.log("  Notes: Never synced");
   }
 
+  if (state.contacts?.lastSyncTime) {
+    console.log(`  Contacts: Last synced ${state.contacts.lastSyncTime}`);
+  } else {
+    console.log("  Contacts: Never synced");
+  }
+
+  const journal = await loadJournal();
+  for (const [type, entry] of Object.entries(journal)) {
+    console.log(`  ⚠️  ${type}: Sync from ${entry!.startedAt} was interrupted; the next sync finishes it`);
+  }
+
   console.log("\nData Sources:");
 
+  // Types configured to read from files are checked instead of the Apple locations
+  for (const type of ["imessage", "calendar", "reminders", "notes", "contacts"] as const) {
+    if (!config.sources?.[type]) continue;
+    try {
+      const source = getSourceAdapter(type, config);
+      await Deno.stat(source.path!);
+      console.log(`  ✅ ${type}: ${source.description}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.log(`  ❌ ${type}: ${config.sources[type]} (${errorMsg})`);
+    }
+  }
+
   // Check iMessage DB
-  try {
-    await Deno.stat(IMESSAGE_DB);
-    console.log(`  ✅ iMessage: ${IMESSAGE_DB}`);
-  } catch {
-    console.log(`  ❌ iMessage: ${IMESSAGE_DB} (not found or no access)`);
+  if (!config.sources?.imessage) {
+    try {
+      await Deno.stat(IMESSAGE_DB);
+      console.log(`  ✅ iMessage: ${IMESSAGE_DB}`);
+    } catch {
+      console.log(`  ❌ iMessage: ${IMESSAGE_DB} (not found or no access)`);
+    }
   }
 
   // Check Calendar DB
-  let calendarFound = false;
-  try {
-    await Deno.stat(CALENDAR_DB_MODERN);
-    console.log(`  ✅ Calendar: ${CALENDAR_DB_MODERN}`);
-    calendarFound = true;
-  } catch {
+  let calendarFound = !!config.sources?.calendar;
+  if (!calendarFound) {
     try {
-      await Deno.stat(CALENDAR_DB_LEGACY);
-      console.log(`  ✅ Calendar: ${CALENDAR_DB_LEGACY}`);
+      await Deno.stat(CALENDAR_DB_MODERN);
+      console.log(`  ✅ Calendar: ${CALENDAR_DB_MODERN}`);
       calendarFound = true;
     } catch {
-      // Neither found
+      try {
+        await Deno.stat(CALENDAR_DB_LEGACY);
+        console.log(`  ✅ Calendar: ${CALENDAR_DB_LEGACY}`);
+        calendarFound = true;
+      } catch {
+        // Neither found
+      }
     }
   }
   if (!calendarFound) {
@@ -576,21 +1042,39 @@ async function cmdStatus(): Promise<void> {
   }
 
   // Check Notes DB
-  try {
-    await Deno.stat(NOTES_DB);
-    console.log(`  ✅ Notes: ${NOTES_DB}`);
-  } catch {
-    console.log(`  ❌ Notes: ${NOTES_DB} (not found or no access)`);
+  if (!config.sources?.notes) {
+    try {
+      await Deno.stat(NOTES_DB);
+      console.log(`  ✅ Notes: ${NOTES_DB}`);
+    } catch {
+      console.log(`  ❌ Notes: ${NOTES_DB} (not found or no access)`);
+    }
+  }
+
+  // Check Address Book
+  if (!config.sources?.contacts) {
+    try {
+      await Deno.stat(ADDRESS_BOOK_DIR);
+      console.log(`  ✅ Contacts: ${ADDRESS_BOOK_DIR}`);
+    } catch {
+      console.log(`  ❌ Contacts: ${ADDRESS_BOOK_DIR} (not found or no access)`);
+    }
   }
 
   console.log("");
 }
 
-async function cmdImessage(useMock: boolean = false, overrideCharmId?: string): Promise<void> {
+async function cmdImessage(
+  useMock: boolean = false,
+  overrideCharmId?: string,
+  sourcePath?: string,
+  fullSync: boolean = false
+): Promise<void> {
   console.log("\n📱 Syncing iMessage...\n");
 
   const config = await loadConfig();
   const apiUrl = config.apiUrl || "http://localhost:8000";
+  const source = getSourceAdapter("imessage", config, useMock, sourcePath);
 
   // Get charm ID from override, or validate/create
   let charmId: string;
@@ -602,48 +1086,54 @@ async function cmdImessage(useMock: boolean = false, overrideCharmId?: string):
     charmId = await getOrCreateCharm(apiUrl, config.space!, "imessage", config);
   }
 
-  const state = await loadState();
-  const lastRowId = state.imessage?.lastRowId || 0;
+  await resumeInterruptedSync("imessage", apiUrl, config.space!, charmId);
+  const cursor = await loadSyncCursor("imessage", source.id, fullSync);
+  const lastRowId = cursor.lastRowId || 0;
+  const startedAt = new Date().toISOString();
 
   let messages: IMessage[];
 
-  if (useMock) {
+  if (source.format === "mock") {
     console.log("  Mode: MOCK DATA (for testing)");
     console.log(`  Target space: ${config.space}`);
     console.log(`  Target charm: ${charmId}`);
     console.log("\n  Generating mock messages...");
-    messages = generateMockMessages(20);
+    messages = await source.read({});
     console.log(`  Generated ${messages.length} mock messages`);
   } else {
     // Check if database exists
-    try {
-      await Deno.stat(IMESSAGE_DB);
-    } catch {
-      console.log(`❌ Cannot access iMessage database at: ${IMESSAGE_DB}`);
-      console.log("\n💡 Tips:");
-      console.log("   1. Make sure iMessage is set up on this Mac");
-      console.log("   2. Grant Full Disk Access to your terminal:");
-      console.log("      System Settings > Privacy & Security > Full Disk Access");
-      console.log("   3. Use --mock flag to test with sample data:\n");
-      console.log("      ./tools/apple-sync.ts imessage --mock\n");
-      Deno.exit(1);
+    if (source.format === "apple") {
+      try {
+        await Deno.stat(IMESSAGE_DB);
+      } catch {
+        console.log(`❌ Cannot access iMessage database at: ${IMESSAGE_DB}`);
+        console.log("\n💡 Tips:");
+        console.log("   1. Make sure iMessage is set up on this Mac");
+        console.log("   2. Grant Full Disk Access to your terminal:");
+        console.log("      System Settings > Privacy & Security > Full Disk Access");
+        console.log("   3. Use --mock flag to test with sample data:\n");
+        console.log("      ./tools/apple-sync.ts imessage --mock\n");
+        Deno.exit(1);
+      }
+      console.log(`  Database: ${IMESSAGE_DB}`);
+    } else {
+      console.log(`  Source: ${source.description}`);
     }
 
-    console.log(`  Database: ${IMESSAGE_DB}`);
     console.log(`  Last synced row ID: ${lastRowId}`);
     console.log(`  Target space: ${config.space}`);
     console.log(`  Target charm: ${charmId}`);
     console.log("\n  Reading messages...");
 
     try {
-      messages = await readIMessages(lastRowId);
+      messages = await source.read({ sinceRowId: lastRowId });
       console.log(`  Found ${messages.length} new messages`);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       console.log(`\n❌ Error reading messages: ${errorMsg}`);
 
       // Check for permission error
-      if (errorMsg.includes("Operation not permitted") || errorMsg.includes("os error 1")) {
+      if (source.format === "apple" && (errorMsg.includes("Operation not permitted") || errorMsg.includes("os error 1"))) {
         console.log("\n🔒 This is a macOS permission issue. To fix it:\n");
         console.log("   1. Open System Settings (or System Preferences)");
         console.log("   2. Go to Privacy & Security → Full Disk Access");
@@ -662,6 +1152,7 @@ async function cmdImessage(useMock: boolean = false, overrideCharmId?: string):
   }
 
   if (messages.length === 0) {
+    await commitSync("imessage", { charmId, source: source.id, startedAt, cursor, records: [] });
     console.log("\n✅ Already up to date!\n");
     return;
   }
@@ -690,82 +1181,47 @@ async function cmdImessage(useMock: boolean = false, overrideCharmId?: string):
     date: msg.date.toISOString(),
     chatId: msg.chatId,
     handleId: msg.handleId,
+    tapback: msg.tapback,
+    attachments: msg.attachments,
   }));
 
-  // Read existing messages from charm and merge
-  console.log("\n  Reading existing messages from charm...");
-  const charmConfig = {
-    apiUrl: config.apiUrl || "http://localhost:8000",
-    space: config.space,
-    charmId: charmId,
-    path: "messages",
-  };
-
-  interface CharmMessage {
-    rowId: number;
-    guid: string;
-    text: string | null;
-    isFromMe: boolean;
-    date: string;
-    chatId: string;
-    handleId: string;
-  }
-
-  let existingMessages: CharmMessage[] = [];
-  try {
-    const existing = await readFromCharm<CharmMessage[]>(charmConfig);
-    existingMessages = existing || [];
-    console.log(`  Found ${existingMessages.length} existing messages`);
-  } catch (error) {
-    // If we can't read, assume empty - first sync
-    console.log("  No existing messages (first sync)");
-  }
-
-  // Merge: dedupe by guid, keeping newest version
-  const messagesByGuid = new Map<string, CharmMessage>();
-  for (const msg of existingMessages) {
-    if (msg && msg.guid) {
-      messagesByGuid.set(msg.guid, msg);
-    }
-  }
-  for (const msg of newMessagesForCharm) {
-    if (msg && msg.guid) {
-      messagesByGuid.set(msg.guid, msg);
-    }
+  // Chat details (group name, participants) are stored once per chat
+  const chatsForCharm = new Map<string, object>();
+  for (const msg of messages) {
+    if (msg.participants.length === 0) continue;
+    chatsForCharm.set(msg.chatId, {
+      chatId: msg.chatId,
+      displayName: msg.chatName,
+      isGroup: msg.isGroup,
+      participants: msg.participants,
+    });
   }
 
-  const mergedMessages = Array.from(messagesByGuid.values());
-  // Sort by date
-  mergedMessages.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-  const newCount = mergedMessages.length - existingMessages.length;
-  console.log(`  Merged: ${newCount} new messages added (${mergedMessages.length} total)`);
-
-  // Write merged messages to charm
+  // Upsert into the charm (deduped by guid), then advance the row ID cursor.
+  // Chats go first, so an interrupted sync never leaves messages without their chat.
   console.log("\n  Writing to charm...");
+  let result: UpsertResult;
   try {
-    await writeToCharm({
-      ...charmConfig,
-      data: mergedMessages,
+    if (chatsForCharm.size > 0) {
+      await upsertCharmRecords("chats", apiUrl, config.space!, charmId, [...chatsForCharm.values()]);
+    }
+    result = await syncRecords("imessage", apiUrl, config.space!, {
+      charmId,
+      source: source.id,
+      startedAt,
+      cursor: { lastRowId: maxRowId },
+      records: newMessagesForCharm,
     });
-    console.log("  ✓ Written to charm");
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
     console.log(`\n❌ Error writing to charm: ${errorMsg}`);
     Deno.exit(1);
   }
 
-  // Update state (only for real data, not mock)
-  if (!useMock) {
-    state.imessage = {
-      lastRowId: maxRowId,
-      lastSyncTime: new Date().toISOString(),
-    };
-    await saveState(state);
-  }
-
-  console.log(`\n✅ Synced ${newCount} new messages (${mergedMessages.length} total)`);
-  if (!useMock) {
+  const tapbacks = messages.filter(m => m.tapback).length;
+  const tapbackInfo = tapbacks > 0 ? `, ${tapbacks} tapbacks` : "";
+  console.log(`\n✅ Synced ${result.added} new messages (${result.total} total${tapbackInfo})`);
+  if (source.format !== "mock") {
     console.log(`   New last row ID: ${maxRowId}`);
   }
   console.log("");
@@ -773,6 +1229,23 @@ async function cmdImessage(useMock: boolean = false, overrideCharmId?: string):
 
 // ===== IMESSAGE DATABASE =====
 
+type TapbackKind = "love" | "like" | "dislike" | "laugh" | "emphasize" | "question" | "emoji";
+
+// A tapback is its own message pointing at the one it reacts to
+interface Tapback {
+  targetGuid: string;
+  kind: TapbackKind;
+  emoji: string | null;  // Emoji tapbacks only
+  removed: boolean;      // The sender took the tapback back
+}
+
+interface MessageAttachment {
+  name: string;
+  mimeType: string | null;
+  size: number;          // Bytes
+  path: string | null;   // Location on the Mac the messages were read on
+}
+
 interface IMessage {
   rowId: number;
   guid: string;
@@ -781,12 +1254,37 @@ interface IMessage {
   date: Date;
   chatId: string;
   handleId: string;
+  chatName: string | null;   // Name given to a group chat
+  isGroup: boolean;
+  participants: string[];    // Handles of everyone in the chat but me
+  tapback: Tapback | null;
+  attachments: MessageAttachment[];
 }
 
-async function readIMessages(sinceRowId: number = 0): Promise<IMessage[]> {
+// associated_message_type: 2000-2006 adds a tapback, 3000-3006 removes it
+const TAPBACK_KINDS: TapbackKind[] = ["love", "like", "dislike", "laugh", "emphasize", "question", "emoji"];
+
+function parseTapback(type: number | null, associatedGuid: string | null, emoji: string | null): Tapback | null {
+  if (!type || !associatedGuid) return null;
+  const removed = type >= 3000;
+  const kind = TAPBACK_KINDS[type - (removed ? 3000 : 2000)];
+  if (!kind) return null;
+  return {
+    // Targets look like p:0/<guid> (part 0 of the message) or bp:<guid>
+    targetGuid: associatedGuid.replace(/^(p:\d+\/|bp:)/, ""),
+    kind,
+    emoji: kind === "emoji" ? emoji : null,
+    removed,
+  };
+}
+
+async function readIMessages(sinceRowId: number = 0, dbPath: string = IMESSAGE_DB): Promise<IMessage[]> {
   // Use system sqlite3 CLI because the Deno SQLite library doesn't handle
   // WAL-mode databases properly (gives "file is not a database" error)
 
+  // Emoji tapbacks are newer than the other columns
+  const emojiColumn = await pickColumn(dbPath, "message", ["associated_message_emoji"]);
+
   const query = `
     SELECT
       message.ROWID,
@@ -794,7 +1292,13 @@ async function readIMessages(sinceRowId: number = 0): Promise<IMessage[]> {
       message.text,
       message.is_from_me,
       message.date,
+      message.associated_message_guid,
+      message.associated_message_type,
+      ${emojiColumn ? `message.${emojiColumn}` : "NULL"} AS associated_message_emoji,
+      chat.ROWID AS chat_rowid,
       chat.chat_identifier,
+      chat.display_name,
+      chat.style,
       handle.id
     FROM message
     LEFT JOIN chat_message_join ON message.ROWID = chat_message_join.message_id
@@ -805,28 +1309,6 @@ async function readIMessages(sinceRowId: number = 0): Promise<IMessage[]> {
     LIMIT 1000
   `;
 
-  const command = new Deno.Command("sqlite3", {
-    args: [
-      "-json",  // Output as JSON for easy parsing
-      IMESSAGE_DB,
-      query,
-    ],
-    stdout: "piped",
-    stderr: "piped",
-  });
-
-  const output = await command.output();
-
-  if (!output.success) {
-    const stderr = new TextDecoder().decode(output.stderr);
-    throw new Error(stderr);
-  }
-
-  const stdout = new TextDecoder().decode(output.stdout).trim();
-  if (!stdout || stdout === "[]") {
-    return [];
-  }
-
   // Parse JSON output from sqlite3
   interface SqliteRow {
     ROWID: number;
@@ -834,23 +1316,77 @@ async function readIMessages(sinceRowId: number = 0): Promise<IMessage[]> {
     text: string | null;
     is_from_me: number;
     date: number;
+    associated_message_guid: string | null;
+    associated_message_type: number | null;
+    associated_message_emoji: string | null;
+    chat_rowid: number | null;
     chat_identifier: string | null;
+    display_name: string | null;
+    style: number | null;
     id: string | null;
   }
 
-  const rows: SqliteRow[] = JSON.parse(stdout);
+  const rows = await querySqlite<SqliteRow>(dbPath, query);
+  if (rows.length === 0) return [];
+
+  // Participants of the chats these messages are in
+  const chatRowIds = [...new Set(rows.map(r => r.chat_rowid).filter((id): id is number => id !== null))];
+  const participantRows = chatRowIds.length === 0 ? [] : await querySqlite<{ chat_id: number; id: string }>(dbPath, `
+    SELECT chat_handle_join.chat_id, handle.id
+    FROM chat_handle_join
+    JOIN handle ON chat_handle_join.handle_id = handle.ROWID
+    WHERE chat_handle_join.chat_id IN (${chatRowIds.join(",")})
+  `);
+  const participants = new Map<number, string[]>();
+  for (const row of participantRows) {
+    participants.set(row.chat_id, [...(participants.get(row.chat_id) ?? []), row.id]);
+  }
 
-  // Convert Apple's date format (nanoseconds since 2001-01-01) to JS Date
-  const APPLE_EPOCH = new Date("2001-01-01T00:00:00Z").getTime();
+  // Attachments of the messages read
+  const lastRowId = rows[rows.length - 1].ROWID;
+  const attachmentRows = await querySqlite<{
+    message_id: number;
+    transfer_name: string | null;
+    filename: string | null;
+    mime_type: string | null;
+    total_bytes: number | null;
+  }>(dbPath, `
+    SELECT
+      message_attachment_join.message_id,
+      attachment.transfer_name,
+      attachment.filename,
+      attachment.mime_type,
+      attachment.total_bytes
+    FROM message_attachment_join
+    JOIN attachment ON message_attachment_join.attachment_id = attachment.ROWID
+    WHERE message_attachment_join.message_id > ${sinceRowId}
+      AND message_attachment_join.message_id <= ${lastRowId}
+  `);
+  const attachments = new Map<number, MessageAttachment[]>();
+  for (const row of attachmentRows) {
+    attachments.set(row.message_id, [...(attachments.get(row.message_id) ?? []), {
+      name: row.transfer_name || row.filename?.split("/").pop() || "attachment",
+      mimeType: row.mime_type,
+      size: row.total_bytes || 0,
+      path: row.filename,
+    }]);
+  }
 
+  // Convert Apple's date format (nanoseconds since 2001-01-01) to JS Date
   return rows.map((row) => ({
     rowId: row.ROWID,
     guid: row.guid,
     text: row.text,
     isFromMe: row.is_from_me === 1,
-    date: new Date(APPLE_EPOCH + (row.date / 1000000000) * 1000),
+    date: new Date(APPLE_EPOCH_MS + (row.date / 1000000000) * 1000),
     chatId: row.chat_identifier || "unknown",
     handleId: row.id || "unknown",
+    chatName: row.display_name || null,
+    // Chat style 43 is a group chat, 45 a one-to-one chat
+    isGroup: row.style === 43,
+    participants: row.chat_rowid !== null ? participants.get(row.chat_rowid) ?? [] : [],
+    tapback: parseTapback(row.associated_message_type, row.associated_message_guid, row.associated_message_emoji),
+    attachments: attachments.get(row.ROWID) ?? [],
   }));
 }
 
@@ -880,11 +1416,18 @@ function generateMockMessages(count: number = 20): IMessage[] {
     "Just finished the project",
   ];
 
+  // A group chat with some of the contacts
+  const groupChatId = "chat000000000000000001";
+  const groupMembers = contacts.slice(0, 3);
+
   const messages: IMessage[] = [];
   const now = Date.now();
 
   for (let i = 0; i < count; i++) {
-    const contact = contacts[Math.floor(Math.random() * contacts.length)];
+    const inGroup = i % 4 === 0;
+    const contact = inGroup
+      ? groupMembers[Math.floor(Math.random() * groupMembers.length)]
+      : contacts[Math.floor(Math.random() * contacts.length)];
     const text = sampleTexts[Math.floor(Math.random() * sampleTexts.length)];
     const isFromMe = Math.random() > 0.5;
     const minutesAgo = Math.floor(Math.random() * 60 * 24 * 7); // Within last week
@@ -895,14 +1438,34 @@ function generateMockMessages(count: number = 20): IMessage[] {
       text,
       isFromMe,
       date: new Date(now - minutesAgo * 60 * 1000),
-      chatId: contact,
+      chatId: inGroup ? groupChatId : contact,
       handleId: contact,
+      chatName: inGroup ? "Weekend Plans" : null,
+      isGroup: inGroup,
+      participants: inGroup ? groupMembers : [contact],
+      tapback: null,
+      attachments: i % 7 === 3
+        ? [{ name: "IMG_1234.heic", mimeType: "image/heic", size: 1843200, path: null }]
+        : [],
     });
   }
 
   // Sort by date
   messages.sort((a, b) => a.date.getTime() - b.date.getTime());
 
+  // A tapback on the latest message, from the other side of its chat
+  const target = messages[messages.length - 1];
+  messages.push({
+    ...target,
+    rowId: count + 1,
+    guid: `mock-tapback-${Date.now()}`,
+    text: `Loved “${target.text}”`,
+    isFromMe: !target.isFromMe,
+    date: new Date(target.date.getTime() + 60 * 1000),
+    tapback: { targetGuid: target.guid, kind: "love", emoji: null, removed: false },
+    attachments: [],
+  });
+
   return messages;
 }
 
@@ -917,21 +1480,41 @@ interface CalendarEvent {
   notes: string | null;
   calendarName: string;
   isAllDay: boolean;
+  modificationDate?: Date | null;  // Change cursor only; not written to the charm
 }
 
-async function readCalendarEvents(daysAhead: number = 30, daysBack: number = 7): Promise<CalendarEvent[]> {
+async function readCalendarEvents(
+  daysAhead: number = 30,
+  daysBack: number = 7,
+  modifiedSince?: Date,
+  windowEnd?: Date
+): Promise<CalendarEvent[]> {
+  // With a cursor, read events changed since then (stamp date is the modification
+  // date), plus events that have come into the window since it last ended
+  let changedFilter = "";
+  let cursorDates = "";
+  if (modifiedSince) {
+    cursorDates = appleScriptDate("sinceDate", modifiedSince).join("\n    ");
+    changedFilter = " and (stamp date >= sinceDate)";
+    if (windowEnd) {
+      cursorDates += "\n    " + appleScriptDate("windowEndDate", windowEnd).join("\n    ");
+      changedFilter = " and (stamp date >= sinceDate or start date > windowEndDate)";
+    }
+  }
+
   // Use AppleScript to read calendar events
   // This is more reliable than parsing the Core Data SQLite format
   const script = `
     set startDate to (current date) - (${daysBack} * days)
     set endDate to (current date) + (${daysAhead} * days)
+    ${cursorDates}
     set eventList to ""
 
     tell application "Calendar"
       set allCalendars to calendars
       repeat with cal in allCalendars
         set calName to name of cal
-        set calEvents to (every event of cal whose start date >= startDate and start date <= endDate)
+        set calEvents to (every event of cal whose start date >= startDate and start date <= endDate${changedFilter})
         repeat with evt in calEvents
           set evtId to uid of evt
           set evtTitle to summary of evt
@@ -941,8 +1524,13 @@ async function readCalendarEvents(daysAhead: number = 30, daysBack: number = 7):
           set evtNotes to description of evt
           set evtAllDay to allday event of evt
 
+          set evtStamp to "null"
+          try
+            set evtStamp to ((stamp date of evt) as «class isot» as string)
+          end try
+
           -- Format as JSON-ish line
-          set eventLine to "EVENT:" & evtId & "|" & evtTitle & "|" & (evtStart as «class isot» as string) & "|" & (evtEnd as «class isot» as string) & "|" & evtLoc & "|" & evtNotes & "|" & calName & "|" & evtAllDay
+          set eventLine to "EVENT:" & evtId & "|" & evtTitle & "|" & (evtStart as «class isot» as string) & "|" & (evtEnd as «class isot» as string) & "|" & evtLoc & "|" & evtNotes & "|" & calName & "|" & evtAllDay & "|" & evtStamp
           set eventList to eventList & eventLine & linefeed
         end repeat
       end repeat
@@ -972,7 +1560,7 @@ async function readCalendarEvents(daysAhead: number = 30, daysBack: number = 7):
     const parts = line.substring(6).split("|");
     if (parts.length < 8) continue;
 
-    const [id, title, startStr, endStr, location, notes, calendarName, allDayStr] = parts;
+    const [id, title, startStr, endStr, location, notes, calendarName, allDayStr, stampStr] = parts;
 
     events.push({
       id,
@@ -983,6 +1571,7 @@ async function readCalendarEvents(daysAhead: number = 30, daysBack: number = 7):
       notes: notes && notes !== "missing value" ? notes : null,
       calendarName,
       isAllDay: allDayStr === "true",
+      modificationDate: parseAppleDate(stampStr),
     });
   }
 
@@ -1045,11 +1634,18 @@ function generateMockCalendarEvents(count: number = 15): CalendarEvent[] {
   return events;
 }
 
-async function cmdCalendar(useMock: boolean = false, overrideCharmId?: string, daysBack: number = 30): Promise<void> {
+async function cmdCalendar(
+  useMock: boolean = false,
+  overrideCharmId?: string,
+  daysBack: number = 30,
+  sourcePath?: string,
+  fullSync: boolean = false
+): Promise<void> {
   console.log("\n📅 Syncing Calendar...\n");
 
   const config = await loadConfig();
   const apiUrl = config.apiUrl || "http://localhost:8000";
+  const source = getSourceAdapter("calendar", config, useMock, sourcePath);
 
   // Get charm ID from override, or validate/create
   let charmId: string;
@@ -1061,26 +1657,46 @@ async function cmdCalendar(useMock: boolean = false, overrideCharmId?: string, d
     charmId = await getOrCreateCharm(apiUrl, config.space!, "calendar", config);
   }
 
+  await resumeInterruptedSync("calendar", apiUrl, config.space!, charmId);
+  const cursor = await loadSyncCursor("calendar", source.id, fullSync);
+  // A wider history window than the cursor covers needs a full read to fill in older events
+  const modifiedSince = cursor.modifiedSince && (cursor.daysBack ?? 0) >= daysBack
+    ? new Date(cursor.modifiedSince)
+    : undefined;
+  const startedAt = new Date().toISOString();
+  const windowEnd = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+
   let events: CalendarEvent[];
 
-  if (useMock) {
+  if (source.format === "mock") {
     console.log("  Mode: MOCK DATA (for testing)");
     console.log(`  Target space: ${config.space}`);
     console.log(`  Target charm: ${charmId}`);
     console.log("\n  Generating mock events...");
-    events = generateMockCalendarEvents(15);
+    events = await source.read({});
     console.log(`  Generated ${events.length} mock events`);
   } else {
+    if (source.format !== "apple") console.log(`  Source: ${source.description}`);
     console.log(`  Target space: ${config.space}`);
     console.log(`  Target charm: ${charmId}`);
-    console.log("\n  Reading calendar events via AppleScript...");
+    console.log(source.format === "apple"
+      ? "\n  Reading calendar events via AppleScript..."
+      : "\n  Reading calendar events...");
+
+    if (modifiedSince) console.log(`  Changes since: ${modifiedSince.toLocaleString()}`);
 
     try {
-      events = await readCalendarEvents(30, daysBack);
-      console.log(`  Found ${events.length} events (${daysBack} days back, 30 days ahead)`);
+      events = await source.read({
+        daysAhead: 30,
+        daysBack,
+        modifiedSince,
+        windowEnd: modifiedSince && cursor.windowEnd ? new Date(cursor.windowEnd) : undefined,
+      });
+      console.log(`  Found ${events.length} ${modifiedSince ? "changed " : ""}events (${daysBack} days back, 30 days ahead)`);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       console.log(`\n❌ Error reading calendar: ${errorMsg}`);
+      if (source.format !== "apple") Deno.exit(1);
       console.log("\n💡 Tips:");
       console.log("   1. Make sure Calendar.app has events");
       console.log("   2. You may need to grant automation access:");
@@ -1091,8 +1707,15 @@ async function cmdCalendar(useMock: boolean = false, overrideCharmId?: string, d
     }
   }
 
+  const nextCursor: SyncCursor = {
+    modifiedSince: newestModification(events, modifiedSince?.toISOString()),
+    daysBack,
+    windowEnd: windowEnd.toISOString(),
+  };
+
   if (events.length === 0) {
-    console.log("\n✅ No events found.\n");
+    await commitSync("calendar", { charmId, source: source.id, startedAt, cursor: nextCursor, records: [] });
+    console.log(modifiedSince ? "\n✅ No changes since last sync.\n" : "\n✅ No events found.\n");
     return;
   }
 
@@ -1118,78 +1741,24 @@ async function cmdCalendar(useMock: boolean = false, overrideCharmId?: string, d
     isAllDay: evt.isAllDay,
   }));
 
-  // Read existing events from charm and merge
-  console.log("\n  Reading existing events from charm...");
-  const charmConfig = {
-    apiUrl: config.apiUrl || "http://localhost:8000",
-    space: config.space,
-    charmId: charmId,
-    path: "events",
-  };
-
-  interface CharmEvent {
-    id: string;
-    title: string;
-    startDate: string;
-    endDate: string;
-    location: string | null;
-    notes: string | null;
-    calendarName: string;
-    isAllDay: boolean;
-  }
-
-  let existingEvents: CharmEvent[] = [];
+  // Upsert into the charm (deduped by id, changed events overwrite old), then advance the cursor
+  console.log("\n  Writing to charm...");
+  let result: UpsertResult;
   try {
-    const existing = await readFromCharm<CharmEvent[]>(charmConfig);
-    existingEvents = existing || [];
-    console.log(`  Found ${existingEvents.length} existing events`);
-  } catch {
-    console.log("  No existing events (first sync)");
+    result = await syncRecords("calendar", apiUrl, config.space!, {
+      charmId,
+      source: source.id,
+      startedAt,
+      cursor: nextCursor,
+      records: newEventsForCharm,
+    });
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.log(`\n❌ Error writing to charm: ${errorMsg}`);
+    Deno.exit(1);
   }
 
-  // Merge: dedupe by id, new events overwrite old (they may be updated)
-  const eventsById = new Map<string, CharmEvent>();
-  for (const evt of existingEvents) {
-    if (evt && evt.id) {
-      eventsById.set(evt.id, evt);
-    }
-  }
-  for (const evt of newEventsForCharm) {
-    if (evt && evt.id) {
-      eventsById.set(evt.id, evt);
-    }
-  }
-
-  const mergedEvents = Array.from(eventsById.values());
-  // Sort by start date
-  mergedEvents.sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
-
-  const newCount = mergedEvents.length - existingEvents.length;
-  const updateInfo = newCount >= 0 ? `${newCount} new` : `${-newCount} removed`;
-  console.log(`  Merged: ${updateInfo} (${mergedEvents.length} total)`);
-
-  // Write merged events to charm
-  console.log("\n  Writing to charm...");
-  try {
-    await writeToCharm({
-      ...charmConfig,
-      data: mergedEvents,
-    });
-    console.log("  ✓ Written to charm");
-  } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    console.log(`\n❌ Error writing to charm: ${errorMsg}`);
-    Deno.exit(1);
-  }
-
-  // Update state
-  const state = await loadState();
-  state.calendar = {
-    lastSyncTime: new Date().toISOString(),
-  };
-  await saveState(state);
-
-  console.log(`\n✅ Synced calendar (${mergedEvents.length} total events)\n`);
+  console.log(`\n✅ Synced calendar (${result.total} total events)\n`);
 }
 
 // ===== REMINDERS =====
@@ -1203,12 +1772,17 @@ interface Reminder {
   completionDate: Date | null;
   priority: number; // 0 = none, 1-9 scale (1 = high, 5 = medium, 9 = low)
   listName: string;
+  modificationDate?: Date | null;  // Change cursor only; not written to the charm
 }
 
-async function readReminders(includeCompleted: boolean = false): Promise<Reminder[]> {
+async function readReminders(includeCompleted: boolean = false, modifiedSince?: Date): Promise<Reminder[]> {
   // Use AppleScript to read reminders
-  const completedFilter = includeCompleted ? "" : "whose completed is false";
+  const filters: string[] = [];
+  if (!includeCompleted) filters.push("completed is false");
+  if (modifiedSince) filters.push("modification date >= sinceDate");
+  const completedFilter = filters.length > 0 ? `whose ${filters.join(" and ")}` : "";
   const script = `
+    ${modifiedSince ? appleScriptDate("sinceDate", modifiedSince).join("\n    ") : ""}
     set reminderList to ""
 
     tell application "Reminders"
@@ -1240,8 +1814,13 @@ async function readReminders(includeCompleted: boolean = false): Promise<Reminde
             end if
           end try
 
+          set rModDate to "null"
+          try
+            set rModDate to ((modification date of r) as «class isot» as string)
+          end try
+
           -- Format as pipe-delimited line
-          set reminderLine to "REMINDER:" & rId & "|" & rTitle & "|" & rNotes & "|" & rDueDate & "|" & rCompleted & "|" & rCompletionDate & "|" & rPriority & "|" & listName
+          set reminderLine to "REMINDER:" & rId & "|" & rTitle & "|" & rNotes & "|" & rDueDate & "|" & rCompleted & "|" & rCompletionDate & "|" & rPriority & "|" & listName & "|" & rModDate
           set reminderList to reminderList & reminderLine & linefeed
         end repeat
       end repeat
@@ -1271,7 +1850,7 @@ async function readReminders(includeCompleted: boolean = false): Promise<Reminde
     const parts = line.substring(9).split("|");
     if (parts.length < 8) continue;
 
-    const [id, title, notes, dueDateStr, completedStr, completionDateStr, priorityStr, listName] = parts;
+    const [id, title, notes, dueDateStr, completedStr, completionDateStr, priorityStr, listName, modDateStr] = parts;
 
     reminders.push({
       id,
@@ -1286,6 +1865,7 @@ async function readReminders(includeCompleted: boolean = false): Promise<Reminde
         : null,
       priority: parseInt(priorityStr) || 0,
       listName,
+      modificationDate: parseAppleDate(modDateStr),
     });
   }
 
@@ -1385,11 +1965,17 @@ function generateMockReminders(count: number = 15): Reminder[] {
   return reminders;
 }
 
-async function cmdReminders(useMock: boolean = false, overrideCharmId?: string): Promise<void> {
+async function cmdReminders(
+  useMock: boolean = false,
+  overrideCharmId?: string,
+  sourcePath?: string,
+  fullSync: boolean = false
+): Promise<void> {
   console.log("\n✅ Syncing Reminders...\n");
 
   const config = await loadConfig();
   const apiUrl = config.apiUrl || "http://localhost:8000";
+  const source = getSourceAdapter("reminders", config, useMock, sourcePath);
 
   // Get charm ID from override, or validate/create
   let charmId: string;
@@ -1401,26 +1987,59 @@ async function cmdReminders(useMock: boolean = false, overrideCharmId?: string):
     charmId = await getOrCreateCharm(apiUrl, config.space!, "reminders", config);
   }
 
+  await resumeInterruptedSync("reminders", apiUrl, config.space!, charmId);
+  const state = await loadState();
+  const cursor = await loadSyncCursor("reminders", source.id, fullSync);
+  const modifiedSince = cursor.modifiedSince ? new Date(cursor.modifiedSince) : undefined;
+  // The sync time is when the read started: the viewer's copy reflects
+  // Reminders.app as of then, which is what outbox conflicts are checked against
+  const startedAt = new Date().toISOString();
+
   let reminders: Reminder[];
+  let applied: CharmReminder[] = [];
 
-  if (useMock) {
+  if (source.format === "mock") {
     console.log("  Mode: MOCK DATA (for testing)");
     console.log(`  Target space: ${config.space}`);
     console.log(`  Target charm: ${charmId}`);
     console.log("\n  Generating mock reminders...");
-    reminders = generateMockReminders(15);
+    reminders = await source.read({});
     console.log(`  Generated ${reminders.length} mock reminders`);
   } else {
+    if (source.format !== "apple") console.log(`  Source: ${source.description}`);
     console.log(`  Target space: ${config.space}`);
     console.log(`  Target charm: ${charmId}`);
-    console.log("\n  Reading reminders via AppleScript...");
+
+    // Push edits made in the viewer before reading, so the read picks them up.
+    // Edits are only checked against Apple data, so skip them if the viewer was
+    // last filled from a file (they stay queued for the next Apple sync).
+    if (source.format === "apple") {
+      if (state.reminders?.source && state.reminders.source !== "apple") {
+        console.log(`\n  Skipping outbox: reminders were last synced from ${state.reminders.source}`);
+      } else {
+        console.log("");
+        try {
+          applied = await processRemindersOutbox(apiUrl, config.space!, charmId, state.reminders?.lastSyncTime || null);
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          console.log(`  ⚠️  Could not process outbox: ${errorMsg}`);
+        }
+      }
+    }
+
+    console.log(source.format === "apple"
+      ? "\n  Reading reminders via AppleScript..."
+      : "\n  Reading reminders...");
+    if (modifiedSince) console.log(`  Changes since: ${modifiedSince.toLocaleString()}`);
 
     try {
-      reminders = await readReminders(false); // Don't include completed by default
-      console.log(`  Found ${reminders.length} reminders`);
+      // Don't include completed by default (incremental reads do, to pick up completions)
+      reminders = await source.read({ includeCompleted: false, modifiedSince });
+      console.log(`  Found ${reminders.length} ${modifiedSince ? "changed " : ""}reminders`);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       console.log(`\n❌ Error reading reminders: ${errorMsg}`);
+      if (source.format !== "apple") Deno.exit(1);
       console.log("\n💡 Tips:");
       console.log("   1. Make sure Reminders.app has items");
       console.log("   2. You may need to grant automation access:");
@@ -1431,8 +2050,11 @@ async function cmdReminders(useMock: boolean = false, overrideCharmId?: string):
     }
   }
 
-  if (reminders.length === 0) {
-    console.log("\n✅ No reminders found.\n");
+  const nextCursor: SyncCursor = { modifiedSince: newestModification(reminders, cursor.modifiedSince) };
+
+  if (reminders.length === 0 && applied.length === 0) {
+    await commitSync("reminders", { charmId, source: source.id, startedAt, cursor: nextCursor, records: [] });
+    console.log(modifiedSince ? "\n✅ No changes since last sync.\n" : "\n✅ No reminders found.\n");
     return;
   }
 
@@ -1459,115 +2081,78 @@ async function cmdReminders(useMock: boolean = false, overrideCharmId?: string):
     listName: r.listName,
   }));
 
-  // Read existing reminders from charm and merge
-  console.log("\n  Reading existing reminders from charm...");
-  const charmConfig = {
-    apiUrl: config.apiUrl || "http://localhost:8000",
-    space: config.space,
-    charmId: charmId,
-    path: "reminders",
-  };
-
-  interface CharmReminder {
-    id: string;
-    title: string;
-    notes: string | null;
-    dueDate: string | null;
-    isCompleted: boolean;
-    completionDate: string | null;
-    priority: number;
-    listName: string;
-  }
-
-  let existingReminders: CharmReminder[] = [];
-  try {
-    const existing = await readFromCharm<CharmReminder[]>(charmConfig);
-    existingReminders = existing || [];
-    console.log(`  Found ${existingReminders.length} existing reminders`);
-  } catch {
-    console.log("  No existing reminders (first sync)");
-  }
-
-  // Merge: dedupe by id, new reminders overwrite old (they may be updated/completed)
-  const remindersById = new Map<string, CharmReminder>();
-  for (const r of existingReminders) {
-    if (r && r.id) {
-      remindersById.set(r.id, r);
-    }
-  }
-  for (const r of newRemindersForCharm) {
-    if (r && r.id) {
-      remindersById.set(r.id, r);
-    }
-  }
-
-  const mergedReminders = Array.from(remindersById.values());
-  // Sort: incomplete first, then by due date, then by priority
-  mergedReminders.sort((a, b) => {
-    if (a.isCompleted !== b.isCompleted) return a.isCompleted ? 1 : -1;
-    if (a.dueDate && !b.dueDate) return -1;
-    if (!a.dueDate && b.dueDate) return 1;
-    if (a.dueDate && b.dueDate) {
-      const dateDiff = new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
-      if (dateDiff !== 0) return dateDiff;
-    }
-    if (a.priority !== b.priority) {
-      if (a.priority === 0) return 1;
-      if (b.priority === 0) return -1;
-      return a.priority - b.priority;
-    }
-    return 0;
-  });
-
-  const newCount = mergedReminders.length - existingReminders.length;
-  const updateInfo = newCount >= 0 ? `${newCount} new` : `${-newCount} removed`;
-  console.log(`  Merged: ${updateInfo} (${mergedReminders.length} total)`);
-
-  // Write merged reminders to charm
+  // Upsert into the charm (deduped by id, changed reminders overwrite old), then advance
+  // the cursor. Reminders changed from the outbox go first; the fresh read wins over them.
   console.log("\n  Writing to charm...");
+  let result: UpsertResult;
   try {
-    await writeToCharm({
-      ...charmConfig,
-      data: mergedReminders,
+    result = await syncRecords("reminders", apiUrl, config.space!, {
+      charmId,
+      source: source.id,
+      startedAt,
+      cursor: nextCursor,
+      records: [...applied, ...newRemindersForCharm],
     });
-    console.log("  ✓ Written to charm");
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
     console.log(`\n❌ Error writing to charm: ${errorMsg}`);
     Deno.exit(1);
   }
 
-  // Update state
-  const state = await loadState();
-  state.reminders = {
-    lastSyncTime: new Date().toISOString(),
-  };
-  await saveState(state);
-
-  console.log(`\n✅ Synced reminders (${mergedReminders.length} total)\n`);
+  console.log(`\n✅ Synced reminders (${result.total} total)\n`);
 }
 
 // ===== NOTES =====
 
+interface NoteAttachment {
+  id: string;
+  type: string;        // UTI, e.g. public.jpeg, com.apple.notes.table, public.url
+  name: string;        // File name, link title or type
+  url: string | null;  // Links only
+}
+
 interface Note {
   id: string;
   title: string;
-  body: string;
+  body: string;        // Markdown when read from NoteStore.sqlite, plain text via AppleScript
   creationDate: Date;
   modificationDate: Date;
   folderName: string;
+  folderPath: string;  // Nested folders joined with "/", e.g. "Work/Projects"
+  attachments: NoteAttachment[];
+}
+
+/**
+ * Read notes from Notes' own database, which has formatting, folder nesting and
+ * attachments. Without Full Disk Access, fall back to AppleScript (plain text).
+ */
+async function readAppleNotes(modifiedSince?: Date): Promise<Note[]> {
+  try {
+    return await readNotesDb(NOTES_DB, modifiedSince);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.log(`  Can't read ${NOTES_DB} (${errorMsg.trim()}), using AppleScript (plain text only)`);
+    return await readNotes(modifiedSince);
+  }
 }
 
-async function readNotes(): Promise<Note[]> {
+async function readNotes(modifiedSince?: Date): Promise<Note[]> {
   // Use AppleScript to read notes
   const script = `
+    ${modifiedSince ? appleScriptDate("sinceDate", modifiedSince).join("\n    ") : ""}
     set noteList to ""
 
     tell application "Notes"
       set allFolders to folders
       repeat with f in allFolders
         set folderName to name of f
-        set theNotes to every note of f
+        set folderPath to folderName
+        set c to container of f
+        repeat while class of c is folder
+          set folderPath to (name of c) & "/" & folderPath
+          set c to container of c
+        end repeat
+        set theNotes to every note of f${modifiedSince ? " whose modification date >= sinceDate" : ""}
         repeat with n in theNotes
           set nId to id of n
           set nTitle to name of n
@@ -1603,7 +2188,7 @@ async function readNotes(): Promise<Note[]> {
           set AppleScript's text item delimiters to ""
 
           -- Format as pipe-delimited line
-          set noteLine to "NOTE:" & nId & "|" & nTitle & "|" & nBody & "|" & (nCreated as «class isot» as string) & "|" & (nModified as «class isot» as string) & "|" & folderName
+          set noteLine to "NOTE:" & nId & "|" & nTitle & "|" & nBody & "|" & (nCreated as «class isot» as string) & "|" & (nModified as «class isot» as string) & "|" & folderName & "|" & folderPath
           set noteList to noteList & noteLine & linefeed
         end repeat
       end repeat
@@ -1631,9 +2216,9 @@ async function readNotes(): Promise<Note[]> {
   for (const line of stdout.split("\n")) {
     if (!line.startsWith("NOTE:")) continue;
     const parts = line.substring(5).split("|");
-    if (parts.length < 6) continue;
+    if (parts.length < 7) continue;
 
-    const [id, title, body, createdStr, modifiedStr, folderName] = parts;
+    const [id, title, body, createdStr, modifiedStr, folderName, folderPath] = parts;
 
     // Restore newlines and pipes in body
     const restoredBody = body
@@ -1647,6 +2232,8 @@ async function readNotes(): Promise<Note[]> {
       creationDate: new Date(createdStr),
       modificationDate: new Date(modifiedStr),
       folderName,
+      folderPath,
+      attachments: [],
     });
   }
 
@@ -1672,7 +2259,7 @@ function generateMockNotes(count: number = 12): Note[] {
     "Learning Goals",
   ];
 
-  const folders = ["Notes", "Work", "Personal", "Archive"];
+  const folders = ["Notes", "Work", "Work/Projects", "Personal", "Archive"];
 
   const bodies = [
     "This is a sample note with some content.\n\nIt has multiple paragraphs.",
@@ -1680,6 +2267,8 @@ function generateMockNotes(count: number = 12): Note[] {
     "Important reminder: Don't forget to follow up on this.",
     "Quick note to self about something I need to remember.",
     "Detailed notes from today's meeting:\n\n1. First topic discussed\n2. Second topic\n3. Action items",
+    "## This week\n\n- [x] Call the plumber\n- [ ] **Renew passport**\n- [ ] Book flights",
+    "| Day | Workout |\n| --- | --- |\n| Mon | Run 5k |\n| Wed | Weights |",
   ];
 
   const notes: Note[] = [];
@@ -1689,6 +2278,7 @@ function generateMockNotes(count: number = 12): Note[] {
     const daysAgo = Math.floor(Math.random() * 60); // Within last 60 days
     const modDate = new Date(now - daysAgo * 24 * 60 * 60 * 1000);
     const createDate = new Date(modDate.getTime() - Math.random() * 30 * 24 * 60 * 60 * 1000);
+    const folderPath = folders[Math.floor(Math.random() * folders.length)];
 
     notes.push({
       id: `mock-note-${i}-${Date.now()}`,
@@ -1696,7 +2286,11 @@ function generateMockNotes(count: number = 12): Note[] {
       body: bodies[Math.floor(Math.random() * bodies.length)],
       creationDate: createDate,
       modificationDate: modDate,
-      folderName: folders[Math.floor(Math.random() * folders.length)],
+      folderName: folderPath.split("/").pop()!,
+      folderPath,
+      attachments: i % 4 === 0
+        ? [{ id: `mock-attachment-${i}`, type: "public.jpeg", name: "IMG_0042.jpeg", url: null }]
+        : [],
     });
   }
 
@@ -1706,11 +2300,17 @@ function generateMockNotes(count: number = 12): Note[] {
   return notes;
 }
 
-async function cmdNotes(useMock: boolean = false, overrideCharmId?: string): Promise<void> {
+async function cmdNotes(
+  useMock: boolean = false,
+  overrideCharmId?: string,
+  sourcePath?: string,
+  fullSync: boolean = false
+): Promise<void> {
   console.log("\n📝 Syncing Notes...\n");
 
   const config = await loadConfig();
   const apiUrl = config.apiUrl || "http://localhost:8000";
+  const source = getSourceAdapter("notes", config, useMock, sourcePath);
 
   // Get charm ID from override, or validate/create
   let charmId: string;
@@ -1722,38 +2322,53 @@ async function cmdNotes(useMock: boolean = false, overrideCharmId?: string): Pro
     charmId = await getOrCreateCharm(apiUrl, config.space!, "notes", config);
   }
 
+  await resumeInterruptedSync("notes", apiUrl, config.space!, charmId);
+  const cursor = await loadSyncCursor("notes", source.id, fullSync);
+  const modifiedSince = cursor.modifiedSince ? new Date(cursor.modifiedSince) : undefined;
+  const startedAt = new Date().toISOString();
+
   let notes: Note[];
 
-  if (useMock) {
+  if (source.format === "mock") {
     console.log("  Mode: MOCK DATA (for testing)");
     console.log(`  Target space: ${config.space}`);
     console.log(`  Target charm: ${charmId}`);
     console.log("\n  Generating mock notes...");
-    notes = generateMockNotes(12);
+    notes = await source.read({});
     console.log(`  Generated ${notes.length} mock notes`);
   } else {
+    if (source.format !== "apple") console.log(`  Source: ${source.description}`);
     console.log(`  Target space: ${config.space}`);
     console.log(`  Target charm: ${charmId}`);
-    console.log("\n  Reading notes via AppleScript...");
+    console.log(source.format === "apple"
+      ? "\n  Reading notes from Notes database..."
+      : "\n  Reading notes...");
+    if (modifiedSince) console.log(`  Changes since: ${modifiedSince.toLocaleString()}`);
 
     try {
-      notes = await readNotes();
-      console.log(`  Found ${notes.length} notes`);
+      notes = await source.read({ modifiedSince });
+      console.log(`  Found ${notes.length} ${modifiedSince ? "changed " : ""}notes`);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       console.log(`\n❌ Error reading notes: ${errorMsg}`);
+      if (source.format !== "apple") Deno.exit(1);
       console.log("\n💡 Tips:");
       console.log("   1. Make sure Notes.app has notes");
-      console.log("   2. You may need to grant automation access:");
+      console.log("   2. Grant Full Disk Access to your terminal for formatting and folders:");
+      console.log("      System Settings > Privacy & Security > Full Disk Access");
+      console.log("   3. Otherwise AppleScript is used, which needs automation access:");
       console.log("      System Settings > Privacy > Automation");
-      console.log("   3. Use --mock flag to test with sample data:\n");
+      console.log("   4. Use --mock flag to test with sample data:\n");
       console.log("      ./tools/apple-sync.ts notes --mock\n");
       Deno.exit(1);
     }
   }
 
+  const nextCursor: SyncCursor = { modifiedSince: newestModification(notes, cursor.modifiedSince) };
+
   if (notes.length === 0) {
-    console.log("\n✅ No notes found.\n");
+    await commitSync("notes", { charmId, source: source.id, startedAt, cursor: nextCursor, records: [] });
+    console.log(modifiedSince ? "\n✅ No changes since last sync.\n" : "\n✅ No notes found.\n");
     return;
   }
 
@@ -1762,7 +2377,7 @@ async function cmdNotes(useMock: boolean = false, overrideCharmId?: string): Pro
   for (const n of notes.slice(0, 5)) {
     const dateStr = n.modificationDate.toLocaleDateString();
     const preview = n.title.substring(0, 40);
-    console.log(`    📝 ${preview} (${n.folderName}) - ${dateStr}`);
+    console.log(`    📝 ${preview} (${n.folderPath}) - ${dateStr}`);
   }
   if (notes.length > 5) {
     console.log(`    ... and ${notes.length - 5} more`);
@@ -1776,202 +2391,1779 @@ async function cmdNotes(useMock: boolean = false, overrideCharmId?: string): Pro
     creationDate: n.creationDate.toISOString(),
     modificationDate: n.modificationDate.toISOString(),
     folderName: n.folderName,
+    folderPath: n.folderPath,
+    attachments: n.attachments,
   }));
 
-  // Read existing notes from charm and merge
-  console.log("\n  Reading existing notes from charm...");
-  const charmConfig = {
-    apiUrl: config.apiUrl || "http://localhost:8000",
-    space: config.space,
-    charmId: charmId,
-    path: "notes",
-  };
-
-  interface CharmNote {
-    id: string;
-    title: string;
-    body: string;
-    creationDate: string;
-    modificationDate: string;
-    folderName: string;
-  }
-
-  let existingNotes: CharmNote[] = [];
-  try {
-    const existing = await readFromCharm<CharmNote[]>(charmConfig);
-    existingNotes = existing || [];
-    console.log(`  Found ${existingNotes.length} existing notes`);
-  } catch {
-    console.log("  No existing notes (first sync)");
-  }
-
-  // Merge: dedupe by id, keep the one with newer modificationDate
-  const notesById = new Map<string, CharmNote>();
-  for (const n of existingNotes) {
-    if (n && n.id) {
-      notesById.set(n.id, n);
-    }
-  }
-  for (const n of newNotesForCharm) {
-    if (n && n.id) {
-      const existing = notesById.get(n.id);
-      // Keep newer version based on modificationDate
-      if (!existing || new Date(n.modificationDate) >= new Date(existing.modificationDate)) {
-        notesById.set(n.id, n);
-      }
-    }
-  }
-
-  const mergedNotes = Array.from(notesById.values());
-  // Sort by modification date (newest first)
-  mergedNotes.sort((a, b) => new Date(b.modificationDate).getTime() - new Date(a.modificationDate).getTime());
-
-  const newCount = mergedNotes.length - existingNotes.length;
-  const updateInfo = newCount >= 0 ? `${newCount} new` : `${-newCount} removed`;
-  console.log(`  Merged: ${updateInfo} (${mergedNotes.length} total)`);
-
-  // Write merged notes to charm
+  // Upsert into the charm (deduped by id, keeping the newer version), then advance the cursor
   console.log("\n  Writing to charm...");
+  let result: UpsertResult;
   try {
-    await writeToCharm({
-      ...charmConfig,
-      data: mergedNotes,
+    result = await syncRecords("notes", apiUrl, config.space!, {
+      charmId,
+      source: source.id,
+      startedAt,
+      cursor: nextCursor,
+      records: newNotesForCharm,
     });
-    console.log("  ✓ Written to charm");
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
     console.log(`\n❌ Error writing to charm: ${errorMsg}`);
     Deno.exit(1);
   }
 
-  // Update state
-  const state = await loadState();
-  state.notes = {
-    lastSyncTime: new Date().toISOString(),
-  };
-  await saveState(state);
+  console.log(`\n✅ Synced notes (${result.total} total)\n`);
+}
 
-  console.log(`\n✅ Synced notes (${mergedNotes.length} total)\n`);
+// ===== CONTACTS =====
+
+const ADDRESS_BOOK_DIR = `${Deno.env.get("HOME")}/Library/Application Support/AddressBook`;
+
+interface ContactEntry {
+  label: string;  // "mobile", "work", "home", or a custom label
+  value: string;
 }
 
-// ===== MAIN =====
+interface ContactAddress {
+  label: string;
+  street: string;
+  city: string;
+  region: string;
+  postalCode: string;
+  country: string;
+}
+
+interface Contact {
+  id: string;
+  displayName: string;
+  givenName: string;
+  familyName: string;
+  nickname: string;
+  organization: string | null;
+  jobTitle: string | null;
+  emails: ContactEntry[];
+  phones: ContactEntry[];
+  addresses: ContactAddress[];
+  birthday: string | null;  // YYYY-MM-DD, or --MM-DD when the year is unknown
+  notes: string | null;
+  modificationDate: Date | null;
+}
+
+function contactDisplayName(givenName: string, familyName: string, nickname: string, organization: string | null): string {
+  return [givenName, familyName].filter(Boolean).join(" ") || nickname || organization || "(no name)";
+}
+
+// Address Book stores built-in labels as _$!<Mobile>!$_; custom labels are plain text
+function normalizeContactLabel(label: string | null): string {
+  if (!label) return "other";
+  const builtIn = label.match(/^_\$!<(.+)>!\$_$/);
+  return (builtIn ? builtIn[1] : label).toLowerCase();
+}
+
+function sortContacts(contacts: Contact[]): Contact[] {
+  return contacts.sort((a, b) =>
+    (a.familyName || a.displayName).localeCompare(b.familyName || b.displayName) ||
+    a.givenName.localeCompare(b.givenName)
+  );
+}
 
 /**
- * Ensure we have a space configured, prompting if needed
+ * Read contacts from an Address Book database (AddressBook-v22.abcddb)
  */
-async function ensureSpace(overrideSpace?: string): Promise<void> {
-  const config = await loadConfig();
+async function readContactsDb(dbPath: string): Promise<Contact[]> {
+  interface RecordRow {
+    pk: number;
+    unique_id: string | null;
+    first_name: string | null;
+    last_name: string | null;
+    nickname: string | null;
+    organization: string | null;
+    job_title: string | null;
+    birthday: number | null;
+    modified: number | null;
+    note: string | null;
+  }
+  interface EntryRow {
+    owner: number;
+    label: string | null;
+    value: string | null;
+  }
+  interface AddressRow {
+    owner: number;
+    label: string | null;
+    street: string | null;
+    city: string | null;
+    state: string | null;
+    zip: string | null;
+    country: string | null;
+  }
 
-  // If --space provided, save it
-  if (overrideSpace) {
-    config.space = overrideSpace;
-    config.apiUrl = config.apiUrl || "http://localhost:8000";
-    config.charms = config.charms || {};
-    await saveConfig(config);
-    console.log(`\n✅ Using space: ${overrideSpace}\n`);
-    return;
+  const records = await querySqlite<RecordRow>(dbPath, `
+    SELECT
+      ZABCDRECORD.Z_PK AS pk,
+      ZABCDRECORD.ZUNIQUEID AS unique_id,
+      ZABCDRECORD.ZFIRSTNAME AS first_name,
+      ZABCDRECORD.ZLASTNAME AS last_name,
+      ZABCDRECORD.ZNICKNAME AS nickname,
+      ZABCDRECORD.ZORGANIZATION AS organization,
+      ZABCDRECORD.ZJOBTITLE AS job_title,
+      ZABCDRECORD.ZBIRTHDAY AS birthday,
+      ZABCDRECORD.ZMODIFICATIONDATE AS modified,
+      ZABCDNOTE.ZTEXT AS note
+    FROM ZABCDRECORD
+    LEFT JOIN ZABCDNOTE ON ZABCDNOTE.ZCONTACT = ZABCDRECORD.Z_PK
+    WHERE ZABCDRECORD.ZFIRSTNAME IS NOT NULL
+      OR ZABCDRECORD.ZLASTNAME IS NOT NULL
+      OR ZABCDRECORD.ZORGANIZATION IS NOT NULL
+  `);
+
+  const emails = await querySqlite<EntryRow>(dbPath, `
+    SELECT ZOWNER AS owner, ZLABEL AS label, ZADDRESS AS value
+    FROM ZABCDEMAILADDRESS ORDER BY ZOWNER, ZORDERINGINDEX
+  `);
+  const phones = await querySqlite<EntryRow>(dbPath, `
+    SELECT ZOWNER AS owner, ZLABEL AS label, ZFULLNUMBER AS value
+    FROM ZABCDPHONENUMBER ORDER BY ZOWNER, ZORDERINGINDEX
+  `);
+  const addresses = await querySqlite<AddressRow>(dbPath, `
+    SELECT ZOWNER AS owner, ZLABEL AS label, ZSTREET AS street, ZCITY AS city,
+      ZSTATE AS state, ZZIPCODE AS zip, ZCOUNTRYNAME AS country
+    FROM ZABCDPOSTALADDRESS ORDER BY ZOWNER, ZORDERINGINDEX
+  `);
+
+  const entriesByOwner = (rows: EntryRow[]) => {
+    const byOwner = new Map<number, ContactEntry[]>();
+    for (const row of rows) {
+      if (!row.value) continue;
+      byOwner.set(row.owner, [...(byOwner.get(row.owner) || []), { label: normalizeContactLabel(row.label), value: row.value }]);
+    }
+    return byOwner;
+  };
+  const emailsByOwner = entriesByOwner(emails);
+  const phonesByOwner = entriesByOwner(phones);
+  const addressesByOwner = new Map<number, ContactAddress[]>();
+  for (const row of addresses) {
+    addressesByOwner.set(row.owner, [...(addressesByOwner.get(row.owner) || []), {
+      label: normalizeContactLabel(row.label),
+      street: row.street || "",
+      city: row.city || "",
+      region: row.state || "",
+      postalCode: row.zip || "",
+      country: row.country || "",
+    }]);
   }
 
-  // If already configured, we're good
-  if (config.space) {
-    return;
+  return records.map((row) => {
+    const givenName = row.first_name || "";
+    const familyName = row.last_name || "";
+    const nickname = row.nickname || "";
+    return {
+      id: row.unique_id || `${dbPath}#${row.pk}`,
+      displayName: contactDisplayName(givenName, familyName, nickname, row.organization),
+      givenName,
+      familyName,
+      nickname,
+      organization: row.organization,
+      jobTitle: row.job_title,
+      emails: emailsByOwner.get(row.pk) || [],
+      phones: phonesByOwner.get(row.pk) || [],
+      addresses: addressesByOwner.get(row.pk) || [],
+      birthday: formatContactBirthday(fromAppleTimestamp(row.birthday)),
+      notes: row.note || null,
+      modificationDate: fromAppleTimestamp(row.modified),
+    };
+  });
+}
+
+// Birthdays without a year are stored in year 1604
+function formatContactBirthday(date: Date | null): string | null {
+  if (!date) return null;
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return date.getUTCFullYear() === 1604 ? `--${month}-${day}` : `${date.getUTCFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Read this Mac's contacts. Address Book keeps one database per account
+ * (On My Mac, iCloud, Google, ...) under Sources/, plus a top-level one.
+ */
+async function readContacts(): Promise<Contact[]> {
+  const databases: string[] = [];
+  const mainDb = `${ADDRESS_BOOK_DIR}/AddressBook-v22.abcddb`;
+  try {
+    await Deno.stat(mainDb);
+    databases.push(mainDb);
+  } catch {
+    // Only per-account databases
+  }
+  try {
+    for await (const entry of Deno.readDir(`${ADDRESS_BOOK_DIR}/Sources`)) {
+      if (entry.isDirectory) databases.push(`${ADDRESS_BOOK_DIR}/Sources/${entry.name}/AddressBook-v22.abcddb`);
+    }
+  } catch {
+    // No account databases
+  }
+  if (databases.length === 0) {
+    throw new Error(`No Address Book databases found in ${ADDRESS_BOOK_DIR}`);
   }
 
-  // Prompt for space name
-  console.log("\n🍎 First-time setup\n");
-  const space = await prompt("Enter your space name");
-  if (!space) {
-    console.log("❌ Space name is required");
-    Deno.exit(1);
+  const contacts: Contact[] = [];
+  const seen = new Set<string>();
+  for (const db of databases) {
+    try {
+      await Deno.stat(db);
+    } catch {
+      continue;
+    }
+    for (const contact of await readContactsDb(db)) {
+      if (seen.has(contact.id)) continue;
+      seen.add(contact.id);
+      contacts.push(contact);
+    }
   }
+  return sortContacts(contacts);
+}
 
-  config.space = space;
-  config.apiUrl = "http://localhost:8000";
-  config.charms = {};
-  await saveConfig(config);
-  console.log(`\n✅ Configuration saved. Using space: ${space}\n`);
+/**
+ * Parse a .vcf export (vCard 3.0 or 4.0; what Contacts.app and Google export).
+ * Quoted-printable values from vCard 2.1 are not decoded.
+ */
+function parseVCards(text: string, path: string): Contact[] {
+  // Unfold continuation lines, as in iCalendar
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const contacts: Contact[] = [];
+  let props: Array<{ name: string; params: Record<string, string>; value: string }> | null = null;
+
+  for (const line of lines) {
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+    const [rawName, ...paramParts] = line.substring(0, colon).split(";");
+    // Apple groups related properties as item1.EMAIL, item1.X-ABLabel
+    const name = rawName.replace(/^[^.]+\./, "").toUpperCase();
+    const value = line.substring(colon + 1);
+
+    if (name === "BEGIN" && value.toUpperCase() === "VCARD") {
+      props = [];
+      continue;
+    }
+    if (name === "END" && value.toUpperCase() === "VCARD" && props) {
+      contacts.push(vCardToContact(props, `${path}#${contacts.length}`));
+      props = null;
+      continue;
+    }
+    if (!props) continue;
+
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+      const eq = part.indexOf("=");
+      const key = eq === -1 ? "TYPE" : part.substring(0, eq).toUpperCase();  // vCard 2.1: TEL;CELL:...
+      const paramValue = (eq === -1 ? part : part.substring(eq + 1)).replace(/^"|"$/g, "");
+      params[key] = params[key] ? `${params[key]},${paramValue}` : paramValue;
+    }
+    props.push({ name, params, value });
+  }
+
+  return sortContacts(contacts);
 }
 
-// ===== CALENDAR WRITE TYPES =====
+function vCardToContact(
+  props: Array<{ name: string; params: Record<string, string>; value: string }>,
+  fallbackId: string
+): Contact {
+  const first = (name: string) => props.find(p => p.name === name)?.value;
+  // Structured values (N, ADR) are ;-separated with \; escapes
+  const components = (value: string) => value.split(/(?<!\\);/).map(unescapeIcsText);
+
+  // The most specific TYPE wins: work/home/cell, ignoring INTERNET, VOICE, pref
+  const label = (params: Record<string, string>) => {
+    const types = (params["TYPE"] || "").toLowerCase().split(",");
+    if (types.includes("cell") || types.includes("iphone") || types.includes("mobile")) return "mobile";
+    return types.find(t => t === "work" || t === "home") ?? "other";
+  };
 
-interface CalendarOutboxEvent {
-  id: string;
-  title: string;
-  calendarName: string;
-  startDate: string;  // YYYY-MM-DD
-  startTime: string;  // HH:MM
-  endTime: string;    // HH:MM
-  location?: string;
-  notes?: string;
-  recurrence?: {
-    frequency: "WEEKLY";
-    byDay: string;         // e.g., "MO" or "MO,WE,FR"
-    until?: string;        // YYYY-MM-DD
+  const [familyName = "", givenName = ""] = components(first("N") ?? "");
+  const nickname = unescapeIcsText(first("NICKNAME") ?? "");
+  const organization = first("ORG") ? components(first("ORG")!)[0] || null : null;
+  const formattedName = first("FN") ? unescapeIcsText(first("FN")!) : "";
+
+  const bday = first("BDAY")?.replace(/T.*$/, "");
+  let birthday: string | null = null;
+  const full = bday?.match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+  const noYear = bday?.match(/^--(\d{2})-?(\d{2})$/);
+  if (full) birthday = `${full[1]}-${full[2]}-${full[3]}`;
+  else if (noYear) birthday = `--${noYear[1]}-${noYear[2]}`;
+
+  const rev = first("REV");
+  const revDate = rev ? parseIcsDate({ value: rev.replace(/[-:]/g, "").replace(/\.\d+/, ""), params: {} }) : null;
+
+  return {
+    id: first("UID") ?? fallbackId,
+    displayName: formattedName || contactDisplayName(givenName, familyName, nickname, organization),
+    givenName,
+    familyName,
+    nickname,
+    organization,
+    jobTitle: first("TITLE") ? unescapeIcsText(first("TITLE")!) : null,
+    emails: props.filter(p => p.name === "EMAIL" && p.value)
+      .map(p => ({ label: label(p.params), value: p.value.replace(/^mailto:/i, "") })),
+    phones: props.filter(p => p.name === "TEL" && p.value)
+      .map(p => ({ label: label(p.params), value: p.value.replace(/^tel:/i, "") })),
+    addresses: props.filter(p => p.name === "ADR").map(p => {
+      // ADR: PO box; extended; street; city; region; postal code; country
+      const [, , street = "", city = "", region = "", postalCode = "", country = ""] = components(p.value);
+      return { label: label(p.params), street, city, region, postalCode, country };
+    }),
+    birthday,
+    notes: first("NOTE") ? unescapeIcsText(first("NOTE")!) : null,
+    modificationDate: revDate?.date ?? null,
   };
 }
 
-interface CalendarOutboxEntry {
-  id: string;
-  events: CalendarOutboxEvent[];
-  confirmation: {
-    timestamp: string;
-    dialogContent: {
-      displayedTitle: string;
-      displayedCalendar: string;
-      displayedEventCount: number;
-    };
-  };
-  execution: {
-    status: "pending" | "processing" | "completed" | "failed";
-    startedAt?: string;
-    completedAt?: string;
-    error?: string;
-    createdEventIds?: string[];
+function generateMockContacts(count: number = 12): Contact[] {
+  const givenNames = ["Alice", "Ben", "Carmen", "Dev", "Elena", "Farid", "Grace", "Hiro"];
+  const familyNames = ["Nguyen", "Okafor", "Smith", "Patel", "Garcia", "Kim", "Rossi"];
+  const companies = ["Acme Corp", "Globex", null, null, "Initech"];
+
+  const contacts: Contact[] = [];
+  for (let i = 0; i < count; i++) {
+    const givenName = givenNames[i % givenNames.length];
+    const familyName = familyNames[Math.floor(Math.random() * familyNames.length)];
+    const organization = companies[Math.floor(Math.random() * companies.length)];
+    const hasBirthday = Math.random() < 0.5;
+
+    contacts.push({
+      id: `mock-contact-${i}`,
+      displayName: `${givenName} ${familyName}`,
+      givenName,
+      familyName,
+      nickname: "",
+      organization,
+      jobTitle: organization ? "Engineer" : null,
+      emails: [{ label: "home", value: `${givenName.toLowerCase()}.${familyName.toLowerCase()}@example.com` }],
+      phones: Math.random() < 0.7 ? [{ label: "mobile", value: `+1555${String(1000000 + i).slice(-7)}` }] : [],
+      addresses: [],
+      birthday: hasBirthday ? `19${70 + (i % 30)}-0${1 + (i % 9)}-1${i % 10}` : null,
+      notes: null,
+      modificationDate: new Date(),
+    });
+  }
+  return sortContacts(contacts);
+}
+
+// ----- Person charms -----
+
+// The person.tsx fields the address book owns. Other fields (tags, relationship,
+// notes after creation) belong to the person charm and are never overwritten.
+interface PersonFields {
+  displayName: string;
+  givenName: string;
+  familyName: string;
+  nickname: string;
+  emails: Array<{ type: "mobile" | "work" | "home"; value: string }>;
+  phones: Array<{ type: "mobile" | "work" | "home"; value: string }>;
+  birthday: string;
+}
+
+function contactToPersonFields(contact: Contact): PersonFields {
+  // person.tsx only knows mobile/work/home
+  const type = (label: string, fallback: "mobile" | "home") =>
+    label === "work" || label === "home" || label === "mobile" ? label : fallback;
+  return {
+    displayName: contact.displayName,
+    givenName: contact.givenName,
+    familyName: contact.familyName,
+    nickname: contact.nickname,
+    emails: contact.emails.map(e => ({ type: type(e.label, "home"), value: e.value })),
+    phones: contact.phones.map(p => ({ type: type(p.label, "mobile"), value: p.value })),
+    birthday: contact.birthday ?? "",
   };
-  createdAt: string;
 }
 
-interface CalendarOutbox {
-  entries: CalendarOutboxEntry[];
-  lastUpdated: string;
-  version: string;
+function normalizePhone(phone: string): string {
+  const digits = phone.replace(/[^\d]/g, "");
+  // Treat 10-digit numbers as North American, so +1 (555) 123-4567 and 555-123-4567 match
+  if (digits.length === 10) return `+1${digits}`;
+  return phone.trim().startsWith("+") || digits.length === 11 ? `+${digits}` : digits;
+}
+
+// Keys a person is matched by: every email and phone number
+function personKeys(emails: Array<{ value: string }>, phones: Array<{ value: string }>): string[] {
+  return [
+    ...emails.map(e => `email:${e.value.trim().toLowerCase()}`),
+    ...phones.map(p => `phone:${normalizePhone(p.value)}`),
+  ].filter(key => !key.endsWith(":"));
 }
 
 /**
- * Create a calendar event in Apple Calendar via AppleScript
+ * Build the email/phone → person charm index from the person charms already in the space
  */
-async function createAppleCalendarEvent(
-  event: CalendarOutboxEvent
-): Promise<{ success: boolean; error?: string; eventId?: string }> {
-  // Build AppleScript to create the event
-  // Note: AppleScript calendar dates need to be in a specific format
-  const calendarName = event.calendarName.replace(/"/g, '\\"');
-  const title = event.title.replace(/"/g, '\\"');
-  const location = (event.location || "").replace(/"/g, '\\"');
-  const notes = (event.notes || "").replace(/"/g, '\\"');
+async function indexPersonCharms(apiUrl: string, space: string): Promise<Record<string, string>> {
+  const index: Record<string, string> = {};
+  for (const charm of await listCharmsInSpace(apiUrl, space)) {
+    const sourceFile = await getCharmSourceFile(apiUrl, space, charm.id);
+    if (!sourceFile || sourceFile.split("/").pop() !== "person.tsx") continue;
 
-  // Parse date and times
-  const startDate = event.startDate; // YYYY-MM-DD
-  const [startHour, startMin] = event.startTime.split(":").map(Number);
-  const [endHour, endMin] = event.endTime.split(":").map(Number);
+    const options = { apiUrl, space, charmId: charm.id };
+    const emails = await readFromCharm<Array<{ value: string }>>({ ...options, path: "emails" }) || [];
+    const phones = await readFromCharm<Array<{ value: string }>>({ ...options, path: "phones" }) || [];
+    for (const key of personKeys(emails, phones)) {
+      index[key] ??= charm.id;
+    }
+  }
+  return index;
+}
 
-  // Calculate duration in minutes
-  const durationMinutes = (endHour * 60 + endMin) - (startHour * 60 + startMin);
+/**
+ * Create or update one person.tsx charm per contact that has an email or phone
+ */
+async function syncPersonCharms(contacts: Contact[], apiUrl: string, space: string, config: Config, state: SyncState): Promise<void> {
+  console.log("\n  Syncing person charms...");
 
-  // Build recurrence rule if present
-  let recurrenceRule = "";
-  if (event.recurrence) {
-    // byDay is already in RRULE format (e.g., "MO" or "MO,WE,FR")
-    recurrenceRule = `FREQ=${event.recurrence.frequency};BYDAY=${event.recurrence.byDay}`;
-    if (event.recurrence.until) {
-      const until = event.recurrence.until.replace(/-/g, "");
-      recurrenceRule += `;UNTIL=${until}T235959Z`;
-    }
+  if (!config.personCharms || Object.keys(config.personCharms).length === 0) {
+    console.log("  Indexing existing person charms in space...");
+    config.personCharms = await indexPersonCharms(apiUrl, space);
+    await saveConfig(config);
+    console.log(`  ✓ Found ${new Set(Object.values(config.personCharms)).size} person charms`);
   }
+  const index = config.personCharms;
+  const lastWritten = state.contacts?.people ?? {};
+
+  let created = 0;
+  let updated = 0;
+  let unchanged = 0;
+
+  for (const contact of contacts) {
+    const fields = contactToPersonFields(contact);
+    const keys = personKeys(fields.emails, fields.phones);
+    if (keys.length === 0) continue;  // Nothing to match on
+
+    const matches = [...new Set(keys.map(k => index[k]).filter(Boolean))];
+    if (matches.length > 1) {
+      console.log(`    ⚠️  ${contact.displayName} matches ${matches.length} person charms, skipping`);
+      continue;
+    }
 
-  // AppleScript to create the event
-  // We use date string parsing that AppleScript understands
-  const script = `
+    let charmId = matches[0];
+    const previous = charmId ? lastWritten[charmId] : undefined;
+    // Only write fields that changed in the address book since the last sync, so
+    // edits made in the person charm survive. Never clear a field we didn't set.
+    const changed = (Object.keys(fields) as Array<keyof PersonFields>).filter(field => {
+      const value = JSON.stringify(fields[field]);
+      if (!previous) return value !== '""' && value !== "[]";
+      return value !== JSON.stringify(previous[field]);
+    });
+
+    try {
+      if (!charmId) {
+        charmId = await createCharm(apiUrl, space, "person");
+        if (contact.notes) {
+          await writeToCharm({ apiUrl, space, charmId, path: "notes", data: contact.notes });
+        }
+        created++;
+      } else if (changed.length === 0) {
+        unchanged++;
+        continue;
+      } else {
+        console.log(`    ↻ ${contact.displayName}: ${changed.join(", ")}`);
+        updated++;
+      }
+
+      for (const field of changed) {
+        await writeToCharm({ apiUrl, space, charmId, path: field, data: fields[field] });
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.log(`    ✗ ${contact.displayName}: ${errorMsg}`);
+      continue;
+    }
+
+    for (const key of keys) index[key] = charmId;
+    lastWritten[charmId] = fields;
+    // Save as we go: creating charms is slow, and a rerun must not create duplicates
+    await saveConfig(config);
+    state.contacts = { ...state.contacts, people: lastWritten };
+    await saveState(state);
+  }
+
+  console.log(`  ✓ Person charms: ${created} created, ${updated} updated, ${unchanged} unchanged`);
+}
+
+async function cmdContacts(
+  useMock: boolean = false,
+  overrideCharmId?: string,
+  sourcePath?: string,
+  syncPeople: boolean = false
+): Promise<void> {
+  console.log("\n👥 Syncing Contacts...\n");
+
+  const config = await loadConfig();
+  const apiUrl = config.apiUrl || "http://localhost:8000";
+  const source = getSourceAdapter("contacts", config, useMock, sourcePath);
+
+  // Get charm ID from override, or validate/create
+  let charmId: string;
+  if (overrideCharmId) {
+    // User explicitly provided a charm ID - use it
+    charmId = overrideCharmId;
+  } else {
+    // Get or create charm (validates cached charms)
+    charmId = await getOrCreateCharm(apiUrl, config.space!, "contacts", config);
+  }
+
+  let contacts: Contact[];
+
+  if (source.format === "mock") {
+    console.log("  Mode: MOCK DATA (for testing)");
+    console.log(`  Target space: ${config.space}`);
+    console.log(`  Target charm: ${charmId}`);
+    console.log("\n  Generating mock contacts...");
+    contacts = await source.read({});
+    console.log(`  Generated ${contacts.length} mock contacts`);
+  } else {
+    console.log(`  Source: ${source.format === "apple" ? ADDRESS_BOOK_DIR : source.description}`);
+    console.log(`  Target space: ${config.space}`);
+    console.log(`  Target charm: ${charmId}`);
+    console.log("\n  Reading contacts...");
+
+    try {
+      contacts = await source.read({});
+      console.log(`  Found ${contacts.length} contacts`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.log(`\n❌ Error reading contacts: ${errorMsg}`);
+      if (source.format !== "apple") Deno.exit(1);
+      console.log("\n💡 Tips:");
+      console.log("   1. Grant Full Disk Access to your terminal:");
+      console.log("      System Settings > Privacy & Security > Full Disk Access");
+      console.log("   2. Or export contacts from Contacts.app (File > Export > Export vCard...)");
+      console.log("      and sync the file instead:\n");
+      console.log("      ./tools/apple-sync.ts contacts --source ~/Desktop/contacts.vcf\n");
+      Deno.exit(1);
+    }
+  }
+
+  if (contacts.length === 0) {
+    console.log("\n✅ No contacts found.\n");
+    return;
+  }
+
+  const startedAt = new Date().toISOString();
+
+  // Show sample of contacts
+  console.log("\n  Sample contacts:");
+  for (const c of contacts.slice(0, 5)) {
+    const detail = c.emails[0]?.value || c.phones[0]?.value || c.organization || "";
+    console.log(`    👤 ${c.displayName}${detail ? ` - ${detail}` : ""}`);
+  }
+  if (contacts.length > 5) {
+    console.log(`    ... and ${contacts.length - 5} more`);
+  }
+
+  // The address book is the source of truth, so the viewer gets the full list:
+  // contacts are always read in full, and ones no longer there are removed
+  const contactsForCharm = contacts.map(c => ({
+    ...c,
+    modificationDate: c.modificationDate?.toISOString() || null,
+  }));
+
+  console.log("\n  Writing to charm...");
+  try {
+    await syncRecords("contacts", apiUrl, config.space!, {
+      charmId,
+      source: source.id,
+      startedAt,
+      cursor: {},
+      records: contactsForCharm,
+      replace: true,
+    });
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.log(`\n❌ Error writing to charm: ${errorMsg}`);
+    Deno.exit(1);
+  }
+
+  if (syncPeople) {
+    const state = await loadState();
+    await syncPersonCharms(contacts, apiUrl, config.space!, config, state);
+  }
+
+  console.log(`\n✅ Synced contacts (${contacts.length} total)\n`);
+}
+
+// ===== SOURCE ADAPTERS =====
+
+// Each sync command reads its records through a source adapter, so the same
+// command can run against the real Apple data on a Mac, or against fixture
+// SQLite copies, .ics exports and JSON dumps on any machine.
+
+type SourceType = "imessage" | "calendar" | "reminders" | "notes" | "contacts";
+type SourceFormat = "apple" | "mock" | "sqlite" | "ics" | "vcf" | "json";
+
+interface SourceRecordTypes {
+  imessage: IMessage;
+  calendar: CalendarEvent;
+  reminders: Reminder;
+  notes: Note;
+  contacts: Contact;
+}
+
+interface SourceReadOptions {
+  sinceRowId?: number;        // iMessage: only messages after this row
+  daysBack?: number;          // Calendar: window around today
+  daysAhead?: number;
+  includeCompleted?: boolean; // Reminders
+  modifiedSince?: Date;       // Only records modified since (records without a modification date are kept)
+  windowEnd?: Date;           // Calendar, with modifiedSince: also events starting after the previous window's end
+}
+
+interface SourceAdapter<T> {
+  format: SourceFormat;
+  id: string;          // "apple", "mock" or "<format>:<path>"; sync state only carries over for the same id
+  description: string; // Shown in sync output and status
+  path?: string;       // File sources only
+  read(options: SourceReadOptions): Promise<T[]>;
+}
+
+type SourceReader<T> = (path: string, options: SourceReadOptions) => Promise<T[]>;
+
+// Readers per data type and format. "apple" and "mock" ignore the path.
+const SOURCE_READERS: { [K in SourceType]: Partial<Record<SourceFormat, SourceReader<SourceRecordTypes[K]>>> } = {
+  imessage: {
+    apple: (_path, options) => readIMessages(options.sinceRowId ?? 0),
+    mock: async () => generateMockMessages(20),
+    sqlite: (path, options) => readIMessages(options.sinceRowId ?? 0, path),
+    json: async (path, options) =>
+      (await readJsonDump(path, "messages", jsonToMessage)).filter(m => m.rowId > (options.sinceRowId ?? 0)),
+  },
+  calendar: {
+    apple: (_path, options) =>
+      readCalendarEvents(options.daysAhead ?? 30, options.daysBack ?? 7, options.modifiedSince, options.windowEnd),
+    mock: async () => generateMockCalendarEvents(15),
+    sqlite: async (path, options) => filterEventWindow(await readCalendarDb(path), options),
+    ics: async (path, options) => filterEventWindow(parseIcsEvents(await Deno.readTextFile(path), path), options),
+    json: async (path, options) => filterEventWindow(await readJsonDump(path, "events", jsonToCalendarEvent), options),
+  },
+  reminders: {
+    apple: (_path, options) =>
+      readReminders((options.includeCompleted ?? false) || !!options.modifiedSince, options.modifiedSince),
+    mock: async () => generateMockReminders(15),
+    sqlite: async (path, options) => filterCompleted(await readRemindersDb(path), options),
+    ics: async (path, options) => filterCompleted(parseIcsReminders(await Deno.readTextFile(path), path), options),
+    json: async (path, options) => filterCompleted(await readJsonDump(path, "reminders", jsonToReminder), options),
+  },
+  notes: {
+    apple: (_path, options) => readAppleNotes(options.modifiedSince),
+    mock: async () => generateMockNotes(12),
+    sqlite: (path, options) => readNotesDb(path, options.modifiedSince),
+    json: (path) => readJsonDump(path, "notes", jsonToNote),
+  },
+  contacts: {
+    apple: () => readContacts(),
+    mock: async () => generateMockContacts(12),
+    sqlite: async (path) => sortContacts(await readContactsDb(path)),
+    vcf: async (path) => parseVCards(await Deno.readTextFile(path), path),
+    json: (path) => readJsonDump(path, "contacts", jsonToContact),
+  },
+};
+
+const SOURCE_EXTENSIONS: Record<string, SourceFormat> = {
+  ".db": "sqlite",
+  ".sqlite": "sqlite",
+  ".sqlitedb": "sqlite",
+  ".abcddb": "sqlite",
+  ".ics": "ics",
+  ".vcf": "vcf",
+  ".json": "json",
+};
+
+function detectSourceFormat(path: string): SourceFormat {
+  const dot = path.lastIndexOf(".");
+  const format = dot === -1 ? undefined : SOURCE_EXTENSIONS[path.substring(dot).toLowerCase()];
+  if (!format) {
+    throw new Error(`Can't tell the format of ${path} (expected ${Object.keys(SOURCE_EXTENSIONS).join(", ")})`);
+  }
+  return format;
+}
+
+/**
+ * Pick the source for a data type: --mock, then an explicit --source path,
+ * then the path configured under "sources" in the config file, then Apple data
+ */
+function getSourceAdapter<K extends SourceType>(
+  type: K,
+  config: Config,
+  useMock: boolean = false,
+  sourcePath?: string
+): SourceAdapter<SourceRecordTypes[K]> {
+  const readers = SOURCE_READERS[type] as Partial<Record<SourceFormat, SourceReader<SourceRecordTypes[K]>>>;
+
+  if (useMock) {
+    return { format: "mock", id: "mock", description: "mock data", read: (options) => readers.mock!("", options) };
+  }
+
+  // Paths given on the command line are relative to the cwd, configured ones to the repo
+  const path = sourcePath
+    ? resolveSourcePath(sourcePath, Deno.cwd())
+    : config.sources?.[type]
+      ? resolveSourcePath(config.sources[type]!, REPO_ROOT)
+      : undefined;
+
+  if (!path) {
+    return {
+      format: "apple",
+      id: "apple",
+      description: "Apple data on this Mac",
+      read: async (options) => filterChanged(await readers.apple!("", options), options),
+    };
+  }
+
+  const format = detectSourceFormat(path);
+  const reader = readers[format];
+  if (!reader) {
+    const supported = Object.keys(readers).filter(f => f !== "apple" && f !== "mock");
+    throw new Error(`${type} can't be read from ${format} files (supported: ${supported.join(", ")})`);
+  }
+
+  return {
+    format,
+    id: `${format}:${path}`,
+    description: `${format} file ${path}`,
+    path,
+    read: async (options) => filterChanged(await reader(path, options), options),
+  };
+}
+
+function resolveSourcePath(path: string, baseDir: string): string {
+  if (path.startsWith("/")) return path;
+  return `${baseDir.replace(/\/$/, "")}/${path}`;
+}
+
+// Apple's Core Data timestamps are seconds since 2001-01-01 UTC
+const APPLE_EPOCH_MS = new Date("2001-01-01T00:00:00Z").getTime();
+
+function fromAppleTimestamp(seconds: number | null): Date | null {
+  return seconds === null || seconds === undefined ? null : new Date(APPLE_EPOCH_MS + seconds * 1000);
+}
+
+function toAppleTimestamp(date: Date): number {
+  return (date.getTime() - APPLE_EPOCH_MS) / 1000;
+}
+
+/**
+ * Run a query with the sqlite3 CLI and return the rows
+ */
+async function querySqlite<T>(dbPath: string, query: string): Promise<T[]> {
+  const command = new Deno.Command("sqlite3", {
+    args: [
+      "-json",  // Output as JSON for easy parsing
+      dbPath,
+      query,
+    ],
+    stdout: "piped",
+    stderr: "piped",
+  });
+
+  const output = await command.output();
+
+  if (!output.success) {
+    const stderr = new TextDecoder().decode(output.stderr);
+    throw new Error(stderr);
+  }
+
+  const stdout = new TextDecoder().decode(output.stdout).trim();
+  if (!stdout || stdout === "[]") {
+    return [];
+  }
+
+  return JSON.parse(stdout);
+}
+
+/**
+ * Core Data column names change between OS versions (ZTITLE1 vs ZTITLE2, ...).
+ * Returns the first candidate the table actually has.
+ */
+async function pickColumn(dbPath: string, table: string, candidates: string[]): Promise<string | null> {
+  const columns = await querySqlite<{ name: string }>(dbPath, `SELECT name FROM pragma_table_info('${table}')`);
+  const names = new Set(columns.map(c => c.name));
+  return candidates.find(c => names.has(c)) ?? null;
+}
+
+/**
+ * Read events from a copy of Calendar.sqlitedb
+ * (CalendarItem joined with Calendar and Location)
+ */
+async function readCalendarDb(dbPath: string): Promise<CalendarEvent[]> {
+  const modifiedColumn = await pickColumn(dbPath, "CalendarItem", ["last_modified"]);
+
+  interface CalendarRow {
+    uuid: string;
+    summary: string | null;
+    description: string | null;
+    start_date: number;
+    end_date: number | null;
+    all_day: number;
+    calendar_name: string | null;
+    location: string | null;
+    modified: number | null;
+  }
+
+  const rows = await querySqlite<CalendarRow>(dbPath, `
+    SELECT
+      CalendarItem.UUID AS uuid,
+      CalendarItem.summary,
+      CalendarItem.description,
+      CalendarItem.start_date,
+      CalendarItem.end_date,
+      CalendarItem.all_day,
+      Calendar.title AS calendar_name,
+      Location.title AS location,
+      ${modifiedColumn ? `CalendarItem.${modifiedColumn}` : "NULL"} AS modified
+    FROM CalendarItem
+    LEFT JOIN Calendar ON CalendarItem.calendar_id = Calendar.ROWID
+    LEFT JOIN Location ON CalendarItem.location_id = Location.ROWID
+    ORDER BY CalendarItem.start_date ASC
+  `);
+
+  return rows.map((row) => {
+    const startDate = fromAppleTimestamp(row.start_date)!;
+    return {
+      id: row.uuid,
+      title: row.summary || "(untitled)",
+      startDate,
+      endDate: fromAppleTimestamp(row.end_date) ?? startDate,
+      location: row.location || null,
+      notes: row.description || null,
+      calendarName: row.calendar_name || "Calendar",
+      isAllDay: row.all_day === 1,
+      modificationDate: fromAppleTimestamp(row.modified),
+    };
+  });
+}
+
+/**
+ * Read reminders from a copy of a Reminders store (Data-<UUID>.sqlite)
+ */
+async function readRemindersDb(dbPath: string): Promise<Reminder[]> {
+  const modifiedColumn = await pickColumn(dbPath, "ZREMCDREMINDER", ["ZLASTMODIFIEDDATE"]);
+
+  interface ReminderRow {
+    identifier: string;
+    title: string | null;
+    notes: string | null;
+    due_date: number | null;
+    completed: number | null;
+    completion_date: number | null;
+    priority: number | null;
+    list_name: string | null;
+    modified: number | null;
+  }
+
+  const rows = await querySqlite<ReminderRow>(dbPath, `
+    SELECT
+      ZREMCDREMINDER.ZCKIDENTIFIER AS identifier,
+      ZREMCDREMINDER.ZTITLE AS title,
+      ZREMCDREMINDER.ZNOTES AS notes,
+      ZREMCDREMINDER.ZDUEDATE AS due_date,
+      ZREMCDREMINDER.ZCOMPLETED AS completed,
+      ZREMCDREMINDER.ZCOMPLETIONDATE AS completion_date,
+      ZREMCDREMINDER.ZPRIORITY AS priority,
+      ZREMCDBASELIST.ZNAME AS list_name,
+      ${modifiedColumn ? `ZREMCDREMINDER.${modifiedColumn}` : "NULL"} AS modified
+    FROM ZREMCDREMINDER
+    LEFT JOIN ZREMCDBASELIST ON ZREMCDREMINDER.ZLIST = ZREMCDBASELIST.Z_PK
+    WHERE COALESCE(ZREMCDREMINDER.ZMARKEDFORDELETION, 0) = 0
+  `);
+
+  return rows.map((row) => ({
+    // Same ID format AppleScript reports, so records from both sources merge
+    id: `x-apple-reminder://${row.identifier}`,
+    title: row.title || "(untitled)",
+    notes: row.notes || null,
+    dueDate: fromAppleTimestamp(row.due_date),
+    isCompleted: row.completed === 1,
+    completionDate: fromAppleTimestamp(row.completion_date),
+    priority: row.priority || 0,
+    listName: row.list_name || "Reminders",
+    modificationDate: fromAppleTimestamp(row.modified),
+  }));
+}
+
+/**
+ * Read notes from NoteStore.sqlite (the live database or a copy), with bodies
+ * decoded to Markdown, folder paths and attachments
+ */
+async function readNotesDb(dbPath: string, modifiedSince?: Date): Promise<Note[]> {
+  const table = "ZICCLOUDSYNCINGOBJECT";
+  const titleColumn = await pickColumn(dbPath, table, ["ZTITLE1", "ZTITLE"]);
+  const folderTitleColumn = await pickColumn(dbPath, table, ["ZTITLE2", "ZTITLE"]);
+  const createdColumn = await pickColumn(dbPath, table, ["ZCREATIONDATE3", "ZCREATIONDATE1", "ZCREATIONDATE"]);
+  const modifiedColumn = await pickColumn(dbPath, table, ["ZMODIFICATIONDATE1", "ZMODIFICATIONDATE"]);
+  if (!titleColumn || !folderTitleColumn || !createdColumn || !modifiedColumn) {
+    throw new Error(`${dbPath} doesn't look like a NoteStore.sqlite database`);
+  }
+  const parentColumn = await pickColumn(dbPath, table, ["ZPARENT"]);
+  const attachmentNoteColumn = await pickColumn(dbPath, table, ["ZNOTE"]);
+  const column = async (candidates: string[], alias: string) => {
+    const name = await pickColumn(dbPath, table, candidates);
+    return name ? `${alias}.${name}` : "NULL";
+  };
+
+  interface NoteRow {
+    pk: number;
+    title: string | null;
+    snippet: string | null;
+    created: number | null;
+    modified: number | null;
+    folder_pk: number | null;
+    body_data: string | null; // Hex of ZICNOTEDATA.ZDATA
+  }
+
+  const rows = await querySqlite<NoteRow>(dbPath, `
+    SELECT
+      note.Z_PK AS pk,
+      note.${titleColumn} AS title,
+      note.ZSNIPPET AS snippet,
+      note.${createdColumn} AS created,
+      note.${modifiedColumn} AS modified,
+      note.ZFOLDER AS folder_pk,
+      HEX(data.ZDATA) AS body_data
+    FROM ${table} AS note
+    LEFT JOIN ZICNOTEDATA AS data ON data.ZNOTE = note.Z_PK
+    WHERE note.${titleColumn} IS NOT NULL
+      AND COALESCE(note.ZMARKEDFORDELETION, 0) = 0
+      ${modifiedSince ? `AND note.${modifiedColumn} >= ${toAppleTimestamp(modifiedSince)}` : ""}
+    ORDER BY note.${modifiedColumn} DESC
+  `);
+
+  // Folder paths follow ZPARENT up to the top-level folder
+  const folders = await querySqlite<{ pk: number; title: string | null; parent: number | null }>(dbPath, `
+    SELECT Z_PK AS pk, ${folderTitleColumn} AS title, ${parentColumn ?? "NULL"} AS parent
+    FROM ${table}
+    WHERE Z_PK IN (SELECT DISTINCT ZFOLDER FROM ${table} WHERE ZFOLDER IS NOT NULL)
+      ${parentColumn ? `OR Z_PK IN (SELECT DISTINCT ${parentColumn} FROM ${table} WHERE ${parentColumn} IS NOT NULL)` : ""}
+  `);
+  const folderByPk = new Map(folders.map(f => [f.pk, f]));
+  const folderPath = (pk: number | null): string => {
+    const names: string[] = [];
+    const seen = new Set<number>();
+    for (let folder = pk === null ? undefined : folderByPk.get(pk); folder && !seen.has(folder.pk);
+      folder = folder.parent === null ? undefined : folderByPk.get(folder.parent)) {
+      seen.add(folder.pk);
+      names.unshift(folder.title || "Notes");
+    }
+    return names.join("/") || "Notes";
+  };
+
+  // Attachments of the notes read, by note
+  const attachmentsByNote = new Map<number, NoteAttachmentRow[]>();
+  if (attachmentNoteColumn && rows.length > 0) {
+    const attachmentRows = await querySqlite<NoteAttachmentRow>(dbPath, `
+      SELECT
+        attachment.ZIDENTIFIER AS identifier,
+        attachment.ZTYPEUTI AS type,
+        attachment.${attachmentNoteColumn} AS note_pk,
+        ${await column([titleColumn, "ZTITLE"], "attachment")} AS title,
+        ${await column(["ZURLSTRING"], "attachment")} AS url,
+        ${await column(["ZALTTEXT"], "attachment")} AS alt_text,
+        ${await column(["ZFILENAME"], "media")} AS filename,
+        HEX(${await column(["ZMERGEABLEDATA1", "ZMERGEABLEDATA"], "attachment")}) AS mergeable
+      FROM ${table} AS attachment
+      LEFT JOIN ${table} AS media ON ${await column(["ZMEDIA"], "attachment")} = media.Z_PK
+      WHERE attachment.ZTYPEUTI IS NOT NULL
+        AND attachment.${attachmentNoteColumn} IN (${rows.map(r => r.pk).join(",")})
+        AND COALESCE(attachment.ZMARKEDFORDELETION, 0) = 0
+    `);
+    for (const attachment of attachmentRows) {
+      const existing = attachmentsByNote.get(attachment.note_pk) || [];
+      existing.push(attachment);
+      attachmentsByNote.set(attachment.note_pk, existing);
+    }
+  }
+
+  // AppleScript IDs look like x-coredata://<store UUID>/ICNote/p<Z_PK>
+  const metadata = await querySqlite<{ uuid: string }>(dbPath, "SELECT Z_UUID AS uuid FROM Z_METADATA LIMIT 1");
+  const storeUuid = metadata[0]?.uuid ?? "unknown";
+
+  const notes: Note[] = [];
+  for (const row of rows) {
+    const modificationDate = fromAppleTimestamp(row.modified) ?? new Date(0);
+    const attachmentRows = attachmentsByNote.get(row.pk) ?? [];
+
+    // Password-protected notes are encrypted; show the snippet Notes keeps for the list
+    let body = row.snippet || "";
+    if (row.body_data) {
+      try {
+        const byId = new Map(attachmentRows.map(a => [a.identifier, a]));
+        body = await noteBodyToMarkdown(await gunzipIfNeeded(hexToBytes(row.body_data)), byId);
+      } catch {
+        // Not a body we can decode
+      }
+    }
+
+    const path = folderPath(row.folder_pk);
+    notes.push({
+      id: `x-coredata://${storeUuid}/ICNote/p${row.pk}`,
+      title: row.title || "(untitled)",
+      body,
+      creationDate: fromAppleTimestamp(row.created) ?? modificationDate,
+      modificationDate,
+      folderName: path.split("/").pop()!,
+      folderPath: path,
+      attachments: attachmentRows
+        .filter(a => !a.type.startsWith(INLINE_ATTACHMENT_PREFIX))
+        .map(a => ({
+          id: a.identifier,
+          type: a.type,
+          name: a.filename || a.title || (a.type === TABLE_ATTACHMENT_TYPE ? "Table" : a.type),
+          url: a.url || null,
+        })),
+    });
+  }
+
+  return notes;
+}
+
+// ===== NOTES BODY DECODING =====
+
+// Note bodies in NoteStore.sqlite (ZICNOTEDATA.ZDATA) are gzipped protobufs: the
+// plain text plus "attribute runs" that style consecutive stretches of it. Tables
+// are attachments whose cells live in a separate CRDT protobuf (ZMERGEABLEDATA1).
+// Field numbers follow the reverse-engineered schema used by apple_cloud_notes_parser.
+
+type ProtoFields = Map<number, Array<number | Uint8Array>>;
+
+/**
+ * Decode one protobuf message into its fields (varints as numbers, everything
+ * length-delimited as bytes, decoded further by whoever knows the schema)
+ */
+function decodeProtobuf(bytes: Uint8Array): ProtoFields {
+  const fields: ProtoFields = new Map();
+  let pos = 0;
+
+  const varint = (): number => {
+    let result = 0;
+    let shift = 0;
+    while (pos < bytes.length) {
+      const byte = bytes[pos++];
+      result += (byte & 0x7f) * 2 ** shift;
+      if ((byte & 0x80) === 0) break;
+      shift += 7;
+    }
+    return result;
+  };
+
+  while (pos < bytes.length) {
+    const tag = varint();
+    const wireType = tag & 7;
+    let value: number | Uint8Array;
+    switch (wireType) {
+      case 0:
+        value = varint();
+        break;
+      case 1: // 64-bit fixed (unused by Notes)
+        value = 0;
+        pos += 8;
+        break;
+      case 2: {
+        const length = varint();
+        value = bytes.subarray(pos, pos + length);
+        pos += length;
+        break;
+      }
+      case 5: // 32-bit fixed (unused by Notes)
+        value = 0;
+        pos += 4;
+        break;
+      default:
+        throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+    const field = Math.floor(tag / 8);
+    fields.set(field, [...(fields.get(field) ?? []), value]);
+  }
+
+  return fields;
+}
+
+function protoInt(fields: ProtoFields, field: number, fallback: number = 0): number {
+  const value = fields.get(field)?.[0];
+  return typeof value === "number" ? value : fallback;
+}
+
+function protoBytes(fields: ProtoFields, field: number): Uint8Array | undefined {
+  const value = fields.get(field)?.[0];
+  return value instanceof Uint8Array ? value : undefined;
+}
+
+function protoString(fields: ProtoFields, field: number): string {
+  const value = protoBytes(fields, field);
+  return value ? new TextDecoder().decode(value) : "";
+}
+
+function protoMessage(fields: ProtoFields, field: number): ProtoFields {
+  const value = protoBytes(fields, field);
+  return value ? decodeProtobuf(value) : new Map();
+}
+
+function protoMessages(fields: ProtoFields, field: number): ProtoFields[] {
+  return (fields.get(field) ?? [])
+    .filter((value): value is Uint8Array => value instanceof Uint8Array)
+    .map(decodeProtobuf);
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+// Notes gzips its protobufs; older ones may be stored as is
+async function gunzipIfNeeded(bytes: Uint8Array): Promise<Uint8Array> {
+  if (bytes[0] !== 0x1f || bytes[1] !== 0x8b) return bytes;
+  const stream = new Blob([bytes.slice()]).stream().pipeThrough(new DecompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Paragraph styles (AttributeRun.paragraph_style.style_type)
+const NOTE_STYLE = {
+  title: 0,
+  heading: 1,
+  subheading: 2,
+  monospaced: 3,
+  dottedList: 100,
+  dashedList: 101,
+  numberedList: 102,
+  checklist: 103,
+} as const;
+
+// Inline attachments (hashtags, mentions, links) are shown as their text, not listed
+const INLINE_ATTACHMENT_PREFIX = "com.apple.notes.inlinetextattachment";
+const TABLE_ATTACHMENT_TYPE = "com.apple.notes.table";
+
+interface NoteAttachmentRow {
+  identifier: string;
+  type: string;
+  note_pk: number;
+  title: string | null;
+  url: string | null;
+  alt_text: string | null;
+  filename: string | null;
+  mergeable: string | null; // Hex; table cells for com.apple.notes.table
+}
+
+/**
+ * Rebuild a table attachment as rows of cell text.
+ *
+ * The table is a CRDT: an ICTable object points at ordered sets of row and column
+ * UUIDs and at a dictionary of column -> (row -> cell note).
+ */
+async function decodeNoteTable(mergeableHex: string): Promise<string[][]> {
+  const data = decodeProtobuf(await gunzipIfNeeded(hexToBytes(mergeableHex)));
+  const objectData = protoMessage(protoMessage(data, 2), 3);
+  const objects = protoMessages(objectData, 3);
+  const keys = (objectData.get(4) ?? []).map(k => new TextDecoder().decode(k as Uint8Array));
+  const types = (objectData.get(5) ?? []).map(t => new TextDecoder().decode(t as Uint8Array));
+  const uuids = (objectData.get(6) ?? []).map(u => Array.from(u as Uint8Array).join(","));
+
+  // Objects referencing a row or column hold its UUID index in their first map entry
+  const uuidIndexOf = (object: ProtoFields | undefined): number => {
+    const entry = object && protoMessages(protoMessage(object, 13), 3)[0];
+    return entry ? protoInt(protoMessage(entry, 2), 2, -1) : -1;
+  };
+  const objectAt = (id: ProtoFields): ProtoFields | undefined => objects[protoInt(id, 6, -1)];
+
+  // Position of each row or column UUID, following the set's ordering
+  const positions = (orderedSet: ProtoFields | undefined): Map<number, number> => {
+    const result = new Map<number, number>();
+    if (!orderedSet) return result;
+    const ordering = protoMessage(protoMessage(orderedSet, 16), 1);
+    protoMessages(protoMessage(ordering, 1), 2).forEach((attachment, position) => {
+      const uuid = Array.from(protoBytes(attachment, 2) ?? []).join(",");
+      result.set(uuids.indexOf(uuid), position);
+    });
+    // Elements can be stored under a different UUID than the ordering uses
+    for (const element of protoMessages(protoMessage(ordering, 2), 1)) {
+      const key = uuidIndexOf(objectAt(protoMessage(element, 1)));
+      const value = uuidIndexOf(objectAt(protoMessage(element, 2)));
+      if (result.has(key)) result.set(value, result.get(key)!);
+    }
+    return result;
+  };
+
+  const table = objects.find(o => types[protoInt(protoMessage(o, 13), 1, -1)] === "com.apple.notes.ICTable");
+  if (!table) return [];
+
+  const parts = new Map<string, ProtoFields | undefined>();
+  for (const entry of protoMessages(protoMessage(table, 13), 3)) {
+    parts.set(keys[protoInt(entry, 1, -1)], objectAt(protoMessage(entry, 2)));
+  }
+  const rowPositions = positions(parts.get("crRows"));
+  const columnPositions = positions(parts.get("crColumns"));
+
+  // Aliased UUIDs share a position, so count positions rather than entries
+  const count = (positions: Map<number, number>) => new Set(positions.values()).size;
+  const rows: string[][] = Array.from({ length: count(rowPositions) }, () => Array(count(columnPositions)).fill(""));
+  const cellColumns = parts.get("cellColumns");
+  for (const column of cellColumns ? protoMessages(protoMessage(cellColumns, 6), 1) : []) {
+    const columnPosition = columnPositions.get(uuidIndexOf(objectAt(protoMessage(column, 1))));
+    const cells = objectAt(protoMessage(column, 2));
+    if (columnPosition === undefined || !cells) continue;
+    for (const cell of protoMessages(protoMessage(cells, 6), 1)) {
+      const rowPosition = rowPositions.get(uuidIndexOf(objectAt(protoMessage(cell, 1))));
+      const cellNote = objectAt(protoMessage(cell, 2));
+      if (rowPosition === undefined || !cellNote) continue;
+      rows[rowPosition][columnPosition] = protoString(protoMessage(cellNote, 10), 2);
+    }
+  }
+  return rows;
+}
+
+function tableToMarkdown(rows: string[][]): string {
+  if (rows.length === 0 || rows[0].length === 0) return "";
+  const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\n/g, "<br>").trim();
+  const line = (row: string[]) => `| ${row.map(cell).join(" | ")} |`;
+  return [
+    line(rows[0]),
+    `| ${rows[0].map(() => "---").join(" | ")} |`,
+    ...rows.slice(1).map(line),
+  ].join("\n");
+}
+
+/**
+ * Markdown for an attachment at its place in the body
+ */
+async function noteAttachmentMarkdown(row: NoteAttachmentRow | undefined, type: string): Promise<string> {
+  if (type.startsWith(INLINE_ATTACHMENT_PREFIX)) return row?.alt_text ?? "";
+  if (type === TABLE_ATTACHMENT_TYPE && row?.mergeable) {
+    try {
+      const table = tableToMarkdown(await decodeNoteTable(row.mergeable));
+      if (table) return `\n\n${table}\n\n`;
+    } catch {
+      // Fall through to a placeholder
+    }
+  }
+  if (row?.url) return `[${row.title || row.url}](${row.url})`;
+  return `[Attachment: ${row?.filename || row?.title || type}]`;
+}
+
+// Wrap the text of a run in inline Markdown, keeping surrounding whitespace outside
+function styleNoteText(text: string, run: ProtoFields): string {
+  const [, lead, core, trail] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (!core) return text;
+  let styled = core;
+  const weight = protoInt(run, 5);
+  if (weight === 1 || weight === 3) styled = `**${styled}**`;
+  if (weight === 2 || weight === 3) styled = `*${styled}*`;
+  if (protoInt(run, 7) === 1) styled = `~~${styled}~~`;
+  const link = protoString(run, 9);
+  if (link) styled = `[${styled}](${link})`;
+  return lead + styled + trail;
+}
+
+/**
+ * Convert a decompressed note body to Markdown: headings, lists, checklists,
+ * monospaced blocks, quotes, bold/italic/strikethrough, links and tables
+ */
+async function noteBodyToMarkdown(body: Uint8Array, attachments: Map<string, NoteAttachmentRow>): Promise<string> {
+  const note = protoMessage(protoMessage(decodeProtobuf(body), 2), 3);
+  const text = protoString(note, 2);
+
+  // Split the runs into lines; a line takes the paragraph style of the run ending it
+  const lines: Array<{ markdown: string; style: ProtoFields }> = [];
+  let current = "";
+  let offset = 0;
+  const runs = protoMessages(note, 5);
+  for (const run of runs) {
+    const length = protoInt(run, 1);
+    const runText = text.substring(offset, offset + length);
+    offset += length;
+
+    const attachment = protoMessage(run, 12);
+    const attachmentId = protoString(attachment, 1);
+    const pieces = runText.split("\n");
+    for (let i = 0; i < pieces.length; i++) {
+      if (i > 0) {
+        lines.push({ markdown: current, style: protoMessage(run, 2) });
+        current = "";
+      }
+      current += attachmentId && pieces[i] === "\uFFFC"
+        ? await noteAttachmentMarkdown(attachments.get(attachmentId), protoString(attachment, 2))
+        : styleNoteText(pieces[i], run);
+    }
+  }
+  current += text.substring(offset);
+  if (current) lines.push({ markdown: current, style: runs.length > 0 ? protoMessage(runs[runs.length - 1], 2) : new Map() });
+
+  const output: string[] = [];
+  let inCodeBlock = false;
+  let listNumber = 0;
+  for (const { markdown, style } of lines) {
+    const styleType = protoInt(style, 1, -1);
+    const indent = "  ".repeat(protoInt(style, 4));
+
+    if ((styleType === NOTE_STYLE.monospaced) !== inCodeBlock) {
+      output.push("```");
+      inCodeBlock = !inCodeBlock;
+    }
+    listNumber = styleType === NOTE_STYLE.numberedList ? listNumber + 1 : 0;
+
+    let line: string;
+    switch (styleType) {
+      case NOTE_STYLE.title:
+        line = markdown.trim() ? `# ${markdown}` : markdown;
+        break;
+      case NOTE_STYLE.heading:
+        line = markdown.trim() ? `## ${markdown}` : markdown;
+        break;
+      case NOTE_STYLE.subheading:
+        line = markdown.trim() ? `### ${markdown}` : markdown;
+        break;
+      case NOTE_STYLE.dottedList:
+      case NOTE_STYLE.dashedList:
+        line = `${indent}- ${markdown}`;
+        break;
+      case NOTE_STYLE.numberedList:
+        line = `${indent}${listNumber}. ${markdown}`;
+        break;
+      case NOTE_STYLE.checklist: {
+        const done = protoInt(protoMessage(style, 5), 2) === 1;
+        line = `${indent}- [${done ? "x" : " "}] ${markdown}`;
+        break;
+      }
+      default:
+        line = markdown;
+    }
+    output.push(protoInt(style, 8) === 1 ? `> ${line}` : line);
+  }
+  if (inCodeBlock) output.push("```");
+
+  return output.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+// ===== ICS PARSING =====
+
+interface IcsProperty {
+  value: string;
+  params: Record<string, string>;
+}
+
+interface IcsComponent {
+  name: string;                              // VEVENT, VTODO, ...
+  properties: Record<string, IcsProperty>;   // First occurrence of each property
+  calendarName?: string;                     // X-WR-CALNAME of the enclosing VCALENDAR
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, ch) => (ch === "n" || ch === "N" ? "\n" : ch));
+}
+
+/**
+ * Split an iCalendar file into components. Only the properties this tool
+ * uses are interpreted; nested components (VALARM) are skipped.
+ */
+function parseIcsComponents(text: string, names: string[]): IcsComponent[] {
+  // Unfold continuation lines (RFC 5545 §3.1)
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const components: IcsComponent[] = [];
+  const stack: string[] = [];
+  let calendarName: string | undefined;
+  let current: IcsComponent | null = null;
+
+  for (const line of lines) {
+    if (!line) continue;
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+
+    const [name, ...paramParts] = line.substring(0, colon).split(";");
+    const key = name.toUpperCase();
+    const value = line.substring(colon + 1);
+
+    if (key === "BEGIN") {
+      stack.push(value.toUpperCase());
+      if (names.includes(value.toUpperCase()) && stack.length === 2) {
+        current = { name: value.toUpperCase(), properties: {}, calendarName };
+      }
+      continue;
+    }
+    if (key === "END") {
+      stack.pop();
+      if (current && stack.length === 1) {
+        components.push(current);
+        current = null;
+      }
+      continue;
+    }
+
+    if (stack.length === 1 && key === "X-WR-CALNAME") {
+      calendarName = unescapeIcsText(value);
+    } else if (current && stack.length === 2 && !current.properties[key]) {
+      const params: Record<string, string> = {};
+      for (const part of paramParts) {
+        const eq = part.indexOf("=");
+        if (eq !== -1) params[part.substring(0, eq).toUpperCase()] = part.substring(eq + 1).replace(/^"|"$/g, "");
+      }
+      current.properties[key] = { value, params };
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Parse DATE (20250102) or DATE-TIME (20250102T090000, with optional Z) values.
+ * TZID parameters are not resolved; such times are read as local time.
+ */
+function parseIcsDate(property: IcsProperty | undefined): { date: Date; isDate: boolean } | null {
+  if (!property) return null;
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (hour === undefined) {
+    return { date: new Date(Number(year), Number(month) - 1, Number(day)), isDate: true };
+  }
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)] as const;
+  return { date: utc ? new Date(Date.UTC(...parts)) : new Date(...parts), isDate: false };
+}
+
+function fileBaseName(path: string): string {
+  return (path.split("/").pop() || path).replace(/\.[^.]+$/, "");
+}
+
+/**
+ * Read VEVENTs from an .ics export. Recurring events appear once, at their
+ * first occurrence; RRULEs are not expanded.
+ */
+function parseIcsEvents(text: string, path: string): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+
+  for (const component of parseIcsComponents(text, ["VEVENT"])) {
+    const props = component.properties;
+    const start = parseIcsDate(props["DTSTART"]);
+    if (!start) continue;
+
+    const end = parseIcsDate(props["DTEND"]);
+    const recurrenceId = props["RECURRENCE-ID"]?.value;
+    events.push({
+      // Overrides of a recurring event share its UID
+      id: (props["UID"]?.value ?? `${path}#${events.length}`) + (recurrenceId ? `@${recurrenceId}` : ""),
+      title: props["SUMMARY"] ? unescapeIcsText(props["SUMMARY"].value) : "(untitled)",
+      startDate: start.date,
+      endDate: end?.date ?? (start.isDate ? new Date(start.date.getTime() + 24 * 60 * 60 * 1000) : start.date),
+      location: props["LOCATION"] ? unescapeIcsText(props["LOCATION"].value) || null : null,
+      notes: props["DESCRIPTION"] ? unescapeIcsText(props["DESCRIPTION"].value) || null : null,
+      calendarName: component.calendarName || fileBaseName(path),
+      isAllDay: start.isDate,
+    });
+  }
+
+  events.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  return events;
+}
+
+/**
+ * Read VTODOs from an .ics export (Reminders lists export as VTODO)
+ */
+function parseIcsReminders(text: string, path: string): Reminder[] {
+  return parseIcsComponents(text, ["VTODO"]).map((component, i) => {
+    const props = component.properties;
+    const completed = parseIcsDate(props["COMPLETED"]);
+    return {
+      id: props["UID"]?.value ?? `${path}#${i}`,
+      title: props["SUMMARY"] ? unescapeIcsText(props["SUMMARY"].value) : "(untitled)",
+      notes: props["DESCRIPTION"] ? unescapeIcsText(props["DESCRIPTION"].value) || null : null,
+      dueDate: parseIcsDate(props["DUE"])?.date ?? null,
+      isCompleted: props["STATUS"]?.value.toUpperCase() === "COMPLETED" || completed !== null,
+      completionDate: completed?.date ?? null,
+      priority: parseInt(props["PRIORITY"]?.value ?? "") || 0,
+      listName: component.calendarName || fileBaseName(path),
+    };
+  });
+}
+
+// ===== JSON DUMPS =====
+
+// JSON dumps use the same shape the viewer charms store (dates as ISO strings),
+// so `ct charm get ... messages > messages.json` output can be replayed.
+// The file may hold the array itself or an object with the charm's field name.
+async function readJsonDump<T>(
+  path: string,
+  field: string,
+  convert: (record: Record<string, unknown>) => T
+): Promise<T[]> {
+  const parsed = JSON.parse(await Deno.readTextFile(path));
+  const records = Array.isArray(parsed) ? parsed : parsed?.[field];
+  if (!Array.isArray(records)) {
+    throw new Error(`${path} must contain an array, or an object with a "${field}" array`);
+  }
+  return records.map((record, i) => {
+    if (!record || typeof record !== "object") {
+      throw new Error(`${path}: ${field}[${i}] is not an object`);
+    }
+    return convert(record);
+  });
+}
+
+function jsonDate(value: unknown): Date | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function jsonToMessage(record: Record<string, unknown>): IMessage {
+  const handleId = String(record.handleId ?? "unknown");
+  const tapback = record.tapback as Tapback | null | undefined;
+  return {
+    rowId: Number(record.rowId) || 0,
+    guid: String(record.guid ?? record.rowId),
+    text: typeof record.text === "string" ? record.text : null,
+    isFromMe: record.isFromMe === true,
+    date: jsonDate(record.date) ?? new Date(0),
+    chatId: String(record.chatId ?? "unknown"),
+    handleId,
+    // Dumps of the messages input don't carry chat details (no participants: no chat record)
+    chatName: null,
+    isGroup: false,
+    participants: [],
+    tapback: tapback?.targetGuid ? tapback : null,
+    attachments: Array.isArray(record.attachments)
+      ? record.attachments.map(a => ({
+        name: String(a?.name ?? "attachment"),
+        mimeType: typeof a?.mimeType === "string" ? a.mimeType : null,
+        size: Number(a?.size) || 0,
+        path: typeof a?.path === "string" ? a.path : null,
+      }))
+      : [],
+  };
+}
+
+function jsonToCalendarEvent(record: Record<string, unknown>): CalendarEvent {
+  const startDate = jsonDate(record.startDate) ?? new Date(0);
+  return {
+    id: String(record.id),
+    title: String(record.title ?? "(untitled)"),
+    startDate,
+    endDate: jsonDate(record.endDate) ?? startDate,
+    location: typeof record.location === "string" ? record.location : null,
+    notes: typeof record.notes === "string" ? record.notes : null,
+    calendarName: String(record.calendarName ?? "Calendar"),
+    isAllDay: record.isAllDay === true,
+  };
+}
+
+function jsonToReminder(record: Record<string, unknown>): Reminder {
+  return {
+    id: String(record.id),
+    title: String(record.title ?? "(untitled)"),
+    notes: typeof record.notes === "string" ? record.notes : null,
+    dueDate: jsonDate(record.dueDate),
+    isCompleted: record.isCompleted === true,
+    completionDate: jsonDate(record.completionDate),
+    priority: Number(record.priority) || 0,
+    listName: String(record.listName ?? "Reminders"),
+  };
+}
+
+function jsonToNote(record: Record<string, unknown>): Note {
+  const modificationDate = jsonDate(record.modificationDate) ?? new Date(0);
+  return {
+    id: String(record.id),
+    title: String(record.title ?? "(untitled)"),
+    body: String(record.body ?? ""),
+    creationDate: jsonDate(record.creationDate) ?? modificationDate,
+    modificationDate,
+    folderName: String(record.folderName ?? "Notes"),
+    folderPath: String(record.folderPath ?? record.folderName ?? "Notes"),
+    attachments: Array.isArray(record.attachments)
+      ? record.attachments.map(a => ({
+        id: String(a?.id ?? ""),
+        type: String(a?.type ?? ""),
+        name: String(a?.name ?? ""),
+        url: typeof a?.url === "string" ? a.url : null,
+      }))
+      : [],
+  };
+}
+
+function jsonToContact(record: Record<string, unknown>): Contact {
+  const entries = (value: unknown): ContactEntry[] =>
+    Array.isArray(value) ? value.map(e => ({ label: String(e?.label ?? "other"), value: String(e?.value ?? "") })) : [];
+  const givenName = String(record.givenName ?? "");
+  const familyName = String(record.familyName ?? "");
+  const nickname = String(record.nickname ?? "");
+  const organization = typeof record.organization === "string" ? record.organization : null;
+  return {
+    id: String(record.id),
+    displayName: String(record.displayName ?? contactDisplayName(givenName, familyName, nickname, organization)),
+    givenName,
+    familyName,
+    nickname,
+    organization,
+    jobTitle: typeof record.jobTitle === "string" ? record.jobTitle : null,
+    emails: entries(record.emails),
+    phones: entries(record.phones),
+    addresses: Array.isArray(record.addresses) ? record.addresses as ContactAddress[] : [],
+    birthday: typeof record.birthday === "string" ? record.birthday : null,
+    notes: typeof record.notes === "string" ? record.notes : null,
+    modificationDate: jsonDate(record.modificationDate),
+  };
+}
+
+// File sources hold everything; apply the same limits the AppleScript readers do
+function filterEventWindow(events: CalendarEvent[], options: SourceReadOptions): CalendarEvent[] {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const start = Date.now() - (options.daysBack ?? 7) * dayMs;
+  const end = Date.now() + (options.daysAhead ?? 30) * dayMs;
+  return events.filter(e => e.startDate.getTime() >= start && e.startDate.getTime() <= end);
+}
+
+/**
+ * Apply a change cursor to records from any source. Readers that can filter at the
+ * source do so too; this covers the rest. Records without a modification date are
+ * kept, as are events that have come into the calendar window since the last sync.
+ */
+function filterChanged<T>(records: T[], options: SourceReadOptions): T[] {
+  const since = options.modifiedSince?.getTime();
+  if (since === undefined) return records;
+  const windowEnd = options.windowEnd?.getTime();
+  return records.filter((record) => {
+    const { modificationDate, startDate } = record as { modificationDate?: Date | null; startDate?: Date };
+    if (!modificationDate || modificationDate.getTime() >= since) return true;
+    return windowEnd !== undefined && startDate !== undefined && startDate.getTime() > windowEnd;
+  });
+}
+
+// Incremental reads include completed reminders, so completions reach the charm
+function filterCompleted(reminders: Reminder[], options: SourceReadOptions): Reminder[] {
+  return options.includeCompleted || options.modifiedSince ? reminders : reminders.filter(r => !r.isCompleted);
+}
+
+// ===== MAIN =====
+
+/**
+ * Ensure we have a space configured, prompting if needed
+ */
+async function ensureSpace(overrideSpace?: string): Promise<void> {
+  const config = await loadConfig();
+
+  // If --space provided, save it
+  if (overrideSpace) {
+    config.space = overrideSpace;
+    config.apiUrl = config.apiUrl || "http://localhost:8000";
+    config.charms = config.charms || {};
+    await saveConfig(config);
+    console.log(`\n✅ Using space: ${overrideSpace}\n`);
+    return;
+  }
+
+  // If already configured, we're good
+  if (config.space) {
+    return;
+  }
+
+  // Prompt for space name
+  console.log("\n🍎 First-time setup\n");
+  const space = await prompt("Enter your space name");
+  if (!space) {
+    console.log("❌ Space name is required");
+    Deno.exit(1);
+  }
+
+  config.space = space;
+  config.apiUrl = "http://localhost:8000";
+  config.charms = {};
+  await saveConfig(config);
+  console.log(`\n✅ Configuration saved. Using space: ${space}\n`);
+}
+
+// ===== CALENDAR WRITE TYPES =====
+
+interface CalendarOutboxEvent {
+  id: string;
+  action?: "create" | "update" | "delete";  // Default: create
+  title: string;
+  calendarName: string;
+  startDate: string;  // YYYY-MM-DD
+  startTime: string;  // HH:MM
+  endTime: string;    // HH:MM
+  location?: string;
+  notes?: string;
+  recurrence?: {
+    frequency: "WEEKLY";
+    byDay: string;         // e.g., "MO" or "MO,WE,FR"
+    until?: string;        // YYYY-MM-DD
+  };
+}
+
+interface CalendarOutboxEntry {
+  id: string;
+  events: CalendarOutboxEvent[];
+  confirmation: {
+    timestamp: string;
+    dialogContent: {
+      displayedTitle: string;
+      displayedCalendar: string;
+      displayedEventCount: number;
+    };
+  };
+  execution: {
+    status: "pending" | "processing" | "completed" | "failed";
+    startedAt?: string;
+    completedAt?: string;
+    error?: string;
+    createdEventIds?: string[];
+    eventIds?: Record<string, string>;  // Outbox event ID -> Apple event UID
+  };
+  createdAt: string;
+}
+
+interface CalendarOutbox {
+  entries: CalendarOutboxEntry[];
+  lastUpdated: string;
+  version: string;
+}
+
+/**
+ * RRULE string (without the "RRULE:" prefix) for an outbox event, "" if it doesn't repeat
+ */
+function outboxRecurrenceRule(event: CalendarOutboxEvent): string {
+  if (!event.recurrence) return "";
+  // byDay is already in RRULE format (e.g., "MO" or "MO,WE,FR")
+  let rule = `FREQ=${event.recurrence.frequency};BYDAY=${event.recurrence.byDay}`;
+  if (event.recurrence.until) {
+    const until = event.recurrence.until.replace(/-/g, "");
+    rule += `;UNTIL=${until}T235959Z`;
+  }
+  return rule;
+}
+
+/**
+ * Create a calendar event in Apple Calendar via AppleScript
+ */
+async function createAppleCalendarEvent(
+  event: CalendarOutboxEvent
+): Promise<{ success: boolean; error?: string; eventId?: string }> {
+  // Build AppleScript to create the event
+  // Note: AppleScript calendar dates need to be in a specific format
+  const calendarName = event.calendarName.replace(/"/g, '\\"');
+  const title = event.title.replace(/"/g, '\\"');
+  const location = (event.location || "").replace(/"/g, '\\"');
+  const notes = (event.notes || "").replace(/"/g, '\\"');
+
+  // Parse date and times
+  const startDate = event.startDate; // YYYY-MM-DD
+  const [startHour, startMin] = event.startTime.split(":").map(Number);
+  const [endHour, endMin] = event.endTime.split(":").map(Number);
+
+  // Calculate duration in minutes
+  const durationMinutes = (endHour * 60 + endMin) - (startHour * 60 + startMin);
+
+  const recurrenceRule = outboxRecurrenceRule(event);
+
+  // AppleScript to create the event
+  // We use date string parsing that AppleScript understands
+  const script = `
     tell application "Calendar"
       tell calendar "${calendarName}"
         -- Parse the start date
@@ -2026,7 +4218,67 @@ async function createAppleCalendarEvent(
 }
 
 /**
- * Process the calendar outbox - read pending entries and create events in Apple Calendar
+ * Update or delete an event created by an earlier outbox entry, found by its Apple UID.
+ * Returns notFound when the event is no longer in the calendar.
+ */
+async function changeAppleCalendarEvent(
+  event: CalendarOutboxEvent,
+  appleEventId: string
+): Promise<{ success: boolean; error?: string; notFound?: boolean }> {
+  const [year, month, day] = event.startDate.split("-").map(Number);
+  const [startHour, startMin] = event.startTime.split(":").map(Number);
+  const [endHour, endMin] = event.endTime.split(":").map(Number);
+
+  const changeLines = event.action === "delete"
+    ? ["delete theEvent"]
+    : [
+      ...appleScriptDate("startDate", new Date(year, month - 1, day, startHour, startMin)),
+      ...appleScriptDate("endDate", new Date(year, month - 1, day, endHour, endMin)),
+      `set summary of theEvent to "${escapeAppleScript(event.title)}"`,
+      "set start date of theEvent to startDate",
+      "set end date of theEvent to endDate",
+      `set location of theEvent to "${escapeAppleScript(event.location || "")}"`,
+      `set description of theEvent to "${escapeAppleScript(event.notes || "")}"`,
+      `set recurrence of theEvent to "${outboxRecurrenceRule(event)}"`,
+    ];
+
+  const script = `
+    tell application "Calendar"
+      tell calendar "${escapeAppleScript(event.calendarName)}"
+        set matches to (every event whose uid is "${escapeAppleScript(appleEventId)}")
+        if (count of matches) is 0 then return "NOTFOUND"
+        set theEvent to item 1 of matches
+        ${changeLines.join("\n        ")}
+        return "OK"
+      end tell
+    end tell
+  `;
+
+  try {
+    const command = new Deno.Command("osascript", {
+      args: ["-e", script],
+      stdout: "piped",
+      stderr: "piped",
+    });
+
+    const output = await command.output();
+
+    if (!output.success) {
+      const stderr = new TextDecoder().decode(output.stderr);
+      return { success: false, error: stderr.trim() };
+    }
+
+    const stdout = new TextDecoder().decode(output.stdout).trim();
+    if (stdout === "NOTFOUND") return { success: false, notFound: true };
+    return { success: true };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return { success: false, error: errorMsg };
+  }
+}
+
+/**
+ * Process the calendar outbox - read pending entries and apply them to Apple Calendar
  */
 async function cmdCalendarWrite(overrideCharmId?: string): Promise<void> {
   console.log("\n📅 Processing Calendar Outbox...\n");
@@ -2081,6 +4333,20 @@ async function cmdCalendarWrite(overrideCharmId?: string): Promise<void> {
 
   console.log(`  Found ${pendingEntries.length} pending entries\n`);
 
+  // Apple event UIDs by outbox event ID, from every entry applied so far
+  const appleIds = new Map<string, string>();
+  for (const entry of outbox.entries) {
+    const { eventIds, createdEventIds } = entry.execution;
+    if (eventIds) {
+      for (const [id, appleId] of Object.entries(eventIds)) appleIds.set(id, appleId);
+    } else if (createdEventIds) {
+      // Older entries only created events, in order
+      createdEventIds.forEach((appleId, i) => {
+        if (entry.events[i]) appleIds.set(entry.events[i].id, appleId);
+      });
+    }
+  }
+
   // Process each pending entry
   for (const entry of pendingEntries) {
     console.log(`  Processing entry ${entry.id.substring(0, 12)}...`);
@@ -2091,18 +4357,47 @@ async function cmdCalendarWrite(overrideCharmId?: string): Promise<void> {
     entry.execution.status = "processing";
     entry.execution.startedAt = new Date().toISOString();
 
-    // Create each event
+    // Apply each event change
     const createdIds: string[] = [];
+    const eventIds: Record<string, string> = {};
     let hasError = false;
     let errorMessage = "";
 
     for (const event of entry.events) {
-      console.log(`      Creating: ${event.title}...`);
-      const result = await createAppleCalendarEvent(event);
+      const action = event.action || "create";
+      const appleId = appleIds.get(event.id);
+      let result: { success: boolean; error?: string; eventId?: string; notFound?: boolean } = {
+        success: false,
+        notFound: true,
+      };
+
+      if (action !== "create" && appleId) {
+        console.log(`      ${action === "delete" ? "Deleting" : "Updating"}: ${event.title}...`);
+        result = await changeAppleCalendarEvent(event, appleId);
+        if (result.success && action === "update") result.eventId = appleId;
+      }
+
+      let created = false;
+      if (result.notFound) {
+        if (action === "delete") {
+          console.log(`      Already removed: ${event.title}`);
+          result = { success: true };
+        } else {
+          console.log(`      Creating: ${event.title}...`);
+          result = await createAppleCalendarEvent(event);
+          created = true;
+        }
+      }
 
-      if (result.success && result.eventId) {
-        createdIds.push(result.eventId);
-        console.log(`        ✓ Created`);
+      if (result.success && (action === "delete" || result.eventId)) {
+        if (action === "delete") {
+          appleIds.delete(event.id);
+        } else if (result.eventId) {
+          appleIds.set(event.id, result.eventId);
+          eventIds[event.id] = result.eventId;
+          if (created) createdIds.push(result.eventId);
+        }
+        console.log(`        ✓ Done`);
       } else {
         hasError = true;
         errorMessage = result.error || "Unknown error";
@@ -2112,16 +4407,14 @@ async function cmdCalendarWrite(overrideCharmId?: string): Promise<void> {
     }
 
     // Update execution status
+    entry.execution.status = hasError ? "failed" : "completed";
+    entry.execution.completedAt = new Date().toISOString();
+    entry.execution.createdEventIds = createdIds;
+    entry.execution.eventIds = eventIds;
     if (hasError) {
-      entry.execution.status = "failed";
       entry.execution.error = errorMessage;
-      entry.execution.completedAt = new Date().toISOString();
-      entry.execution.createdEventIds = createdIds;
     } else {
-      entry.execution.status = "completed";
-      entry.execution.completedAt = new Date().toISOString();
-      entry.execution.createdEventIds = createdIds;
-      console.log(`    ✓ All ${entry.events.length} events created successfully`);
+      console.log(`    ✓ All ${entry.events.length} changes applied successfully`);
     }
   }
 
@@ -2143,6 +4436,463 @@ async function cmdCalendarWrite(overrideCharmId?: string): Promise<void> {
   console.log(`\n✅ Done: ${successCount} succeeded, ${failCount} failed\n`);
 }
 
+// ===== REMINDERS WRITE =====
+
+// Fields the reminders viewer can change
+interface ReminderFields {
+  title?: string;
+  notes?: string | null;
+  dueDate?: string | null;  // ISO timestamp
+  isCompleted?: boolean;
+  priority?: number;
+  listName?: string;
+}
+
+interface RemindersOutboxEntry {
+  id: string;
+  action: "create" | "update";
+  reminderId: string | null;  // Apple reminder ID (null for create)
+  changes: ReminderFields;
+  base: ReminderFields | null;  // The reminder as the viewer saw it when the edit was made
+  force?: boolean;  // User chose to keep their edit after a conflict
+  execution: {
+    status: "pending" | "processing" | "completed" | "failed" | "conflict";
+    startedAt?: string;
+    completedAt?: string;
+    error?: string;
+    reminderId?: string;  // Apple reminder ID that was created or updated
+    conflict?: {
+      appleModifiedAt: string;
+      lastSyncTime: string | null;
+      apple: ReminderFields;  // Current Apple values of the fields the entry changes
+    };
+  };
+  createdAt: string;
+}
+
+interface RemindersOutbox {
+  entries: RemindersOutboxEntry[];
+  lastUpdated: string;
+  version: string;
+}
+
+// A reminder as stored in the reminders viewer charm
+interface CharmReminder {
+  id: string;
+  title: string;
+  notes: string | null;
+  dueDate: string | null;
+  isCompleted: boolean;
+  completionDate: string | null;
+  priority: number;
+  listName: string;
+}
+
+const REMINDER_FIELDS: Array<keyof ReminderFields> = [
+  "title", "notes", "dueDate", "isCompleted", "priority", "listName",
+];
+
+/**
+ * Compare one reminder field, treating null and "" notes as equal and dates by instant
+ */
+function sameReminderValue(field: keyof ReminderFields, a: unknown, b: unknown): boolean {
+  if (field === "dueDate") {
+    const aTime = a ? new Date(a as string).getTime() : null;
+    const bTime = b ? new Date(b as string).getTime() : null;
+    return aTime === bTime;
+  }
+  if (field === "notes") return (a || "") === (b || "");
+  return a === b;
+}
+
+function reminderToFields(reminder: Reminder): ReminderFields {
+  return {
+    title: reminder.title,
+    notes: reminder.notes,
+    dueDate: reminder.dueDate?.toISOString() || null,
+    isCompleted: reminder.isCompleted,
+    priority: reminder.priority,
+    listName: reminder.listName,
+  };
+}
+
+/**
+ * Read a single reminder and its modification date from Reminders.app
+ */
+async function readAppleReminder(
+  reminderId: string
+): Promise<{ reminder: Reminder; modificationDate: Date | null } | null> {
+  // Notes go last so that "|" in a note doesn't shift the other fields
+  const script = `
+    tell application "Reminders"
+      try
+        set r to reminder id "${escapeAppleScript(reminderId)}"
+      on error
+        return "NOTFOUND"
+      end try
+
+      set rDueDate to "null"
+      try
+        set dd to due date of r
+        if dd is not missing value then set rDueDate to (dd as «class isot» as string)
+      end try
+
+      set rCompletionDate to "null"
+      try
+        set cd to completion date of r
+        if cd is not missing value then set rCompletionDate to (cd as «class isot» as string)
+      end try
+
+      set rModDate to "null"
+      try
+        set md to modification date of r
+        if md is not missing value then set rModDate to (md as «class isot» as string)
+      end try
+
+      return "REMINDER:" & (id of r) & "|" & (name of r) & "|" & rDueDate & "|" & (completed of r) & "|" & rCompletionDate & "|" & (priority of r) & "|" & (name of container of r) & "|" & rModDate & "|" & (body of r)
+    end tell
+  `;
+
+  const command = new Deno.Command("osascript", {
+    args: ["-e", script],
+    stdout: "piped",
+    stderr: "piped",
+  });
+
+  const output = await command.output();
+
+  if (!output.success) {
+    const stderr = new TextDecoder().decode(output.stderr);
+    throw new Error(`AppleScript error: ${stderr.trim()}`);
+  }
+
+  const stdout = new TextDecoder().decode(output.stdout).trim();
+  if (!stdout.startsWith("REMINDER:")) return null;
+
+  const parts = stdout.substring(9).split("|");
+  const [id, title, dueDateStr, completedStr, completionDateStr, priorityStr, listName, modDateStr] = parts;
+  const notes = parts.slice(8).join("|");
+
+  return {
+    reminder: {
+      id,
+      title,
+      notes: notes && notes !== "missing value" ? notes : null,
+      dueDate: parseAppleDate(dueDateStr),
+      isCompleted: completedStr === "true",
+      completionDate: parseAppleDate(completionDateStr),
+      priority: parseInt(priorityStr) || 0,
+      listName,
+    },
+    modificationDate: parseAppleDate(modDateStr),
+  };
+}
+
+/**
+ * Create or update a reminder in Reminders.app via AppleScript
+ */
+async function applyAppleReminderChange(
+  entry: RemindersOutboxEntry
+): Promise<{ success: boolean; error?: string; reminderId?: string }> {
+  const changes = entry.changes;
+  const setters: string[] = [];
+
+  if (changes.title !== undefined) {
+    setters.push(`set name of r to "${escapeAppleScript(changes.title)}"`);
+  }
+  if (changes.notes !== undefined) {
+    setters.push(`set body of r to "${escapeAppleScript(changes.notes || "")}"`);
+  }
+  if (changes.priority !== undefined) {
+    setters.push(`set priority of r to ${Math.max(0, Math.min(9, Math.round(changes.priority)))}`);
+  }
+  if (changes.dueDate !== undefined) {
+    if (changes.dueDate) {
+      setters.push(...appleScriptDate("dueDate", new Date(changes.dueDate)), "set due date of r to dueDate");
+    } else {
+      setters.push("set due date of r to missing value");
+    }
+  }
+  if (changes.isCompleted !== undefined) {
+    setters.push(`set completed of r to ${changes.isCompleted ? "true" : "false"}`);
+  }
+
+  const listName = changes.listName ? escapeAppleScript(changes.listName) : null;
+  let target: string;
+  if (entry.action === "create") {
+    const list = listName ? `list "${listName}"` : "default list";
+    target = `set r to make new reminder at end of reminders of ${list} with properties {name:"${escapeAppleScript(changes.title || "New Reminder")}"}`;
+  } else {
+    target = `set r to reminder id "${escapeAppleScript(entry.reminderId || "")}"`;
+    if (listName) setters.push(`move r to list "${listName}"`);
+  }
+
+  const script = `
+    tell application "Reminders"
+      ${target}
+      ${setters.join("\n      ")}
+      return id of r
+    end tell
+  `;
+
+  try {
+    const command = new Deno.Command("osascript", {
+      args: ["-e", script],
+      stdout: "piped",
+      stderr: "piped",
+    });
+
+    const output = await command.output();
+
+    if (!output.success) {
+      const stderr = new TextDecoder().decode(output.stderr);
+      return { success: false, error: stderr.trim() };
+    }
+
+    const reminderId = new TextDecoder().decode(output.stdout).trim();
+    return { success: true, reminderId };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return { success: false, error: errorMsg };
+  }
+}
+
+/**
+ * Check a pending update against the reminder's current state in Reminders.app.
+ *
+ * The viewer's copy of a reminder dates from the last sync (state.reminders.lastSyncTime).
+ * If Reminders.app modified the reminder after that and any field the entry changes no
+ * longer matches what the viewer saw, the reminder was edited on both sides. Values already
+ * equal to the requested change are not a conflict, and neither are changes this run wrote.
+ */
+function findReminderConflict(
+  entry: RemindersOutboxEntry,
+  apple: Reminder,
+  modificationDate: Date | null,
+  lastSyncTime: string | null,
+  written: ReminderFields | undefined
+): RemindersOutboxEntry["execution"]["conflict"] | null {
+  if (entry.force || !entry.base) return null;
+  if (!modificationDate) return null;
+  if (lastSyncTime && modificationDate.getTime() <= new Date(lastSyncTime).getTime()) return null;
+
+  const current = reminderToFields(apple);
+  const expected: ReminderFields = { ...entry.base, ...written };
+  const changed: ReminderFields = {};
+  let conflicting = false;
+
+  for (const field of REMINDER_FIELDS) {
+    if (entry.changes[field] === undefined) continue;
+    if (sameReminderValue(field, current[field], entry.changes[field])) continue;
+    if (!sameReminderValue(field, current[field], expected[field])) {
+      conflicting = true;
+    }
+    (changed as Record<string, unknown>)[field] = current[field];
+  }
+
+  if (!conflicting) return null;
+  return {
+    appleModifiedAt: modificationDate.toISOString(),
+    lastSyncTime,
+    apple: changed,
+  };
+}
+
+/**
+ * Apply pending entries from the reminders viewer's outbox to Reminders.app.
+ *
+ * Updates the outbox in the charm and returns the reminders that were created or
+ * changed, in the viewer's format, so the caller can merge them into the charm.
+ */
+async function processRemindersOutbox(
+  apiUrl: string,
+  space: string,
+  charmId: string,
+  lastSyncTime: string | null
+): Promise<CharmReminder[]> {
+  console.log("  Reading reminders outbox...");
+  const outbox = await readFromCharm<RemindersOutbox>({
+    apiUrl,
+    space,
+    charmId,
+    path: "remindersOutbox",
+  });
+
+  const pendingEntries = (outbox?.entries || []).filter(
+    (entry) => entry && entry.execution?.status === "pending"
+  );
+
+  if (!outbox || pendingEntries.length === 0) {
+    console.log("  No pending changes in outbox");
+    return [];
+  }
+
+  console.log(`  Found ${pendingEntries.length} pending changes`);
+
+  const applied = new Map<string, CharmReminder>();
+  const written = new Map<string, ReminderFields>();
+
+  for (const entry of pendingEntries) {
+    const label = entry.changes.title || entry.base?.title || entry.reminderId || entry.id;
+    console.log(`    ${entry.action === "create" ? "Creating" : "Updating"}: ${label}...`);
+
+    entry.execution.status = "processing";
+    entry.execution.startedAt = new Date().toISOString();
+
+    if (entry.action === "update") {
+      if (!entry.reminderId) {
+        entry.execution.status = "failed";
+        entry.execution.error = "Update has no reminder ID";
+        entry.execution.completedAt = new Date().toISOString();
+        console.log(`      ✗ Failed: ${entry.execution.error}`);
+        continue;
+      }
+
+      let current: Awaited<ReturnType<typeof readAppleReminder>>;
+      try {
+        current = await readAppleReminder(entry.reminderId);
+      } catch (error) {
+        entry.execution.status = "failed";
+        entry.execution.error = error instanceof Error ? error.message : String(error);
+        entry.execution.completedAt = new Date().toISOString();
+        console.log(`      ✗ Failed: ${entry.execution.error}`);
+        continue;
+      }
+
+      if (!current) {
+        entry.execution.status = "failed";
+        entry.execution.error = "Reminder no longer exists in Reminders.app";
+        entry.execution.completedAt = new Date().toISOString();
+        console.log(`      ✗ Failed: ${entry.execution.error}`);
+        continue;
+      }
+
+      const conflict = findReminderConflict(
+        entry,
+        current.reminder,
+        current.modificationDate,
+        lastSyncTime,
+        written.get(entry.reminderId)
+      );
+      if (conflict) {
+        // Leave both versions alone until the user picks one in the viewer
+        entry.execution.status = "conflict";
+        entry.execution.conflict = conflict;
+        entry.execution.completedAt = new Date().toISOString();
+        console.log(`      ⚠️  Conflict: also edited in Reminders.app at ${new Date(conflict.appleModifiedAt).toLocaleString()}`);
+        continue;
+      }
+    }
+
+    const result = await applyAppleReminderChange(entry);
+    entry.execution.completedAt = new Date().toISOString();
+
+    if (!result.success || !result.reminderId) {
+      entry.execution.status = "failed";
+      entry.execution.error = result.error || "Unknown error";
+      console.log(`      ✗ Failed: ${entry.execution.error}`);
+      continue;
+    }
+
+    entry.execution.status = "completed";
+    entry.execution.reminderId = result.reminderId;
+    delete entry.execution.conflict;
+    written.set(result.reminderId, { ...written.get(result.reminderId), ...entry.changes });
+    console.log(`      ✓ Done`);
+
+    // Read back so the charm reflects what Reminders.app actually stored
+    const stored = await readAppleReminder(result.reminderId).catch(() => null);
+    if (stored) {
+      const r = stored.reminder;
+      applied.set(r.id, {
+        id: r.id,
+        title: r.title,
+        notes: r.notes,
+        dueDate: r.dueDate?.toISOString() || null,
+        isCompleted: r.isCompleted,
+        completionDate: r.completionDate?.toISOString() || null,
+        priority: r.priority,
+        listName: r.listName,
+      });
+    }
+  }
+
+  // Write updated outbox back to charm
+  outbox.lastUpdated = new Date().toISOString();
+  await writeToCharm({
+    apiUrl,
+    space,
+    charmId,
+    path: "remindersOutbox",
+    data: outbox,
+  });
+
+  const count = (status: string) => pendingEntries.filter((e) => e.execution.status === status).length;
+  const conflicts = count("conflict");
+  console.log(`  Outbox: ${count("completed")} applied, ${count("failed")} failed, ${conflicts} conflicts`);
+  if (conflicts > 0) {
+    console.log("  💡 Resolve conflicts in the reminders viewer (keep your edit or discard it)");
+  }
+
+  return Array.from(applied.values());
+}
+
+/**
+ * Process the reminders outbox on its own - apply pending viewer edits to Reminders.app
+ * and update the affected reminders in the charm
+ */
+async function cmdRemindersWrite(overrideCharmId?: string): Promise<void> {
+  console.log("\n✅ Processing Reminders Outbox...\n");
+
+  const config = await loadConfig();
+  const apiUrl = config.apiUrl || "http://localhost:8000";
+
+  if (!config.space) {
+    console.log("❌ No space configured. Run 'apple-sync --all' first to configure.");
+    Deno.exit(1);
+  }
+
+  const state = await loadState();
+  if (state.reminders?.source && state.reminders.source !== "apple") {
+    console.log(`❌ Reminders were last synced from ${state.reminders.source}, not Reminders.app.`);
+    console.log("   Run './tools/apple-sync.ts reminders' first so edits are checked against Apple data.");
+    Deno.exit(1);
+  }
+
+  let charmId: string | null = overrideCharmId || config.charms?.reminders || null;
+
+  if (!charmId) {
+    console.log("  Looking for reminders charm...");
+    charmId = await findCharmByPattern(apiUrl, config.space, "reminders");
+
+    if (!charmId) {
+      console.log("❌ No reminders charm found in space.");
+      console.log("   Run './tools/apple-sync.ts reminders' first.");
+      Deno.exit(1);
+    }
+  }
+
+  console.log(`  Found charm: ${charmId.substring(0, 20)}...`);
+
+  const applied = await processRemindersOutbox(
+    apiUrl,
+    config.space,
+    charmId,
+    state.reminders?.lastSyncTime || null
+  );
+
+  if (applied.length === 0) {
+    console.log("\n✅ Nothing to update.\n");
+    return;
+  }
+
+  // Update the changed reminders in the charm without a full sync
+  console.log("\n  Updating reminders in charm...");
+  await upsertCharmRecords("reminders", apiUrl, config.space, charmId, applied);
+
+  console.log(`\n✅ Updated ${applied.length} reminders\n`);
+}
+
 /**
  * Run a single sync cycle for specified sources
  */
@@ -2150,22 +4900,28 @@ async function runSyncCycle(
   sources: string[],
   useMock: boolean,
   overrideCharmId?: string,
-  daysBack: number = 30
+  daysBack: number = 30,
+  sourcePath?: string,
+  syncPeople: boolean = false,
+  fullSync: boolean = false
 ): Promise<void> {
   for (const source of sources) {
     try {
       switch (source) {
         case "imessage":
-          await cmdImessage(useMock, overrideCharmId);
+          await cmdImessage(useMock, overrideCharmId, sourcePath, fullSync);
           break;
         case "calendar":
-          await cmdCalendar(useMock, overrideCharmId, daysBack);
+          await cmdCalendar(useMock, overrideCharmId, daysBack, sourcePath, fullSync);
           break;
         case "reminders":
-          await cmdReminders(useMock, overrideCharmId);
+          await cmdReminders(useMock, overrideCharmId, sourcePath, fullSync);
           break;
         case "notes":
-          await cmdNotes(useMock, overrideCharmId);
+          await cmdNotes(useMock, overrideCharmId, sourcePath, fullSync);
+          break;
+        case "contacts":
+          await cmdContacts(useMock, overrideCharmId, sourcePath, syncPeople);
           break;
       }
     } catch (error) {
@@ -2184,27 +4940,42 @@ async function runDaemon(
   intervalMinutes: number,
   useMock: boolean,
   overrideCharmId?: string,
-  daysBack: number = 30
+  daysBack: number = 30,
+  sourcePath?: string,
+  syncPeople: boolean = false,
+  fullSync: boolean = false
 ): Promise<void> {
   console.log(`\n🔄 Starting daemon mode (syncing every ${intervalMinutes} minute${intervalMinutes === 1 ? '' : 's'})`);
   console.log(`   Sources: ${sources.join(", ")}`);
   console.log(`   Press Ctrl+C to stop\n`);
 
-  // Run initial sync
+  // Run initial sync (--full only applies to this one; later cycles continue from its cursors)
+  let syncing = true;
   console.log(`\n━━━ Sync at ${new Date().toLocaleTimeString()} ━━━`);
-  await runSyncCycle(sources, useMock, overrideCharmId, daysBack);
+  await runSyncCycle(sources, useMock, overrideCharmId, daysBack, sourcePath, syncPeople, fullSync);
+  syncing = false;
 
   // Set up interval
   const intervalMs = intervalMinutes * 60 * 1000;
 
   // Use setInterval for recurring syncs
   const intervalId = setInterval(async () => {
+    // Skip this tick if the previous cycle is still running
+    if (syncing) return;
+    syncing = true;
     console.log(`\n━━━ Sync at ${new Date().toLocaleTimeString()} ━━━`);
-    await runSyncCycle(sources, useMock, overrideCharmId, daysBack);
+    try {
+      await runSyncCycle(sources, useMock, overrideCharmId, daysBack, sourcePath, syncPeople);
+    } finally {
+      syncing = false;
+    }
   }, intervalMs);
 
   // Handle graceful shutdown
   const shutdown = () => {
+    if (syncing) {
+      console.log("\n\n⚠️  Stopped mid-sync; the next run resumes it from the journal");
+    }
     console.log("\n\n👋 Daemon stopped");
     clearInterval(intervalId);
     Deno.exit(0);
@@ -2228,6 +4999,8 @@ async function main(): Promise<void> {
   const command = args[0];
   const useMock = args.includes("--mock");
   const isDaemon = args.includes("--daemon");
+  const syncPeople = args.includes("--people");
+  const fullSync = args.includes("--full");
 
   // Parse --charm argument
   const charmIndex = args.indexOf("--charm");
@@ -2247,6 +5020,12 @@ async function main(): Promise<void> {
     ? parseInt(args[intervalIndex + 1]) || 5
     : 5;
 
+  // Parse --source argument (file to read instead of Apple data)
+  const sourceIndex = args.indexOf("--source");
+  const sourcePath = sourceIndex !== -1 && args[sourceIndex + 1]
+    ? args[sourceIndex + 1]
+    : undefined;
+
   // Parse --days-back argument (default 30 days)
   const daysBackIndex = args.indexOf("--days-back");
   const daysBack = daysBackIndex !== -1 && args[daysBackIndex + 1]
@@ -2268,6 +5047,11 @@ async function main(): Promise<void> {
     return;
   }
 
+  if (command === "reminders-write") {
+    await cmdRemindersWrite(overrideCharmId);
+    return;
+  }
+
   // Determine which sources to sync
   let sources: string[] = [];
   switch (command) {
@@ -2286,8 +5070,11 @@ async function main(): Promise<void> {
     case "notes":
       sources = ["notes"];
       break;
+    case "contacts":
+      sources = ["contacts"];
+      break;
     case "--all":
-      sources = ["imessage", "calendar", "reminders", "notes"];
+      sources = ["imessage", "calendar", "reminders", "notes", "contacts"];
       break;
     default:
       console.log(`Unknown command: ${command}`);
@@ -2295,11 +5082,18 @@ async function main(): Promise<void> {
       Deno.exit(1);
   }
 
+  // One file can only stand in for one data type; use "sources" in the config for --all
+  if (sourcePath && sources.length > 1) {
+    console.log("❌ --source can only be used when syncing a single data type");
+    console.log(`   To use files for several types, set "sources" in ${CONFIG_FILE}`);
+    Deno.exit(1);
+  }
+
   // Run in daemon mode or single sync
   if (isDaemon) {
-    await runDaemon(sources, intervalMinutes, useMock, overrideCharmId, daysBack);
+    await runDaemon(sources, intervalMinutes, useMock, overrideCharmId, daysBack, sourcePath, syncPeople, fullSync);
   } else {
-    await runSyncCycle(sources, useMock, overrideCharmId, daysBack);
+    await runSyncCycle(sources, useMock, overrideCharmId, daysBack, sourcePath, syncPeople, fullSync);
   }
 }
 
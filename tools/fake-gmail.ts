@@ -0,0 +1,1242 @@
+#!/usr/bin/env -S deno run --allow-net --allow-read
+/// <reference lib="deno.ns" />
+
+/**
+ * Fake Gmail API
+ * Serves a fixture corpus (JSON or mbox) through the Gmail REST endpoints used by
+ * GmailClient, so the Gmail patterns can be run deterministically without an account
+ */
+
+// ===== CONFIGURATION =====
+
+const DEFAULT_PORT = 8765;
+const DEFAULT_EMAIL = "me@example.com";
+const DEFAULT_PAGE_SIZE = 100; // Gmail's default maxResults for list calls
+const MAX_PAGE_SIZE = 500;
+const MAX_BATCH_SIZE = 100; // Gmail rejects batches with more requests
+const FIRST_HISTORY_ID = 1000;
+
+const SYSTEM_LABELS = [
+  "INBOX",
+  "SENT",
+  "DRAFT",
+  "SPAM",
+  "TRASH",
+  "UNREAD",
+  "STARRED",
+  "IMPORTANT",
+  "CHAT",
+  "CATEGORY_PERSONAL",
+  "CATEGORY_SOCIAL",
+  "CATEGORY_PROMOTIONS",
+  "CATEGORY_UPDATES",
+  "CATEGORY_FORUMS",
+];
+
+// Google Takeout mbox label names that differ from the system label IDs
+const TAKEOUT_LABELS: Record<string, string | null> = {
+  drafts: "DRAFT",
+  opened: null, // Takeout marks read messages; Gmail only has UNREAD
+  archived: null, // Takeout marks messages without INBOX
+};
+
+const STATUS_TEXT: Record<number, string> = {
+  200: "OK",
+  204: "No Content",
+  400: "Bad Request",
+  401: "Unauthorized",
+  404: "Not Found",
+  405: "Method Not Allowed",
+};
+
+// ===== TYPES =====
+
+/** A message in a JSON fixture. Either `raw` or the structured fields are used. */
+interface FixtureMessage {
+  id?: string;
+  threadId?: string;
+  labelIds?: string[];     // System label IDs or user label names
+  raw?: string;            // Full RFC 822 source instead of the fields below
+  from?: string;
+  to?: string;
+  cc?: string;
+  subject?: string;
+  date?: string;           // Anything Date can parse
+  messageId?: string;      // Message-ID header
+  inReplyTo?: string;      // Message-ID of the parent; threads the two messages
+  headers?: Record<string, string>;
+  text?: string;
+  html?: string;
+  attachments?: FixtureAttachment[];
+}
+
+interface FixtureAttachment {
+  filename: string;
+  mimeType: string;
+  content?: string;        // Text content
+  data?: string;           // Base64 (standard or URL-safe) content
+  contentId?: string;      // Inline part, referenced from HTML as cid:<contentId>
+}
+
+interface FixtureFile {
+  emailAddress?: string;
+  messages: FixtureMessage[];
+}
+
+interface Header {
+  name: string;
+  value: string;
+}
+
+/** MIME part in the Gmail API's format */
+interface MessagePart {
+  partId: string;
+  mimeType: string;
+  filename: string;
+  headers: Header[];
+  body: { size: number; data?: string; attachmentId?: string };
+  parts?: MessagePart[];
+}
+
+interface StoredMessage {
+  id: string;
+  threadId: string;
+  labelIds: string[];
+  internalDate: number;
+  historyId: number;
+  snippet: string;
+  raw: string;
+  payload: MessagePart;
+  attachments: Map<string, Uint8Array>;  // By attachmentId
+  searchText: string;                    // Lowercased headers and body text
+}
+
+interface Label {
+  id: string;
+  name: string;
+  type: "system" | "user";
+}
+
+interface HistoryRecord {
+  id: number;
+  messageId: string;
+  threadId: string;
+  type: "messageAdded" | "messageDeleted" | "labelAdded" | "labelRemoved";
+  labelIds: string[];  // Labels changed, or the message's labels when added
+}
+
+interface Mailbox {
+  emailAddress: string;
+  messages: Map<string, StoredMessage>;
+  labels: Map<string, Label>;
+  historyId: number;     // Messages loaded at startup all share the first one
+  historyFloor: number;  // Older startHistoryIds get 404, like expired history in Gmail
+  history: HistoryRecord[];
+  nextIndex: number;
+  threadsByMessageId: Map<string, string>;  // Message-ID header -> threadId
+}
+
+interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+interface QueryTerm {
+  negate: boolean;
+  operator: string;
+  value: string;
+}
+
+// ===== HELP =====
+
+function printHelp(): void {
+  console.log(`
+Fake Gmail API
+Local stand-in for the Gmail API, for running Gmail patterns offline
+
+USAGE:
+  ./tools/fake-gmail.ts [options]
+
+OPTIONS:
+  --corpus <file>   Messages to serve: .json fixture or .mbox (e.g. a Google Takeout
+                    export). Without it, a small built-in sample corpus is served.
+  --port <n>        Port to listen on (default: ${DEFAULT_PORT})
+  --email <addr>    Address returned by the profile endpoint (default: ${DEFAULT_EMAIL})
+  --token <token>   Only accept this bearer token (default: any non-empty token)
+  --latency <ms>    Delay every response, to exercise loading states
+  --quiet           Don't log requests
+  --help            Show this help message
+
+EXAMPLES:
+  ./tools/fake-gmail.ts                           # Serve the sample corpus
+  ./tools/fake-gmail.ts --corpus fixtures/inbox.json
+  ./tools/fake-gmail.ts --corpus ~/Takeout/Mail/All\\ mail.mbox --latency 300
+
+PATTERNS:
+  Set the pattern's Gmail API base URL (apiBaseUrl) to http://localhost:<port> and
+  link an auth with any token (and a user email, for gmail-agentic-search):
+    ct charm set ... linkedAuth '{"token":"fake","user":{"email":"${DEFAULT_EMAIL}"}}'
+
+ENDPOINTS:
+  GET  /gmail/v1/users/me/profile
+  GET  /gmail/v1/users/me/labels
+  GET  /gmail/v1/users/me/messages?q=&maxResults=&pageToken=&labelIds=
+  GET  /gmail/v1/users/me/messages/<id>?format=full|metadata|minimal|raw
+  GET  /gmail/v1/users/me/messages/<id>/attachments/<attachmentId>
+  GET  /gmail/v1/users/me/history?startHistoryId=&maxResults=&pageToken=&labelId=
+  POST /gmail/v1/users/me/messages/<id>/modify     {"addLabelIds": [...], "removeLabelIds": [...]}
+  POST /gmail/v1/users/me/messages/batchModify     {"ids": [...], "addLabelIds": [...], ...}
+  POST /gmail/v1/users/me/messages/send            {"raw": "<base64url RFC 2822>", "threadId": "..."}
+  POST /batch/gmail/v1
+
+  Search supports from: to: cc: subject: in: label: is: has:attachment filename:
+  category: after: before: newer_than: older_than: rfc822msgid:, quoted
+  phrases, -negation, OR and {braces}. Other words match headers and body text.
+
+CHANGING THE MAILBOX (no auth needed; each change is recorded in history):
+  POST   /fake/messages              Add messages (JSON fixture message or array)
+  DELETE /fake/messages/<id>         Delete a message
+  POST   /fake/messages/<id>/labels  Change labels: {"add": [...], "remove": [...]}
+  POST   /fake/expire-history        Make all current history IDs expire (404)
+  GET    /fake                       Mailbox summary
+
+JSON FIXTURES:
+  { "emailAddress": "me@example.com", "messages": [ {
+      "from": "Ann <ann@example.com>", "subject": "Hi", "date": "2025-11-03T09:00:00Z",
+      "labelIds": ["INBOX", "UNREAD", "demo"], "text": "...", "html": "<p>...</p>",
+      "attachments": [{ "filename": "a.ics", "mimeType": "text/calendar", "content": "..." }]
+  } ] }
+  A plain array of messages also works. Messages without an id get a stable one
+  from their position, and replies (inReplyTo) join their parent's thread.
+`);
+}
+
+// ===== ENCODING =====
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_");
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/-/g, "+").replace(/_/g, "/").replace(/\s+/g, ""));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function decodeQuotedPrintable(text: string): Uint8Array {
+  const chars = Array.from(text.replace(/=\r?\n/g, ""));
+  const encoder = new TextEncoder();
+  const bytes: number[] = [];
+  for (let i = 0; i < chars.length; i++) {
+    const hex = chars[i] === "=" ? `${chars[i + 1] ?? ""}${chars[i + 2] ?? ""}` : "";
+    if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...encoder.encode(chars[i]));
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function decodeText(bytes: Uint8Array, charset = "utf-8"): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+/**
+ * Decode RFC 2047 encoded words (=?UTF-8?B?...?=), as the Gmail API does for header values
+ */
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, "$1")
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (match, charset: string, encoding: string, text: string) => {
+      try {
+        const bytes = encoding.toUpperCase() === "B"
+          ? base64ToBytes(text)
+          : decodeQuotedPrintable(text.replace(/_/g, " "));
+        return new TextDecoder(charset).decode(bytes);
+      } catch {
+        return match;
+      }
+    });
+}
+
+function encodeHeaderValue(value: string): string {
+  // deno-lint-ignore no-control-regex
+  return /^[\x00-\x7F]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${bytesToBase64(new TextEncoder().encode(value))}?=`;
+}
+
+// ===== MIME PARSING =====
+
+function parseHeaders(block: string): Header[] {
+  const headers: Header[] = [];
+  for (const line of block.split("\n")) {
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      headers[headers.length - 1].value += ` ${line.trim()}`;
+      continue;
+    }
+    const colon = line.indexOf(":");
+    if (colon > 0) {
+      headers.push({ name: line.slice(0, colon).trim(), value: line.slice(colon + 1).trim() });
+    }
+  }
+  return headers.map(({ name, value }) => ({ name, value: decodeEncodedWords(value) }));
+}
+
+function headerValue(headers: Header[], name: string): string {
+  return headers.find((h) => h.name.toLowerCase() === name.toLowerCase())?.value ?? "";
+}
+
+/** A parameter of a structured header, e.g. the boundary of a Content-Type */
+function headerParam(value: string, param: string): string | undefined {
+  const match = value.match(new RegExp(`;\\s*${param}\\*?=\\s*("([^"]*)"|[^;\\s]*)`, "i"));
+  if (!match) return undefined;
+  return match[2] ?? match[1];
+}
+
+function splitEntity(text: string): { headerBlock: string; body: string } {
+  if (text.startsWith("\n")) return { headerBlock: "", body: text.slice(1) };
+  const end = text.indexOf("\n\n");
+  if (end === -1) return { headerBlock: text, body: "" };
+  return { headerBlock: text.slice(0, end), body: text.slice(end + 2) };
+}
+
+/** The sections of a multipart body, without the preamble and epilogue */
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const sections: string[] = [];
+  let current: string[] | null = null;
+  for (const line of body.split("\n")) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `${delimiter}--`) break;
+    if (trimmed === delimiter) {
+      if (current) sections.push(current.join("\n"));
+      current = [];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  if (current) sections.push(current.join("\n"));
+  return sections;
+}
+
+/**
+ * Parse a MIME entity into the Gmail API's part format. Leaves with a filename
+ * become attachments: their content is stored under an attachmentId instead of
+ * being inlined as body.data, as Gmail does.
+ */
+function parseEntity(text: string, partId: string, attachments: Map<string, Uint8Array>): MessagePart {
+  const { headerBlock, body } = splitEntity(text);
+  const headers = parseHeaders(headerBlock);
+  const contentType = headerValue(headers, "Content-Type") || "text/plain";
+  const mimeType = contentType.split(";")[0].trim().toLowerCase();
+
+  if (mimeType.startsWith("multipart/")) {
+    const boundary = headerParam(contentType, "boundary");
+    const sections = boundary ? splitMultipart(body, boundary) : [];
+    return {
+      partId,
+      mimeType,
+      filename: "",
+      headers,
+      body: { size: 0 },
+      parts: sections.map((section, index) =>
+        parseEntity(section, partId === "" ? `${index}` : `${partId}.${index}`, attachments)
+      ),
+    };
+  }
+
+  const encoding = headerValue(headers, "Content-Transfer-Encoding").toLowerCase();
+  let bytes: Uint8Array;
+  try {
+    bytes = encoding === "base64"
+      ? base64ToBytes(body)
+      : encoding === "quoted-printable"
+      ? decodeQuotedPrintable(body)
+      : new TextEncoder().encode(body);
+  } catch {
+    bytes = new TextEncoder().encode(body);
+  }
+
+  const disposition = headerValue(headers, "Content-Disposition");
+  const filename = headerParam(disposition, "filename") ?? headerParam(contentType, "name") ?? "";
+  if (filename || disposition.toLowerCase().startsWith("attachment")) {
+    const attachmentId = `ATT_${partId || "0"}`;
+    attachments.set(attachmentId, bytes);
+    return { partId, mimeType, filename, headers, body: { size: bytes.length, attachmentId } };
+  }
+  return { partId, mimeType, filename: "", headers, body: { size: bytes.length, data: toBase64Url(bytes) } };
+}
+
+/** Decoded text of the first leaf of a type */
+function partText(part: MessagePart, mimeType: string): string {
+  if (part.mimeType === mimeType && part.body.data) {
+    const charset = headerParam(headerValue(part.headers, "Content-Type"), "charset");
+    return decodeText(base64ToBytes(part.body.data), charset);
+  }
+  for (const child of part.parts ?? []) {
+    const text = partText(child, mimeType);
+    if (text) return text;
+  }
+  return "";
+}
+
+function attachmentNames(part: MessagePart): string[] {
+  return [
+    ...(part.filename ? [part.filename] : []),
+    ...(part.parts ?? []).flatMap(attachmentNames),
+  ];
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">");
+}
+
+// ===== CORPUS LOADING =====
+
+/** Build the RFC 822 source of a structured fixture message */
+function fixtureToRfc822(message: FixtureMessage, date: Date): string {
+  const boundary = (name: string) => `fake_${name}_${message.id ?? message.messageId ?? date.getTime()}`;
+  const encodeBody = (content: Uint8Array) =>
+    bytesToBase64(content).replace(/.{76}(?=.)/g, "$&\n");
+  const textPart = (mimeType: string, content: string) =>
+    [
+      `Content-Type: ${mimeType}; charset="UTF-8"`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      encodeBody(new TextEncoder().encode(content)),
+    ].join("\n");
+
+  let body: string;
+  if (message.text !== undefined && message.html !== undefined) {
+    const alternative = boundary("alt");
+    body = [
+      `Content-Type: multipart/alternative; boundary="${alternative}"`,
+      "",
+      `--${alternative}`,
+      textPart("text/plain", message.text),
+      `--${alternative}`,
+      textPart("text/html", message.html),
+      `--${alternative}--`,
+    ].join("\n");
+  } else if (message.html !== undefined) {
+    body = textPart("text/html", message.html);
+  } else {
+    body = textPart("text/plain", message.text ?? "");
+  }
+
+  if (message.attachments?.length) {
+    const mixed = boundary("mixed");
+    const attachmentParts = message.attachments.map((attachment) => {
+      const content = attachment.data !== undefined
+        ? base64ToBytes(attachment.data)
+        : new TextEncoder().encode(attachment.content ?? "");
+      const disposition = attachment.contentId ? "inline" : "attachment";
+      return [
+        `Content-Type: ${attachment.mimeType}; name="${attachment.filename}"`,
+        `Content-Disposition: ${disposition}; filename="${attachment.filename}"`,
+        ...(attachment.contentId ? [`Content-ID: <${attachment.contentId}>`] : []),
+        "Content-Transfer-Encoding: base64",
+        "",
+        encodeBody(content),
+      ].join("\n");
+    });
+    body = [
+      `Content-Type: multipart/mixed; boundary="${mixed}"`,
+      "",
+      `--${mixed}`,
+      body,
+      ...attachmentParts.flatMap((part) => [`--${mixed}`, part]),
+      `--${mixed}--`,
+    ].join("\n");
+  }
+
+  const headers: Array<[string, string | undefined]> = [
+    ["From", message.from],
+    ["To", message.to],
+    ["Cc", message.cc],
+    ["Subject", message.subject],
+    ["Date", date.toUTCString()],
+    // Gmail gives every message a Message-ID (rfc822msgid: searches need one)
+    ["Message-ID", message.messageId ?? `<${crypto.randomUUID()}@fake-gmail.local>`],
+    ["In-Reply-To", message.inReplyTo],
+    ["References", message.inReplyTo],
+    ...Object.entries(message.headers ?? {}),
+    ["MIME-Version", "1.0"],
+  ];
+  const headerLines = headers
+    .filter((header): header is [string, string] => header[1] !== undefined && header[1] !== "")
+    .map(([name, value]) => `${name}: ${encodeHeaderValue(value)}`);
+  return `${headerLines.join("\n")}\n${body}\n`;
+}
+
+/** Split an mbox file into RFC 822 messages */
+function splitMbox(content: string): string[] {
+  const messages: string[] = [];
+  let current: string[] | null = null;
+  let previousBlank = true;
+  for (const line of content.split("\n")) {
+    if (line.startsWith("From ") && previousBlank) {
+      if (current) messages.push(current.join("\n"));
+      current = [];
+    } else if (current) {
+      // mboxrd escapes body lines starting with "From "
+      current.push(/^>+From /.test(line) ? line.slice(1) : line);
+    }
+    previousBlank = line.trim() === "";
+  }
+  if (current) messages.push(current.join("\n"));
+  return messages;
+}
+
+function labelIdFor(mailbox: Mailbox, nameOrId: string): string | null {
+  const systemId = nameOrId.toUpperCase().replace(/[\s/]+/g, "_");
+  if (SYSTEM_LABELS.includes(systemId)) return systemId;
+  if (mailbox.labels.has(nameOrId)) return nameOrId;
+  const takeout = TAKEOUT_LABELS[nameOrId.toLowerCase()];
+  if (takeout !== undefined) return takeout;
+
+  for (const label of mailbox.labels.values()) {
+    if (label.name.toLowerCase() === nameOrId.toLowerCase()) return label.id;
+  }
+  const id = `Label_${mailbox.labels.size - SYSTEM_LABELS.length + 1}`;
+  mailbox.labels.set(id, { id, name: nameOrId, type: "user" });
+  return id;
+}
+
+function resolveLabels(mailbox: Mailbox, names: string[]): string[] {
+  const ids = names.map((name) => labelIdFor(mailbox, name.trim())).filter((id): id is string => !!id);
+  return [...new Set(ids)];
+}
+
+/**
+ * Store a message. Fixture fields (id, threadId, labels) win over what the
+ * source says; otherwise Google Takeout headers (X-GM-THRID, X-Gmail-Labels)
+ * are used, then In-Reply-To / References for threading.
+ */
+function addMessage(mailbox: Mailbox, raw: string, fixture: FixtureMessage = {}): StoredMessage {
+  const source = raw.replace(/\r\n/g, "\n");
+  const attachments = new Map<string, Uint8Array>();
+  const payload = parseEntity(source, "", attachments);
+  const headers = payload.headers;
+
+  const index = mailbox.nextIndex++;
+  const id = fixture.id ?? `18${index.toString(16).padStart(14, "0")}`;
+
+  const parsedDate = new Date(headerValue(headers, "Date"));
+  const internalDate = isNaN(parsedDate.getTime()) ? Date.UTC(2025, 0, 1) + index * 3600_000 : parsedDate.getTime();
+
+  const takeoutThread = headerValue(headers, "X-GM-THRID");
+  const parents = `${headerValue(headers, "In-Reply-To")} ${headerValue(headers, "References")}`
+    .match(/<[^>]+>/g) ?? [];
+  const threadId = fixture.threadId ??
+    (takeoutThread && /^\d+$/.test(takeoutThread) ? BigInt(takeoutThread).toString(16) : undefined) ??
+    parents.map((parent) => mailbox.threadsByMessageId.get(parent)).find(Boolean) ??
+    id;
+  const messageIdHeader = headerValue(headers, "Message-ID");
+  if (messageIdHeader) mailbox.threadsByMessageId.set(messageIdHeader, threadId);
+
+  const takeoutLabels = headerValue(headers, "X-Gmail-Labels");
+  const labelIds = fixture.labelIds
+    ? resolveLabels(mailbox, fixture.labelIds)
+    : takeoutLabels
+    ? resolveLabels(mailbox, takeoutLabels.split(","))
+    : ["INBOX"];
+
+  const text = partText(payload, "text/plain") || stripHtml(partText(payload, "text/html"));
+  const snippet = text.replace(/\s+/g, " ").trim().slice(0, 200);
+
+  const message: StoredMessage = {
+    id,
+    threadId,
+    labelIds,
+    internalDate,
+    historyId: mailbox.historyId,
+    snippet,
+    raw: source,
+    payload,
+    attachments,
+    searchText: [
+      ...["From", "To", "Cc", "Subject"].map((name) => headerValue(headers, name)),
+      ...attachmentNames(payload),
+      text,
+    ].join("\n").toLowerCase(),
+  };
+  mailbox.messages.set(id, message);
+  return message;
+}
+
+function addFixtureMessage(mailbox: Mailbox, fixture: FixtureMessage): StoredMessage {
+  if (fixture.raw) return addMessage(mailbox, fixture.raw, fixture);
+  const date = fixture.date ? new Date(fixture.date) : new Date(Date.UTC(2025, 0, 1) + mailbox.nextIndex * 3600_000);
+  return addMessage(mailbox, fixtureToRfc822(fixture, date), fixture);
+}
+
+function createMailbox(emailAddress: string): Mailbox {
+  return {
+    emailAddress,
+    messages: new Map(),
+    labels: new Map(SYSTEM_LABELS.map((id) => [id, { id, name: id, type: "system" as const }])),
+    historyId: FIRST_HISTORY_ID,
+    historyFloor: FIRST_HISTORY_ID,
+    history: [],
+    nextIndex: 0,
+    threadsByMessageId: new Map(),
+  };
+}
+
+async function loadMailbox(corpusPath: string | undefined, emailAddress: string | undefined): Promise<Mailbox> {
+  if (!corpusPath) {
+    const mailbox = createMailbox(emailAddress ?? DEFAULT_EMAIL);
+    for (const fixture of sampleCorpus(mailbox.emailAddress)) addFixtureMessage(mailbox, fixture);
+    return mailbox;
+  }
+
+  const content = await Deno.readTextFile(corpusPath);
+  if (corpusPath.toLowerCase().endsWith(".json")) {
+    const parsed = JSON.parse(content) as FixtureFile | FixtureMessage[];
+    const file: FixtureFile = Array.isArray(parsed) ? { messages: parsed } : parsed;
+    const mailbox = createMailbox(emailAddress ?? file.emailAddress ?? DEFAULT_EMAIL);
+    for (const fixture of file.messages) addFixtureMessage(mailbox, fixture);
+    return mailbox;
+  }
+
+  const mailbox = createMailbox(emailAddress ?? DEFAULT_EMAIL);
+  // Thread replies to parents that come later in the file, too
+  const sources = splitMbox(content.replace(/\r\n/g, "\n"))
+    .map((source) => ({ source, date: new Date(headerValue(parseHeaders(splitEntity(source).headerBlock), "Date")) }))
+    .sort((a, b) => (a.date.getTime() || 0) - (b.date.getTime() || 0));
+  for (const { source } of sources) addMessage(mailbox, source);
+  return mailbox;
+}
+
+// ===== SEARCH =====
+
+const TOKEN_PATTERN = /-?\{[^}]*\}|[^\s"]*"[^"]*"|\S+/g;
+
+function parseTerm(token: string): QueryTerm {
+  const match = token.match(/^(-?)(?:([a-z0-9_]+):)?(.*)$/i)!;
+  return {
+    negate: match[1] === "-",
+    operator: (match[2] ?? "").toLowerCase(),
+    value: match[3].replace(/^"|"$/g, "").toLowerCase(),
+  };
+}
+
+/**
+ * Parse a Gmail search query into clauses that must all match; a clause
+ * matches if any of its terms does (terms joined by OR, or in braces)
+ */
+function parseQuery(query: string): QueryTerm[][] {
+  const clauses: QueryTerm[][] = [];
+  let orWithPrevious = false;
+  for (const [token] of query.replace(/[()]/g, " ").matchAll(TOKEN_PATTERN)) {
+    if (token === "OR" || token === "|") {
+      orWithPrevious = clauses.length > 0;
+      continue;
+    }
+    const group = token.match(/^\{(.*)\}$/);
+    const terms = group ? [...group[1].matchAll(TOKEN_PATTERN)].map(([t]) => parseTerm(t)) : [parseTerm(token)];
+    if (orWithPrevious) {
+      clauses[clauses.length - 1].push(...terms);
+    } else {
+      clauses.push(terms);
+    }
+    orWithPrevious = false;
+  }
+  return clauses;
+}
+
+function hasLabel(mailbox: Mailbox, message: StoredMessage, name: string): boolean {
+  const normalize = (value: string) => value.toLowerCase().replace(/[\s/_]+/g, "-");
+  return message.labelIds.some((id) => {
+    const label = mailbox.labels.get(id);
+    return normalize(id) === normalize(name) || (!!label && normalize(label.name) === normalize(name));
+  });
+}
+
+function parseQueryDate(value: string): number {
+  if (/^\d+$/.test(value)) return parseInt(value) * 1000;
+  const [year, month, day] = value.split(/[/-]/).map((part) => parseInt(part));
+  return Date.UTC(year, (month || 1) - 1, day || 1);
+}
+
+function parseAge(value: string): number {
+  const match = value.match(/^(\d+)([dmy])$/);
+  if (!match) return 0;
+  const days = { d: 1, m: 30, y: 365 }[match[2] as "d" | "m" | "y"];
+  return parseInt(match[1]) * days * 86_400_000;
+}
+
+function matchesTerm(mailbox: Mailbox, message: StoredMessage, term: QueryTerm): boolean {
+  const { operator, value } = term;
+  const header = (name: string) => headerValue(message.payload.headers, name).toLowerCase();
+  switch (operator) {
+    case "":
+      return message.searchText.includes(value);
+    case "from":
+    case "to":
+    case "cc":
+    case "bcc":
+    case "subject":
+      return header(operator).includes(value);
+    case "in":
+    case "label":
+      return value === "anywhere" || hasLabel(mailbox, message, value);
+    case "category":
+      return hasLabel(mailbox, message, `category_${value}`);
+    case "is":
+      if (value === "read") return !message.labelIds.includes("UNREAD");
+      return hasLabel(mailbox, message, value);
+    case "has":
+      return value === "attachment" && message.attachments.size > 0;
+    case "rfc822msgid":
+      return header("message-id").replace(/^<|>$/g, "") === value.replace(/^<|>$/g, "");
+    case "filename":
+      return attachmentNames(message.payload).some((name) => name.toLowerCase().includes(value));
+    case "after":
+      return message.internalDate >= parseQueryDate(value);
+    case "before":
+      return message.internalDate < parseQueryDate(value);
+    case "newer_than":
+      return message.internalDate >= Date.now() - parseAge(value);
+    case "older_than":
+      return message.internalDate < Date.now() - parseAge(value);
+    default:
+      return message.searchText.includes(`${operator}:${value}`);
+  }
+}
+
+function matchesQuery(mailbox: Mailbox, message: StoredMessage, clauses: QueryTerm[][]): boolean {
+  // Like Gmail, spam and trash only match when asked for
+  const searchesHidden = clauses.flat().some((term) =>
+    (term.operator === "in" || term.operator === "label") && ["spam", "trash", "anywhere"].includes(term.value)
+  );
+  if (!searchesHidden && message.labelIds.some((id) => id === "SPAM" || id === "TRASH")) return false;
+
+  return clauses.every((terms) =>
+    terms.some((term) => matchesTerm(mailbox, message, term) !== term.negate)
+  );
+}
+
+// ===== API =====
+
+function gmailError(code: number, message: string, status: string): ApiResponse {
+  return { status: code, body: { error: { code, message, errors: [{ message, domain: "global" }], status } } };
+}
+
+function pageParams(url: URL): { offset: number; pageSize: number } {
+  const offset = parseInt(url.searchParams.get("pageToken") ?? "0") || 0;
+  const requested = parseInt(url.searchParams.get("maxResults") ?? "") || DEFAULT_PAGE_SIZE;
+  return { offset, pageSize: Math.min(Math.max(requested, 1), MAX_PAGE_SIZE) };
+}
+
+function formatMessage(message: StoredMessage, url: URL): unknown {
+  const format = url.searchParams.get("format") ?? "full";
+  const base = {
+    id: message.id,
+    threadId: message.threadId,
+    labelIds: message.labelIds,
+    snippet: message.snippet,
+    historyId: String(message.historyId),
+    internalDate: String(message.internalDate),
+    sizeEstimate: message.raw.length,
+  };
+  switch (format) {
+    case "minimal":
+      return base;
+    case "raw":
+      return { ...base, raw: toBase64Url(new TextEncoder().encode(message.raw)) };
+    case "metadata": {
+      const wanted = url.searchParams.getAll("metadataHeaders").map((name) => name.toLowerCase());
+      const headers = message.payload.headers.filter((h) =>
+        wanted.length === 0 || wanted.includes(h.name.toLowerCase())
+      );
+      return { ...base, payload: { partId: "", mimeType: message.payload.mimeType, filename: "", headers, body: { size: 0 } } };
+    }
+    default:
+      return { ...base, payload: message.payload };
+  }
+}
+
+function listMessages(mailbox: Mailbox, url: URL): ApiResponse {
+  const clauses = parseQuery(url.searchParams.get("q") ?? "");
+  const labelIds = url.searchParams.getAll("labelIds");
+  const includeSpamTrash = url.searchParams.get("includeSpamTrash") === "true";
+  if (includeSpamTrash) clauses.push([{ negate: false, operator: "in", value: "anywhere" }]);
+
+  const matches = [...mailbox.messages.values()]
+    .filter((message) => labelIds.every((id) => message.labelIds.includes(id)))
+    .filter((message) => matchesQuery(mailbox, message, clauses))
+    .sort((a, b) => b.internalDate - a.internalDate);
+
+  const { offset, pageSize } = pageParams(url);
+  const page = matches.slice(offset, offset + pageSize);
+  return {
+    status: 200,
+    body: {
+      ...(page.length > 0 ? { messages: page.map(({ id, threadId }) => ({ id, threadId })) } : {}),
+      ...(offset + pageSize < matches.length ? { nextPageToken: String(offset + pageSize) } : {}),
+      resultSizeEstimate: matches.length,
+    },
+  };
+}
+
+function listHistory(mailbox: Mailbox, url: URL): ApiResponse {
+  const startHistoryId = parseInt(url.searchParams.get("startHistoryId") ?? "");
+  if (isNaN(startHistoryId)) {
+    return gmailError(400, "Missing or invalid startHistoryId", "INVALID_ARGUMENT");
+  }
+  if (startHistoryId < mailbox.historyFloor) {
+    return gmailError(404, "Requested entity was not found.", "NOT_FOUND");
+  }
+
+  const labelId = url.searchParams.get("labelId");
+  const types = url.searchParams.getAll("historyTypes");
+  const records = mailbox.history.filter((record) =>
+    record.id > startHistoryId &&
+    (types.length === 0 || types.includes(record.type)) &&
+    (!labelId || record.labelIds.includes(labelId) || mailbox.messages.get(record.messageId)?.labelIds.includes(labelId))
+  );
+
+  const { offset, pageSize } = pageParams(url);
+  const history = records.slice(offset, offset + pageSize).map((record) => {
+    const message = { id: record.messageId, threadId: record.threadId };
+    const entry: Record<string, unknown> = { id: String(record.id), messages: [message] };
+    switch (record.type) {
+      case "messageAdded":
+        entry.messagesAdded = [{ message: { ...message, labelIds: record.labelIds } }];
+        break;
+      case "messageDeleted":
+        entry.messagesDeleted = [{ message }];
+        break;
+      case "labelAdded":
+        entry.labelsAdded = [{ message, labelIds: record.labelIds }];
+        break;
+      case "labelRemoved":
+        entry.labelsRemoved = [{ message, labelIds: record.labelIds }];
+        break;
+    }
+    return entry;
+  });
+
+  return {
+    status: 200,
+    body: {
+      ...(history.length > 0 ? { history } : {}),
+      ...(offset + pageSize < records.length ? { nextPageToken: String(offset + pageSize) } : {}),
+      historyId: String(mailbox.historyId),
+    },
+  };
+}
+
+/** Route a Gmail API request. Batched requests go through here one by one. */
+function handleApi(mailbox: Mailbox, method: string, url: URL, body: any = {}): ApiResponse {
+  const match = url.pathname.match(/^\/gmail\/v1\/users\/([^/]+)\/(.*)$/);
+  if (!match) return gmailError(404, `Unknown endpoint: ${url.pathname}`, "NOT_FOUND");
+  const [, userId, rest] = match;
+  if (userId !== "me" && userId !== mailbox.emailAddress) {
+    return gmailError(400, "Delegation denied", "FAILED_PRECONDITION");
+  }
+  const segments = rest.split("/").map(decodeURIComponent);
+  if (method === "POST" && rest === "messages/send") return sendMessage(mailbox, body);
+  if (method === "POST") return modifyMessages(mailbox, segments, body);
+  if (method !== "GET") return gmailError(405, `${method} is not supported by the fake server`, "UNIMPLEMENTED");
+
+  if (rest === "profile") {
+    const visible = [...mailbox.messages.values()];
+    return {
+      status: 200,
+      body: {
+        emailAddress: mailbox.emailAddress,
+        messagesTotal: visible.length,
+        threadsTotal: new Set(visible.map((message) => message.threadId)).size,
+        historyId: String(mailbox.historyId),
+      },
+    };
+  }
+  if (rest === "labels") {
+    return { status: 200, body: { labels: [...mailbox.labels.values()] } };
+  }
+  if (rest === "history") return listHistory(mailbox, url);
+  if (rest === "messages") return listMessages(mailbox, url);
+  if (segments[0] === "messages") {
+    const message = mailbox.messages.get(segments[1]);
+    if (!message) return gmailError(404, "Requested entity was not found.", "NOT_FOUND");
+    if (segments.length === 2) return { status: 200, body: formatMessage(message, url) };
+    if (segments.length === 4 && segments[2] === "attachments") {
+      const data = message.attachments.get(segments[3]);
+      if (!data) return gmailError(400, "Invalid attachment token", "INVALID_ARGUMENT");
+      return { status: 200, body: { attachmentId: segments[3], size: data.length, data: toBase64Url(data) } };
+    }
+  }
+  return gmailError(404, `Unknown endpoint: ${url.pathname}`, "NOT_FOUND");
+}
+
+/**
+ * Answer a batch request (multipart/mixed of application/http parts) with a
+ * multipart/mixed response whose boundary starts with "batch_", like Gmail's
+ */
+async function handleBatch(mailbox: Mailbox, request: Request): Promise<Response> {
+  const boundary = headerParam(request.headers.get("Content-Type") ?? "", "boundary");
+  if (!boundary) return jsonResponse(gmailError(400, "Missing multipart boundary", "INVALID_ARGUMENT"));
+
+  const sections = splitMultipart((await request.text()).replace(/\r\n/g, "\n"), boundary);
+  if (sections.length > MAX_BATCH_SIZE) {
+    return jsonResponse(gmailError(400, `Too many requests in batch (max ${MAX_BATCH_SIZE})`, "INVALID_ARGUMENT"));
+  }
+
+  const responseBoundary = `batch_${crypto.randomUUID().replace(/-/g, "")}`;
+  const parts = sections.map((section) => {
+    const { headerBlock, body } = splitEntity(section);
+    const contentId = headerValue(parseHeaders(headerBlock), "Content-ID").replace(/^<|>$/g, "");
+    const [method, target] = body.trimStart().split("\n")[0].trim().split(/\s+/);
+    const result = target
+      ? handleApi(mailbox, method, new URL(target, "http://localhost"))
+      : gmailError(400, "Malformed batch part", "INVALID_ARGUMENT");
+    return [
+      `--${responseBoundary}`,
+      "Content-Type: application/http",
+      ...(contentId ? [`Content-ID: <response-${contentId}>`] : []),
+      "",
+      `HTTP/1.1 ${result.status} ${STATUS_TEXT[result.status] ?? ""}`,
+      "Content-Type: application/json; charset=UTF-8",
+      "",
+      JSON.stringify(result.body),
+      "",
+    ].join("\r\n");
+  });
+
+  return new Response(`${parts.join("")}--${responseBoundary}--\r\n`, {
+    headers: { ...CORS_HEADERS, "Content-Type": `multipart/mixed; boundary=${responseBoundary}` },
+  });
+}
+
+// ===== MAILBOX CHANGES =====
+
+function recordHistory(mailbox: Mailbox, message: StoredMessage, type: HistoryRecord["type"], labelIds: string[]): void {
+  mailbox.historyId++;
+  message.historyId = mailbox.historyId;
+  mailbox.history.push({ id: mailbox.historyId, messageId: message.id, threadId: message.threadId, type, labelIds });
+}
+
+function changeLabels(mailbox: Mailbox, message: StoredMessage, add: string[], remove: string[]): void {
+  const added = resolveLabels(mailbox, add).filter((id) => !message.labelIds.includes(id));
+  const removed = resolveLabels(mailbox, remove).filter((id) => message.labelIds.includes(id));
+  message.labelIds = [...message.labelIds.filter((id) => !removed.includes(id)), ...added];
+  if (added.length > 0) recordHistory(mailbox, message, "labelAdded", added);
+  if (removed.length > 0) recordHistory(mailbox, message, "labelRemoved", removed);
+}
+
+/** messages/<id>/modify and messages/batchModify; changes are recorded in history */
+function modifyMessages(mailbox: Mailbox, segments: string[], body: any): ApiResponse {
+  const add: string[] = body.addLabelIds ?? [];
+  const remove: string[] = body.removeLabelIds ?? [];
+  if (segments[0] !== "messages") return gmailError(404, `Unknown endpoint: ${segments.join("/")}`, "NOT_FOUND");
+
+  if (segments.length === 2 && segments[1] === "batchModify") {
+    const ids: string[] = body.ids ?? [];
+    if (ids.length > 1000) return gmailError(400, "Too many ids (max 1000)", "INVALID_ARGUMENT");
+    for (const id of ids) {
+      const message = mailbox.messages.get(id);
+      if (message) changeLabels(mailbox, message, add, remove);
+    }
+    return { status: 204, body: null };
+  }
+
+  if (segments.length === 3 && segments[2] === "modify") {
+    const message = mailbox.messages.get(segments[1]);
+    if (!message) return gmailError(404, "Requested entity was not found.", "NOT_FOUND");
+    changeLabels(mailbox, message, add, remove);
+    return { status: 200, body: { id: message.id, threadId: message.threadId, labelIds: message.labelIds } };
+  }
+
+  return gmailError(404, `Unknown endpoint: ${segments.join("/")}`, "NOT_FOUND");
+}
+
+/** messages/send: store the raw RFC 2822 message as SENT, threaded by its reply headers */
+function sendMessage(mailbox: Mailbox, body: any): ApiResponse {
+  if (typeof body.raw !== "string" || body.raw === "") {
+    return gmailError(400, "'raw' RFC822 payload message string or uploading message via /upload/* URL required", "INVALID_ARGUMENT");
+  }
+  const raw = new TextDecoder().decode(base64ToBytes(body.raw));
+  if (!/^to:/im.test(raw.split(/\r?\n\r?\n/)[0])) {
+    return gmailError(400, "Invalid To header", "INVALID_ARGUMENT");
+  }
+  const message = addMessage(mailbox, raw, {
+    labelIds: ["SENT"],
+    ...(body.threadId ? { threadId: body.threadId } : {}),
+  });
+  recordHistory(mailbox, message, "messageAdded", message.labelIds);
+  return { status: 200, body: { id: message.id, threadId: message.threadId, labelIds: message.labelIds } };
+}
+
+/** Control endpoints under /fake, for tests to change the mailbox between syncs */
+async function handleControl(mailbox: Mailbox, request: Request, url: URL): Promise<ApiResponse> {
+  const segments = url.pathname.split("/").filter(Boolean).slice(1).map(decodeURIComponent);
+  const body = request.method === "POST" ? await request.json().catch(() => ({})) : {};
+
+  if (segments.length === 0 && request.method === "GET") {
+    return {
+      status: 200,
+      body: {
+        emailAddress: mailbox.emailAddress,
+        messages: mailbox.messages.size,
+        historyId: String(mailbox.historyId),
+        oldestValidHistoryId: String(mailbox.historyFloor),
+        historyRecords: mailbox.history.length,
+      },
+    };
+  }
+
+  if (segments[0] === "expire-history" && request.method === "POST") {
+    mailbox.history = [];
+    mailbox.historyFloor = mailbox.historyId;
+    return { status: 200, body: { oldestValidHistoryId: String(mailbox.historyFloor) } };
+  }
+
+  if (segments[0] === "messages") {
+    if (segments.length === 1 && request.method === "POST") {
+      const fixtures: FixtureMessage[] = Array.isArray(body) ? body : [body];
+      const added = fixtures.map((fixture) => {
+        const message = addFixtureMessage(mailbox, fixture);
+        recordHistory(mailbox, message, "messageAdded", message.labelIds);
+        return { id: message.id, threadId: message.threadId };
+      });
+      return { status: 200, body: { messages: added, historyId: String(mailbox.historyId) } };
+    }
+
+    const message = mailbox.messages.get(segments[1]);
+    if (!message) return gmailError(404, "Requested entity was not found.", "NOT_FOUND");
+
+    if (segments.length === 2 && request.method === "DELETE") {
+      mailbox.messages.delete(message.id);
+      recordHistory(mailbox, message, "messageDeleted", []);
+      return { status: 200, body: { historyId: String(mailbox.historyId) } };
+    }
+    if (segments[2] === "labels" && request.method === "POST") {
+      changeLabels(mailbox, message, body.add ?? [], body.remove ?? []);
+      return { status: 200, body: { labelIds: message.labelIds, historyId: String(mailbox.historyId) } };
+    }
+  }
+
+  return gmailError(404, `Unknown control endpoint: ${url.pathname}`, "NOT_FOUND");
+}
+
+// ===== SERVER =====
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+};
+
+function jsonResponse({ status, body }: ApiResponse): Response {
+  return new Response(status === 204 ? null : JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, "Content-Type": "application/json; charset=UTF-8" },
+  });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createHandler(
+  mailbox: Mailbox,
+  options: { token?: string; latency: number; quiet: boolean },
+): (request: Request) => Promise<Response> {
+  const respond = async (request: Request, url: URL): Promise<Response> => {
+    if (request.method === "OPTIONS") return new Response(null, { status: 204, headers: CORS_HEADERS });
+    if (url.pathname === "/fake" || url.pathname.startsWith("/fake/")) {
+      return jsonResponse(await handleControl(mailbox, request, url));
+    }
+
+    const token = request.headers.get("Authorization")?.match(/^Bearer\s+(.+)$/)?.[1];
+    if (!token || (options.token && token !== options.token)) {
+      return jsonResponse(gmailError(401, "Request had invalid authentication credentials.", "UNAUTHENTICATED"));
+    }
+
+    if (url.pathname === "/batch/gmail/v1" && request.method === "POST") {
+      return await handleBatch(mailbox, request);
+    }
+    const body = request.method === "POST" ? await request.json().catch(() => ({})) : {};
+    return jsonResponse(handleApi(mailbox, request.method, url, body));
+  };
+
+  return async (request) => {
+    const url = new URL(request.url);
+    if (options.latency > 0) await sleep(options.latency);
+    const response = await respond(request, url);
+    if (!options.quiet) {
+      console.log(`${request.method} ${url.pathname}${url.search} → ${response.status}`);
+    }
+    return response;
+  };
+}
+
+// ===== SAMPLE CORPUS =====
+
+// 1x1 PNG, for the inline image sample
+const SAMPLE_PNG = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==";
+
+function sampleCorpus(emailAddress: string): FixtureMessage[] {
+  return [
+    {
+      from: "Platformer <platformer@substack.com>",
+      to: emailAddress,
+      subject: "The week in platforms",
+      date: "2025-11-03T14:00:00Z",
+      labelIds: ["INBOX", "CATEGORY_UPDATES", "demo"],
+      text: "This week: three new moderation policies and what they mean.",
+      html: "<h1>The week in platforms</h1><p>This week: three new moderation policies and what they mean.</p>",
+    },
+    {
+      from: "Stratechery <stratechery@substack.com>",
+      to: emailAddress,
+      subject: "Aggregation, revisited",
+      date: "2025-11-04T11:30:00Z",
+      labelIds: ["INBOX", "UNREAD", "CATEGORY_UPDATES", "demo"],
+      html: "<p>Ten years on, <b>aggregation theory</b> still explains most of the market.</p>",
+    },
+    {
+      from: "Platformer <platformer@substack.com>",
+      to: emailAddress,
+      subject: "Inside the new app store rules",
+      date: "2025-11-06T14:00:00Z",
+      labelIds: ["INBOX", "UNREAD", "CATEGORY_UPDATES", "demo"],
+      text: "Developers have until January to comply with the new rules.",
+    },
+    {
+      from: "USPS Informed Delivery <USPSInformeddelivery@email.informeddelivery.usps.com>",
+      to: emailAddress,
+      subject: "Your Daily Digest for Fri, 11/7",
+      date: "2025-11-07T08:05:00Z",
+      labelIds: ["INBOX", "UNREAD", "CATEGORY_UPDATES"],
+      html: '<p>You have 1 mailpiece arriving soon.</p><img src="cid:mailpiece-1.png" alt="Mailpiece Image">',
+      attachments: [{ filename: "mailpiece-1.png", mimeType: "image/png", data: SAMPLE_PNG, contentId: "mailpiece-1.png" }],
+    },
+    {
+      from: "Ann Lee <ann@example.com>",
+      to: emailAddress,
+      subject: "Dinner on Saturday?",
+      date: "2025-11-05T18:20:00Z",
+      messageId: "<dinner-1@example.com>",
+      labelIds: ["INBOX", "IMPORTANT"],
+      text: "Are you free for dinner on Saturday at 7? Thinking of the new Thai place.",
+    },
+    {
+      from: `Me <${emailAddress}>`,
+      to: "Ann Lee <ann@example.com>",
+      subject: "Re: Dinner on Saturday?",
+      date: "2025-11-05T19:02:00Z",
+      messageId: "<dinner-2@example.com>",
+      inReplyTo: "<dinner-1@example.com>",
+      labelIds: ["SENT"],
+      text: "Sounds great, see you at 7!",
+    },
+    {
+      from: "Ann Lee <ann@example.com>",
+      to: emailAddress,
+      subject: "Re: Dinner on Saturday?",
+      date: "2025-11-05T19:15:00Z",
+      messageId: "<dinner-3@example.com>",
+      inReplyTo: "<dinner-2@example.com>",
+      labelIds: ["INBOX", "IMPORTANT", "UNREAD"],
+      text: "Booked a table for two. Invite attached.",
+      attachments: [{
+        filename: "invite.ics",
+        mimeType: "text/calendar",
+        content: [
+          "BEGIN:VCALENDAR",
+          "VERSION:2.0",
+          "PRODID:-//fake-gmail//EN",
+          "BEGIN:VEVENT",
+          "UID:dinner-2025-11-08@example.com",
+          "DTSTART:20251109T030000Z",
+          "DTEND:20251109T050000Z",
+          "SUMMARY:Dinner with Ann",
+          "LOCATION:Thai Garden",
+          "END:VEVENT",
+          "END:VCALENDAR",
+        ].join("\r\n"),
+      }],
+    },
+    {
+      from: "Marriott Bonvoy <marriott@email.marriott.com>",
+      to: emailAddress,
+      subject: "Your Marriott Bonvoy statement: 42,350 points",
+      date: "2025-10-28T16:00:00Z",
+      labelIds: ["CATEGORY_PROMOTIONS"],
+      html: "<p>Member number: 123456789</p><p>Current balance: <b>42,350 points</b></p>",
+    },
+    {
+      from: "Prize Desk <winner@lottery.example>",
+      to: emailAddress,
+      subject: "You have won!",
+      date: "2025-11-02T03:00:00Z",
+      labelIds: ["SPAM"],
+      text: "Claim your prize now.",
+    },
+  ];
+}
+
+// ===== MAIN =====
+
+async function main(): Promise<void> {
+  const args = Deno.args;
+
+  if (args.includes("--help") || args.includes("-h")) {
+    printHelp();
+    Deno.exit(0);
+  }
+
+  const optionValue = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index !== -1 && args[index + 1] ? args[index + 1] : undefined;
+  };
+  const corpusPath = optionValue("--corpus");
+  const port = parseInt(optionValue("--port") ?? "") || DEFAULT_PORT;
+  const latency = parseInt(optionValue("--latency") ?? "") || 0;
+  const token = optionValue("--token");
+  const quiet = args.includes("--quiet");
+
+  let mailbox: Mailbox;
+  try {
+    mailbox = await loadMailbox(corpusPath, optionValue("--email"));
+  } catch (error) {
+    console.log(`❌ Could not load corpus ${corpusPath}: ${error instanceof Error ? error.message : error}`);
+    Deno.exit(1);
+  }
+
+  Deno.serve({
+    port,
+    hostname: "127.0.0.1",
+    onListen: ({ hostname, port }) => {
+      console.log(`📬 Fake Gmail API for ${mailbox.emailAddress} at http://${hostname}:${port}`);
+      console.log(`   ${mailbox.messages.size} messages from ${corpusPath ?? "the sample corpus"}, historyId ${mailbox.historyId}`);
+      console.log(`   Set the pattern's Gmail API base URL to http://localhost:${port}`);
+    },
+  }, createHandler(mailbox, { token, latency, quiet }));
+}
+
+if (import.meta.main) {
+  main();
+}
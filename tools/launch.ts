@@ -45,6 +45,48 @@ interface Config {
   patterns: PatternRecord[];
   recentCharms: RecentCharm[];   // Recently deployed charms for linking
   linkHistory: LinkHistoryEntry[]; // Track which field combos have been linked
+  manifestDeployments: ManifestDeployment[]; // Charm graphs deployed from manifests
+  charmLinks: CharmLinkRecord[]; // Field-level links created through the launcher
+}
+
+// ct only reports which charms read from which, not which fields; we remember
+// the field paths of links we create so snapshots can re-establish them
+interface CharmLinkRecord {
+  space: string;
+  apiUrl: string;
+  sourceCharmId: string;
+  sourcePath: string[];
+  targetCharmId: string;
+  targetPath: string[];
+  createdAt: string;             // ISO timestamp
+}
+
+// ===== CHARM-GRAPH MANIFEST TYPES =====
+
+interface ManifestCharm {
+  id: string;               // Local name used by links, e.g. "auth"
+  pattern: string;          // Pattern path, relative to the manifest file
+}
+
+interface ManifestLink {
+  from: string;             // "<charm id>/<output field path>", e.g. "auth/auth"
+  to: string;               // "<charm id>/<input field path>", e.g. "gmail/linkedAuth"
+}
+
+interface CharmManifest {
+  space?: string;           // Default space (overridden by --space)
+  target?: "local" | "staging" | "prod"; // Default target (overridden by --target)
+  charms: ManifestCharm[];
+  links?: ManifestLink[];
+}
+
+interface ManifestDeployment {
+  manifestPath: string;     // Absolute path of the manifest file
+  space: string;
+  apiUrl: string;
+  charms: Record<string, string>; // Manifest charm id → deployed charm ID
+  links: string[];          // Applied links, as "sourceCharmId/path -> targetCharmId/path"
+  appliedAt: string;        // ISO timestamp
 }
 
 // ===== CHARM LINKING TYPES =====
@@ -55,6 +97,7 @@ interface CharmField {
   type: string;             // e.g., "string", "number", "object", "array"
   value?: unknown;          // Current value (for display)
   schema?: ObjectSchema;    // For objects/arrays, the structural schema
+  declared?: boolean;       // Schema comes from declared types, not inferred from the value
 }
 
 interface ObjectSchema {
@@ -62,6 +105,7 @@ interface ObjectSchema {
   fields?: Record<string, ObjectSchema>;  // For objects: field name → schema
   elementSchema?: ObjectSchema;           // For arrays: element schema
   primitiveType?: string;                 // For primitives: "string", "number", etc.
+  optional?: boolean;                     // For object fields: declared optional (`field?:`)
 }
 
 interface CharmSchema {
@@ -71,6 +115,19 @@ interface CharmSchema {
   apiUrl: string;
   inputs: CharmField[];     // Flattened input fields (from "source")
   outputs: CharmField[];    // Flattened output fields (from "result")
+  schemaOrigin: "runtime" | "source" | "inferred"; // Where field types came from
+}
+
+// Subset of `ct charm inspect --json` output that the launcher reads
+interface CharmInspectData {
+  name?: string;
+  source?: Record<string, unknown>;   // Inputs
+  result?: Record<string, unknown>;   // Outputs
+  readingFrom?: Array<{ id: string; name?: string }>;
+  readBy?: Array<{ id: string; name?: string }>;
+  argumentSchema?: unknown;           // JSON schemas, when the ct version exposes them
+  resultSchema?: unknown;
+  recipe?: { argumentSchema?: unknown; resultSchema?: unknown };
 }
 
 interface LinkSuggestion {
@@ -83,6 +140,7 @@ interface LinkSuggestion {
     field: CharmField;
   };
   compatibility: "compatible" | "maybe" | "incompatible";
+  reasons: string[];        // Why the pairing is (or isn't) compatible
   score: number;            // Higher = better suggestion
 }
 
@@ -109,6 +167,16 @@ async function loadConfig(): Promise<Config> {
       parsed.linkHistory = [];
     }
 
+    // Backward compatibility: initialize manifestDeployments if missing
+    if (!parsed.manifestDeployments) {
+      parsed.manifestDeployments = [];
+    }
+
+    // Backward compatibility: initialize charmLinks if missing
+    if (!parsed.charmLinks) {
+      parsed.charmLinks = [];
+    }
+
     return parsed;
   } catch {
     // File doesn't exist or is invalid, return default
@@ -116,6 +184,8 @@ async function loadConfig(): Promise<Config> {
       patterns: [],
       recentCharms: [],
       linkHistory: [],
+      manifestDeployments: [],
+      charmLinks: [],
     };
   }
 }
@@ -755,27 +825,470 @@ function checkSchemaCompatibility(
   source: ObjectSchema | undefined,
   target: ObjectSchema | undefined
 ): "compatible" | "maybe" | "incompatible" {
+  return explainSchemaCompatibility(source, target).compatibility;
+}
+
+function checkTypeCompatibility(
+  sourceType: string,
+  targetType: string,
+  sourceSchema?: ObjectSchema,
+  targetSchema?: ObjectSchema
+): "compatible" | "maybe" | "incompatible" {
+  // If we have schemas, use structural comparison
+  if (sourceSchema && targetSchema) {
+    return checkSchemaCompatibility(sourceSchema, targetSchema);
+  }
+
+  // Fallback to string-based comparison
+  // Exact match
+  if (sourceType === targetType) return "compatible";
+
+  // Any matches anything
+  if (sourceType === "any" || targetType === "any") return "maybe";
+  if (sourceType.startsWith("any") || targetType.startsWith("any")) return "maybe";
+
+  // Array compatibility (check element types)
+  if (sourceType.endsWith("[]") && targetType.endsWith("[]")) {
+    const sourceElement = sourceType.slice(0, -2);
+    const targetElement = targetType.slice(0, -2);
+    return checkTypeCompatibility(sourceElement, targetElement);
+  }
+
+  // Object to object - can't determine without schema
+  if (sourceType.startsWith("{") && targetType.startsWith("{")) return "maybe";
+
+  // Different types
+  return "incompatible";
+}
+
+// ===== DECLARED SCHEMAS =====
+// Values from `ct charm inspect` can't tell us what an empty array or a null field
+// is meant to hold. When we can, we read the declared types instead: the JSON
+// schema the runtime exposes, or the Input/Output types in the pattern source.
+
+interface DeclaredSchemas {
+  origin: "runtime" | "source";  // JSON schema from ct, or parsed from the pattern's TypeScript
+  input?: ObjectSchema;
+  output?: ObjectSchema;
+}
+
+interface SchemaComparison {
+  compatibility: "compatible" | "maybe" | "incompatible";
+  reasons: string[];             // Human-readable explanation, most important first
+}
+
+// Wrapper types that don't change the shape of the data being linked
+const TRANSPARENT_TYPE_WRAPPERS = new Set([
+  "Default",
+  "Writable",
+  "Cell",
+  "OpaqueRef",
+  "Opaque",
+  "Confidential",
+  "Readonly",
+  "Required",
+  "Partial",
+]);
+
+const MAX_DECLARED_SCHEMA_DEPTH = 6;
+
+const ANY_SCHEMA: ObjectSchema = { type: "primitive", primitiveType: "any" };
+
+// Convert a JSON schema (as exposed by the runtime) into our structural schema
+function jsonSchemaToObjectSchema(schema: unknown, depth: number = 0): ObjectSchema {
+  if (typeof schema !== "object" || schema === null || depth > MAX_DECLARED_SCHEMA_DEPTH) {
+    return ANY_SCHEMA;
+  }
+
+  const s = schema as Record<string, unknown>;
+  const variants = (s.anyOf || s.oneOf) as unknown[] | undefined;
+  if (Array.isArray(variants)) {
+    return mergeUnionSchemas(variants.map(v => jsonSchemaToObjectSchema(v, depth + 1)));
+  }
+
+  const types = (Array.isArray(s.type) ? s.type : [s.type]).filter(t => t !== "null");
+  const type = types.length === 1 ? types[0] : undefined;
+
+  if (type === "object" || (!type && typeof s.properties === "object")) {
+    const required = new Set(Array.isArray(s.required) ? s.required as string[] : []);
+    const fields: Record<string, ObjectSchema> = {};
+    for (const [key, value] of Object.entries((s.properties || {}) as Record<string, unknown>)) {
+      if (key === "UI" || key === "$UI" || key.startsWith("_")) continue;
+      fields[key] = { ...jsonSchemaToObjectSchema(value, depth + 1), optional: !required.has(key) };
+    }
+    return { type: "object", fields };
+  }
+
+  if (type === "array") {
+    return { type: "array", elementSchema: jsonSchemaToObjectSchema(s.items, depth + 1) };
+  }
+
+  if (type === "string" || type === "boolean") {
+    return { type: "primitive", primitiveType: type };
+  }
+  if (type === "number" || type === "integer") {
+    return { type: "primitive", primitiveType: "number" };
+  }
+
+  return ANY_SCHEMA;
+}
+
+// A union is only useful to us if every member has the same shape
+function mergeUnionSchemas(members: ObjectSchema[]): ObjectSchema {
+  if (members.length === 0) return ANY_SCHEMA;
+  const first = schemaToTypeString(members[0]);
+  return members.every(m => schemaToTypeString(m) === first) ? members[0] : ANY_SCHEMA;
+}
+
+// Look for JSON schemas in `ct charm inspect --json` output, if this ct version includes them
+function readRuntimeSchemas(data: CharmInspectData): DeclaredSchemas | null {
+  const argumentSchema = data.argumentSchema ?? data.recipe?.argumentSchema;
+  const resultSchema = data.resultSchema ?? data.recipe?.resultSchema;
+  if (!argumentSchema && !resultSchema) return null;
+
+  return {
+    origin: "runtime",
+    input: argumentSchema ? jsonSchemaToObjectSchema(argumentSchema) : undefined,
+    output: resultSchema ? jsonSchemaToObjectSchema(resultSchema) : undefined,
+  };
+}
+
+// The TypeScript compiler API is imported on demand by readSourceSchemas; these
+// types come from that dynamic import and are only used by the schema reader
+type TypeScript = typeof import("npm:typescript@5");
+type TsNode = import("npm:typescript@5").Node;
+type TsNodeArray<T extends TsNode> = import("npm:typescript@5").NodeArray<T>;
+type TsSourceFile = import("npm:typescript@5").SourceFile;
+type TsCallExpression = import("npm:typescript@5").CallExpression;
+type TsTypeNode = import("npm:typescript@5").TypeNode;
+type TsTypeElement = import("npm:typescript@5").TypeElement;
+type TsDeclaration =
+  | import("npm:typescript@5").InterfaceDeclaration
+  | import("npm:typescript@5").TypeAliasDeclaration;
+
+// Parse the pattern file and resolve the type arguments of its default
+// `pattern<Input, Output>(...)` (or `recipe<...>`) call. This is purely syntactic:
+// types are resolved from declarations in the pattern file and its relative
+// imports; anything else (library types, inferred outputs) comes back as `any`.
+async function readSourceSchemas(patternPath: string): Promise<DeclaredSchemas | null> {
+  let typescript: TypeScript;
+  try {
+    // Loaded on demand so the launcher starts fast when no linking happens
+    typescript = (await import("npm:typescript@5")).default as TypeScript;
+  } catch {
+    return null;
+  }
+
+  const files = new Map<string, TsSourceFile | null>();
+  const loadFile = async (path: string): Promise<TsSourceFile | null> => {
+    if (!files.has(path)) {
+      try {
+        const text = await Deno.readTextFile(path);
+        files.set(path, typescript.createSourceFile(path, text, typescript.ScriptTarget.Latest, true, typescript.ScriptKind.TSX));
+      } catch {
+        files.set(path, null);
+      }
+    }
+    return files.get(path)!;
+  };
+
+  const root = await loadFile(patternPath);
+  if (!root) return null;
+
+  const call = findPatternCall(typescript, root);
+  if (!call?.typeArguments || call.typeArguments.length === 0) return null;
+
+  // Collect every interface/type alias reachable through relative imports, keyed by
+  // the name it's visible as in the file that references it
+  const declarations = new Map<TsSourceFile, Map<string, { decl: TsDeclaration; file: TsSourceFile }>>();
+
+  const collect = async (file: TsSourceFile): Promise<Map<string, { decl: TsDeclaration; file: TsSourceFile }>> => {
+    const existing = declarations.get(file);
+    if (existing) return existing;
+
+    const scope = new Map<string, { decl: TsDeclaration; file: TsSourceFile }>();
+    declarations.set(file, scope);
+    const dir = file.fileName.substring(0, file.fileName.lastIndexOf("/"));
+
+    for (const statement of file.statements) {
+      if (typescript.isInterfaceDeclaration(statement) || typescript.isTypeAliasDeclaration(statement)) {
+        scope.set(statement.name.text, { decl: statement, file });
+      } else if (
+        typescript.isImportDeclaration(statement) &&
+        typescript.isStringLiteral(statement.moduleSpecifier) &&
+        statement.moduleSpecifier.text.startsWith(".") &&
+        statement.importClause?.namedBindings &&
+        typescript.isNamedImports(statement.importClause.namedBindings)
+      ) {
+        const imported = await loadFile(resolvePath(statement.moduleSpecifier.text, dir));
+        if (!imported) continue;
+        const importedScope = await collect(imported);
+        for (const element of statement.importClause.namedBindings.elements) {
+          const found = importedScope.get((element.propertyName || element.name).text);
+          if (found) scope.set(element.name.text, found);
+        }
+      }
+    }
+    return scope;
+  };
+
+  // Pre-walk imports so resolution below can stay synchronous
+  await collect(root);
+
+  const convert = (node: TsTypeNode | undefined, file: TsSourceFile, depth: number): ObjectSchema => {
+    if (!node || depth > MAX_DECLARED_SCHEMA_DEPTH) return ANY_SCHEMA;
+
+    switch (node.kind) {
+      case typescript.SyntaxKind.StringKeyword:
+        return { type: "primitive", primitiveType: "string" };
+      case typescript.SyntaxKind.NumberKeyword:
+        return { type: "primitive", primitiveType: "number" };
+      case typescript.SyntaxKind.BooleanKeyword:
+        return { type: "primitive", primitiveType: "boolean" };
+    }
+
+    if (typescript.isParenthesizedTypeNode(node)) {
+      return convert(node.type, file, depth);
+    }
+
+    if (typescript.isLiteralTypeNode(node)) {
+      if (typescript.isStringLiteral(node.literal)) return { type: "primitive", primitiveType: "string" };
+      if (typescript.isNumericLiteral(node.literal)) return { type: "primitive", primitiveType: "number" };
+      if (
+        node.literal.kind === typescript.SyntaxKind.TrueKeyword ||
+        node.literal.kind === typescript.SyntaxKind.FalseKeyword
+      ) {
+        return { type: "primitive", primitiveType: "boolean" };
+      }
+      return ANY_SCHEMA;
+    }
+
+    if (typescript.isArrayTypeNode(node)) {
+      return { type: "array", elementSchema: convert(node.elementType, file, depth + 1) };
+    }
+
+    if (typescript.isTypeLiteralNode(node)) {
+      return membersToSchema(node.members, file, depth);
+    }
+
+    if (typescript.isUnionTypeNode(node)) {
+      const members = node.types.filter(t =>
+        t.kind !== typescript.SyntaxKind.UndefinedKeyword &&
+        !(typescript.isLiteralTypeNode(t) && t.literal.kind === typescript.SyntaxKind.NullKeyword)
+      );
+      return mergeUnionSchemas(members.map(t => convert(t, file, depth)));
+    }
+
+    if (typescript.isIntersectionTypeNode(node)) {
+      const fields: Record<string, ObjectSchema> = {};
+      for (const part of node.types.map(t => convert(t, file, depth))) {
+        if (part.type !== "object") return ANY_SCHEMA;
+        Object.assign(fields, part.fields);
+      }
+      return { type: "object", fields };
+    }
+
+    if (typescript.isFunctionTypeNode(node)) {
+      return { type: "primitive", primitiveType: "function" };
+    }
+
+    if (typescript.isTypeReferenceNode(node)) {
+      return resolveNamed(node.typeName.getText(file), node.typeArguments, file, depth);
+    }
+
+    return ANY_SCHEMA;
+  };
+
+  const resolveNamed = (
+    name: string,
+    args: TsNodeArray<TsTypeNode> | undefined,
+    file: TsSourceFile,
+    depth: number
+  ): ObjectSchema => {
+    if (TRANSPARENT_TYPE_WRAPPERS.has(name)) return convert(args?.[0], file, depth);
+    if (name === "Array" || name === "ReadonlyArray") {
+      return { type: "array", elementSchema: convert(args?.[0], file, depth + 1) };
+    }
+    if (name === "Record") return { type: "object", fields: {} };
+    if (name === "Stream") return { type: "primitive", primitiveType: "stream" };
+
+    const found = declarations.get(file)?.get(name);
+    if (!found || depth > MAX_DECLARED_SCHEMA_DEPTH) return ANY_SCHEMA;
+
+    if (typescript.isTypeAliasDeclaration(found.decl)) {
+      return convert(found.decl.type, found.file, depth + 1);
+    }
+
+    // Interface: own members plus anything inherited through `extends`
+    const schema = membersToSchema(found.decl.members, found.file, depth + 1);
+    for (const clause of found.decl.heritageClauses || []) {
+      for (const base of clause.types) {
+        const baseSchema = resolveNamed(base.expression.getText(found.file), base.typeArguments, found.file, depth + 1);
+        if (baseSchema.type === "object") {
+          schema.fields = { ...baseSchema.fields, ...schema.fields };
+        }
+      }
+    }
+    return schema;
+  };
+
+  const membersToSchema = (
+    members: TsNodeArray<TsTypeElement>,
+    file: TsSourceFile,
+    depth: number
+  ): ObjectSchema => {
+    const fields: Record<string, ObjectSchema> = {};
+    for (const member of members) {
+      if (!typescript.isPropertySignature(member) || !member.name) continue;
+      const key = member.name.getText(file).replace(/^["']|["']$/g, "");
+      if (key === "UI" || key === "$UI" || key.startsWith("_") || key.startsWith("[")) continue;
+      fields[key] = { ...convert(member.type, file, depth + 1), optional: !!member.questionToken };
+    }
+    return { type: "object", fields };
+  };
+
+  const [inputNode, outputNode] = call.typeArguments;
+  return {
+    origin: "source",
+    input: convert(inputNode, root, 0),
+    output: outputNode ? convert(outputNode, root, 0) : undefined,
+  };
+}
+
+// Find the `pattern<...>()` / `recipe<...>()` call that the file default-exports,
+// falling back to the first such call in the file
+function findPatternCall(typescript: TypeScript, file: TsSourceFile): TsCallExpression | null {
+  const isPatternCall = (node: TsNode | undefined): node is TsCallExpression =>
+    !!node &&
+    typescript.isCallExpression(node) &&
+    typescript.isIdentifier(node.expression) &&
+    (node.expression.text === "pattern" || node.expression.text === "recipe") &&
+    !!node.typeArguments;
+
+  const calls = new Map<string, TsCallExpression>();
+  let first: TsCallExpression | null = null;
+  let defaultExport: TsCallExpression | string | null = null;
+
+  for (const statement of file.statements) {
+    if (typescript.isVariableStatement(statement)) {
+      for (const decl of statement.declarationList.declarations) {
+        if (typescript.isIdentifier(decl.name) && isPatternCall(decl.initializer)) {
+          calls.set(decl.name.text, decl.initializer);
+          first ??= decl.initializer;
+        }
+      }
+    } else if (typescript.isExportAssignment(statement)) {
+      if (isPatternCall(statement.expression)) {
+        defaultExport = statement.expression;
+      } else if (typescript.isIdentifier(statement.expression)) {
+        defaultExport = statement.expression.text;
+      }
+    }
+  }
+
+  if (typeof defaultExport === "string") return calls.get(defaultExport) || first;
+  return defaultExport || first;
+}
+
+async function fetchDeclaredSchemas(
+  charm: RecentCharm,
+  data: CharmInspectData
+): Promise<DeclaredSchemas | null> {
+  const runtime = readRuntimeSchemas(data);
+  if (runtime) return runtime;
+  if (!charm.patternPath) return null;
+  return await readSourceSchemas(charm.patternPath);
+}
+
+// Flatten a declared schema into fields, attaching current values where the
+// inspected data has them. Declared fields take precedence over inferred ones.
+function mergeDeclaredFields(
+  declared: ObjectSchema | undefined,
+  inferred: CharmField[],
+  values: Record<string, unknown>,
+  maxDepth: number = 3
+): CharmField[] {
+  if (!declared || declared.type !== "object" || !declared.fields) return inferred;
+
+  const fields: CharmField[] = [];
+  const visit = (schema: ObjectSchema, path: string[], value: unknown) => {
+    for (const [key, fieldSchema] of Object.entries(schema.fields || {})) {
+      const currentPath = [...path, key];
+      const fieldValue = typeof value === "object" && value !== null
+        ? (value as Record<string, unknown>)[key]
+        : undefined;
+      fields.push({
+        path: currentPath,
+        fullPath: currentPath.join("/"),
+        type: schemaToTypeString(fieldSchema),
+        value: fieldSchema.type === "object" ? "{...}"
+          : fieldSchema.type === "array" ? `[${Array.isArray(fieldValue) ? fieldValue.length : 0}]`
+          : fieldValue,
+        schema: fieldSchema,
+        declared: true,
+      });
+      if (fieldSchema.type === "object" && path.length < maxDepth) {
+        visit(fieldSchema, currentPath, fieldValue);
+      }
+    }
+  };
+  visit(declared, [], values);
+
+  // Keep inferred fields the declaration doesn't mention (e.g. extra result keys)
+  const declaredPaths = new Set(fields.map(f => f.fullPath));
+  for (const field of inferred) {
+    if (!declaredPaths.has(field.fullPath)) fields.push(field);
+  }
+  return fields;
+}
+
+// Structural comparison with an explanation of each decision
+function explainSchemaCompatibility(
+  source: ObjectSchema | undefined,
+  target: ObjectSchema | undefined,
+  label: string = "value"
+): SchemaComparison {
   // If either is missing, can't determine
-  if (!source || !target) return "maybe";
+  if (!source || !target) {
+    return { compatibility: "maybe", reasons: [`${label}: type is unknown on one side`] };
+  }
+
+  const sourceType = schemaToTypeString(source);
+  const targetType = schemaToTypeString(target);
 
   // Primitives: must match exactly (or any)
   if (source.type === "primitive" && target.type === "primitive") {
-    if (source.primitiveType === target.primitiveType) return "compatible";
-    if (source.primitiveType === "any" || target.primitiveType === "any") return "maybe";
-    return "incompatible";
+    if (source.primitiveType === target.primitiveType) {
+      return { compatibility: "compatible", reasons: [`${label}: ${sourceType} matches ${targetType}`] };
+    }
+    if (source.primitiveType === "any" || target.primitiveType === "any") {
+      const side = source.primitiveType === "any" ? "source" : "target";
+      return { compatibility: "maybe", reasons: [`${label}: ${side} type is unknown (any)`] };
+    }
+    return {
+      compatibility: "incompatible",
+      reasons: [`${label}: source provides ${sourceType} but target expects ${targetType}`],
+    };
   }
 
   // Mixed types (primitive vs object/array)
   if (source.type !== target.type) {
     // Any can match anything
-    if (source.type === "primitive" && source.primitiveType === "any") return "maybe";
-    if (target.type === "primitive" && target.primitiveType === "any") return "maybe";
-    return "incompatible";
+    if (source.type === "primitive" && source.primitiveType === "any") {
+      return { compatibility: "maybe", reasons: [`${label}: source type is unknown (any), target expects ${targetType}`] };
+    }
+    if (target.type === "primitive" && target.primitiveType === "any") {
+      return { compatibility: "maybe", reasons: [`${label}: target accepts anything (any), source provides ${sourceType}`] };
+    }
+    return {
+      compatibility: "incompatible",
+      reasons: [`${label}: source provides ${source.type} ${sourceType} but target expects ${target.type} ${targetType}`],
+    };
   }
 
   // Arrays: check element compatibility
   if (source.type === "array" && target.type === "array") {
-    return checkSchemaCompatibility(source.elementSchema, target.elementSchema);
+    return explainSchemaCompatibility(source.elementSchema, target.elementSchema, `${label}[]`);
   }
 
   // Objects: check if target's fields are subset of source's fields
@@ -787,30 +1300,47 @@ function checkSchemaCompatibility(
     const targetKeys = Object.keys(targetFields);
 
     // Empty objects are compatible
-    if (targetKeys.length === 0) return "compatible";
-    if (sourceKeys.length === 0) return "maybe"; // Source has no fields, target expects some
+    if (targetKeys.length === 0) {
+      return { compatibility: "compatible", reasons: [`${label}: target accepts any object`] };
+    }
+    if (sourceKeys.length === 0) {
+      // Source has no fields, target expects some
+      return { compatibility: "maybe", reasons: [`${label}: source object has no known fields, target expects {${targetKeys.join(", ")}}`] };
+    }
 
     // Check if all target fields exist in source with compatible types
     let allMatch = true;
     let anyMatch = false;
+    const problems: string[] = [];
+    const matches: string[] = [];
 
     for (const targetKey of targetKeys) {
       const targetFieldSchema = targetFields[targetKey];
+      const fieldLabel = `${label}.${targetKey}`;
 
       // Look for exact key match first
       if (sourceFields[targetKey]) {
-        const compat = checkSchemaCompatibility(sourceFields[targetKey], targetFieldSchema);
-        if (compat === "compatible") {
+        const compat = explainSchemaCompatibility(sourceFields[targetKey], targetFieldSchema, fieldLabel);
+        if (compat.compatibility === "compatible") {
           anyMatch = true;
-        } else if (compat === "incompatible") {
+          matches.push(...compat.reasons);
+        } else if (compat.compatibility === "incompatible") {
           allMatch = false;
+          problems.push(...compat.reasons);
         } else {
           anyMatch = true;
           allMatch = false;
+          problems.push(...compat.reasons);
         }
         continue;
       }
 
+      // Optional target fields don't need a counterpart
+      if (targetFieldSchema.optional) {
+        matches.push(`${fieldLabel}: optional in target, not provided by source`);
+        continue;
+      }
+
       // Look for similar key names (fuzzy match)
       const similarKey = sourceKeys.find(sk =>
         sk.toLowerCase() === targetKey.toLowerCase() ||
@@ -819,61 +1349,34 @@ function checkSchemaCompatibility(
       );
 
       if (similarKey) {
-        const compat = checkSchemaCompatibility(sourceFields[similarKey], targetFieldSchema);
-        if (compat !== "incompatible") {
+        const compat = explainSchemaCompatibility(sourceFields[similarKey], targetFieldSchema, fieldLabel);
+        if (compat.compatibility !== "incompatible") {
           anyMatch = true;
         }
         allMatch = false; // Not exact match
+        problems.push(`${fieldLabel}: only a similarly named source field "${similarKey}" exists`);
       } else {
         allMatch = false; // Field not found
+        problems.push(`${fieldLabel}: required by target but missing from source`);
       }
     }
 
-    if (allMatch) return "compatible";
-    if (anyMatch) return "maybe";
-    return "incompatible";
-  }
-
-  return "incompatible";
-}
-
-function checkTypeCompatibility(
-  sourceType: string,
-  targetType: string,
-  sourceSchema?: ObjectSchema,
-  targetSchema?: ObjectSchema
-): "compatible" | "maybe" | "incompatible" {
-  // If we have schemas, use structural comparison
-  if (sourceSchema && targetSchema) {
-    return checkSchemaCompatibility(sourceSchema, targetSchema);
-  }
-
-  // Fallback to string-based comparison
-  // Exact match
-  if (sourceType === targetType) return "compatible";
-
-  // Any matches anything
-  if (sourceType === "any" || targetType === "any") return "maybe";
-  if (sourceType.startsWith("any") || targetType.startsWith("any")) return "maybe";
-
-  // Array compatibility (check element types)
-  if (sourceType.endsWith("[]") && targetType.endsWith("[]")) {
-    const sourceElement = sourceType.slice(0, -2);
-    const targetElement = targetType.slice(0, -2);
-    return checkTypeCompatibility(sourceElement, targetElement);
+    if (allMatch) return { compatibility: "compatible", reasons: matches.length > 0 ? matches : [`${label}: all target fields are provided`] };
+    if (anyMatch) return { compatibility: "maybe", reasons: [...problems, ...matches] };
+    return { compatibility: "incompatible", reasons: problems };
   }
 
-  // Object to object - can't determine without schema
-  if (sourceType.startsWith("{") && targetType.startsWith("{")) return "maybe";
-
-  // Different types
-  return "incompatible";
+  return { compatibility: "incompatible", reasons: [`${label}: ${sourceType} can't be linked to ${targetType}`] };
 }
 
-async function fetchCharmSchema(
-  charm: RecentCharm,
+// Run `ct charm inspect --json` and return the parsed result, or null if the
+// charm can't be inspected (deleted, wrong space, server unreachable)
+async function inspectCharm(
+  charmId: string,
+  space: string,
+  apiUrl: string,
   labsDir: string
-): Promise<CharmSchema | null> {
+): Promise<CharmInspectData | null> {
   try {
     const command = new Deno.Command("deno", {
       args: [
@@ -881,9 +1384,9 @@ async function fetchCharmSchema(
         "ct",
         "charm",
         "inspect",
-        "--space", charm.space,
-        "--charm", charm.charmId,
-        "--api-url", charm.apiUrl,
+        "--space", space,
+        "--charm", charmId,
+        "--api-url", apiUrl,
         "--identity", IDENTITY_PATH,
         "--json",
       ],
@@ -898,12 +1401,33 @@ async function fetchCharmSchema(
       return null;
     }
 
-    const output = new TextDecoder().decode(stdout);
-    const data = JSON.parse(output);
+    return JSON.parse(new TextDecoder().decode(stdout));
+  } catch {
+    return null;
+  }
+}
+
+async function fetchCharmSchema(
+  charm: RecentCharm,
+  labsDir: string
+): Promise<CharmSchema | null> {
+  try {
+    const data = await inspectCharm(charm.charmId, charm.space, charm.apiUrl, labsDir);
+
+    if (!data) {
+      return null;
+    }
 
     // Flatten source (inputs) and result (outputs)
-    const inputs = flattenObject(data.source || {});
-    const outputs = flattenObject(data.result || {});
+    let inputs = flattenObject(data.source || {});
+    let outputs = flattenObject(data.result || {});
+
+    // Prefer declared types over types inferred from current values
+    const declared = await fetchDeclaredSchemas(charm, data);
+    if (declared) {
+      inputs = mergeDeclaredFields(declared.input, inputs, data.source || {});
+      outputs = mergeDeclaredFields(declared.output, outputs, data.result || {});
+    }
 
     return {
       charmId: charm.charmId,
@@ -912,6 +1436,7 @@ async function fetchCharmSchema(
       apiUrl: charm.apiUrl,
       inputs,
       outputs,
+      schemaOrigin: declared?.origin || "inferred",
     };
   } catch {
     return null;
@@ -946,6 +1471,13 @@ async function generateFieldSuggestions(
     return [];
   }
 
+  for (const schema of [sourceSchema, targetSchema]) {
+    const originLabel = schema.schemaOrigin === "runtime" ? "declared types (runtime schema)"
+      : schema.schemaOrigin === "source" ? "declared types (pattern source)"
+      : "types inferred from current values";
+    console.log(`  ${schema.name || "unnamed"}: using ${originLabel}`);
+  }
+
   if (sourceSchema.outputs.length === 0) {
     console.log(`  ⚠️  Source charm has no output fields`);
     return [];
@@ -959,12 +1491,24 @@ async function generateFieldSuggestions(
   // Compare outputs from source to inputs of target
   for (const outputField of sourceSchema.outputs) {
     for (const inputField of targetSchema.inputs) {
-      const compatibility = checkTypeCompatibility(
-        outputField.type,
-        inputField.type,
-        outputField.schema,
-        inputField.schema
-      );
+      // Structural comparison (with explanation) when both sides have a schema
+      const comparison: SchemaComparison = outputField.schema && inputField.schema
+        ? explainSchemaCompatibility(outputField.schema, inputField.schema, outputField.fullPath)
+        : {
+          compatibility: checkTypeCompatibility(outputField.type, inputField.type),
+          reasons: [`${outputField.fullPath}: compared by type name (${outputField.type} → ${inputField.type})`],
+        };
+      const compatibility = comparison.compatibility;
+
+      // Say where the types came from, so "maybe" on an inferred any[] reads differently
+      // from "maybe" between two declared schemas
+      const bothDeclared = outputField.declared && inputField.declared;
+      const reasons = [
+        bothDeclared ? "Both fields have declared types"
+          : outputField.declared || inputField.declared ? "Only one side has declared types; the other is inferred from its current value"
+          : "Types are inferred from current values",
+        ...comparison.reasons,
+      ];
 
       // Calculate score
       let score = 0;
@@ -984,6 +1528,9 @@ async function generateFieldSuggestions(
       if (outputField.path.length === 1) score += 15;
       if (inputField.path.length === 1) score += 15;
 
+      // Declared types are more trustworthy than inferred ones
+      if (bothDeclared && compatibility === "compatible") score += 25;
+
       // Link history bonus - boost fields that have been linked before
       const historyMatch = linkHistory.find(
         h => h.sourceField === outputField.fullPath && h.targetField === inputField.fullPath
@@ -996,6 +1543,7 @@ async function generateFieldSuggestions(
         source: { charm: sourceCharm, field: outputField },
         target: { charm: targetCharm, field: inputField },
         compatibility,
+        reasons,
         score,
       });
     }
@@ -1041,10 +1589,61 @@ async function importCharmsFromSpace(
 
   console.log(`\n🔍 Fetching charms from ${space}...`);
 
-  try {
-    // Run ct charm ls to get charms in the space
-    const command = new Deno.Command("deno", {
-      args: [
+  const charms = await listSpaceCharms(space, apiUrl, labsDir);
+  if (charms === null) {
+    return config;
+  }
+
+  if (charms.length === 0) {
+    console.log("\n⚠️  No charms found in space.\n");
+    return config;
+  }
+
+  let imported = 0;
+  let skipped = 0;
+
+  for (const { charmId, name } of charms) {
+    // Check if already in recentCharms
+    if (config.recentCharms.some(c => c.charmId === charmId)) {
+      skipped++;
+      continue;
+    }
+
+    // Add to recentCharms
+    config.recentCharms.push({
+      space,
+      charmId,
+      name,
+      deployedAt: new Date().toISOString(),
+      apiUrl,
+    });
+    imported++;
+  }
+
+  // Keep only last 100
+  config.recentCharms = config.recentCharms.slice(0, 100);
+
+  console.log(`\n✅ Imported ${imported} charm${imported !== 1 ? "s" : ""}`);
+  if (skipped > 0) {
+    console.log(`   (${skipped} already in list)`);
+  }
+  console.log("");
+
+  return config;
+}
+
+// List the charms in a space via `ct charm ls`. Returns null (after printing
+// the error) if the listing fails.
+async function listSpaceCharms(
+  space: string,
+  apiUrl: string,
+  labsDir: string,
+  log: (...args: unknown[]) => void = console.log
+): Promise<Array<{ charmId: string; name?: string }> | null> {
+  try {
+    // Run ct charm ls to get charms in the space
+    const command = new Deno.Command("deno", {
+      args: [
         "task",
         "ct",
         "charm",
@@ -1062,8 +1661,8 @@ async function importCharmsFromSpace(
 
     if (code !== 0) {
       const errorOutput = new TextDecoder().decode(stderr);
-      console.log(`\n❌ Failed to list charms: ${errorOutput}`);
-      return config;
+      log(`\n❌ Failed to list charms: ${errorOutput}`);
+      return null;
     }
 
     const output = new TextDecoder().decode(stdout);
@@ -1072,14 +1671,7 @@ async function importCharmsFromSpace(
     // Skip header line, parse charm entries
     // Format: ID NAME RECIPE
     const charmLines = lines.slice(1).filter(line => line.trim());
-
-    if (charmLines.length === 0) {
-      console.log("\n⚠️  No charms found in space.\n");
-      return config;
-    }
-
-    let imported = 0;
-    let skipped = 0;
+    const charms: Array<{ charmId: string; name?: string }> = [];
 
     for (const line of charmLines) {
       // Parse line - ID is first column (space-separated)
@@ -1092,36 +1684,13 @@ async function importCharmsFromSpace(
       // Let's just take the second part as name for now
       const name = parts.slice(1, -1).join(" ") || "unnamed";
 
-      // Check if already in recentCharms
-      if (config.recentCharms.some(c => c.charmId === charmId)) {
-        skipped++;
-        continue;
-      }
-
-      // Add to recentCharms
-      config.recentCharms.push({
-        space,
-        charmId,
-        name: name === "<unnamed>" ? undefined : name,
-        deployedAt: new Date().toISOString(),
-        apiUrl,
-      });
-      imported++;
-    }
-
-    // Keep only last 100
-    config.recentCharms = config.recentCharms.slice(0, 100);
-
-    console.log(`\n✅ Imported ${imported} charm${imported !== 1 ? "s" : ""}`);
-    if (skipped > 0) {
-      console.log(`   (${skipped} already in list)`);
+      charms.push({ charmId, name: name === "<unnamed>" ? undefined : name });
     }
-    console.log("");
 
-    return config;
+    return charms;
   } catch (e) {
-    console.error("Error importing charms:", e);
-    return config;
+    log("Error listing charms:", e);
+    return null;
   }
 }
 
@@ -1275,6 +1844,25 @@ function recordLinkHistory(
   return config;
 }
 
+// Remember the field paths of a link we created (newest first)
+function recordCharmLink(
+  config: Config,
+  link: Omit<CharmLinkRecord, "createdAt">
+): Config {
+  const sameLink = (l: CharmLinkRecord) =>
+    l.sourceCharmId === link.sourceCharmId &&
+    l.targetCharmId === link.targetCharmId &&
+    l.sourcePath.join("/") === link.sourcePath.join("/") &&
+    l.targetPath.join("/") === link.targetPath.join("/");
+
+  config.charmLinks = [
+    { ...link, createdAt: new Date().toISOString() },
+    ...config.charmLinks.filter(l => !sameLink(l)),
+  ].slice(0, 500);
+
+  return config;
+}
+
 async function createCharmLink(
   sourceCharmId: string,
   sourcePath: string[],
@@ -1282,16 +1870,17 @@ async function createCharmLink(
   targetPath: string[],
   space: string,
   apiUrl: string,
-  labsDir: string
+  labsDir: string,
+  log: (...args: unknown[]) => void = console.log
 ): Promise<boolean> {
   const sourceRef = `${sourceCharmId}/${sourcePath.join("/")}`;
   const targetRef = `${targetCharmId}/${targetPath.join("/")}`;
 
   // Debug: print what we're running
-  console.log(`   Running: deno task ct charm link --space ${space} \\\n     ${sourceRef} \\\n     ${targetRef}`);
-  console.log(`   CWD: ${labsDir}`);
-  console.log(`   API: ${apiUrl}`);
-  console.log(`   Identity: ${IDENTITY_PATH}\n`);
+  log(`   Running: deno task ct charm link --space ${space} \\\n     ${sourceRef} \\\n     ${targetRef}`);
+  log(`   CWD: ${labsDir}`);
+  log(`   API: ${apiUrl}`);
+  log(`   Identity: ${IDENTITY_PATH}\n`);
 
   const command = new Deno.Command("deno", {
     args: [
@@ -1317,24 +1906,34 @@ async function createCharmLink(
 
   // Show all output for debugging
   if (output.trim()) {
-    console.log("   stdout:", output.trim());
+    log("   stdout:", output.trim());
   }
   if (errorOutput.trim() && !errorOutput.includes("Warning experimentalDecorators")) {
-    console.log("   stderr:", errorOutput.trim());
+    log("   stderr:", errorOutput.trim());
   }
 
   if (code === 0) {
     return true;
   } else {
-    console.error(`   Exit code: ${code}`);
+    log(`   Exit code: ${code}`);
     return false;
   }
 }
 
 // ===== MAIN FUNCTIONS =====
 
-async function handleOtherActions(labsDir: string): Promise<boolean> {
+async function handleOtherActions(config: Config, labsDir: string): Promise<boolean> {
   const options: SelectOption[] = [
+    {
+      label: "Export space snapshot...",
+      value: "export-space",
+      icon: "💾 ",
+    },
+    {
+      label: "Import space snapshot...",
+      value: "import-space",
+      icon: "📥 ",
+    },
     {
       label: "Clear LLM cache",
       value: "clear-llm-cache",
@@ -1361,6 +1960,16 @@ async function handleOtherActions(labsDir: string): Promise<boolean> {
     return false; // Return to main menu
   }
 
+  if (selection === "export-space") {
+    await exportSpaceInteractive(config, labsDir);
+    return true;
+  }
+
+  if (selection === "import-space") {
+    await importSpaceInteractive(config, labsDir);
+    return true;
+  }
+
   if (selection === "clear-llm-cache") {
     return await clearLLMCache(labsDir);
   }
@@ -1384,10 +1993,21 @@ async function handleLinkCharms(config: Config, labsDir: string): Promise<Config
     // Offer to import
     const importOptions: SelectOption[] = [
       { label: "Import charms from a space...", value: "import", icon: "📦 " },
+      { label: "Apply charm-graph manifest...", value: "manifest", icon: "📜 " },
+      { label: "View link graph for a space...", value: "graph", icon: "🕸️  " },
       { label: "Go back", value: "back", icon: "⬅️  " },
     ];
 
     const choice = await interactiveSelect(importOptions, "What would you like to do?");
+    if (choice === "graph") {
+      await viewLinkGraph(config, labsDir);
+      return config;
+    }
+    if (choice === "manifest") {
+      config = await applyManifestInteractive(config, labsDir);
+      await saveConfig(config);
+      return config;
+    }
     if (choice === "import") {
       config = await importCharmsFromSpace(config, labsDir);
       await saveConfig(config);
@@ -1418,11 +2038,21 @@ async function handleLinkCharms(config: Config, labsDir: string): Promise<Config
     value: "__view_links__",
     icon: "📊 ",
   });
+  sourceOptions.push({
+    label: "View link graph for a space...",
+    value: "__view_graph__",
+    icon: "🕸️  ",
+  });
   sourceOptions.push({
     label: "Import charms from a space...",
     value: "__import__",
     icon: "📦 ",
   });
+  sourceOptions.push({
+    label: "Apply charm-graph manifest...",
+    value: "__manifest__",
+    icon: "📜 ",
+  });
 
   const sourceCharmId = await interactiveSelect(
     sourceOptions,
@@ -1436,6 +2066,19 @@ async function handleLinkCharms(config: Config, labsDir: string): Promise<Config
     return handleLinkCharms(config, labsDir);
   }
 
+  // Handle graph
+  if (sourceCharmId === "__view_graph__") {
+    await viewLinkGraph(config, labsDir);
+    return config;
+  }
+
+  // Handle manifest
+  if (sourceCharmId === "__manifest__") {
+    config = await applyManifestInteractive(config, labsDir);
+    await saveConfig(config);
+    return config;
+  }
+
   // Handle import
   if (sourceCharmId === "__import__") {
     config = await importCharmsFromSpace(config, labsDir);
@@ -1602,8 +2245,13 @@ async function showFieldSuggestions(
     );
     const historyIndicator = historyMatch ? " ⭐" : "";
 
+    // For non-compatible pairings, show the main reason inline
+    const whyNot = suggestion.compatibility !== "compatible" && suggestion.reasons[1]
+      ? ` \x1b[90m— ${suggestion.reasons[1]}\x1b[0m`
+      : "";
+
     fieldOptions.push({
-      label: `${sourceRef} → ${targetRef} (${sourceType} → ${targetType})${historyIndicator}`,
+      label: `${sourceRef} → ${targetRef} (${sourceType} → ${targetType})${historyIndicator}${whyNot}`,
       value: JSON.stringify({
         sourceCharmId: sourceCharm.charmId,
         sourcePath: suggestion.source.field.path,
@@ -1613,6 +2261,8 @@ async function showFieldSuggestions(
         targetField: suggestion.target.field.fullPath,
         space: targetCharm.space,
         apiUrl: targetCharm.apiUrl,
+        compatibility: suggestion.compatibility,
+        reasons: suggestion.reasons,
       }),
       icon: `${compatIcon} `,
     });
@@ -1657,6 +2307,12 @@ async function showFieldSuggestions(
     console.log(`   → ${targetName}(${targetCharm.charmId.slice(-4)}).${linkData.targetPath.join("/")}`);
     console.log(`   Space: ${linkData.space}\n`);
 
+    console.log(`   Why ${linkData.compatibility}:`);
+    for (const reason of linkData.reasons as string[]) {
+      console.log(`     • ${reason}`);
+    }
+    console.log("");
+
     const success = await createCharmLink(
       linkData.sourceCharmId,
       linkData.sourcePath,
@@ -1672,6 +2328,14 @@ async function showFieldSuggestions(
 
       // Record in link history
       config = recordLinkHistory(config, linkData.sourceField, linkData.targetField);
+      config = recordCharmLink(config, {
+        space: linkData.space,
+        apiUrl: linkData.apiUrl,
+        sourceCharmId: linkData.sourceCharmId,
+        sourcePath: linkData.sourcePath,
+        targetCharmId: linkData.targetCharmId,
+        targetPath: linkData.targetPath,
+      });
       await saveConfig(config);
 
       // Ask if user wants to link more
@@ -2010,11 +2674,7 @@ async function promptForSpace(config: Config, target: "local" | "staging" | "pro
   const options: SelectOption[] = [];
 
   // Get the appropriate last space based on deployment target
-  const lastSpace = target === "prod"
-    ? config.lastSpaceProd
-    : target === "staging"
-      ? config.lastSpaceStaging
-      : config.lastSpaceLocal;
+  const lastSpace = getLastSpaceForTarget(config, target);
   const defaultSpace = target === "prod" ? "prod-space" : target === "staging" ? "staging-space" : "test-space";
 
   // Add last used space if available
@@ -2464,19 +3124,27 @@ async function promptOpenBrowser(url: string): Promise<void> {
   }
 }
 
+interface DeployOptions {
+  interactive?: boolean;              // Offer to open the charm in a browser (default: true)
+  log?: (...args: unknown[]) => void; // Where progress output goes (default: console.log)
+}
+
 async function deployPattern(
   patternPath: string,
   space: string,
   apiUrl: string,
-  labsDir: string
+  labsDir: string,
+  options: DeployOptions = {}
 ): Promise<string | null> {
   const isRemote = !apiUrl.includes("localhost");
+  const interactive = options.interactive ?? true;
+  const log = options.log ?? console.log;
 
-  console.log("\n🚀 Deploying...");
-  console.log(`  Pattern: ${getShortPath(patternPath)}`);
-  console.log(`  Space: ${space}`);
-  console.log(`  API: ${apiUrl}`);
-  console.log(`  Identity: ${IDENTITY_PATH}\n`);
+  log("\n🚀 Deploying...");
+  log(`  Pattern: ${getShortPath(patternPath)}`);
+  log(`  Space: ${space}`);
+  log(`  API: ${apiUrl}`);
+  log(`  Identity: ${IDENTITY_PATH}\n`);
 
   // Set environment variables
   Deno.env.set("CT_IDENTITY", IDENTITY_PATH);
@@ -2531,26 +3199,28 @@ async function deployPattern(
 
     if (charmId) {
       const fullUrl = `${apiUrl}/${space}/${charmId}`;
-      console.log("\n✅ Deployed successfully!");
-      console.log(`\n🔗 ${fullUrl}\n`);
+      log("\n✅ Deployed successfully!");
+      log(`\n🔗 ${fullUrl}\n`);
 
       // Prompt to open in browser
-      await promptOpenBrowser(fullUrl);
+      if (interactive) {
+        await promptOpenBrowser(fullUrl);
+      }
 
       return charmId;
     } else {
       // Could not extract charm ID - just show space URL
-      console.log("\n✅ Deployed successfully!");
-      console.log(`   View at: ${apiUrl}/${space}/`);
-      console.log("\n⚠️  Could not extract charm ID from output.");
-      console.log("   (Check the space to find your charm)");
+      log("\n✅ Deployed successfully!");
+      log(`   View at: ${apiUrl}/${space}/`);
+      log("\n⚠️  Could not extract charm ID from output.");
+      log("   (Check the space to find your charm)");
       return "success";
     }
   } else {
     // Deployment failed - show output for debugging
-    console.log("\n❌ Deployment failed\n");
-    if (output) console.log(output);
-    if (errorOutput) console.error(errorOutput);
+    log("\n❌ Deployment failed\n");
+    if (output) log(output);
+    if (errorOutput) log(errorOutput);
 
     // If this was a remote deployment, check for network-related errors
     if (isRemote) {
@@ -2571,8 +3241,8 @@ async function deployPattern(
       );
 
       if (hasNetworkError) {
-        console.log("\n💡 Tip: Production deployments require Tailscale to be running.");
-        console.log("   Check if Tailscale is connected and try again.\n");
+        log("\n💡 Tip: Production deployments require Tailscale to be running.");
+        log("   Check if Tailscale is connected and try again.\n");
       }
     }
 
@@ -2580,6 +3250,38 @@ async function deployPattern(
   }
 }
 
+function getApiUrlForTarget(target: "local" | "staging" | "prod"): string {
+  return target === "prod"
+    ? "https://estuary.saga-castor.ts.net"
+    : target === "staging"
+      ? "https://toolshed.saga-castor.ts.net"
+      : "http://localhost:8000";
+}
+
+function getLastSpaceForTarget(config: Config, target: "local" | "staging" | "prod"): string | undefined {
+  return target === "prod"
+    ? config.lastSpaceProd
+    : target === "staging"
+      ? config.lastSpaceStaging
+      : config.lastSpaceLocal;
+}
+
+function recordLastSpace(
+  config: Config,
+  target: "local" | "staging" | "prod",
+  space: string
+): Config {
+  config.lastDeploymentTarget = target;
+  if (target === "prod") {
+    config.lastSpaceProd = space;
+  } else if (target === "staging") {
+    config.lastSpaceStaging = space;
+  } else {
+    config.lastSpaceLocal = space;
+  }
+  return config;
+}
+
 function recordPatternUsage(config: Config, patternPath: string): Config {
   // Remove existing entry for this pattern
   const filtered = config.patterns.filter((p) => p.path !== patternPath);
@@ -2644,83 +3346,1737 @@ async function cullNonExistentPatterns(config: Config): Promise<Config> {
   return config;
 }
 
-// ===== MAIN =====
+// ===== CHARM-GRAPH MANIFESTS =====
 
-async function main() {
-  // Load config
-  let config = await loadConfig();
+interface ManifestApplyResult {
+  success: boolean;
+  charms: Record<string, { charmId: string; status: "deployed" | "reused" }>;
+  links: Array<{ from: string; to: string; status: "created" | "skipped" | "failed" }>;
+  error?: string;
+}
 
-  // Clean up any invalid pattern entries (files that no longer exist)
-  const originalPatternCount = config.patterns.length;
-  config = await cullNonExistentPatterns(config);
-  const removedCount = originalPatternCount - config.patterns.length;
+// Parse and validate a manifest file. Throws with a readable message on bad input.
+function parseManifest(text: string, manifestPath: string): CharmManifest {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    throw new Error(`${manifestPath} is not valid JSON: ${message}`);
+  }
 
-  // Save cleaned config if anything was removed
-  if (removedCount > 0) {
-    await saveConfig(config);
-    console.log(`🧹 Cleaned up ${removedCount} invalid pattern${removedCount > 1 ? 's' : ''} from history\n`);
+  if (typeof data !== "object" || data === null || !Array.isArray((data as CharmManifest).charms)) {
+    throw new Error(`${manifestPath} must be an object with a "charms" array`);
   }
 
-  // Get labs directory (may prompt user if not configured)
-  const labsDir = await getLabsDir(config);
+  const manifest = data as CharmManifest;
+  const ids = new Set<string>();
 
-  // Save labs dir to config if it was just determined
-  if (!config.labsDir && labsDir !== DEFAULT_LABS_DIR) {
-    config.labsDir = labsDir;
-    await saveConfig(config);
+  for (const charm of manifest.charms) {
+    if (!charm || typeof charm.id !== "string" || typeof charm.pattern !== "string") {
+      throw new Error(`Every charm needs a string "id" and "pattern"`);
+    }
+    if (charm.id.includes("/")) {
+      throw new Error(`Charm id "${charm.id}" must not contain "/"`);
+    }
+    if (ids.has(charm.id)) {
+      throw new Error(`Duplicate charm id "${charm.id}"`);
+    }
+    ids.add(charm.id);
   }
 
-  // Prompt for deployment target (first question)
-  const deploymentTarget = await promptForDeploymentTarget(config);
+  for (const link of manifest.links || []) {
+    for (const ref of [link?.from, link?.to]) {
+      if (typeof ref !== "string") {
+        throw new Error(`Every link needs string "from" and "to" references`);
+      }
+      const { charmId, path } = parseManifestRef(ref);
+      if (!ids.has(charmId)) {
+        throw new Error(`Link "${ref}" refers to unknown charm "${charmId}"`);
+      }
+      if (path.length === 0) {
+        throw new Error(`Link "${ref}" needs a field path after the charm id`);
+      }
+    }
+  }
 
-  // Handle "link charms" menu
-  if (deploymentTarget === "link") {
-    config = await handleLinkCharms(config, labsDir);
-    Deno.exit(0);
+  if (
+    manifest.target !== undefined &&
+    manifest.target !== "local" &&
+    manifest.target !== "staging" &&
+    manifest.target !== "prod"
+  ) {
+    throw new Error(`Unknown target "${manifest.target}" (expected local, staging or prod)`);
   }
 
-  // Handle "other actions" menu
-  if (deploymentTarget === "other") {
-    await handleOtherActions(labsDir);
-    // After handling other actions, exit (user can run the tool again)
-    Deno.exit(0);
+  return manifest;
+}
+
+// Split "gmail/settings/limit" into the manifest charm id and field path
+function parseManifestRef(ref: string): { charmId: string; path: string[] } {
+  const [charmId, ...path] = ref.split("/").filter(part => part !== "");
+  return { charmId: charmId || "", path };
+}
+
+// Order charms so every link source is deployed before its target.
+// Charms without dependencies keep their manifest order. Throws on cycles.
+function orderManifestCharms(manifest: CharmManifest): ManifestCharm[] {
+  const dependencies = new Map<string, Set<string>>();
+  for (const charm of manifest.charms) {
+    dependencies.set(charm.id, new Set());
+  }
+  for (const link of manifest.links || []) {
+    const source = parseManifestRef(link.from).charmId;
+    const target = parseManifestRef(link.to).charmId;
+    // Self-links don't affect deployment order
+    if (source !== target) {
+      dependencies.get(target)!.add(source);
+    }
   }
 
-  // Prompt for space (deploymentTarget is now "local" | "staging" | "prod")
-  const space = await promptForSpace(config, deploymentTarget);
-  if (!space) {
-    console.log("❌ No space provided");
-    Deno.exit(1);
+  const ordered: ManifestCharm[] = [];
+  const placed = new Set<string>();
+
+  while (ordered.length < manifest.charms.length) {
+    const next = manifest.charms.find(charm =>
+      !placed.has(charm.id) &&
+      [...dependencies.get(charm.id)!].every(dep => placed.has(dep))
+    );
+
+    if (!next) {
+      const remaining = manifest.charms
+        .filter(charm => !placed.has(charm.id))
+        .map(charm => charm.id);
+      throw new Error(`Links form a cycle between: ${remaining.join(", ")}`);
+    }
+
+    ordered.push(next);
+    placed.add(next.id);
   }
 
-  // Save deployment target and space immediately (even if deployment fails)
-  config.lastDeploymentTarget = deploymentTarget;
-  if (deploymentTarget === "prod") {
-    config.lastSpaceProd = space;
-  } else if (deploymentTarget === "staging") {
-    config.lastSpaceStaging = space;
-  } else {
-    config.lastSpaceLocal = space;
+  return ordered;
+}
+
+function recordManifestDeployment(config: Config, deployment: ManifestDeployment): Config {
+  config.manifestDeployments = [
+    deployment,
+    ...config.manifestDeployments.filter(d =>
+      !(d.manifestPath === deployment.manifestPath &&
+        d.space === deployment.space &&
+        d.apiUrl === deployment.apiUrl)
+    ),
+  ].slice(0, 50);
+  return config;
+}
+
+// Deploy every charm in the manifest (in dependency order) and wire up its links.
+// Re-applying to the same space reuses charms and links recorded from earlier runs,
+// so only missing charms are deployed and only new links are created.
+async function applyManifest(
+  config: Config,
+  manifestPath: string,
+  manifest: CharmManifest,
+  space: string,
+  apiUrl: string,
+  labsDir: string,
+  log: (...args: unknown[]) => void = console.log
+): Promise<{ config: Config; result: ManifestApplyResult }> {
+  const result: ManifestApplyResult = { success: true, charms: {}, links: [] };
+  const manifestDir = manifestPath.substring(0, manifestPath.lastIndexOf("/")) || "/";
+
+  let ordered: ManifestCharm[];
+  try {
+    ordered = orderManifestCharms(manifest);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return { config, result: { ...result, success: false, error: message } };
+  }
+
+  const previous = config.manifestDeployments.find(d =>
+    d.manifestPath === manifestPath && d.space === space && d.apiUrl === apiUrl
+  );
+  const deployment: ManifestDeployment = {
+    manifestPath,
+    space,
+    apiUrl,
+    charms: {},
+    links: [],
+    appliedAt: new Date().toISOString(),
+  };
+
+  log(`\n📜 Applying manifest ${manifestPath}`);
+  log(`   Space: ${space}`);
+  log(`   Deploy order: ${ordered.map(c => c.id).join(" → ")}\n`);
+
+  // Step 1: Deploy (or reuse) charms in dependency order
+  for (const charm of ordered) {
+    const patternPath = resolvePath(charm.pattern, manifestDir);
+    const previousCharmId = previous?.charms[charm.id];
+
+    if (previousCharmId && await inspectCharm(previousCharmId, space, apiUrl, labsDir)) {
+      log(`♻️  ${charm.id}: reusing ${formatCharmId(previousCharmId)}`);
+      deployment.charms[charm.id] = previousCharmId;
+      result.charms[charm.id] = { charmId: previousCharmId, status: "reused" };
+      continue;
+    }
+
+    try {
+      await Deno.stat(patternPath);
+    } catch {
+      result.success = false;
+      result.error = `Pattern for "${charm.id}" not found: ${patternPath}`;
+      break;
+    }
+
+    config = recordPatternUsage(config, patternPath);
+    const deployed = await deployPattern(patternPath, space, apiUrl, labsDir, {
+      interactive: false,
+      log,
+    });
+
+    if (!deployed || deployed === "success" || !deployed.startsWith("ba")) {
+      result.success = false;
+      result.error = deployed
+        ? `Deployed "${charm.id}" but could not determine its charm ID`
+        : `Failed to deploy "${charm.id}"`;
+      break;
+    }
+
+    config = recordRecentCharm(config, deployed, space, apiUrl, patternPath);
+    deployment.charms[charm.id] = deployed;
+    result.charms[charm.id] = { charmId: deployed, status: "deployed" };
+
+    // Save as we go so a failed run can be resumed by re-applying
+    config = recordManifestDeployment(config, { ...deployment, links: previous?.links || [] });
+    await saveConfig(config);
+  }
+
+  // Step 2: Create links that haven't been applied between these exact charms
+  if (result.success) {
+    for (const link of manifest.links || []) {
+      const source = parseManifestRef(link.from);
+      const target = parseManifestRef(link.to);
+      const sourceCharmId = deployment.charms[source.charmId];
+      const targetCharmId = deployment.charms[target.charmId];
+      const linkKey = `${sourceCharmId}/${source.path.join("/")} -> ${targetCharmId}/${target.path.join("/")}`;
+
+      if (previous?.links.includes(linkKey)) {
+        log(`♻️  ${link.from} → ${link.to}: already linked`);
+        deployment.links.push(linkKey);
+        result.links.push({ from: link.from, to: link.to, status: "skipped" });
+        continue;
+      }
+
+      log(`\n🔗 ${link.from} → ${link.to}`);
+      const linked = await createCharmLink(
+        sourceCharmId,
+        source.path,
+        targetCharmId,
+        target.path,
+        space,
+        apiUrl,
+        labsDir,
+        log
+      );
+
+      if (linked) {
+        deployment.links.push(linkKey);
+        config = recordLinkHistory(config, source.path.join("/"), target.path.join("/"));
+        config = recordCharmLink(config, {
+          space,
+          apiUrl,
+          sourceCharmId,
+          sourcePath: source.path,
+          targetCharmId,
+          targetPath: target.path,
+        });
+        result.links.push({ from: link.from, to: link.to, status: "created" });
+      } else {
+        result.success = false;
+        result.error = `Failed to link ${link.from} → ${link.to}`;
+        result.links.push({ from: link.from, to: link.to, status: "failed" });
+      }
+    }
   }
+
+  deployment.appliedAt = new Date().toISOString();
+  config = recordManifestDeployment(config, deployment);
   await saveConfig(config);
 
-  // Select pattern
-  const patternPath = await selectPattern(config);
-  if (!patternPath) {
-    console.log("👋 Cancelled");
-    Deno.exit(0);
+  return { config, result };
+}
+
+function printManifestSummary(result: ManifestApplyResult, log: (...args: unknown[]) => void = console.log): void {
+  const deployed = Object.values(result.charms).filter(c => c.status === "deployed").length;
+  const reused = Object.values(result.charms).filter(c => c.status === "reused").length;
+  const created = result.links.filter(l => l.status === "created").length;
+  const skipped = result.links.filter(l => l.status === "skipped").length;
+
+  log(result.success ? "\n✅ Manifest applied" : `\n❌ Manifest failed: ${result.error}`);
+  log(`   Charms: ${deployed} deployed, ${reused} reused`);
+  log(`   Links: ${created} created, ${skipped} already in place\n`);
+  for (const [id, charm] of Object.entries(result.charms)) {
+    log(`   ${id}: ${charm.charmId}`);
   }
+  log("");
+}
 
-  // Save pattern usage immediately (even if deployment fails)
-  config = recordPatternUsage(config, patternPath);
+// Ask for a server and a space (remembering both as last used).
+// Returns null if the user cancels.
+async function promptForTargetAndSpace(
+  config: Config,
+  defaultTarget?: "local" | "staging" | "prod",
+  defaultSpace?: string
+): Promise<{ target: "local" | "staging" | "prod"; space: string } | null> {
+  const targetOptions: SelectOption[] = [
+    { label: "localhost:8000", value: "local", icon: "💻 " },
+    { label: "toolshed (staging)", value: "staging", icon: "🔧 " },
+    { label: "estuary (production)", value: "prod", icon: "🌐 " },
+  ];
+  const preferred = defaultTarget || config.lastDeploymentTarget || "local";
+  targetOptions.sort((a, b) => (a.value === preferred ? -1 : b.value === preferred ? 1 : 0));
+
+  const target = await interactiveSelect(targetOptions, "Select server:") as "local" | "staging" | "prod" | null;
+  if (!target) {
+    console.log("👋 Cancelled\n");
+    return null;
+  }
+
+  const space = await prompt("Enter space name", defaultSpace || getLastSpaceForTarget(config, target) || "");
+  if (!space) {
+    console.log("👋 Cancelled\n");
+    return null;
+  }
+
+  config = recordLastSpace(config, target, space);
   await saveConfig(config);
 
-  // Deploy - determine API URL based on target
-  const apiUrl = deploymentTarget === "prod"
-    ? "https://estuary.saga-castor.ts.net"
-    : deploymentTarget === "staging"
-      ? "https://toolshed.saga-castor.ts.net"
-      : "http://localhost:8000";
+  return { target, space };
+}
+
+// Interactive entry point from the link menu
+async function applyManifestInteractive(config: Config, labsDir: string): Promise<Config> {
+  console.log("\n📜 Apply Charm-Graph Manifest\n");
+
+  const pathInput = await prompt("Path to manifest (.json)");
+  if (!pathInput) {
+    console.log("👋 Cancelled\n");
+    return config;
+  }
+
+  const manifestPath = resolvePath(pathInput);
+  let manifest: CharmManifest;
+  try {
+    manifest = parseManifest(await Deno.readTextFile(manifestPath), manifestPath);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    console.log(`❌ ${message}\n`);
+    return config;
+  }
+
+  const selected = await promptForTargetAndSpace(config, manifest.target, manifest.space);
+  if (!selected) return config;
+
+  const applied = await applyManifest(
+    config,
+    manifestPath,
+    manifest,
+    selected.space,
+    getApiUrlForTarget(selected.target),
+    labsDir
+  );
+  printManifestSummary(applied.result);
+
+  return applied.config;
+}
+
+// ===== LINK GRAPH =====
+
+interface LinkGraphNode {
+  charmId: string;
+  name?: string;
+  missing: boolean;         // Linked to, but not listed in the space (deleted or in another space)
+}
+
+interface LinkGraphEdge {
+  sourceCharmId: string;
+  targetCharmId: string;
+  fields: string[];         // "sourcePath → targetPath", when the launcher recorded the link
+  broken: boolean;          // One end is a missing charm
+  inCycle: boolean;
+}
+
+interface LinkGraph {
+  space: string;
+  apiUrl: string;
+  nodes: LinkGraphNode[];
+  edges: LinkGraphEdge[];
+}
+
+// Inspect every charm in a space and collect the links between them
+async function buildLinkGraph(
+  config: Config,
+  space: string,
+  apiUrl: string,
+  labsDir: string,
+  log: (...args: unknown[]) => void = console.log
+): Promise<LinkGraph | null> {
+  log(`\n🔍 Fetching charms from ${space}...`);
+  const listed = await listSpaceCharms(space, apiUrl, labsDir, log);
+  if (listed === null) return null;
+
+  const nodes = new Map<string, LinkGraphNode>();
+  for (const { charmId, name } of listed) {
+    nodes.set(charmId, { charmId, name, missing: false });
+  }
+
+  const edgeKeys = new Set<string>();
+  const addEdge = (source: { id: string; name?: string }, target: { id: string; name?: string }) => {
+    for (const end of [source, target]) {
+      if (!nodes.has(end.id)) {
+        nodes.set(end.id, { charmId: end.id, name: end.name, missing: true });
+      }
+    }
+    edgeKeys.add(`${source.id} ${target.id}`);
+  };
+
+  for (const { charmId, name } of listed) {
+    const data = await inspectCharm(charmId, space, apiUrl, labsDir);
+    if (!data) {
+      log(`   ⚠️  Could not inspect ${name || "unnamed"}(${charmId.slice(-4)})`);
+      continue;
+    }
+    const self = { id: charmId, name: data.name || name };
+    for (const source of data.readingFrom || []) addEdge(source, self);
+    for (const target of data.readBy || []) addEdge(self, target);
+  }
+
+  const edges: LinkGraphEdge[] = [...edgeKeys].map(key => {
+    const [sourceCharmId, targetCharmId] = key.split(" ");
+    const fields = config.charmLinks
+      .filter(l =>
+        l.space === space &&
+        l.apiUrl === apiUrl &&
+        l.sourceCharmId === sourceCharmId &&
+        l.targetCharmId === targetCharmId
+      )
+      .map(l => `${l.sourcePath.join("/")} → ${l.targetPath.join("/")}`);
+    return {
+      sourceCharmId,
+      targetCharmId,
+      fields,
+      broken: nodes.get(sourceCharmId)!.missing || nodes.get(targetCharmId)!.missing,
+      inCycle: false,
+    };
+  });
+
+  const graph: LinkGraph = { space, apiUrl, nodes: [...nodes.values()], edges };
+  markCycles(graph);
+  return graph;
+}
+
+// Mark edges that are part of a cycle: self-links, and edges inside a strongly
+// connected component (Tarjan's algorithm) with more than one charm
+function markCycles(graph: LinkGraph): void {
+  const outgoing = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    outgoing.set(edge.sourceCharmId, [...(outgoing.get(edge.sourceCharmId) || []), edge.targetCharmId]);
+  }
+
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const component = new Map<string, number>();
+  const componentSize: number[] = [];
+  let counter = 0;
+
+  const strongConnect = (id: string) => {
+    index.set(id, counter);
+    lowlink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of outgoing.get(id) || []) {
+      if (!index.has(next)) {
+        strongConnect(next);
+        lowlink.set(id, Math.min(lowlink.get(id)!, lowlink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowlink.set(id, Math.min(lowlink.get(id)!, index.get(next)!));
+      }
+    }
+
+    if (lowlink.get(id) === index.get(id)) {
+      const componentId = componentSize.length;
+      let size = 0;
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.set(member, componentId);
+        size++;
+      } while (member !== id);
+      componentSize.push(size);
+    }
+  };
+
+  for (const node of graph.nodes) {
+    if (!index.has(node.charmId)) strongConnect(node.charmId);
+  }
+
+  for (const edge of graph.edges) {
+    const sourceComponent = component.get(edge.sourceCharmId)!;
+    edge.inCycle = edge.sourceCharmId === edge.targetCharmId ||
+      (sourceComponent === component.get(edge.targetCharmId) && componentSize[sourceComponent] > 1);
+  }
+}
+
+function formatGraphNode(node: LinkGraphNode): string {
+  const name = node.missing ? "missing" : node.name || "unnamed";
+  return `${name}(${node.charmId.slice(-4)})`;
+}
+
+function renderGraphDot(graph: LinkGraph): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+  const lines = [
+    `digraph ${quote(graph.space)} {`,
+    "  rankdir=LR;",
+    "  node [shape=box, style=rounded];",
+  ];
+
+  for (const node of graph.nodes) {
+    const label = quote(`${node.missing ? "missing" : node.name || "unnamed"}\n${formatCharmId(node.charmId)}`);
+    const style = node.missing ? ", style=\"rounded,dashed\", color=red, fontcolor=red" : "";
+    lines.push(`  ${quote(node.charmId)} [label=${label}${style}];`);
+  }
+
+  for (const edge of graph.edges) {
+    const attributes: string[] = [];
+    if (edge.fields.length > 0) attributes.push(`label=${quote(edge.fields.join("\n"))}`);
+    if (edge.broken) attributes.push("style=dashed", "color=red");
+    else if (edge.inCycle) attributes.push("color=orange", "penwidth=2");
+    const attributeText = attributes.length > 0 ? ` [${attributes.join(", ")}]` : "";
+    lines.push(`  ${quote(edge.sourceCharmId)} -> ${quote(edge.targetCharmId)}${attributeText};`);
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+function renderGraphMermaid(graph: LinkGraph): string {
+  // Mermaid node IDs can't be charm IDs (too long, and reserved words are a risk)
+  const nodeIds = new Map(graph.nodes.map((node, i) => [node.charmId, `c${i}`]));
+  const escape = (text: string) => text.replace(/"/g, "#quot;");
+  const lines = ["flowchart LR"];
+
+  for (const node of graph.nodes) {
+    lines.push(`  ${nodeIds.get(node.charmId)}["${escape(formatGraphNode(node))}"]`);
+  }
+
+  graph.edges.forEach((edge) => {
+    const arrow = edge.broken ? "-.->" : "-->";
+    const label = edge.fields.length > 0 ? `|"${escape(edge.fields.join(", "))}"|` : "";
+    lines.push(`  ${nodeIds.get(edge.sourceCharmId)} ${arrow}${label} ${nodeIds.get(edge.targetCharmId)}`);
+  });
+
+  const missing = graph.nodes.filter(n => n.missing).map(n => nodeIds.get(n.charmId));
+  if (missing.length > 0) {
+    lines.push("  classDef missing stroke:#d33,color:#d33,stroke-dasharray:4");
+    lines.push(`  class ${missing.join(",")} missing`);
+  }
+
+  graph.edges.forEach((edge, i) => {
+    if (edge.broken) lines.push(`  linkStyle ${i} stroke:#d33`);
+    else if (edge.inCycle) lines.push(`  linkStyle ${i} stroke:orange,stroke-width:2px`);
+  });
+
+  return lines.join("\n");
+}
+
+// Terminal rendering: one tree per root (charms nothing reads from), following
+// links downstream. Charms reached again are referenced instead of repeated.
+function renderGraphAscii(graph: LinkGraph): string {
+  const nodes = new Map(graph.nodes.map(n => [n.charmId, n]));
+  const outgoing = new Map<string, LinkGraphEdge[]>();
+  const hasIncoming = new Set<string>();
+  for (const edge of graph.edges) {
+    outgoing.set(edge.sourceCharmId, [...(outgoing.get(edge.sourceCharmId) || []), edge]);
+    if (edge.sourceCharmId !== edge.targetCharmId) hasIncoming.add(edge.targetCharmId);
+  }
+
+  const lines: string[] = [];
+  const printed = new Set<string>();
+
+  const describe = (node: LinkGraphNode) =>
+    node.missing ? `✗ ${formatGraphNode(node)} (deleted or in another space)` : formatGraphNode(node);
+
+  const walk = (charmId: string, prefix: string, path: Set<string>) => {
+    const edges = outgoing.get(charmId) || [];
+    edges.forEach((edge, i) => {
+      const last = i === edges.length - 1;
+      const target = nodes.get(edge.targetCharmId)!;
+      const fields = edge.fields.length > 0 ? ` [${edge.fields.join(", ")}]` : "";
+      const branch = `${prefix}${last ? "└── " : "├── "}`;
+
+      if (path.has(edge.targetCharmId)) {
+        lines.push(`${branch}↺ ${formatGraphNode(target)}${fields} (cycle)`);
+      } else if (printed.has(edge.targetCharmId)) {
+        lines.push(`${branch}${formatGraphNode(target)}${fields} (see above)`);
+      } else {
+        lines.push(`${branch}${describe(target)}${fields}${edge.broken ? " ⚠️ broken link" : ""}`);
+        printed.add(edge.targetCharmId);
+        walk(edge.targetCharmId, `${prefix}${last ? "    " : "│   "}`, new Set([...path, edge.targetCharmId]));
+      }
+    });
+  };
+
+  const start = (node: LinkGraphNode) => {
+    lines.push(describe(node));
+    printed.add(node.charmId);
+    walk(node.charmId, "", new Set([node.charmId]));
+  };
+
+  // Roots first, then anything only reachable through a cycle
+  for (const node of graph.nodes) {
+    if (!hasIncoming.has(node.charmId) && !printed.has(node.charmId)) start(node);
+  }
+  for (const node of graph.nodes) {
+    if (!printed.has(node.charmId)) start(node);
+  }
+
+  return lines.join("\n");
+}
+
+function printLinkGraphSummary(graph: LinkGraph, log: (...args: unknown[]) => void = console.log): void {
+  const missing = graph.nodes.filter(n => n.missing).length;
+  const broken = graph.edges.filter(e => e.broken).length;
+  const cycles = graph.edges.filter(e => e.inCycle).length;
+
+  log(`\n📈 ${graph.nodes.length - missing} charms, ${graph.edges.length} links`);
+  if (broken > 0) log(`   ⚠️  ${broken} broken link${broken !== 1 ? "s" : ""} to ${missing} missing charm${missing !== 1 ? "s" : ""}`);
+  if (cycles > 0) log(`   ↺  ${cycles} link${cycles !== 1 ? "s" : ""} in cycles`);
+  log("");
+}
+
+// Interactive entry point from the link menu
+async function viewLinkGraph(config: Config, labsDir: string): Promise<void> {
+  console.log("\n🕸️  Link Graph\n");
+
+  const selected = await promptForTargetAndSpace(config);
+  if (!selected) return;
+
+  const graph = await buildLinkGraph(config, selected.space, getApiUrlForTarget(selected.target), labsDir);
+  if (!graph) return;
+
+  console.log(`\n🕸️  Link graph for ${selected.space}\n`);
+  console.log(graph.nodes.length > 0 ? renderGraphAscii(graph) : "(no charms)");
+  printLinkGraphSummary(graph);
+
+  const options: SelectOption[] = [
+    { label: "Save as Graphviz DOT (.dot)", value: "dot", icon: "💾 " },
+    { label: "Save as Mermaid (.mmd)", value: "mermaid", icon: "💾 " },
+    { label: "Done", value: "done", icon: "✅ " },
+  ];
+  const format = await interactiveSelect(options, "Export graph?");
+  if (format !== "dot" && format !== "mermaid") return;
+
+  const extension = format === "dot" ? "dot" : "mmd";
+  const outputPath = resolvePath(await prompt("Save to", `${selected.space}-links.${extension}`));
+  await Deno.writeTextFile(
+    outputPath,
+    (format === "dot" ? renderGraphDot(graph) : renderGraphMermaid(graph)) + "\n"
+  );
+  console.log(`\n✅ Saved ${outputPath}\n`);
+}
+
+// ===== SPACE SNAPSHOTS =====
+
+interface SnapshotCharm {
+  charmId: string;            // ID in the exported space (links refer to this)
+  name?: string;
+  patternPath?: string;       // Relative to the repo root when inside it, else absolute
+  sourceFile?: string;        // Source file name reported by the runtime
+  inputs: Record<string, unknown>;
+  result: Record<string, unknown>;
+}
+
+interface SnapshotLink {
+  sourceCharmId: string;
+  targetCharmId: string;
+  sourcePath?: string[];      // Field paths, when the launcher created (and recorded) the link
+  targetPath?: string[];
+}
+
+interface SpaceSnapshot {
+  version: 1;
+  exportedAt: string;         // ISO timestamp
+  space: string;
+  apiUrl: string;
+  charms: SnapshotCharm[];
+  links: SnapshotLink[];
+}
+
+interface SpaceImportResult {
+  success: boolean;
+  charms: Record<string, string>;   // Exported charm ID → new charm ID
+  skipped: string[];                // Charms whose pattern couldn't be found or deployed
+  links: { created: number; failed: number; manual: SnapshotLink[] };
+  error?: string;
+}
+
+// Ask the runtime which source file a charm was created from
+async function getCharmSourceFile(
+  charmId: string,
+  space: string,
+  apiUrl: string,
+  labsDir: string
+): Promise<string | null> {
+  try {
+    const command = new Deno.Command("deno", {
+      args: [
+        "task",
+        "ct",
+        "charm",
+        "get",
+        "--space", space,
+        "--charm", charmId,
+        "--api-url", apiUrl,
+        "--identity", IDENTITY_PATH,
+        "sourceFile",
+      ],
+      cwd: labsDir,
+      stdout: "piped",
+      stderr: "piped",
+    });
+
+    const { code, stdout } = await command.output();
+    if (code !== 0) return null;
+
+    const output = new TextDecoder().decode(stdout).trim();
+    if (!output || output === "null" || output === "undefined") return null;
+
+    // Remove quotes if present
+    return output.replace(/^"|"$/g, "");
+  } catch {
+    return null;
+  }
+}
+
+// Write one input field of a charm via `ct charm set --input` (value is sent as JSON on stdin)
+async function setCharmInput(
+  charmId: string,
+  path: string[],
+  value: unknown,
+  space: string,
+  apiUrl: string,
+  labsDir: string
+): Promise<boolean> {
+  try {
+    const command = new Deno.Command("deno", {
+      args: [
+        "task",
+        "ct",
+        "charm",
+        "set",
+        "--space", space,
+        "--charm", charmId,
+        "--api-url", apiUrl,
+        "--identity", IDENTITY_PATH,
+        "--input",
+        path.join("/"),
+      ],
+      cwd: labsDir,
+      stdin: "piped",
+      stdout: "piped",
+      stderr: "piped",
+    });
+
+    const child = command.spawn();
+    const writer = child.stdin.getWriter();
+    await writer.write(new TextEncoder().encode(JSON.stringify(value)));
+    await writer.close();
+
+    const { code } = await child.output();
+    return code === 0;
+  } catch {
+    return false;
+  }
+}
+
+// Find a local pattern file for a charm: launcher history first, then a
+// search of patterns/ for the source file name the runtime reported
+async function findPatternFile(
+  config: Config,
+  charmId: string,
+  sourceFile: string | null
+): Promise<string | undefined> {
+  const known = config.recentCharms.find(c => c.charmId === charmId)?.patternPath;
+  if (known) return known;
+  if (!sourceFile) return undefined;
+
+  const fileName = sourceFile.split("/").pop()!;
+  const fromHistory = config.patterns.find(p => p.path.split("/").pop() === fileName);
+  if (fromHistory) return fromHistory.path;
+
+  const search = async (dir: string): Promise<string | undefined> => {
+    try {
+      for await (const entry of Deno.readDir(dir)) {
+        const path = `${dir}${entry.name}`;
+        if (entry.isFile && entry.name === fileName) return path;
+        if (entry.isDirectory && !entry.name.startsWith(".")) {
+          const found = await search(`${path}/`);
+          if (found) return found;
+        }
+      }
+    } catch {
+      // Unreadable directory, skip it
+    }
+    return undefined;
+  };
+  return await search(`${REPO_ROOT}patterns/`);
+}
+
+// Store repo-relative paths so the snapshot works from another checkout
+function toSnapshotPath(path: string): string {
+  return path.startsWith(REPO_ROOT) ? path.slice(REPO_ROOT.length) : path;
+}
+
+async function exportSpace(
+  config: Config,
+  space: string,
+  apiUrl: string,
+  labsDir: string,
+  log: (...args: unknown[]) => void = console.log
+): Promise<SpaceSnapshot | null> {
+  log(`\n🔍 Fetching charms from ${space}...`);
+  const listed = await listSpaceCharms(space, apiUrl, labsDir, log);
+  if (listed === null) return null;
+
+  const snapshot: SpaceSnapshot = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    space,
+    apiUrl,
+    charms: [],
+    links: [],
+  };
+  const edges = new Set<string>();
+
+  for (const { charmId, name } of listed) {
+    const data = await inspectCharm(charmId, space, apiUrl, labsDir);
+    if (!data) {
+      log(`   ⚠️  Could not inspect ${name || "unnamed"}(${charmId.slice(-4)}), skipping`);
+      continue;
+    }
+
+    const sourceFile = await getCharmSourceFile(charmId, space, apiUrl, labsDir);
+    const patternPath = await findPatternFile(config, charmId, sourceFile);
+
+    snapshot.charms.push({
+      charmId,
+      name: data.name || name,
+      patternPath: patternPath ? toSnapshotPath(patternPath) : undefined,
+      sourceFile: sourceFile || undefined,
+      inputs: data.source || {},
+      result: data.result || {},
+    });
+
+    for (const source of data.readingFrom || []) {
+      edges.add(`${source.id} ${charmId}`);
+    }
+    log(`   📄 ${data.name || name || "unnamed"}(${charmId.slice(-4)})${patternPath ? "" : "  ⚠️ pattern file not found"}`);
+  }
+
+  // Field-level links we know about; charm-level edges without one are kept as-is
+  for (const edge of edges) {
+    const [sourceCharmId, targetCharmId] = edge.split(" ");
+    const recorded = config.charmLinks.filter(l =>
+      l.space === space &&
+      l.apiUrl === apiUrl &&
+      l.sourceCharmId === sourceCharmId &&
+      l.targetCharmId === targetCharmId
+    );
+
+    if (recorded.length === 0) {
+      snapshot.links.push({ sourceCharmId, targetCharmId });
+    }
+    for (const link of recorded) {
+      snapshot.links.push({
+        sourceCharmId,
+        targetCharmId,
+        sourcePath: link.sourcePath,
+        targetPath: link.targetPath,
+      });
+    }
+  }
+
+  return snapshot;
+}
+
+function parseSnapshot(text: string, snapshotPath: string): SpaceSnapshot {
+  let data: SpaceSnapshot;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    throw new Error(`${snapshotPath} is not valid JSON: ${message}`);
+  }
+  if (data?.version !== 1 || !Array.isArray(data.charms) || !Array.isArray(data.links)) {
+    throw new Error(`${snapshotPath} is not a version 1 space snapshot`);
+  }
+  return data;
+}
+
+// Recreate a snapshot in a (usually new) space: deploy every pattern, restore
+// inputs that aren't fed by links, then re-create the links between the new charms
+async function importSpace(
+  config: Config,
+  snapshot: SpaceSnapshot,
+  space: string,
+  apiUrl: string,
+  labsDir: string,
+  log: (...args: unknown[]) => void = console.log
+): Promise<{ config: Config; result: SpaceImportResult }> {
+  const result: SpaceImportResult = {
+    success: true,
+    charms: {},
+    skipped: [],
+    links: { created: 0, failed: 0, manual: [] },
+  };
+
+  log(`\n📥 Importing ${snapshot.charms.length} charms from ${snapshot.space} into ${space}\n`);
+
+  // Step 1: Deploy patterns
+  for (const charm of snapshot.charms) {
+    const label = `${charm.name || "unnamed"}(${charm.charmId.slice(-4)})`;
+    const patternPath = charm.patternPath ? resolvePath(charm.patternPath, REPO_ROOT) : undefined;
+
+    let exists = false;
+    if (patternPath) {
+      try {
+        exists = (await Deno.stat(patternPath)).isFile;
+      } catch {
+        // Missing pattern file, handled below
+      }
+    }
+    if (!patternPath || !exists) {
+      log(`⚠️  ${label}: pattern file not found (${charm.patternPath || charm.sourceFile || "unknown"}), skipping`);
+      result.skipped.push(label);
+      continue;
+    }
+
+    const deployed = await deployPattern(patternPath, space, apiUrl, labsDir, { interactive: false, log });
+    if (!deployed || deployed === "success" || !deployed.startsWith("ba")) {
+      log(`❌ ${label}: deployment failed, skipping`);
+      result.skipped.push(label);
+      continue;
+    }
+
+    config = recordPatternUsage(config, patternPath);
+    config = recordRecentCharm(config, deployed, space, apiUrl, patternPath);
+    result.charms[charm.charmId] = deployed;
+  }
+  await saveConfig(config);
+
+  // Step 2: Restore inputs, except top-level fields that a link will provide
+  const linkedInputs = new Set(
+    snapshot.links
+      .filter(l => l.targetPath && l.targetPath.length > 0)
+      .map(l => `${l.targetCharmId} ${l.targetPath![0]}`)
+  );
+  // Links without recorded paths could feed any input, and restoring it would
+  // turn the live value into a static copy, so those charms keep their defaults
+  const unknownLinkTargets = new Set(
+    snapshot.links
+      .filter(l => !l.targetPath || l.targetPath.length === 0)
+      .map(l => l.targetCharmId)
+  );
+
+  for (const charm of snapshot.charms) {
+    const newCharmId = result.charms[charm.charmId];
+    if (!newCharmId) continue;
+
+    if (unknownLinkTargets.has(charm.charmId) && Object.keys(charm.inputs).length > 0) {
+      log(`⚠️  ${charm.name || "unnamed"}: inputs not restored, it is fed by a link with no recorded field paths`);
+      continue;
+    }
+
+    for (const [key, value] of Object.entries(charm.inputs)) {
+      if (value === null || value === undefined) continue;
+      if (linkedInputs.has(`${charm.charmId} ${key}`)) continue;
+
+      if (!await setCharmInput(newCharmId, [key], value, space, apiUrl, labsDir)) {
+        log(`⚠️  ${charm.name || "unnamed"}: could not restore input "${key}"`);
+      }
+    }
+  }
+
+  // Step 3: Re-create links between the new charms
+  for (const link of snapshot.links) {
+    const sourceCharmId = result.charms[link.sourceCharmId];
+    const targetCharmId = result.charms[link.targetCharmId];
+    if (!sourceCharmId || !targetCharmId) continue;
+
+    if (!link.sourcePath || !link.targetPath) {
+      result.links.manual.push({ ...link, sourceCharmId, targetCharmId });
+      continue;
+    }
+
+    const linked = await createCharmLink(
+      sourceCharmId,
+      link.sourcePath,
+      targetCharmId,
+      link.targetPath,
+      space,
+      apiUrl,
+      labsDir,
+      log
+    );
+
+    if (linked) {
+      result.links.created++;
+      config = recordCharmLink(config, {
+        space,
+        apiUrl,
+        sourceCharmId,
+        sourcePath: link.sourcePath,
+        targetCharmId,
+        targetPath: link.targetPath,
+      });
+    } else {
+      result.links.failed++;
+    }
+  }
+  await saveConfig(config);
+
+  result.success = result.skipped.length === 0 && result.links.failed === 0;
+  if (!result.success) {
+    result.error = `${result.skipped.length} charm(s) skipped, ${result.links.failed} link(s) failed`;
+  }
+
+  return { config, result };
+}
+
+function printImportSummary(result: SpaceImportResult, log: (...args: unknown[]) => void = console.log): void {
+  log(result.success ? "\n✅ Space imported" : `\n⚠️  Space imported with problems: ${result.error}`);
+  log(`   Charms: ${Object.keys(result.charms).length} deployed, ${result.skipped.length} skipped`);
+  log(`   Links: ${result.links.created} created, ${result.links.failed} failed`);
+
+  if (result.links.manual.length > 0) {
+    log(`\n   ${result.links.manual.length} link(s) have no recorded field paths and must be re-created by hand:`);
+    for (const link of result.links.manual) {
+      log(`     ${formatCharmId(link.sourceCharmId)} → ${formatCharmId(link.targetCharmId)}`);
+    }
+  }
+  log("");
+}
+
+// Why a snapshot can't be written to outputPath (absolute), or undefined if it can be tried
+async function snapshotOutputError(outputPath: string): Promise<string | undefined> {
+  try {
+    if ((await Deno.stat(outputPath)).isDirectory) return `${outputPath} is a directory`;
+    return undefined;
+  } catch {
+    // Doesn't exist yet, which is the usual case
+  }
+  const folder = outputPath.slice(0, outputPath.lastIndexOf("/")) || "/";
+  try {
+    if (!(await Deno.stat(folder)).isDirectory) return `${folder} is not a directory`;
+  } catch {
+    return `${folder} does not exist`;
+  }
+  return undefined;
+}
+
+async function exportSpaceInteractive(config: Config, labsDir: string): Promise<Config> {
+  console.log("\n💾 Export Space Snapshot\n");
+
+  const selected = await promptForTargetAndSpace(config);
+  if (!selected) return config;
+
+  const snapshot = await exportSpace(config, selected.space, getApiUrlForTarget(selected.target), labsDir);
+  if (!snapshot) return config;
+
+  const pathInput = await prompt("Save snapshot to", `${selected.space}.snapshot.json`);
+  if (!pathInput) {
+    console.log("👋 Cancelled\n");
+    return config;
+  }
+
+  const outputPath = resolvePath(pathInput);
+  const pathError = await snapshotOutputError(outputPath);
+  if (pathError) {
+    console.log(`❌ ${pathError}\n`);
+    return config;
+  }
+
+  try {
+    await Deno.writeTextFile(outputPath, JSON.stringify(snapshot, null, 2));
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    console.log(`❌ Could not write ${outputPath}: ${message}\n`);
+    return config;
+  }
+
+  console.log(`\n✅ Exported ${snapshot.charms.length} charms and ${snapshot.links.length} links`);
+  console.log(`   ${outputPath}\n`);
+  return config;
+}
+
+async function importSpaceInteractive(config: Config, labsDir: string): Promise<Config> {
+  console.log("\n📥 Import Space Snapshot\n");
+
+  const pathInput = await prompt("Path to snapshot (.json)");
+  if (!pathInput) {
+    console.log("👋 Cancelled\n");
+    return config;
+  }
+
+  const snapshotPath = resolvePath(pathInput);
+  let snapshot: SpaceSnapshot;
+  try {
+    snapshot = parseSnapshot(await Deno.readTextFile(snapshotPath), snapshotPath);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    console.log(`❌ ${message}\n`);
+    return config;
+  }
+
+  console.log(`Snapshot of ${snapshot.space}: ${snapshot.charms.length} charms, ${snapshot.links.length} links\n`);
+
+  const selected = await promptForTargetAndSpace(config, undefined, getNextSpaceName(snapshot.space));
+  if (!selected) return config;
+
+  const imported = await importSpace(
+    config,
+    snapshot,
+    selected.space,
+    getApiUrlForTarget(selected.target),
+    labsDir
+  );
+  printImportSummary(imported.result);
+
+  return imported.config;
+}
+
+// ===== WATCH MODE =====
+
+// Wait this long after the last change before updating, so one save that
+// touches several files (or an editor's write-then-rename) triggers one update
+const WATCH_DEBOUNCE_MS = 300;
+
+// How often to look for the pattern's directory again if it disappears
+const WATCH_RETRY_MS = 2000;
+
+// The pattern file plus every file it reaches through relative imports
+// (its lib/, util/ and utils/ helpers), as absolute paths
+async function collectLocalImports(patternPath: string): Promise<string[]> {
+  const importPattern = /(?:import|export)\s[^;]*?from\s*["'](\.[^"']+)["']|import\s*["'](\.[^"']+)["']/g;
+  const files = new Set<string>();
+
+  const visit = async (path: string) => {
+    if (files.has(path)) return;
+    let text: string;
+    try {
+      text = await Deno.readTextFile(path);
+    } catch {
+      return;  // Missing imports show up as compile errors instead
+    }
+    files.add(path);
+
+    const dir = path.substring(0, path.lastIndexOf("/"));
+    for (const match of text.matchAll(importPattern)) {
+      await visit(resolvePath(match[1] ?? match[2], dir));
+    }
+  };
+
+  await visit(patternPath);
+  return [...files];
+}
+
+// Replace a charm's pattern source in place, keeping its ID and data
+async function setCharmSource(
+  charmId: string,
+  patternPath: string,
+  space: string,
+  apiUrl: string,
+  labsDir: string
+): Promise<{ success: boolean; output: string }> {
+  try {
+    const command = new Deno.Command("deno", {
+      args: [
+        "task",
+        "ct",
+        "charm",
+        "setsrc",
+        "--space", space,
+        "--charm", charmId,
+        "--api-url", apiUrl,
+        "--identity", IDENTITY_PATH,
+        patternPath,
+      ],
+      cwd: labsDir,
+      stdout: "piped",
+      stderr: "piped",
+    });
+
+    const { code, stdout, stderr } = await command.output();
+    const output = (new TextDecoder().decode(stdout) + new TextDecoder().decode(stderr)).trim();
+    return { success: code === 0, output };
+  } catch (e) {
+    return { success: false, output: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+// Watch a pattern and its local imports, pushing each change to the same charm
+// with setsrc. Runs until interrupted (Ctrl+C).
+async function watchPattern(
+  config: Config,
+  patternPath: string,
+  charmId: string,
+  space: string,
+  apiUrl: string,
+  labsDir: string
+): Promise<never> {
+  let files = await collectLocalImports(patternPath);
+  let watcher: Deno.FsWatcher | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let updating = false;
+  let pending = false;
+
+  const printWatchedFiles = () => {
+    console.log(`\n👀 Watching ${files.length} file${files.length !== 1 ? "s" : ""}:`);
+    for (const file of files) {
+      console.log(`   ${getShortPath(file)}`);
+    }
+    console.log(`\n   Charm: ${apiUrl}/${space}/${charmId}`);
+    console.log("   Press Ctrl+C to stop\n");
+  };
+
+  const update = async () => {
+    if (updating) {
+      pending = true;
+      return;
+    }
+    updating = true;
+
+    const time = new Date().toLocaleTimeString();
+    const newFiles = await collectLocalImports(patternPath);
+    if (newFiles.length === 0) {
+      // Deleted or renamed away: keep the charm as is and wait for it to return
+      console.log(`⚠️  [${time}] ${getShortPath(patternPath)} is missing - waiting for it to come back\n`);
+      files = newFiles;
+      watcher?.close();
+      updating = false;
+      pending = false;
+      return;
+    }
+
+    console.log(`🔄 [${time}] Change detected, updating ${formatCharmId(charmId)}...`);
+    const result = await setCharmSource(charmId, patternPath, space, apiUrl, labsDir);
+
+    if (result.success) {
+      console.log(`✅ [${new Date().toLocaleTimeString()}] Updated - refresh the browser to see changes\n`);
+      config = recordRecentCharm(config, charmId, space, apiUrl, patternPath);
+      await saveConfig(config);
+    } else {
+      console.log(`❌ [${new Date().toLocaleTimeString()}] Update failed - fix the errors below and save again\n`);
+      for (const line of result.output.split("\n")) {
+        console.log(`   ${line}`);
+      }
+      console.log("");
+    }
+
+    // Imports may have been added or removed; restart the watcher if so
+    if (newFiles.join("\n") !== files.join("\n")) {
+      files = newFiles;
+      printWatchedFiles();
+      watcher?.close();
+    }
+
+    updating = false;
+    if (pending) {
+      pending = false;
+      await update();
+    }
+  };
+
+  printWatchedFiles();
+
+  while (true) {
+    // Watch directories rather than files: editors that save by writing a new
+    // file and renaming it over the old one would otherwise end the watch.
+    // While the pattern is missing, watch for it to be recreated.
+    const watchedFiles = files.length > 0 ? files : [patternPath];
+    const dirs = [...new Set(watchedFiles.map(f => f.substring(0, f.lastIndexOf("/"))))];
+    const watched = new Set(watchedFiles);
+    try {
+      watcher = Deno.watchFs(dirs, { recursive: false });
+    } catch (e) {
+      if (!(e instanceof Deno.errors.NotFound)) throw e;
+      // Its directory is gone too; look again shortly
+      await new Promise(resolve => setTimeout(resolve, WATCH_RETRY_MS));
+      files = await collectLocalImports(patternPath);
+      continue;
+    }
+
+    for await (const event of watcher) {
+      if (event.kind === "access" || !event.paths.some(p => watched.has(p))) continue;
+      clearTimeout(timer);
+      timer = setTimeout(update, WATCH_DEBOUNCE_MS);
+    }
+  }
+}
+
+// ===== NON-INTERACTIVE MODE =====
+
+function printHelp(): void {
+  console.log(`
+Pattern Launcher CLI
+Deploy CommonTools patterns interactively, or from scripts with flags
+
+USAGE:
+  ./tools/launch.ts                       Interactive mode (menus)
+  ./tools/launch.ts --pattern <path> [options]
+  ./tools/launch.ts --pattern <path> --watch [--charm <id>] [options]
+  ./tools/launch.ts --manifest <path> [options]
+  ./tools/launch.ts --export-space <file> [options]
+  ./tools/launch.ts --import-space <file> [options]
+  ./tools/launch.ts --graph <ascii|dot|mermaid> [options]
+
+OPTIONS:
+  --pattern <path>    Pattern file to deploy (enables non-interactive mode)
+  --watch             With --pattern: keep running and update the charm in place (setsrc) on every save
+  --charm <id>        With --watch: update this existing charm instead of deploying a new one
+  --manifest <path>   Charm-graph manifest (.json) to deploy and link; re-applying is idempotent
+  --export-space <file>  Write a snapshot of --space (charms, inputs, results, links) to <file>
+  --import-space <file>  Recreate a snapshot in --space (deploys patterns, restores inputs and links)
+  --graph <format>    Print the link graph of --space as ascii, dot (Graphviz) or mermaid
+  --target <target>   local | staging | prod (default: last used target)
+  --space <name>      Space to deploy into (default: last space for target)
+  --labs-dir <path>   Labs repository to run ct from (default: config or ../labs)
+  --json              Print the result as JSON on stdout (progress goes to stderr)
+  --help              Show this help message
+
+EXAMPLES:
+  ./tools/launch.ts --pattern patterns/jkomoros/counter.tsx --space alex-1119-1
+  ./tools/launch.ts --pattern ./my.tsx --target staging --space demo --json
+  ./tools/launch.ts --pattern patterns/jkomoros/counter.tsx --space alex-1119-1 --watch
+  ./tools/launch.ts --manifest gmail-stack.json --space demo
+  ./tools/launch.ts --export-space demo.snapshot.json --space demo
+  ./tools/launch.ts --import-space demo.snapshot.json --target staging --space demo-copy
+  ./tools/launch.ts --graph dot --space demo | dot -Tsvg > demo-links.svg
+
+CONFIGURATION:
+  History stored in: ${CONFIG_FILE}
+`);
+}
+
+// Flags that only make sense without menus; any of them switches to non-interactive mode
+const NON_INTERACTIVE_FLAGS = [
+  "--pattern",
+  "--manifest",
+  "--export-space",
+  "--import-space",
+  "--graph",
+  "--watch",
+  "--charm",
+  "--target",
+  "--space",
+  "--labs-dir",
+  "--json",
+];
+
+function getArgValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  return value && !value.startsWith("--") ? value : undefined;
+}
+
+// Resolve a path against baseDir (default: cwd), collapsing "." and ".." segments
+function resolvePath(path: string, baseDir: string = Deno.cwd()): string {
+  const joined = path.startsWith("/") ? path : `${baseDir}/${path}`;
+  const segments: string[] = [];
+  for (const segment of joined.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return `/${segments.join("/")}`;
+}
+
+interface NonInteractiveResult {
+  success: boolean;
+  charmId?: string;
+  url?: string;
+  space?: string;
+  target?: "local" | "staging" | "prod";
+  apiUrl?: string;
+  patternPath?: string;
+  manifestPath?: string;
+  snapshotPath?: string;
+  charms?: ManifestApplyResult["charms"] | SpaceImportResult["charms"];
+  links?: ManifestApplyResult["links"] | SpaceImportResult["links"] | SnapshotLink[];
+  skipped?: string[];
+  graph?: LinkGraph;
+  error?: string;
+}
+
+// Deploy a pattern (or apply a manifest) from flags without any prompts. Records
+// patterns and charms in .launcher-history exactly like the interactive flow does.
+async function runNonInteractive(args: string[]): Promise<void> {
+  const json = args.includes("--json");
+  // Keep stdout clean for the JSON result, or for a rendered graph that is
+  // piped into another tool (--graph dot | dot -Tsvg)
+  const log = json || getArgValue(args, "--graph") ? console.error : console.log;
+
+  const finish = (result: NonInteractiveResult): never => {
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else if (!result.success) {
+      log(`❌ ${result.error}`);
+    } else if (result.patternPath) {
+      log(`charmId: ${result.charmId ?? "(unknown)"}`);
+      log(`url: ${result.url}`);
+    }
+    // Other modes print their own summary
+    Deno.exit(result.success ? 0 : 1);
+  };
+
+  let config = await loadConfig();
+
+  const modeFlags = ["--pattern", "--manifest", "--export-space", "--import-space", "--graph"];
+  const modes = modeFlags.filter(flag => getArgValue(args, flag));
+  if (modes.length === 0) {
+    return finish({ success: false, error: `One of ${modeFlags.join(", ")} is required in non-interactive mode` });
+  }
+  if (modes.length > 1) {
+    return finish({ success: false, error: `Use only one of ${modes.join(", ")}` });
+  }
+
+  const patternArg = getArgValue(args, "--pattern");
+  const manifestArg = getArgValue(args, "--manifest");
+  const exportArg = getArgValue(args, "--export-space");
+  const importArg = getArgValue(args, "--import-space");
+  const graphFormat = getArgValue(args, "--graph");
+  const watch = args.includes("--watch");
+  const watchCharmId = getArgValue(args, "--charm");
+  if ((watch || args.includes("--charm")) && !patternArg) {
+    return finish({ success: false, error: "--watch and --charm can only be used with --pattern" });
+  }
+  if (args.includes("--charm") && !watch) {
+    return finish({ success: false, error: "--charm is only used with --watch" });
+  }
+  if (args.includes("--charm") && !watchCharmId) {
+    return finish({ success: false, error: "--charm needs a charm ID" });
+  }
+  if (watch && json) {
+    return finish({ success: false, error: "--watch keeps running and can't be combined with --json" });
+  }
+  if (graphFormat && graphFormat !== "ascii" && graphFormat !== "dot" && graphFormat !== "mermaid") {
+    return finish({ success: false, error: `Unknown graph format "${graphFormat}" (expected ascii, dot or mermaid)` });
+  }
+
+  let snapshot: SpaceSnapshot | undefined;
+  const snapshotPath = importArg ? resolvePath(importArg) : exportArg ? resolvePath(exportArg) : undefined;
+  if (importArg && snapshotPath) {
+    try {
+      snapshot = parseSnapshot(await Deno.readTextFile(snapshotPath), snapshotPath);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      return finish({ success: false, snapshotPath, error: message });
+    }
+  }
+  if (exportArg && snapshotPath) {
+    // Check before the export runs, not after
+    const pathError = await snapshotOutputError(snapshotPath);
+    if (pathError) return finish({ success: false, snapshotPath, error: pathError });
+  }
+
+  let manifest: CharmManifest | undefined;
+  const manifestPath = manifestArg ? resolvePath(manifestArg) : undefined;
+  if (manifestPath) {
+    try {
+      manifest = parseManifest(await Deno.readTextFile(manifestPath), manifestPath);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      return finish({ success: false, manifestPath, error: message });
+    }
+  }
+
+  const patternPath = patternArg ? resolvePath(patternArg) : undefined;
+  if (patternPath) {
+    try {
+      const stat = await Deno.stat(patternPath);
+      if (!stat.isFile) {
+        return finish({ success: false, error: `Not a file: ${patternPath}` });
+      }
+    } catch {
+      return finish({ success: false, error: `Pattern not found: ${patternPath}` });
+    }
+  }
+
+  const targetArg = getArgValue(args, "--target") ?? manifest?.target ?? config.lastDeploymentTarget ?? "local";
+  if (targetArg !== "local" && targetArg !== "staging" && targetArg !== "prod") {
+    return finish({ success: false, error: `Unknown target "${targetArg}" (expected local, staging or prod)` });
+  }
+  const target: "local" | "staging" | "prod" = targetArg;
+
+  // Importing into the last used space would mix the snapshot into existing work
+  if (importArg && !getArgValue(args, "--space")) {
+    return finish({ success: false, error: "--import-space needs an explicit --space to import into" });
+  }
+
+  const space = getArgValue(args, "--space") ?? manifest?.space ?? getLastSpaceForTarget(config, target);
+  if (!space) {
+    return finish({ success: false, error: `No --space given and no previous space for ${target}` });
+  }
+
+  const labsDir = getArgValue(args, "--labs-dir") ?? config.labsDir ?? DEFAULT_LABS_DIR;
+  try {
+    const stat = await Deno.stat(labsDir);
+    if (!stat.isDirectory) {
+      return finish({ success: false, error: `Labs directory is not a directory: ${labsDir}` });
+    }
+  } catch {
+    return finish({ success: false, error: `Labs directory not found: ${labsDir}` });
+  }
+
+  const apiUrl = getApiUrlForTarget(target);
+
+  // Same bookkeeping as the interactive flow: save target and space before deploying
+  config = recordLastSpace(config, target, space);
+  await saveConfig(config);
+
+  if (graphFormat) {
+    const graph = await buildLinkGraph(config, space, apiUrl, labsDir, log);
+    if (!graph) {
+      return finish({ success: false, space, target, apiUrl, error: `Could not list charms in ${space}` });
+    }
+    if (!json) {
+      // The rendered graph is the output, so it goes to stdout
+      console.log(
+        graphFormat === "dot" ? renderGraphDot(graph)
+          : graphFormat === "mermaid" ? renderGraphMermaid(graph)
+          : renderGraphAscii(graph)
+      );
+      if (graphFormat === "ascii") printLinkGraphSummary(graph, log);
+    }
+    return finish({ success: true, space, target, apiUrl, graph });
+  }
+
+  if (exportArg && snapshotPath) {
+    const exported = await exportSpace(config, space, apiUrl, labsDir, log);
+    if (!exported) {
+      return finish({ success: false, space, target, apiUrl, snapshotPath, error: `Could not list charms in ${space}` });
+    }
+    try {
+      await Deno.writeTextFile(snapshotPath, JSON.stringify(exported, null, 2));
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      return finish({
+        success: false,
+        space,
+        target,
+        apiUrl,
+        snapshotPath,
+        error: `Could not write ${snapshotPath}: ${message}`,
+      });
+    }
+    log(`\n✅ Exported ${exported.charms.length} charms and ${exported.links.length} links to ${snapshotPath}`);
+    return finish({
+      success: true,
+      space,
+      target,
+      apiUrl,
+      snapshotPath,
+      charms: Object.fromEntries(exported.charms.map(c => [c.charmId, c.patternPath || ""])),
+      links: exported.links,
+    });
+  }
+
+  if (snapshot && snapshotPath) {
+    const imported = await importSpace(config, snapshot, space, apiUrl, labsDir, log);
+    if (!json) {
+      printImportSummary(imported.result, log);
+    }
+    return finish({
+      success: imported.result.success,
+      space,
+      target,
+      apiUrl,
+      snapshotPath,
+      charms: imported.result.charms,
+      links: imported.result.links,
+      skipped: imported.result.skipped,
+      error: imported.result.error,
+    });
+  }
+
+  if (manifest && manifestPath) {
+    const applied = await applyManifest(config, manifestPath, manifest, space, apiUrl, labsDir, log);
+    if (!json) {
+      printManifestSummary(applied.result, log);
+    }
+    return finish({
+      success: applied.result.success,
+      space,
+      target,
+      apiUrl,
+      manifestPath,
+      charms: applied.result.charms,
+      links: applied.result.links,
+      error: applied.result.error,
+    });
+  }
+
+  // patternPath is always set when no manifest was given
+  const deployPath = patternPath!;
+  config = recordPatternUsage(config, deployPath);
+  await saveConfig(config);
+
+  if (watch && watchCharmId) {
+    // Reuse the given charm; push the current source first so it matches the file
+    const initial = await setCharmSource(watchCharmId, deployPath, space, apiUrl, labsDir);
+    if (!initial.success) {
+      log(`❌ Could not update ${formatCharmId(watchCharmId)}:\n${initial.output}\n`);
+    }
+    config = recordRecentCharm(config, watchCharmId, space, apiUrl, deployPath);
+    await saveConfig(config);
+    return await watchPattern(config, deployPath, watchCharmId, space, apiUrl, labsDir);
+  }
+
+  const result = await deployPattern(deployPath, space, apiUrl, labsDir, {
+    interactive: false,
+    log,
+  });
+
+  if (!result) {
+    return finish({
+      success: false,
+      space,
+      target,
+      apiUrl,
+      patternPath: deployPath,
+      error: "Deployment failed",
+    });
+  }
+
+  const charmId = result !== "success" && result.startsWith("ba") ? result : undefined;
+  if (charmId) {
+    config = recordRecentCharm(config, charmId, space, apiUrl, deployPath);
+  }
+  config = await cullNonExistentPatterns(config);
+  await saveConfig(config);
+
+  if (watch) {
+    if (!charmId) {
+      return finish({
+        success: false,
+        space,
+        target,
+        apiUrl,
+        patternPath: deployPath,
+        error: "Deployed, but could not read the charm ID to watch; rerun with --charm <id>",
+      });
+    }
+    return await watchPattern(config, deployPath, charmId, space, apiUrl, labsDir);
+  }
+
+  return finish({
+    success: true,
+    charmId,
+    url: charmId ? `${apiUrl}/${space}/${charmId}` : `${apiUrl}/${space}/`,
+    space,
+    target,
+    apiUrl,
+    patternPath: deployPath,
+  });
+}
+
+// ===== MAIN =====
+
+async function main() {
+  const args = Deno.args;
+
+  if (args.includes("--help") || args.includes("-h")) {
+    printHelp();
+    Deno.exit(0);
+  }
+
+  if (NON_INTERACTIVE_FLAGS.some(flag => args.includes(flag))) {
+    await runNonInteractive(args);
+    return;
+  }
+
+  // Load config
+  let config = await loadConfig();
+
+  // Clean up any invalid pattern entries (files that no longer exist)
+  const originalPatternCount = config.patterns.length;
+  config = await cullNonExistentPatterns(config);
+  const removedCount = originalPatternCount - config.patterns.length;
+
+  // Save cleaned config if anything was removed
+  if (removedCount > 0) {
+    await saveConfig(config);
+    console.log(`🧹 Cleaned up ${removedCount} invalid pattern${removedCount > 1 ? 's' : ''} from history\n`);
+  }
+
+  // Get labs directory (may prompt user if not configured)
+  const labsDir = await getLabsDir(config);
+
+  // Save labs dir to config if it was just determined
+  if (!config.labsDir && labsDir !== DEFAULT_LABS_DIR) {
+    config.labsDir = labsDir;
+    await saveConfig(config);
+  }
+
+  // Prompt for deployment target (first question)
+  const deploymentTarget = await promptForDeploymentTarget(config);
+
+  // Handle "link charms" menu
+  if (deploymentTarget === "link") {
+    config = await handleLinkCharms(config, labsDir);
+    Deno.exit(0);
+  }
+
+  // Handle "other actions" menu
+  if (deploymentTarget === "other") {
+    await handleOtherActions(config, labsDir);
+    // After handling other actions, exit (user can run the tool again)
+    Deno.exit(0);
+  }
+
+  // Prompt for space (deploymentTarget is now "local" | "staging" | "prod")
+  const space = await promptForSpace(config, deploymentTarget);
+  if (!space) {
+    console.log("❌ No space provided");
+    Deno.exit(1);
+  }
+
+  // Save deployment target and space immediately (even if deployment fails)
+  config = recordLastSpace(config, deploymentTarget, space);
+  await saveConfig(config);
+
+  // Select pattern
+  const patternPath = await selectPattern(config);
+  if (!patternPath) {
+    console.log("👋 Cancelled");
+    Deno.exit(0);
+  }
+
+  // Save pattern usage immediately (even if deployment fails)
+  config = recordPatternUsage(config, patternPath);
+  await saveConfig(config);
+
+  // Deploy - determine API URL based on target
+  const apiUrl = getApiUrlForTarget(deploymentTarget);
   const result = await deployPattern(patternPath, space, apiUrl, labsDir);
 
   if (!result) {